@@ -6,35 +6,259 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { trpc } from '@/utils/trpc';
-import { useState, useEffect, useCallback } from 'react';
-import type { Todo, CreateTodoInput, UpdateTodoInput } from '../../server/src/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DueDatePicker from '@/components/DueDatePicker';
+import PriorityBadge from '@/components/PriorityBadge';
+import PrioritySelect from '@/components/PrioritySelect';
+import TagPicker from '@/components/TagPicker';
+import AssigneePicker from '@/components/AssigneePicker';
+import AssigneeAvatars from '@/components/AssigneeAvatars';
+import ProjectSelect from '@/components/ProjectSelect';
+import BulkActionBar from '@/components/BulkActionBar';
+import ProjectSidebar, { type ProjectView } from '@/components/ProjectSidebar';
+import SubtaskTree from '@/components/SubtaskTree';
+import HighlightedText from '@/components/HighlightedText';
+import SimilarTodos from '@/components/SimilarTodos';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import TrashSheet from '@/components/TrashSheet';
+import TodoDetailSheet from '@/components/TodoDetailSheet';
+import RevisionHistoryDialog from '@/components/RevisionHistoryDialog';
+import MergeConflictDialog, { type TodoMergeConflict } from '@/components/MergeConflictDialog';
+import AuthScreen from '@/components/AuthScreen';
+import SettingsDialog from '@/components/SettingsDialog';
+import MembersDialog from '@/components/MembersDialog';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
+import NotificationBell from '@/components/NotificationBell';
+import { Toaster } from '@/components/ui/sonner';
+import { describeRecurrence, localTimeZone } from '@/lib/recurrence';
+import { memberToAssignee } from '@/lib/people';
+import { todoConflictOf, type ServerCopy } from '@/lib/conflicts';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { setWorkspaceId, trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { toast } from 'sonner';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { User, WorkspaceListItem, WorkspaceMember, Assignee, Todo, TodoListItem, TodoSearchResult, Tag, ProjectList, ProjectListItem, ProjectCounts, CreateTodoInput, CreateProjectInput, UpdateTodoInput, GetTodosInput, TodoFilter, TodoPriority, BulkTarget, BulkTodoResult, TodoChangeEvent } from '../../server/src/schema';
 
-function App() {
-  const [todos, setTodos] = useState<Todo[]>([]);
+type SortBy = NonNullable<GetTodosInput['sortBy']>;
+type SortDir = NonNullable<GetTodosInput['sortDir']>;
+type Status = NonNullable<GetTodosInput['status']>;
+type TagMatch = NonNullable<GetTodosInput['tagMatch']>;
+type AssigneeFilter = NonNullable<GetTodosInput['assignee']>;
+
+// A todo is overdue once its deadline has passed and it is still open
+const isOverdue = (todo: Todo): boolean =>
+  !todo.completed && todo.due_at !== null && todo.due_at.getTime() < Date.now();
+
+// Project id for a sidebar view: undefined = no filter, null = Inbox
+const projectIdForView = (view: ProjectView): number | null | undefined =>
+  view === 'all' ? undefined : view === 'inbox' ? null : view;
+
+const belongsToView = (todo: Todo, view: ProjectView): boolean =>
+  view === 'all' || todo.project_id === projectIdForView(view);
+
+// Sidebar counts for the current view; the todo list itself is only loaded a page at a time
+const countsForView = (projectList: ProjectList | null, view: ProjectView): ProjectCounts => {
+  if (!projectList) return { todo_count: 0, open_count: 0 };
+  if (view === 'inbox') return projectList.inbox;
+  if (view !== 'all') {
+    return projectList.projects.find((project: ProjectListItem) => project.id === view) ?? { todo_count: 0, open_count: 0 };
+  }
+  return [projectList.inbox, ...projectList.projects].reduce(
+    (sum: ProjectCounts, counts: ProjectCounts) => ({
+      todo_count: sum.todo_count + counts.todo_count,
+      open_count: sum.open_count + counts.open_count
+    }),
+    { todo_count: 0, open_count: 0 }
+  );
+};
+
+// Edit form values for a todo; also the base a merge compares against when saving clashes
+const editFormFor = (todo: TodoListItem): UpdateTodoInput => ({
+  id: todo.id,
+  version: todo.version,
+  title: todo.title,
+  description: todo.description,
+  completed: todo.completed,
+  due_at: todo.due_at,
+  priority: todo.priority,
+  project_id: todo.project_id,
+  recurrence: todo.recurrence,
+  assignee_ids: todo.assignees.map((assignee: Assignee) => assignee.id)
+});
+
+const matchesStatus = (todo: Todo, status: Status): boolean =>
+  status === 'all' || todo.completed === (status === 'completed');
+
+const matchesAssignee = (assignees: Assignee[], filter: AssigneeFilter | undefined, userId: number): boolean => {
+  if (filter === undefined) return true;
+  if (filter === 'unassigned') return assignees.length === 0;
+  const assigneeId = filter === 'me' ? userId : filter;
+  return assignees.some((assignee: Assignee) => assignee.id === assigneeId);
+};
+
+// Select values are strings; 'anyone' stands for no assignee filter
+const assigneeFilterValue = (filter: AssigneeFilter | undefined): string =>
+  filter === undefined ? 'anyone' : String(filter);
+
+const parseAssigneeFilter = (value: string): AssigneeFilter | undefined =>
+  value === 'anyone' ? undefined : value === 'me' || value === 'unassigned' ? value : Number(value);
+
+// Dates and priority read best newest/highest first, titles, deadlines and the manual order in natural order
+const defaultSortDir = (sortBy: SortBy): SortDir =>
+  sortBy === 'title' || sortBy === 'due' || sortBy === 'position' ? 'asc' : 'desc';
+
+// Live changes arriving within this long of each other share one reload
+const LIVE_REFRESH_DELAY_MS = 300;
+
+interface TodoAppProps {
+  user: User;
+  workspace: WorkspaceListItem;
+  workspaces: WorkspaceListItem[];
+  onSwitchWorkspace: (workspaceId: number) => void;
+  onCreateWorkspace: (name: string) => Promise<void>;
+  onLogout: () => void;
+}
+
+function TodoApp({ user, workspace, workspaces, onSwitchWorkspace, onCreateWorkspace, onLogout }: TodoAppProps) {
+  const [todos, setTodos] = useState<TodoListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [status, setStatus] = useState<Status>('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [highlights, setHighlights] = useState<Map<number, TodoSearchResult>>(new Map());
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [projectList, setProjectList] = useState<ProjectList | null>(null);
+  const [projectView, setProjectView] = useState<ProjectView>('all');
   const [isLoading, setIsLoading] = useState(false);
-  const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
+  const [editingTodo, setEditingTodo] = useState<TodoListItem | null>(null);
+  const [sortBy, setSortBy] = useState<SortBy>('created_at');
+  const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter | undefined>(undefined);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [formTags, setFormTags] = useState<Tag[]>([]);
+  const [editTags, setEditTags] = useState<Tag[]>([]);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [detailTodoId, setDetailTodoId] = useState<number | null>(null);
+  const [historyTodoId, setHistoryTodoId] = useState<number | null>(null);
+  const [mergeConflict, setMergeConflict] = useState<TodoMergeConflict | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [selectAllMatching, setSelectAllMatching] = useState(false); // Everything matching the filters, loaded or not
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [reorderMessage, setReorderMessage] = useState(''); // Read out by screen readers after a move
+
+  // Viewers get a read-only app; the server enforces this too
+  const canEdit = workspace.role !== 'viewer';
 
   // Form state for creating new todos
   const [formData, setFormData] = useState<CreateTodoInput>({
     title: '',
-    description: null
+    description: null,
+    due_at: null,
+    priority: 'none',
+    project_id: null,
+    assignee_ids: []
   });
 
   // Form state for editing todos
   const [editFormData, setEditFormData] = useState<UpdateTodoInput>({
     id: 0,
+    version: 0,
     title: '',
     description: null,
-    completed: false
+    completed: false,
+    due_at: null,
+    priority: 'none',
+    project_id: null,
+    recurrence: null
   });
 
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const selectionAnchorRef = useRef<number | null>(null); // Last todo picked without shift, where ranges start
+  const reorderHandleRefs = useRef(new Map<number, HTMLButtonElement>());
+  const pendingRefreshRef = useRef<{ timeout: ReturnType<typeof setTimeout>; reloadList: boolean } | null>(null);
+
+  const todoFilter = useMemo((): TodoFilter => ({
+    status,
+    tags: tagFilter,
+    tagMatch,
+    assignee: assigneeFilter,
+    projectId: projectIdForView(projectView),
+    topLevelOnly: true, // Subtasks are shown nested under their parent
+    includeArchived: showArchived
+  }), [status, tagFilter, tagMatch, assigneeFilter, projectView, showArchived]);
+
+  const todoQuery = useCallback((cursor: string | null): GetTodosInput => ({
+    ...todoFilter,
+    sortBy,
+    sortDir,
+    cursor
+  }), [todoFilter, sortBy, sortDir]);
+
+  // Loads the first page (or the search results), replacing whatever was loaded before
   const loadTodos = useCallback(async () => {
     try {
-      const result = await trpc.getTodos.query();
-      setTodos(result);
+      if (searchQuery) {
+        const results = await trpc.searchTodos.query({ q: searchQuery, limit: 50, includeArchived: showArchived });
+        setTodos(results);
+        setTotal(results.length);
+        setNextCursor(null);
+        setHighlights(new Map(results.map((result: TodoSearchResult) => [result.id, result])));
+        return;
+      }
+
+      const result = await trpc.getTodos.query(todoQuery(null));
+      setTodos(result.items);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      setHighlights(new Map());
+    } catch (error) {
+      showError(error, 'Could not load todos');
+    }
+  }, [todoQuery, searchQuery, showArchived]);
+
+  const loadMoreTodos = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const result = await trpc.getTodos.query(todoQuery(nextCursor));
+      setTodos((prev: TodoListItem[]) => [...prev, ...result.items]);
+      setTotal(result.total);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      showError(error, 'Could not load more todos');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [todoQuery, nextCursor, isLoadingMore]);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const result = await trpc.listProjects.query({});
+      setProjectList(result);
+    } catch (error) {
+      showError(error, 'Could not load projects');
+    }
+  }, []);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const result = await trpc.listTags.query();
+      setTags(result);
     } catch (error) {
-      console.error('Failed to load todos:', error);
+      showError(error, 'Could not load tags');
     }
   }, []);
 
@@ -42,20 +266,232 @@ function App() {
     loadTodos();
   }, [loadTodos]);
 
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+    selectionAnchorRef.current = null;
+  };
+
+  // Other filters or another search show other todos, so an earlier selection no longer applies
+  useEffect(() => {
+    clearSelection();
+  }, [todoFilter, searchQuery]);
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Infinite scroll: fetch the next page once the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries: IntersectionObserverEntry[]) => {
+      if (entries[0].isIntersecting) {
+        loadMoreTodos();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreTodos]);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const result = await trpc.listWorkspaceMembers.query();
+      setMembers(result);
+    } catch (error) {
+      showError(error, 'Could not load members');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  // Batches the loads that follow a burst of live changes (say a bulk edit elsewhere) into one
+  const refreshSoon = (reloadList: boolean) => {
+    const pending = pendingRefreshRef.current;
+    if (pending) clearTimeout(pending.timeout);
+
+    const reload = reloadList || (pending?.reloadList ?? false);
+    pendingRefreshRef.current = {
+      reloadList: reload,
+      timeout: setTimeout(() => {
+        pendingRefreshRef.current = null;
+        if (reload) loadTodos();
+        loadProjects();
+      }, LIVE_REFRESH_DELAY_MS)
+    };
+  };
+
+  // A change made by a teammate or in another tab. Edits and deletions apply in place; todos that newly
+  // belong in the list reload it, since only the server knows their tags and where they sort.
+  // This tab's own changes come back too, and applying them again changes nothing.
+  const handleTodoChange = (event: TodoChangeEvent) => {
+    if (event.type === 'deleted') {
+      const removed = todos.filter((t: TodoListItem) => event.ids.includes(t.id)).length;
+      if (removed > 0) {
+        setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => !event.ids.includes(t.id)));
+        setTotal((prev: number) => prev - removed);
+      }
+      refreshSoon(false);
+      return;
+    }
+
+    const { todo } = event;
+    const listed = todos.find((t: TodoListItem) => t.id === todo.id);
+    const belongs =
+      todo.parent_id === null &&
+      belongsToView(todo, projectView) &&
+      matchesStatus(todo, status) &&
+      (showArchived || todo.archived_at === null) &&
+      (!listed || matchesAssignee(listed.assignees, assigneeFilter, user.id));
+
+    if (listed && (belongs || searchQuery)) {
+      // Search results are only patched; the next search picks up everything else
+      setTodos((prev: TodoListItem[]) => prev.map((t: TodoListItem) => t.id === todo.id ? { ...t, ...todo } : t));
+      // A tag change keeps the version and only touches updated_at; the new tags need a reload
+      const tagsChanged = todo.version === listed.version && todo.updated_at.getTime() !== listed.updated_at.getTime();
+      refreshSoon(tagsChanged || (sortBy === 'position' && todo.position !== listed.position));
+    } else if (listed) {
+      // Moved to another project, tab or the archive
+      setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => t.id !== todo.id));
+      setTotal((prev: number) => prev - 1);
+      refreshSoon(false);
+    } else {
+      refreshSoon(belongs && !searchQuery);
+    }
+  };
+
+  // The subscription outlives renders, so it calls whichever handler is current
+  const todoChangeHandlerRef = useRef(handleTodoChange);
+  useEffect(() => {
+    todoChangeHandlerRef.current = handleTodoChange;
+  });
+
+  useEffect(() => {
+    const subscription = trpc.onTodoChanged.subscribe(undefined, {
+      onData: (event: TodoChangeEvent) => todoChangeHandlerRef.current(event),
+      onError: (error: unknown) => showError(error, 'Lost live updates')
+    });
+    return () => {
+      subscription.unsubscribe();
+      if (pendingRefreshRef.current) clearTimeout(pendingRefreshRef.current.timeout);
+    };
+  }, []);
+
+  const handleSelectProject = (view: ProjectView) => {
+    setProjectView(view);
+    // New todos default to the project being viewed
+    setFormData((prev: CreateTodoInput) => ({ ...prev, project_id: projectIdForView(view) ?? null }));
+  };
+
+  const handleSelectMyTasks = () => {
+    handleSelectProject('all');
+    setAssigneeFilter('me');
+  };
+
+  // Assignees as the todo list shows them, from the ids the pickers work with
+  const assigneesFor = (userIds: number[]): Assignee[] =>
+    members
+      .filter((member: WorkspaceMember) => userIds.includes(member.user_id))
+      .map(memberToAssignee)
+      .sort((a: Assignee, b: Assignee) => a.name.localeCompare(b.name));
+
+  const handleCreateProject = async (input: CreateProjectInput) => {
+    const project = await trpc.createProject.mutate(input);
+    await loadProjects();
+    handleSelectProject(project.id);
+  };
+
+  const handleArchiveProject = async (projectId: number) => {
+    try {
+      await trpc.updateProject.mutate({ id: projectId, archived: true });
+      if (projectView === projectId) {
+        handleSelectProject('all');
+      }
+      await loadProjects();
+    } catch (error) {
+      showError(error, 'Could not archive project');
+    }
+  };
+
+  const handleDeleteProject = async (projectId: number) => {
+    try {
+      await trpc.deleteProject.mutate({ id: projectId });
+      if (projectView === projectId) {
+        handleSelectProject('all');
+      } else {
+        // Its todos moved to the Inbox
+        await loadTodos();
+      }
+      await loadProjects();
+    } catch (error) {
+      showError(error, 'Could not delete project');
+    }
+  };
+
+  const handleCreateTag = async (name: string): Promise<Tag> => {
+    const tag = await trpc.createTag.mutate({ name });
+    setTags((prev: Tag[]) =>
+      prev.some((t: Tag) => t.id === tag.id)
+        ? prev
+        : [...prev, tag].sort((a: Tag, b: Tag) => a.name.localeCompare(b.name))
+    );
+    return tag;
+  };
+
+  const toggleTagFilter = (tagName: string) => {
+    setTagFilter((prev: string[]) =>
+      prev.includes(tagName) ? prev.filter((name: string) => name !== tagName) : [...prev, tagName]
+    );
+  };
+
   const handleCreateSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) return;
 
     setIsLoading(true);
     try {
-      const newTodo = await trpc.createTodo.mutate(formData);
-      setTodos((prev: Todo[]) => [newTodo, ...prev]);
+      const { todo: newTodo } = await trpc.createTodo.mutate({ ...formData, time_zone: localTimeZone() });
+      const newTodoTags = formTags.length > 0
+        ? await trpc.setTodoTags.mutate({ todo_id: newTodo.id, tag_ids: formTags.map((tag: Tag) => tag.id) })
+        : [];
+      const newTodoAssignees = assigneesFor(formData.assignee_ids ?? []);
+      if (
+        !searchQuery &&
+        belongsToView(newTodo, projectView) &&
+        matchesStatus(newTodo, status) &&
+        matchesAssignee(newTodoAssignees, assigneeFilter, user.id)
+      ) {
+        setTodos((prev: TodoListItem[]) => [
+          { ...newTodo, tags: newTodoTags, assignees: newTodoAssignees, child_count: 0, completed_child_count: 0 },
+          ...prev
+        ]);
+        setTotal((prev: number) => prev + 1);
+      }
+      setFormTags([]);
       setFormData({
         title: '',
-        description: null
+        description: null,
+        due_at: null,
+        priority: 'none',
+        project_id: newTodo.project_id, // Keep adding to the same project
+        assignee_ids: []
       });
+      loadProjects();
     } catch (error) {
-      console.error('Failed to create todo:', error);
+      showError(error, 'Could not create todo');
     } finally {
       setIsLoading(false);
     }
@@ -65,239 +501,1083 @@ function App() {
     try {
       const updatedTodo = await trpc.updateTodo.mutate({
         id: todo.id,
+        version: todo.version,
         completed: !todo.completed
       });
       if (updatedTodo) {
-        setTodos((prev: Todo[]) => 
-          prev.map((t: Todo) => t.id === todo.id ? updatedTodo : t)
-        );
+        if (updatedTodo.completed && updatedTodo.recurrence) {
+          // Completing a recurring todo created its next occurrence
+          await loadTodos();
+        } else if (!matchesStatus(updatedTodo, status)) {
+          // No longer belongs in the current tab
+          setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => t.id !== todo.id));
+          setTotal((prev: number) => prev - 1);
+        } else {
+          setTodos((prev: TodoListItem[]) => 
+            prev.map((t: TodoListItem) => t.id === todo.id ? { ...t, ...updatedTodo } : t)
+          );
+        }
+        loadProjects();
       }
     } catch (error) {
-      console.error('Failed to update todo:', error);
+      const conflict = todoConflictOf(error);
+      if (conflict) {
+        // Someone got there first; show their copy instead of toggling it back
+        applyServerCopy(conflict.current);
+        toast('Someone else changed this todo - showing their latest version');
+        return;
+      }
+      showError(error, 'Could not update todo');
     }
   };
 
+  const applyServerCopy = (current: ServerCopy) => {
+    const { assignee_ids, ...todo } = current;
+    setTodos((prev: TodoListItem[]) =>
+      prev.map((t: TodoListItem) => (t.id === todo.id ? { ...t, ...todo, assignees: assigneesFor(assignee_ids) } : t))
+    );
+  };
+
   const handleEditSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editFormData.title?.trim()) return;
+    await saveEdit(editFormData);
+  };
 
+  // A merged version replaces the form data and is saved straight away
+  const handleMergeResolved = async (merged: UpdateTodoInput) => {
+    setMergeConflict(null);
+    setEditFormData(merged);
+    await saveEdit(merged);
+  };
+
+  const saveEdit = async (formData: UpdateTodoInput) => {
     try {
-      const updatedTodo = await trpc.updateTodo.mutate(editFormData);
+      const updatedTodo = await trpc.updateTodo.mutate({ ...formData, time_zone: localTimeZone() });
       if (updatedTodo) {
-        setTodos((prev: Todo[]) => 
-          prev.map((t: Todo) => t.id === updatedTodo.id ? updatedTodo : t)
-        );
+        const updatedTags = await trpc.setTodoTags.mutate({
+          todo_id: updatedTodo.id,
+          tag_ids: editTags.map((tag: Tag) => tag.id)
+        });
+        const updatedAssignees = assigneesFor(formData.assignee_ids ?? []);
+        if (
+          belongsToView(updatedTodo, projectView) &&
+          matchesStatus(updatedTodo, status) &&
+          matchesAssignee(updatedAssignees, assigneeFilter, user.id)
+        ) {
+          setTodos((prev: TodoListItem[]) =>
+            prev.map((t: TodoListItem) =>
+              t.id === updatedTodo.id ? { ...t, ...updatedTodo, tags: updatedTags, assignees: updatedAssignees } : t
+            )
+          );
+        } else {
+          // Moved to another project, tab or assignee
+          setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => t.id !== updatedTodo.id));
+          setTotal((prev: number) => prev - 1);
+        }
+        // The search highlights no longer match the edited text
+        setHighlights((prev: Map<number, TodoSearchResult>) => {
+          const next = new Map(prev);
+          next.delete(updatedTodo.id);
+          return next;
+        });
         setEditingTodo(null);
+        loadProjects();
       }
     } catch (error) {
-      console.error('Failed to update todo:', error);
+      const conflict = todoConflictOf(error);
+      if (conflict && editingTodo) {
+        setMergeConflict({ base: editFormFor(editingTodo), mine: formData, theirs: conflict.current });
+        return;
+      }
+      showError(error, 'Could not update todo');
     }
   };
 
-  const handleDelete = async (todoId: number) => {
+  const handleDelete = async (todoId: number, subtasks: 'cascade' | 'reparent' = 'cascade') => {
     try {
-      const success = await trpc.deleteTodo.mutate({ id: todoId });
+      const success = await trpc.deleteTodo.mutate({ id: todoId, subtasks });
       if (success) {
-        setTodos((prev: Todo[]) => prev.filter((t: Todo) => t.id !== todoId));
+        if (subtasks === 'reparent') {
+          // Former subtasks are now top-level todos
+          await loadTodos();
+        } else {
+          setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => t.id !== todoId));
+          setTotal((prev: number) => prev - 1);
+        }
+        loadProjects();
+        toast('Moved to trash', {
+          action: { label: 'Undo', onClick: () => handleRestore(todoId) }
+        });
       }
     } catch (error) {
-      console.error('Failed to delete todo:', error);
+      showError(error, 'Could not delete todo');
     }
   };
 
-  const startEdit = (todo: Todo) => {
-    setEditingTodo(todo);
-    setEditFormData({
-      id: todo.id,
-      title: todo.title,
-      description: todo.description,
-      completed: todo.completed
+  const handleRestore = async (todoId: number) => {
+    try {
+      await trpc.restoreTodo.mutate({ id: todoId });
+      handleRestored();
+    } catch (error) {
+      showError(error, 'Could not restore todo');
+    }
+  };
+
+  // Restored todos (and their subtasks) can land anywhere in the sorted list, so reload
+  const handleRestored = () => {
+    loadTodos();
+    loadProjects();
+  };
+
+  const handleArchiveToggle = async (todo: Todo) => {
+    try {
+      const updatedTodo = todo.archived_at
+        ? await trpc.unarchiveTodo.mutate({ id: todo.id })
+        : await trpc.archiveTodo.mutate({ id: todo.id });
+      if (updatedTodo.archived_at && !showArchived) {
+        setTodos((prev: TodoListItem[]) => prev.filter((t: TodoListItem) => t.id !== todo.id));
+        setTotal((prev: number) => prev - 1);
+      } else {
+        setTodos((prev: TodoListItem[]) =>
+          prev.map((t: TodoListItem) => t.id === todo.id ? { ...t, ...updatedTodo } : t)
+        );
+      }
+      loadProjects();
+    } catch (error) {
+      showError(error, 'Could not archive todo');
+    }
+  };
+
+  const handleArchiveCompleted = async () => {
+    try {
+      const archivedCount = await trpc.archiveCompleted.mutate({});
+      toast(`Archived ${archivedCount} completed todo(s)`);
+      if (archivedCount > 0) {
+        await loadTodos();
+        loadProjects();
+      }
+    } catch (error) {
+      showError(error, 'Could not archive completed todos');
+    }
+  };
+
+  // Shift-click adds everything between the last picked todo and this one
+  const handleSelectTodo = (todoId: number, extendRange: boolean) => {
+    const anchorIndex = todos.findIndex((t: TodoListItem) => t.id === selectionAnchorRef.current);
+    const index = todos.findIndex((t: TodoListItem) => t.id === todoId);
+    setSelectAllMatching(false);
+
+    if (extendRange && anchorIndex !== -1) {
+      const range = todos.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setSelectedIds((prev: Set<number>) => new Set([...prev, ...range.map((t: TodoListItem) => t.id)]));
+      return;
+    }
+
+    selectionAnchorRef.current = todoId;
+    setSelectedIds((prev: Set<number>) => {
+      const next = new Set(prev);
+      if (next.has(todoId)) {
+        next.delete(todoId);
+      } else {
+        next.add(todoId);
+      }
+      return next;
     });
   };
 
+  const handleSelectAllMatching = () => {
+    setSelectedIds(new Set(todos.map((t: TodoListItem) => t.id)));
+    setSelectAllMatching(true);
+  };
+
+  // Runs a bulk operation on the selection. The list is reloaded afterwards, since the changed
+  // todos may no longer match the filters. Resolves to null when the whole operation failed.
+  const runBulkAction = async (
+    run: (target: BulkTarget) => Promise<BulkTodoResult[]>,
+    fallback: string
+  ): Promise<BulkTodoResult[] | null> => {
+    const target: BulkTarget = selectAllMatching ? { filter: todoFilter } : { ids: [...selectedIds] };
+
+    setIsBulkBusy(true);
+    try {
+      const results = await run(target);
+      clearSelection();
+      await loadTodos();
+      loadProjects();
+      return results;
+    } catch (error) {
+      showError(error, fallback);
+      return null;
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  // e.g. "Completed 3 todo(s) - 1 no longer existed"
+  const bulkSummary = (verb: string, results: BulkTodoResult[]): string => {
+    const done = results.filter((result: BulkTodoResult) => result.ok).length;
+    const skipped = results.length - done;
+    return `${verb} ${done} todo(s)${skipped > 0 ? ` - ${skipped} no longer existed` : ''}`;
+  };
+
+  const handleBulkComplete = async () => {
+    const results = await runBulkAction(
+      (target: BulkTarget) => trpc.bulkUpdateTodos.mutate({ target, completed: true }),
+      'Could not complete todos'
+    );
+    if (results) toast.success(bulkSummary('Completed', results));
+  };
+
+  const handleBulkMove = async (projectId: number | null) => {
+    const results = await runBulkAction(
+      (target: BulkTarget) => trpc.bulkUpdateTodos.mutate({ target, project_id: projectId }),
+      'Could not move todos'
+    );
+    if (results) toast.success(bulkSummary('Moved', results));
+  };
+
+  const handleBulkAddTag = async (tagId: number) => {
+    const results = await runBulkAction(
+      (target: BulkTarget) => trpc.bulkUpdateTodos.mutate({ target, add_tag_ids: [tagId] }),
+      'Could not tag todos'
+    );
+    if (results) toast.success(bulkSummary('Tagged', results));
+  };
+
+  const handleBulkDelete = async () => {
+    const results = await runBulkAction(
+      (target: BulkTarget) => trpc.bulkDeleteTodos.mutate({ target }),
+      'Could not delete todos'
+    );
+    if (results) toast(`${bulkSummary('Trashed', results)} - restore them from the trash`);
+  };
+
+  const handleSubtaskProgress = useCallback((todoId: number, childCount: number, completedChildCount: number) => {
+    setTodos((prev: TodoListItem[]) =>
+      prev.map((t: TodoListItem) =>
+        t.id === todoId ? { ...t, child_count: childCount, completed_child_count: completedChildCount } : t
+      )
+    );
+  }, []);
+
+  const handleParentUpdated = (updatedTodo: Todo) => {
+    setTodos((prev: TodoListItem[]) =>
+      prev.map((t: TodoListItem) => t.id === updatedTodo.id ? { ...t, ...updatedTodo } : t)
+    );
+    loadProjects();
+  };
+
+  // A restore is saved right away; the open edit form picks up the restored text too
+  const handleRevisionRestored = (restored: Todo) => {
+    setTodos((prev: TodoListItem[]) =>
+      prev.map((t: TodoListItem) => (t.id === restored.id ? { ...t, ...restored } : t))
+    );
+    setEditFormData((prev: UpdateTodoInput) =>
+      prev.id === restored.id
+        ? { ...prev, version: restored.version, title: restored.title, description: restored.description }
+        : prev
+    );
+    setHighlights((prev: Map<number, TodoSearchResult>) => {
+      const next = new Map(prev);
+      next.delete(restored.id);
+      return next;
+    });
+    toast.success('Restored an earlier version');
+  };
+
+  const startEdit = (todo: TodoListItem) => {
+    setEditingTodo(todo);
+    setEditTags(todo.tags);
+    setEditFormData(editFormFor(todo));
+  };
+
   const cancelEdit = () => {
     setEditingTodo(null);
     setEditFormData({
       id: 0,
+      version: 0,
       title: '',
       description: null,
-      completed: false
+      completed: false,
+      due_at: null,
+      priority: 'none',
+      project_id: null,
+      recurrence: null
     });
   };
 
-  const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-  const totalCount = todos.length;
+  // Moves a todo to another place in the loaded list, then saves it between its new neighbours.
+  // The list is sorted by position, so the todos next to it on screen are its neighbours in the manual order.
+  const handleReorder = async (todoId: number, toIndex: number) => {
+    const fromIndex = todos.findIndex((t: TodoListItem) => t.id === todoId);
+    if (fromIndex === -1 || toIndex === fromIndex || toIndex < 0 || toIndex >= todos.length) return;
+
+    const moving = todos[fromIndex];
+    const reordered = todos.filter((t: TodoListItem) => t.id !== todoId);
+    reordered.splice(toIndex, 0, moving);
+    const above = reordered[toIndex - 1]?.id ?? null;
+    const below = reordered[toIndex + 1]?.id ?? null;
+
+    setTodos(reordered);
+    setReorderMessage(`Moved "${moving.title}" to position ${toIndex + 1} of ${reordered.length}`);
+    try {
+      // Descending order shows the manual order upside down
+      const moved = await trpc.moveTodo.mutate(sortDir === 'asc'
+        ? { id: todoId, beforeId: above, afterId: below }
+        : { id: todoId, beforeId: below, afterId: above });
+      setTodos((prev: TodoListItem[]) => prev.map((t: TodoListItem) => t.id === todoId ? { ...t, ...moved } : t));
+    } catch (error) {
+      showError(error, 'Could not move todo');
+      loadTodos();
+    }
+  };
+
+  // Arrow keys on a todo's handle move it one place up or down, keeping the focus on the handle
+  const handleReorderKey = (e: React.KeyboardEvent, todoId: number) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+
+    e.preventDefault();
+    const index = todos.findIndex((t: TodoListItem) => t.id === todoId);
+    handleReorder(todoId, index + (e.key === 'ArrowUp' ? -1 : 1));
+    requestAnimationFrame(() => reorderHandleRefs.current.get(todoId)?.focus());
+  };
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId !== null) {
+      handleReorder(draggedId, todos.findIndex((t: TodoListItem) => t.id === targetId));
+    }
+    setDraggedId(null);
+  };
+
+  const handleSortByChange = (value: string) => {
+    setSortBy(value as SortBy);
+    setSortDir(defaultSortDir(value as SortBy));
+  };
+
+  // Notifications can point at todos outside the current filters, which the panel cannot show
+  const handleOpenTodo = (todoId: number) => {
+    if (todos.some((todo: TodoListItem) => todo.id === todoId)) {
+      setDetailTodoId(todoId);
+    } else {
+      toast('That todo is not in the current view - try All todos or clear the filters');
+    }
+  };
+
+  const viewCounts = countsForView(projectList, projectView);
+  // Looked up on every render so the panel reflects edits made to the card meanwhile
+  const detailTodo = todos.find((todo: TodoListItem) => todo.id === detailTodoId) ?? null;
+  const overdueCount = todos.filter(isOverdue).length;
+  const isSelected = (todoId: number): boolean => selectAllMatching || selectedIds.has(todoId);
+  // Search results come in relevance order, so only the manual order itself can be rearranged
+  const canReorder = canEdit && sortBy === 'position' && !searchQuery;
+  // Offered once every loaded todo is picked but further pages match too; search results are not pageable
+  const canSelectAllMatching = !searchQuery && !selectAllMatching && todos.length > 0 &&
+    selectedIds.size === todos.length && total > todos.length;
 
   return (
-    <div className="container mx-auto p-6 max-w-4xl">
+    <div className="container mx-auto p-6 max-w-6xl">
       <div className="mb-8">
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            current={workspace}
+            onSwitch={onSwitchWorkspace}
+            onCreate={onCreateWorkspace}
+          />
+          <Button variant="ghost" size="sm" onClick={() => setIsMembersOpen(true)}>
+            👥 Members
+          </Button>
+          <NotificationBell onOpenTodo={handleOpenTodo} />
+          <span>👤 {user.name}</span>
+          <Button variant="ghost" size="sm" onClick={() => setIsSettingsOpen(true)}>
+            ⚙️ Settings
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onLogout}>
+            Sign out
+          </Button>
+        </div>
         <h1 className="text-4xl font-bold text-center mb-2">✅ Todo App</h1>
         <p className="text-center text-muted-foreground">Stay organized and get things done!</p>
       </div>
 
-      {/* Stats */}
-      <div className="flex justify-center gap-4 mb-8">
-        <Badge variant="outline" className="text-sm px-4 py-2">
-          📋 Total: {totalCount}
-        </Badge>
-        <Badge variant="default" className="text-sm px-4 py-2 bg-green-100 text-green-800 hover:bg-green-200">
-          ✅ Completed: {completedCount}
-        </Badge>
-        <Badge variant="secondary" className="text-sm px-4 py-2">
-          ⏳ Remaining: {totalCount - completedCount}
-        </Badge>
-      </div>
+      <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-6">
+        <ProjectSidebar
+          projectList={projectList}
+          selected={projectView}
+          onSelect={(view: ProjectView) => {
+            // Picking a project leaves My tasks; All todos means everyone's todos
+            if (assigneeFilter === 'me') setAssigneeFilter(undefined);
+            handleSelectProject(view);
+          }}
+          onCreateProject={handleCreateProject}
+          onArchiveProject={handleArchiveProject}
+          onDeleteProject={handleDeleteProject}
+          onOpenTrash={() => setIsTrashOpen(true)}
+          myTasksSelected={assigneeFilter === 'me'}
+          onSelectMyTasks={handleSelectMyTasks}
+          readOnly={!canEdit}
+        />
 
-      {/* Create Todo Form */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>➕ Add New Todo</CardTitle>
-          <CardDescription>Create a new task to keep track of</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleCreateSubmit} className="space-y-4">
-            <Input
-              placeholder="What needs to be done? 🤔"
-              value={formData.title}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                setFormData((prev: CreateTodoInput) => ({ ...prev, title: e.target.value }))
-              }
-              required
-            />
-            <Textarea
-              placeholder="Add some details... (optional) 📝"
-              value={formData.description || ''}
-              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                setFormData((prev: CreateTodoInput) => ({
-                  ...prev,
-                  description: e.target.value || null
-                }))
-              }
-              rows={3}
-            />
-            <Button type="submit" disabled={isLoading} className="w-full">
-              {isLoading ? '⏳ Creating...' : '🚀 Add Todo'}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
-
-      {/* Todo List */}
-      {todos.length === 0 ? (
-        <Card>
-          <CardContent className="text-center py-12">
-            <div className="text-6xl mb-4">🎉</div>
-            <h3 className="text-xl font-semibold mb-2">All caught up!</h3>
-            <p className="text-muted-foreground">No todos yet. Create one above to get started!</p>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="space-y-4">
-          {todos.map((todo: Todo) => (
-            <Card key={todo.id} className={`transition-all ${todo.completed ? 'opacity-75 bg-green-50' : ''}`}>
-              <CardContent className="pt-6">
-                {editingTodo?.id === todo.id ? (
-                  // Edit form
-                  <form onSubmit={handleEditSubmit} className="space-y-4">
-                    <Input
-                      value={editFormData.title || ''}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setEditFormData((prev: UpdateTodoInput) => ({ ...prev, title: e.target.value }))
+        <main className="min-w-0">
+          {/* Stats */}
+          <div className="flex justify-center gap-4 mb-8">
+            <Badge variant="outline" className="text-sm px-4 py-2">
+              📋 Total: {viewCounts.todo_count}
+            </Badge>
+            <Badge variant="default" className="text-sm px-4 py-2 bg-green-100 text-green-800 hover:bg-green-200">
+              ✅ Completed: {viewCounts.todo_count - viewCounts.open_count}
+            </Badge>
+            <Badge variant="secondary" className="text-sm px-4 py-2">
+              ⏳ Remaining: {viewCounts.open_count}
+            </Badge>
+            {overdueCount > 0 && (
+              <Badge variant="destructive" className="text-sm px-4 py-2">
+                🚨 Overdue: {overdueCount}
+              </Badge>
+            )}
+          </div>
+
+          {/* Create Todo Form */}
+          {canEdit && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle>➕ Add New Todo</CardTitle>
+                <CardDescription>Create a new task to keep track of</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreateSubmit} className="space-y-4">
+                  <Input
+                    placeholder="What needs to be done? 🤔"
+                    value={formData.title}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData((prev: CreateTodoInput) => ({ ...prev, title: e.target.value }))
+                    }
+                    required
+                  />
+                  <SimilarTodos title={formData.title} />
+                  <Textarea
+                    placeholder="Add some details... (optional) 📝"
+                    value={formData.description || ''}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setFormData((prev: CreateTodoInput) => ({
+                        ...prev,
+                        description: e.target.value || null
+                      }))
+                    }
+                    rows={3}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <ProjectSelect
+                      projects={projectList?.projects ?? []}
+                      value={formData.project_id ?? null}
+                      onChange={(projectId: number | null) =>
+                        setFormData((prev: CreateTodoInput) => ({ ...prev, project_id: projectId }))
                       }
-                      required
                     />
-                    <Textarea
-                      value={editFormData.description || ''}
-                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                        setEditFormData((prev: UpdateTodoInput) => ({
-                          ...prev,
-                          description: e.target.value || null
-                        }))
+                    <PrioritySelect
+                      value={formData.priority ?? 'none'}
+                      onChange={(priority: TodoPriority) =>
+                        setFormData((prev: CreateTodoInput) => ({ ...prev, priority }))
+                      }
+                    />
+                    <DueDatePicker
+                      value={formData.due_at ?? null}
+                      onChange={(dueAt: Date | null) =>
+                        setFormData((prev: CreateTodoInput) => ({ ...prev, due_at: dueAt }))
                       }
-                      rows={3}
                     />
-                    <div className="flex gap-2">
-                      <Button type="submit" size="sm">💾 Save</Button>
-                      <Button type="button" variant="outline" size="sm" onClick={cancelEdit}>
-                        ❌ Cancel
-                      </Button>
-                    </div>
-                  </form>
-                ) : (
-                  // Display mode
-                  <div className="space-y-4">
-                    <div className="flex items-start gap-4">
-                      <Checkbox
-                        checked={todo.completed}
-                        onCheckedChange={() => handleToggleComplete(todo)}
-                        className="mt-1"
-                      />
-                      <div className="flex-1 space-y-2">
-                        <h3 className={`text-lg font-semibold ${todo.completed ? 'line-through text-muted-foreground' : ''}`}>
-                          {todo.completed ? '✅' : '⏳'} {todo.title}
-                        </h3>
-                        {todo.description && (
-                          <p className={`text-muted-foreground ${todo.completed ? 'line-through' : ''}`}>
-                            {todo.description}
-                          </p>
-                        )}
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <span>📅 Created: {todo.created_at.toLocaleDateString()}</span>
-                          <span>🕐 Updated: {todo.updated_at.toLocaleDateString()}</span>
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => startEdit(todo)}
-                        >
-                          ✏️ Edit
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                              🗑️ Delete
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Todo</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete "{todo.title}"? This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(todo.id)}
-                                className="bg-red-600 hover:bg-red-700"
-                              >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
-                    </div>
                   </div>
+                  <TagPicker
+                    availableTags={tags}
+                    selected={formTags}
+                    onChange={setFormTags}
+                    onCreateTag={handleCreateTag}
+                  />
+                  <AssigneePicker
+                    members={members}
+                    selected={formData.assignee_ids ?? []}
+                    onChange={(userIds: number[]) =>
+                      setFormData((prev: CreateTodoInput) => ({ ...prev, assignee_ids: userIds }))
+                    }
+                  />
+                  <Button type="submit" disabled={isLoading} className="w-full">
+                    {isLoading ? '⏳ Creating...' : '🚀 Add Todo'}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Search */}
+          <div className="flex items-center gap-2 mb-4">
+            <Input
+              value={searchInput}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchInput(e.target.value)}
+              placeholder='🔍 Search todos - words match by prefix, "quote" exact phrases'
+            />
+            {searchInput && (
+              <Button variant="ghost" size="sm" onClick={() => setSearchInput('')}>
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {searchQuery ? (
+            <p className="text-sm text-muted-foreground mb-4">
+              🔍 {total} result(s) for "{searchQuery}", best matches first
+            </p>
+          ) : (
+            <>
+              {/* Tag filter and sorting */}
+              <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+                {tagFilter.length > 0 && (
+                  <>
+                    <span className="text-sm text-muted-foreground">Filtered by:</span>
+                    {tagFilter.map((tagName: string) => (
+                      <Badge
+                        key={tagName}
+                        variant="default"
+                        className="cursor-pointer"
+                        onClick={() => toggleTagFilter(tagName)}
+                      >
+                        #{tagName} ×
+                      </Badge>
+                    ))}
+                    {tagFilter.length > 1 && (
+                      <Select value={tagMatch} onValueChange={(value: string) => setTagMatch(value as TagMatch)}>
+                        <SelectTrigger size="sm" className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Any tag</SelectItem>
+                          <SelectItem value="all">All tags</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </>
                 )}
+                <Select
+                  value={assigneeFilterValue(assigneeFilter)}
+                  onValueChange={(value: string) => setAssigneeFilter(parseAssigneeFilter(value))}
+                >
+                  <SelectTrigger size="sm" className="w-40" aria-label="Assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="anyone">👥 Anyone</SelectItem>
+                    <SelectItem value="me">🙋 My tasks</SelectItem>
+                    <SelectItem value="unassigned">🫥 Unassigned</SelectItem>
+                    {members
+                      .filter((member: WorkspaceMember) => member.user_id !== user.id)
+                      .map((member: WorkspaceMember) => (
+                        <SelectItem key={member.user_id} value={String(member.user_id)}>
+                          👤 {member.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sortBy} onValueChange={handleSortByChange}>
+                  <SelectTrigger size="sm" className="w-48">
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="created_at">🆕 Created</SelectItem>
+                    <SelectItem value="updated_at">🕐 Updated</SelectItem>
+                    <SelectItem value="title">🔤 Title</SelectItem>
+                    <SelectItem value="due">⏰ Due date</SelectItem>
+                    <SelectItem value="priority">🔥 Priority, then due date</SelectItem>
+                    <SelectItem value="position">✋ Manual order</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSortDir((prev: SortDir) => prev === 'asc' ? 'desc' : 'asc')}
+                  title={sortDir === 'asc' ? 'Ascending' : 'Descending'}
+                >
+                  {sortDir === 'asc' ? '⬆️' : '⬇️'}
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <Tabs value={status} onValueChange={(value: string) => setStatus(value as Status)}>
+                  <TabsList>
+                    <TabsTrigger value="all">All</TabsTrigger>
+                    <TabsTrigger value="active">Active</TabsTrigger>
+                    <TabsTrigger value="completed">Completed</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+                    <Label htmlFor="show-archived" className="text-sm">Show archived</Label>
+                  </div>
+                  {canEdit && (
+                    <Button variant="outline" size="sm" onClick={handleArchiveCompleted}>
+                      🗄️ Archive completed
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Todo List */}
+          {canReorder && todos.length > 1 && (
+            <p className="mb-2 text-sm text-muted-foreground">
+              Drag todos to reorder them, or focus a ↕️ handle and use the arrow keys.
+            </p>
+          )}
+          <p aria-live="polite" className="sr-only">{reorderMessage}</p>
+          {todos.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <div className="text-6xl mb-4">🎉</div>
+                <h3 className="text-xl font-semibold mb-2">All caught up!</h3>
+                <p className="text-muted-foreground">No todos yet. Create one above to get started!</p>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="space-y-4">
+              {todos.map((todo: TodoListItem) => (
+                <Card
+                  key={todo.id}
+                  className={`transition-all ${todo.completed ? 'opacity-75 bg-green-50' : ''} ${isSelected(todo.id) ? 'ring-2 ring-primary' : ''} ${draggedId === todo.id ? 'opacity-50' : ''}`}
+                  draggable={canReorder && editingTodo?.id !== todo.id}
+                  onDragStart={(e: React.DragEvent) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(todo.id);
+                  }}
+                  onDragOver={(e: React.DragEvent) => draggedId !== null && e.preventDefault()}
+                  onDrop={(e: React.DragEvent) => {
+                    e.preventDefault();
+                    handleDrop(todo.id);
+                  }}
+                  onDragEnd={() => setDraggedId(null)}
+                >
+                  <CardContent className="pt-6">
+                    {editingTodo?.id === todo.id ? (
+                      // Edit form
+                      <form onSubmit={handleEditSubmit} className="space-y-4">
+                        <Input
+                          value={editFormData.title || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setEditFormData((prev: UpdateTodoInput) => ({ ...prev, title: e.target.value }))
+                          }
+                          required
+                        />
+                        <Textarea
+                          value={editFormData.description || ''}
+                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                            setEditFormData((prev: UpdateTodoInput) => ({
+                              ...prev,
+                              description: e.target.value || null
+                            }))
+                          }
+                          rows={3}
+                        />
+                        <div className="flex flex-wrap items-center gap-2">
+                          <ProjectSelect
+                            projects={projectList?.projects ?? []}
+                            value={editFormData.project_id ?? null}
+                            onChange={(projectId: number | null) =>
+                              setEditFormData((prev: UpdateTodoInput) => ({ ...prev, project_id: projectId }))
+                            }
+                          />
+                          <PrioritySelect
+                            value={editFormData.priority ?? 'none'}
+                            onChange={(priority: TodoPriority) =>
+                              setEditFormData((prev: UpdateTodoInput) => ({ ...prev, priority }))
+                            }
+                          />
+                          <DueDatePicker
+                            value={editFormData.due_at ?? null}
+                            onChange={(dueAt: Date | null) =>
+                              setEditFormData((prev: UpdateTodoInput) => ({ ...prev, due_at: dueAt }))
+                            }
+                          />
+                        </div>
+                        <RecurrencePicker
+                          value={editFormData.recurrence ?? null}
+                          onChange={(recurrence: string | null) =>
+                            setEditFormData((prev: UpdateTodoInput) => ({ ...prev, recurrence }))
+                          }
+                        />
+                        <TagPicker
+                          availableTags={tags}
+                          selected={editTags}
+                          onChange={setEditTags}
+                          onCreateTag={handleCreateTag}
+                        />
+                        <AssigneePicker
+                          members={members}
+                          selected={editFormData.assignee_ids ?? []}
+                          onChange={(userIds: number[]) =>
+                            setEditFormData((prev: UpdateTodoInput) => ({ ...prev, assignee_ids: userIds }))
+                          }
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" size="sm">💾 Save</Button>
+                          <Button type="button" variant="outline" size="sm" onClick={cancelEdit}>
+                            ❌ Cancel
+                          </Button>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => setHistoryTodoId(todo.id)}>
+                            🕘 History
+                          </Button>
+                        </div>
+                      </form>
+                    ) : (
+                      // Display mode
+                      <div className="space-y-4">
+                        <div className="flex items-start gap-4">
+                          {canReorder && (
+                            <button
+                              type="button"
+                              ref={(element: HTMLButtonElement | null) => {
+                                if (element) {
+                                  reorderHandleRefs.current.set(todo.id, element);
+                                } else {
+                                  reorderHandleRefs.current.delete(todo.id);
+                                }
+                              }}
+                              onKeyDown={(e: React.KeyboardEvent) => handleReorderKey(e, todo.id)}
+                              aria-label={`Reorder "${todo.title}" with the up and down arrow keys`}
+                              title="Drag to reorder, or use the arrow keys"
+                              className="mt-0.5 cursor-grab rounded-sm text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                            >
+                              ↕️
+                            </button>
+                          )}
+                          {canEdit && (
+                            <Checkbox
+                              checked={isSelected(todo.id)}
+                              onClick={(e: React.MouseEvent) => handleSelectTodo(todo.id, e.shiftKey)}
+                              aria-label={`Select "${todo.title}"`}
+                              title="Select (shift-click to select a range)"
+                              className="mt-1 rounded-full"
+                            />
+                          )}
+                          <Checkbox
+                            checked={todo.completed}
+                            disabled={!canEdit}
+                            onCheckedChange={() => handleToggleComplete(todo)}
+                            className="mt-1"
+                          />
+                          <div className="flex-1 space-y-2">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <h3
+                                className={`cursor-pointer text-lg font-semibold hover:underline ${todo.completed ? 'line-through text-muted-foreground' : ''}`}
+                                onClick={() => setDetailTodoId(todo.id)}
+                              >
+                                {todo.completed ? '✅' : '⏳'}{' '}
+                                <HighlightedText text={highlights.get(todo.id)?.title_highlight ?? todo.title} />
+                              </h3>
+                              <PriorityBadge priority={todo.priority} />
+                              {todo.archived_at && (
+                                <Badge variant="outline">🗄️ Archived</Badge>
+                              )}
+                              <div className="ml-auto">
+                                <AssigneeAvatars assignees={todo.assignees} />
+                              </div>
+                            </div>
+                            {todo.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {todo.tags.map((tag: Tag) => (
+                                  <Badge
+                                    key={tag.id}
+                                    variant={tagFilter.includes(tag.name) ? 'default' : 'secondary'}
+                                    className="cursor-pointer"
+                                    onClick={() => toggleTagFilter(tag.name)}
+                                  >
+                                    #{tag.name}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                            {todo.description && (
+                              <p className={`text-muted-foreground ${todo.completed ? 'line-through' : ''}`}>
+                                {highlights.has(todo.id) ? (
+                                  // Search snippets show the matching fragments of long descriptions
+                                  <HighlightedText text={highlights.get(todo.id)?.description_highlight ?? todo.description} />
+                                ) : (
+                                  todo.description
+                                )}
+                              </p>
+                            )}
+                            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                              {todo.due_at && (
+                                <span className={isOverdue(todo) ? 'text-red-600 font-medium' : ''}>
+                                  ⏰ Due: {todo.due_at.toLocaleDateString()}
+                                </span>
+                              )}
+                              {isOverdue(todo) && (
+                                <Badge variant="destructive">Overdue</Badge>
+                              )}
+                              {todo.recurrence && (
+                                <span>🔁 {describeRecurrence(todo.recurrence)}</span>
+                              )}
+                              <span>📅 Created: {todo.created_at.toLocaleDateString()}</span>
+                              <span>🕐 Updated: {todo.updated_at.toLocaleDateString()}</span>
+                            </div>
+                            <Collapsible>
+                              <div className="flex items-center gap-4">
+                                <CollapsibleTrigger asChild>
+                                  <Button variant="ghost" size="sm" className="px-0 text-muted-foreground">
+                                    {todo.child_count > 0
+                                      ? `📋 Subtasks ${todo.completed_child_count}/${todo.child_count}`
+                                      : '📋 Add subtasks'}
+                                  </Button>
+                                </CollapsibleTrigger>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="px-0 text-muted-foreground"
+                                  onClick={() => setDetailTodoId(todo.id)}
+                                >
+                                  💬 Discussion
+                                </Button>
+                              </div>
+                              <CollapsibleContent className="pt-2">
+                                <SubtaskTree
+                                  parentId={todo.id}
+                                  onProgressChange={handleSubtaskProgress}
+                                  onParentUpdated={handleParentUpdated}
+                                  readOnly={!canEdit}
+                                />
+                              </CollapsibleContent>
+                            </Collapsible>
+                          </div>
+                          {canEdit && (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => startEdit(todo)}
+                              >
+                                ✏️ Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleArchiveToggle(todo)}
+                              >
+                                {todo.archived_at ? '📤 Unarchive' : '🗄️ Archive'}
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                                    🗑️ Delete
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Todo</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Move "{todo.title}" to the trash? You can restore it from there.
+                                      {todo.child_count > 0 && ` It has ${todo.child_count} subtask(s) - trash them too, or keep them as separate todos.`}
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    {todo.child_count > 0 && (
+                                      <AlertDialogAction
+                                        onClick={() => handleDelete(todo.id, 'reparent')}
+                                        className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                                      >
+                                        Keep subtasks
+                                      </AlertDialogAction>
+                                    )}
+                                    <AlertDialogAction
+                                      onClick={() => handleDelete(todo.id)}
+                                      className="bg-red-600 hover:bg-red-700"
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
 
-      {todos.length > 0 && (
-        <div className="mt-8 text-center">
-          <Separator className="mb-4" />
-          <p className="text-sm text-muted-foreground">
-            💪 Keep going! You've got {totalCount - completedCount} tasks left to complete.
-          </p>
-        </div>
+          {nextCursor && (
+            <div ref={sentinelRef} className="py-6 text-center text-sm text-muted-foreground">
+              {isLoadingMore ? '⏳ Loading more...' : `Showing ${todos.length} of ${total}`}
+            </div>
+          )}
+
+          {todos.length > 0 && !nextCursor && (
+            <div className="mt-8 text-center">
+              <Separator className="mb-4" />
+              <p className="text-sm text-muted-foreground">
+                {status === 'completed'
+                  ? `🏆 ${total} tasks done. Nice work!`
+                  : `💪 Keep going! You've got ${viewCounts.open_count} tasks left to complete.`}
+              </p>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <TrashSheet open={isTrashOpen} onOpenChange={setIsTrashOpen} onRestored={handleRestored} readOnly={!canEdit} />
+      <TodoDetailSheet
+        todo={detailTodo}
+        onClose={() => setDetailTodoId(null)}
+        currentUserId={user.id}
+        role={workspace.role}
+        lookups={{ projects: projectList?.projects ?? [], members }}
+      />
+      {canEdit && (selectedIds.size > 0 || selectAllMatching) && (
+        <BulkActionBar
+          count={selectAllMatching ? total : selectedIds.size}
+          matchingCount={canSelectAllMatching ? total : null}
+          projects={projectList?.projects ?? []}
+          tags={tags}
+          isBusy={isBulkBusy}
+          onSelectAllMatching={handleSelectAllMatching}
+          onComplete={handleBulkComplete}
+          onMove={handleBulkMove}
+          onAddTag={handleBulkAddTag}
+          onDelete={handleBulkDelete}
+          onClear={clearSelection}
+        />
       )}
+
+      <MergeConflictDialog
+        conflict={mergeConflict}
+        lookups={{ projects: projectList?.projects ?? [], members }}
+        onResolve={handleMergeResolved}
+        onCancel={() => setMergeConflict(null)}
+      />
+      <RevisionHistoryDialog
+        todoId={historyTodoId}
+        onClose={() => setHistoryTodoId(null)}
+        onRestored={handleRevisionRestored}
+      />
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+      <MembersDialog
+        open={isMembersOpen}
+        onOpenChange={(open: boolean) => {
+          setIsMembersOpen(open);
+          // Membership changes affect who todos can be assigned to
+          if (!open) loadMembers();
+        }}
+        workspace={workspace}
+        currentUserId={user.id}
+      />
     </div>
   );
 }
 
+// Invite links open the app with ?invite=<token>; read once, then dropped from the address bar
+const takeInviteToken = (): string | null => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('invite');
+  if (token) {
+    url.searchParams.delete('invite');
+    window.history.replaceState(null, '', url);
+  }
+  return token;
+};
+
+// Shows the login screen until there is a session, then the todo app for that user and workspace
+function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceListItem[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<number | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [inviteToken] = useState<string | null>(takeInviteToken);
+  const inviteHandledRef = useRef(false);
+
+  // Every request after this goes to the chosen workspace
+  const switchWorkspace = useCallback((workspaceId: number | null) => {
+    setWorkspaceId(workspaceId);
+    setCurrentWorkspaceId(workspaceId);
+  }, []);
+
+  useEffect(() => {
+    trpc.me.query()
+      .then(setUser)
+      .catch((error: unknown) => showError(error, 'Could not check session'))
+      .finally(() => setIsCheckingSession(false));
+  }, []);
+
+  // Start in the first workspace the user belongs to, or the one an invite link just got them into
+  useEffect(() => {
+    if (!user) return;
+
+    const acceptPendingInvite = async (): Promise<number | null> => {
+      if (!inviteToken || inviteHandledRef.current) return null;
+      inviteHandledRef.current = true;
+      try {
+        const joined = await trpc.acceptInvite.mutate({ token: inviteToken });
+        toast.success(`Joined ${joined.name} as ${joined.role}`);
+        return joined.id;
+      } catch (error) {
+        showError(error, 'Could not accept invite');
+        return null;
+      }
+    };
+
+    acceptPendingInvite()
+      .then(async (joinedId: number | null) => {
+        const result = await trpc.listWorkspaces.query();
+        setWorkspaces(result);
+        switchWorkspace(joinedId ?? result[0]?.id ?? null);
+      })
+      .catch((error: unknown) => showError(error, 'Could not load workspaces'));
+  }, [user, inviteToken, switchWorkspace]);
+
+  const handleCreateWorkspace = async (name: string) => {
+    const workspace = await trpc.createWorkspace.mutate({ name });
+    setWorkspaces((prev: WorkspaceListItem[]) => [...prev, workspace]);
+    switchWorkspace(workspace.id);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      showError(error, 'Could not sign out');
+    }
+    setUser(null);
+    setWorkspaces([]);
+    switchWorkspace(null);
+  };
+
+  if (isCheckingSession) {
+    return null;
+  }
+
+  const workspace = workspaces.find((item: WorkspaceListItem) => item.id === currentWorkspaceId);
+
+  return (
+    <>
+      {!user ? (
+        <AuthScreen onSignedIn={setUser} hasInvite={inviteToken !== null} />
+      ) : workspace ? (
+        // Keyed by user and workspace so nothing from one survives switching to another
+        <TodoApp
+          key={`${user.id}:${workspace.id}`}
+          user={user}
+          workspace={workspace}
+          workspaces={workspaces}
+          onSwitchWorkspace={switchWorkspace}
+          onCreateWorkspace={handleCreateWorkspace}
+          onLogout={handleLogout}
+        />
+      ) : null}
+      <Toaster />
+    </>
+  );
+}
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button';
+import { describeActivity, type ActivityLookups } from '@/lib/activity';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { ActivityEntry } from '../../../server/src/schema';
+
+interface ActivityTimelineProps {
+  todoId: number;
+  lookups: ActivityLookups;
+}
+
+const PAGE_SIZE = 10;
+
+export default function ActivityTimeline({ todoId, lookups }: ActivityTimelineProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPage = useCallback(async (cursor: number | null) => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getTodoActivity.query({ todo_id: todoId, limit: PAGE_SIZE, cursor });
+      setEntries((prev: ActivityEntry[]) => (cursor === null ? result.items : [...prev, ...result.items]));
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      showError(error, 'Could not load activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [todoId]);
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading...' : 'No activity yet.'}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-3 border-l pl-4">
+        {entries.map((entry: ActivityEntry) => (
+          <li key={entry.id} className="text-sm">
+            <p className="text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{entry.actor?.name ?? 'Someone'}</span>
+              {' · '}
+              {entry.created_at.toLocaleString()}
+            </p>
+            {describeActivity(entry, lookups).map((line: string, index: number) => (
+              <p key={index}>{line}</p>
+            ))}
+          </li>
+        ))}
+      </ol>
+      {nextCursor !== null && (
+        <Button variant="ghost" size="sm" disabled={isLoading} onClick={() => loadPage(nextCursor)}>
+          {isLoading ? 'Loading...' : 'Show older'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { initials } from '@/lib/people';
+import type { Assignee } from '../../../server/src/schema';
+
+interface AssigneeAvatarsProps {
+  assignees: Assignee[];
+  max?: number; // Further assignees collapse into a "+n"
+}
+
+export default function AssigneeAvatars({ assignees, max = 3 }: AssigneeAvatarsProps) {
+  if (assignees.length === 0) {
+    return null;
+  }
+
+  const shown = assignees.slice(0, max);
+  const hidden = assignees.length - shown.length;
+
+  return (
+    <div className="flex -space-x-2" title={assignees.map((assignee: Assignee) => assignee.name).join(', ')}>
+      {shown.map((assignee: Assignee) => (
+        <Avatar key={assignee.id} className="size-7 border-2 border-background">
+          <AvatarFallback className="text-xs">{initials(assignee.name)}</AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <Avatar className="size-7 border-2 border-background">
+          <AvatarFallback className="text-xs">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { initials } from '@/lib/people';
+import { useState } from 'react';
+import type { WorkspaceMember } from '../../../server/src/schema';
+
+interface AssigneePickerProps {
+  members: WorkspaceMember[];
+  selected: number[]; // User ids
+  onChange: (userIds: number[]) => void;
+}
+
+function MemberAvatar({ member }: { member: WorkspaceMember }) {
+  return (
+    <Avatar className="size-5">
+      <AvatarFallback className="text-[10px]">{initials(member.name)}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+export default function AssigneePicker({ members, selected, onChange }: AssigneePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const selectedMembers = members.filter((member: WorkspaceMember) => selected.includes(member.user_id));
+  const unselected = members.filter((member: WorkspaceMember) => !selected.includes(member.user_id));
+
+  const addAssignee = (userId: number) => {
+    onChange([...selected, userId]);
+  };
+
+  const removeAssignee = (userId: number) => {
+    onChange(selected.filter((id: number) => id !== userId));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selectedMembers.map((member: WorkspaceMember) => (
+        <Badge key={member.user_id} variant="secondary" className="gap-1 pl-1">
+          <MemberAvatar member={member} />
+          {member.name}
+          <button
+            type="button"
+            className="ml-1 text-muted-foreground hover:text-foreground"
+            onClick={() => removeAssignee(member.user_id)}
+            aria-label={`Unassign ${member.name}`}
+          >
+            ×
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            🙋 Assign
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search members..." />
+            <CommandList>
+              <CommandEmpty>No members found.</CommandEmpty>
+              {unselected.length > 0 && (
+                <CommandGroup heading="Members">
+                  {unselected.map((member: WorkspaceMember) => (
+                    <CommandItem
+                      key={member.user_id}
+                      value={`${member.name} ${member.email}`}
+                      onSelect={() => addAssignee(member.user_id)}
+                    >
+                      <MemberAvatar member={member} />
+                      <span className="truncate">{member.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
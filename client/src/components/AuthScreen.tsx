@@ -0,0 +1,160 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { trpc } from '@/utils/trpc';
+import { describeError } from '@/lib/errors';
+import { useState } from 'react';
+import type { LoginInput, RegisterInput, User } from '../../../server/src/schema';
+
+interface AuthScreenProps {
+  onSignedIn: (user: User) => void;
+  hasInvite?: boolean; // Opened through an invite link, which is accepted after signing in
+}
+
+export default function AuthScreen({ onSignedIn, hasInvite = false }: AuthScreenProps) {
+  const [loginData, setLoginData] = useState<LoginInput>({ email: '', password: '' });
+  const [registerData, setRegisterData] = useState<RegisterInput>({ email: '', name: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = await trpc.login.mutate(loginData);
+      onSignedIn(user);
+    } catch (error) {
+      setError(describeError(error, 'Could not sign in'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const user = await trpc.register.mutate(registerData);
+      onSignedIn(user);
+    } catch (error) {
+      setError(describeError(error, 'Could not register'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-md">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold text-center mb-2">✅ Todo App</h1>
+        <p className="text-center text-muted-foreground">
+          {hasInvite ? "You've been invited to a workspace - sign in or create an account to join" : 'Sign in to see your todos'}
+        </p>
+      </div>
+
+      <Card>
+        <Tabs defaultValue="login" onValueChange={() => setError(null)}>
+          <CardHeader>
+            <TabsList className="w-full">
+              <TabsTrigger value="login">🔑 Sign in</TabsTrigger>
+              <TabsTrigger value="register">🆕 Create account</TabsTrigger>
+            </TabsList>
+          </CardHeader>
+          <CardContent>
+            <TabsContent value="login">
+              <CardTitle className="mb-1">Welcome back</CardTitle>
+              <CardDescription className="mb-4">Sign in with your email and password</CardDescription>
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    autoComplete="email"
+                    value={loginData.email}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setLoginData((prev: LoginInput) => ({ ...prev, email: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={loginData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setLoginData((prev: LoginInput) => ({ ...prev, password: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Signing in...' : 'Sign in'}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <CardTitle className="mb-1">Create an account</CardTitle>
+              <CardDescription className="mb-4">Your todos are private to your account</CardDescription>
+              <form onSubmit={handleRegister} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="register-name">Name</Label>
+                  <Input
+                    id="register-name"
+                    autoComplete="name"
+                    value={registerData.name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setRegisterData((prev: RegisterInput) => ({ ...prev, name: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-email">Email</Label>
+                  <Input
+                    id="register-email"
+                    type="email"
+                    autoComplete="email"
+                    value={registerData.email}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setRegisterData((prev: RegisterInput) => ({ ...prev, email: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    value={registerData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setRegisterData((prev: RegisterInput) => ({ ...prev, password: e.target.value }))
+                    }
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">At least 8 characters</p>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Creating account...' : 'Create account'}
+                </Button>
+              </form>
+            </TabsContent>
+          </CardContent>
+        </Tabs>
+      </Card>
+    </div>
+  );
+}
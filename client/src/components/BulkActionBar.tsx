@@ -0,0 +1,103 @@
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import type { ProjectListItem, Tag } from '../../../server/src/schema';
+
+interface BulkActionBarProps {
+  count: number; // Todos the actions apply to
+  matchingCount: number | null; // Set when every loaded todo is picked but more match the filters
+  projects: ProjectListItem[];
+  tags: Tag[];
+  isBusy: boolean;
+  onSelectAllMatching: () => void;
+  onComplete: () => void;
+  onMove: (projectId: number | null) => void; // Null = Inbox
+  onAddTag: (tagId: number) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+// Floats above the list while todos are selected
+export default function BulkActionBar({
+  count,
+  matchingCount,
+  projects,
+  tags,
+  isBusy,
+  onSelectAllMatching,
+  onComplete,
+  onMove,
+  onAddTag,
+  onDelete,
+  onClear
+}: BulkActionBarProps) {
+  return (
+    <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-background p-2 shadow-lg">
+        <span className="px-2 text-sm font-medium">{count} selected</span>
+        {matchingCount !== null && (
+          <Button variant="link" size="sm" onClick={onSelectAllMatching}>
+            Select all {matchingCount} matching
+          </Button>
+        )}
+
+        <Button size="sm" disabled={isBusy} onClick={onComplete}>
+          ✅ Complete all
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isBusy}>📁 Move to project</Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => onMove(null)}>📥 Inbox</DropdownMenuItem>
+            {projects.map((project: ProjectListItem) => (
+              <DropdownMenuItem key={project.id} onClick={() => onMove(project.id)}>
+                {project.icon ?? '📁'} {project.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isBusy || tags.length === 0}>🏷️ Add tag</Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {tags.map((tag: Tag) => (
+              <DropdownMenuItem key={tag.id} onClick={() => onAddTag(tag.id)}>
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isBusy} className="text-red-600 hover:text-red-700">
+              🗑️ Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {count} todo(s)</AlertDialogTitle>
+              <AlertDialogDescription>
+                Move them to the trash, together with their subtasks? You can restore them from there.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onDelete} className="bg-red-600 hover:bg-red-700">
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <Button variant="ghost" size="sm" onClick={onClear} title="Clear selection">
+          ✖️
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { format } from 'date-fns';
+import { useState } from 'react';
+
+interface DueDatePickerProps {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}
+
+export default function DueDatePicker({ value, onChange }: DueDatePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (day: Date | undefined) => {
+    if (!day) {
+      onChange(null);
+    } else {
+      // A todo due "on" a day stays on time until that day is over
+      const endOfDay = new Date(day);
+      endOfDay.setHours(23, 59, 59, 999);
+      onChange(endOfDay);
+    }
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            📆 {value ? format(value, 'PPP') : 'Set due date'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value ?? undefined}
+            onSelect={handleSelect}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
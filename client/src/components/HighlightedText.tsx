@@ -0,0 +1,19 @@
+interface HighlightedTextProps {
+  text: string; // Search highlight from the server, matches wrapped in <mark></mark>
+}
+
+// Renders server highlights as React elements, so todo text is never interpreted as HTML
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <>
+      {parts.map((part: string, index: number) =>
+        // split() puts captured matches at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 rounded-sm px-0.5">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import type { ReactNode } from 'react';
+
+interface MarkdownProps {
+  text: string;
+}
+
+// Inline syntax: `code`, **bold**, *italic* or _italic_, [label](url) and bare links
+const INLINE = /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\n]+\*|_[^_\n]+_)|(\[[^\]\n]+\]\(https?:\/\/[^)\s]+\))|(https?:\/\/[^\s<]+[^\s<.,;:!?)])/g;
+
+const LINK_CLASS = 'text-primary underline underline-offset-2';
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [token, code, bold, italic, link] = match;
+    const key = `${keyPrefix}-${match.index}`;
+    if (match.index > last) {
+      nodes.push(text.slice(last, match.index));
+    }
+
+    if (code) {
+      nodes.push(<code key={key} className="rounded bg-muted px-1 font-mono text-xs">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+    } else if (link) {
+      const [, label, href] = /^\[(.+)\]\((.+)\)$/.exec(link)!;
+      nodes.push(<a key={key} href={href} target="_blank" rel="noreferrer" className={LINK_CLASS}>{label}</a>);
+    } else {
+      nodes.push(<a key={key} href={token} target="_blank" rel="noreferrer" className={LINK_CLASS}>{token}</a>);
+    }
+    last = match.index + token.length;
+  }
+
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+};
+
+// Lines joined with explicit breaks, as people type them in comments
+const renderLines = (lines: string[], keyPrefix: string): ReactNode[] =>
+  lines.flatMap((line: string, index: number) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`)
+  ]);
+
+const BULLET = /^\s*[-*]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+
+// A small, safe subset of markdown for comments: the text is never interpreted as HTML
+export default function Markdown({ text }: MarkdownProps) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const key = `block-${index}`;
+
+    if (line.trim() === '') {
+      index++;
+    } else if (line.startsWith('```')) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].startsWith('```')) {
+        code.push(lines[index++]);
+      }
+      index++; // Closing fence
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+    } else if (HEADING.test(line)) {
+      const [, hashes, heading] = HEADING.exec(line)!;
+      const size = hashes.length === 1 ? 'text-lg' : hashes.length === 2 ? 'text-base' : 'text-sm';
+      blocks.push(<p key={key} className={`${size} font-semibold`}>{renderInline(heading, key)}</p>);
+      index++;
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const marker = BULLET.test(line) ? BULLET : NUMBERED;
+      const items: string[] = [];
+      while (index < lines.length && marker.test(lines[index])) {
+        items.push(lines[index++].replace(marker, ''));
+      }
+      const children = items.map((item: string, itemIndex: number) => (
+        <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+      ));
+      blocks.push(marker === BULLET
+        ? <ul key={key} className="list-disc pl-5">{children}</ul>
+        : <ol key={key} className="list-decimal pl-5">{children}</ol>);
+    } else if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].startsWith('>')) {
+        quoted.push(lines[index++].replace(/^>\s?/, ''));
+      }
+      blocks.push(
+        <blockquote key={key} className="border-l-2 pl-3 text-muted-foreground">{renderLines(quoted, key)}</blockquote>
+      );
+    } else {
+      // Paragraph: everything up to the next blank line or other block
+      const paragraph: string[] = [];
+      while (
+        index < lines.length &&
+        lines[index].trim() !== '' &&
+        !lines[index].startsWith('```') &&
+        !lines[index].startsWith('>') &&
+        !HEADING.test(lines[index]) &&
+        !BULLET.test(lines[index]) &&
+        !NUMBERED.test(lines[index])
+      ) {
+        paragraph.push(lines[index++]);
+      }
+      blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+    }
+  }
+
+  return <div className="space-y-2 text-sm break-words">{blocks}</div>;
+}
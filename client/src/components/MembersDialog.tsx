@@ -0,0 +1,271 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { AddWorkspaceMemberInput, CreateInviteInput, WorkspaceInvite, WorkspaceListItem, WorkspaceMember, WorkspaceRole } from '../../../server/src/schema';
+
+interface MembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspace: WorkspaceListItem;
+  currentUserId: number;
+}
+
+const roleOptions: { value: WorkspaceRole; label: string }[] = [
+  { value: 'viewer', label: '👀 Viewer' },
+  { value: 'editor', label: '✏️ Editor' },
+  { value: 'owner', label: '👑 Owner' }
+];
+
+function RoleSelect({ value, onChange }: { value: WorkspaceRole; onChange: (role: WorkspaceRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role: string) => onChange(role as WorkspaceRole)}>
+      <SelectTrigger className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {roleOptions.map((option: { value: WorkspaceRole; label: string }) => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const emptyForm: AddWorkspaceMemberInput = { email: '', role: 'editor' };
+const emptyInviteForm: CreateInviteInput = { role: 'editor', email: null };
+
+export default function MembersDialog({ open, onOpenChange, workspace, currentUserId }: MembersDialogProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [formData, setFormData] = useState<AddWorkspaceMemberInput>(emptyForm);
+  const [isAdding, setIsAdding] = useState(false);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [inviteForm, setInviteForm] = useState<CreateInviteInput>(emptyInviteForm);
+  const [newLink, setNewLink] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+
+  // Only owners manage membership; everyone else just sees who is in the workspace
+  const canManage = workspace.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const result = await trpc.listWorkspaceMembers.query();
+      setMembers(result);
+    } catch (error) {
+      showError(error, 'Could not load members');
+    }
+  }, []);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const result = await trpc.listInvites.query();
+      setInvites(result);
+    } catch (error) {
+      showError(error, 'Could not load invites');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadMembers();
+      if (canManage) {
+        loadInvites();
+      }
+    } else {
+      setNewLink(null);
+    }
+  }, [open, canManage, loadMembers, loadInvites]);
+
+  const replaceMember = (updated: WorkspaceMember) => {
+    setMembers((prev: WorkspaceMember[]) =>
+      prev.map((member: WorkspaceMember) => (member.user_id === updated.user_id ? updated : member))
+    );
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.email.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const member = await trpc.addWorkspaceMember.mutate(formData);
+      setMembers((prev: WorkspaceMember[]) => [...prev, member]);
+      setFormData(emptyForm);
+    } catch (error) {
+      showError(error, 'Could not add member');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: number, role: WorkspaceRole) => {
+    try {
+      const updated = await trpc.updateWorkspaceMember.mutate({ user_id: userId, role });
+      replaceMember(updated);
+    } catch (error) {
+      showError(error, 'Could not change role');
+    }
+  };
+
+  const handleRemove = async (userId: number) => {
+    try {
+      await trpc.removeWorkspaceMember.mutate({ user_id: userId });
+      setMembers((prev: WorkspaceMember[]) => prev.filter((member: WorkspaceMember) => member.user_id !== userId));
+    } catch (error) {
+      showError(error, 'Could not remove member');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsInviting(true);
+    try {
+      const result = await trpc.createInvite.mutate({ ...inviteForm, email: inviteForm.email?.trim() || null });
+      setInvites((prev: WorkspaceInvite[]) => [result.invite, ...prev]);
+      setNewLink(result.link);
+      setInviteForm(emptyInviteForm);
+    } catch (error) {
+      showError(error, 'Could not create invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevokeInvite = async (inviteId: number) => {
+    try {
+      await trpc.revokeInvite.mutate({ id: inviteId });
+      setInvites((prev: WorkspaceInvite[]) => prev.filter((invite: WorkspaceInvite) => invite.id !== inviteId));
+    } catch (error) {
+      showError(error, 'Could not revoke invite');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>👥 Members of {workspace.name}</DialogTitle>
+          <DialogDescription>
+            Viewers can read todos, editors can also change them, and owners can also manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <>
+            <form onSubmit={handleAdd} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="member-email">Add someone by email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={formData.email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev: AddWorkspaceMemberInput) => ({ ...prev, email: e.target.value }))
+                  }
+                />
+              </div>
+              <RoleSelect
+                value={formData.role ?? 'editor'}
+                onChange={(role: WorkspaceRole) => setFormData((prev: AddWorkspaceMemberInput) => ({ ...prev, role }))}
+              />
+              <Button type="submit" disabled={isAdding || !formData.email.trim()}>
+                {isAdding ? 'Adding...' : '➕ Add'}
+              </Button>
+            </form>
+
+            <form onSubmit={handleInvite} className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="invite-email">Or create an invite link</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="Only for this email (optional)"
+                  value={inviteForm.email ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setInviteForm((prev: CreateInviteInput) => ({ ...prev, email: e.target.value || null }))
+                  }
+                />
+              </div>
+              <RoleSelect
+                value={inviteForm.role ?? 'editor'}
+                onChange={(role: WorkspaceRole) => setInviteForm((prev: CreateInviteInput) => ({ ...prev, role }))}
+              />
+              <Button type="submit" variant="outline" disabled={isInviting}>
+                {isInviting ? 'Creating...' : '🔗 Invite'}
+              </Button>
+            </form>
+
+            {newLink && (
+              <Alert>
+                <AlertTitle>🔗 Invite link</AlertTitle>
+                <AlertDescription>
+                  <p>Anyone signing in through this link joins the workspace once. Invites for an email are also mailed there.</p>
+                  <div className="flex w-full gap-2">
+                    <Input readOnly value={newLink} className="font-mono text-xs" />
+                    <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newLink)}>
+                      📋 Copy
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {invites.length > 0 && (
+              <ul className="space-y-2">
+                {invites.map((invite: WorkspaceInvite) => (
+                  <li key={invite.id} className="flex items-center justify-between gap-2 rounded-md border border-dashed p-3 text-sm">
+                    <div>
+                      <p>✉️ {invite.email ?? 'Anyone with the link'} <Badge variant="secondary">{invite.role}</Badge></p>
+                      <p className="text-xs text-muted-foreground">
+                        {invite.expires_at.getTime() < Date.now()
+                          ? 'Expired'
+                          : `Expires ${invite.expires_at.toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRevokeInvite(invite.id)}>
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Separator />
+          </>
+        )}
+
+        <ul className="space-y-2">
+          {members.map((member: WorkspaceMember) => (
+            <li key={member.user_id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div>
+                <p className="font-medium">
+                  {member.name}
+                  {member.user_id === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">{member.email}</p>
+              </div>
+              {canManage ? (
+                <div className="flex items-center gap-2">
+                  <RoleSelect value={member.role} onChange={(role: WorkspaceRole) => handleRoleChange(member.user_id, role)} />
+                  <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRemove(member.user_id)}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="secondary">{member.role}</Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
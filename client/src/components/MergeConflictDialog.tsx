@@ -0,0 +1,130 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { type ActivityLookups } from '@/lib/activity';
+import { conflictingFields, defaultChoice, mergeCopies, type MergeChoice, type MergeField, type ServerCopy } from '@/lib/conflicts';
+import { getPriorityOption } from '@/lib/priority';
+import { describeRecurrence } from '@/lib/recurrence';
+import { useEffect, useState } from 'react';
+import type { ProjectListItem, TodoPriority, UpdateTodoInput, WorkspaceMember } from '../../../server/src/schema';
+
+// base is the copy the edit started from, mine the edit as submitted, theirs the newer server copy
+export interface TodoMergeConflict {
+  base: UpdateTodoInput;
+  mine: UpdateTodoInput;
+  theirs: ServerCopy;
+}
+
+interface MergeConflictDialogProps {
+  conflict: TodoMergeConflict | null; // Null while closed
+  lookups: ActivityLookups;
+  onResolve: (merged: UpdateTodoInput) => void;
+  onCancel: () => void;
+}
+
+const fieldLabels: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  completed: 'Status',
+  due_at: 'Due date',
+  priority: 'Priority',
+  project_id: 'Project',
+  recurrence: 'Repeats',
+  assignee_ids: 'Assignees'
+};
+
+const formatValue = (field: MergeField, value: unknown, lookups: ActivityLookups): string => {
+  switch (field) {
+    case 'completed':
+      return value ? 'Done' : 'Open';
+    case 'due_at':
+      return value instanceof Date ? value.toLocaleDateString() : 'No due date';
+    case 'priority':
+      return getPriorityOption(value as TodoPriority).label;
+    case 'project_id':
+      return value === null
+        ? 'Inbox'
+        : lookups.projects.find((project: ProjectListItem) => project.id === value)?.name ?? 'Unknown project';
+    case 'recurrence':
+      return typeof value === 'string' ? describeRecurrence(value) : 'Does not repeat';
+    case 'assignee_ids': {
+      const names = (value as number[]).map((userId: number) =>
+        lookups.members.find((member: WorkspaceMember) => member.user_id === userId)?.name ?? 'A former member'
+      );
+      return names.length > 0 ? names.join(', ') : 'Nobody';
+    }
+    default:
+      return typeof value === 'string' && value !== '' ? value : '(empty)';
+  }
+};
+
+export default function MergeConflictDialog({ conflict, lookups, onResolve, onCancel }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>({});
+
+  const fields = conflict ? conflictingFields(conflict.mine, conflict.theirs) : [];
+
+  useEffect(() => {
+    if (!conflict) return;
+    setChoices(Object.fromEntries(
+      conflictingFields(conflict.mine, conflict.theirs).map((field: MergeField) => [field, defaultChoice(field, conflict.base, conflict.mine)])
+    ));
+  }, [conflict]);
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={(open: boolean) => !open && onCancel()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>🔀 Someone else changed this todo</DialogTitle>
+          <DialogDescription>
+            Pick which version to keep for each field that differs. Fields only they changed default to their version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your changes do not clash with theirs - saving keeps everything.</p>
+          ) : (
+            <ul className="space-y-4">
+              {fields.map((field: MergeField) => (
+                <li key={field} className="space-y-2">
+                  <p className="text-sm font-medium">{fieldLabels[field]}</p>
+                  <RadioGroup
+                    value={choices[field] ?? 'mine'}
+                    onValueChange={(value: string) =>
+                      setChoices((prev: Partial<Record<MergeField, MergeChoice>>) => ({ ...prev, [field]: value as MergeChoice }))
+                    }
+                    className="grid grid-cols-2 gap-2"
+                  >
+                    {(['mine', 'theirs'] as const).map((side: MergeChoice) => (
+                      <Label
+                        key={side}
+                        htmlFor={`merge-${field}-${side}`}
+                        className="flex cursor-pointer items-start gap-2 rounded-md border p-3 font-normal"
+                      >
+                        <RadioGroupItem id={`merge-${field}-${side}`} value={side} className="mt-0.5" />
+                        <span className="min-w-0 space-y-1">
+                          <span className="block text-xs text-muted-foreground">{side === 'mine' ? 'Yours' : 'Theirs'}</span>
+                          <span className="block whitespace-pre-wrap break-words text-sm">
+                            {formatValue(field, side === 'mine' ? conflict.mine[field] : conflict.theirs[field], lookups)}
+                          </span>
+                        </span>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Keep editing</Button>
+          <Button onClick={() => conflict && onResolve(mergeCopies(conflict.mine, conflict.theirs, choices))}>
+            💾 Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { Notification } from '../../../server/src/schema';
+
+interface NotificationBellProps {
+  onOpenTodo: (todoId: number) => void;
+}
+
+// New mentions show up without a reload, but there is no need to ask more often than this
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const describeNotification = (notification: Notification): string => {
+  const who = notification.actor?.name ?? 'Someone';
+  return notification.comment_id !== null
+    ? `${who} mentioned you in a comment on "${notification.todo_title}"`
+    : `${who} mentioned you in "${notification.todo_title}"`;
+};
+
+export default function NotificationBell({ onOpenTodo }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const result = await trpc.listNotifications.query({});
+      setNotifications(result.items);
+      setUnreadCount(result.unread_count);
+    } catch (error) {
+      showError(error, 'Could not load notifications');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    if (open) {
+      loadNotifications();
+    }
+  }, [open, loadNotifications]);
+
+  const markRead = (notificationId: number) => {
+    setNotifications((prev: Notification[]) =>
+      prev.map((notification: Notification) =>
+        notification.id === notificationId ? { ...notification, read_at: new Date() } : notification
+      )
+    );
+    setUnreadCount((prev: number) => Math.max(prev - 1, 0));
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    setOpen(false);
+    onOpenTodo(notification.todo_id);
+    if (notification.read_at) return;
+
+    try {
+      await trpc.markNotificationRead.mutate({ id: notification.id });
+      markRead(notification.id);
+    } catch (error) {
+      showError(error, 'Could not mark notification read');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await trpc.markAllRead.mutate();
+      const now = new Date();
+      setNotifications((prev: Notification[]) =>
+        prev.map((notification: Notification) => ({ ...notification, read_at: notification.read_at ?? now }))
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      showError(error, 'Could not mark notifications read');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          🔔
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px]">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleMarkAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">No notifications yet.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {notifications.map((notification: Notification) => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className={`w-full px-3 py-2 text-left text-sm hover:bg-muted ${notification.read_at ? 'text-muted-foreground' : 'font-medium'}`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  {!notification.read_at && <span className="mr-1 text-blue-600">●</span>}
+                  {describeNotification(notification)}
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {notification.created_at.toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
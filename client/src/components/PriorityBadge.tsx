@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { getPriorityOption } from '@/lib/priority';
+import type { TodoPriority } from '../../../server/src/schema';
+
+interface PriorityBadgeProps {
+  priority: TodoPriority;
+}
+
+export default function PriorityBadge({ priority }: PriorityBadgeProps) {
+  // No badge for todos without a priority to keep cards uncluttered
+  if (priority === 'none') {
+    return null;
+  }
+
+  const option = getPriorityOption(priority);
+  return (
+    <Badge variant="outline" className={option.className}>
+      {option.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { priorityOptions } from '@/lib/priority';
+import type { TodoPriority } from '../../../server/src/schema';
+
+interface PrioritySelectProps {
+  value: TodoPriority;
+  onChange: (value: TodoPriority) => void;
+}
+
+export default function PrioritySelect({ value, onChange }: PrioritySelectProps) {
+  return (
+    <Select value={value} onValueChange={(selected: string) => onChange(selected as TodoPriority)}>
+      <SelectTrigger size="sm" className="w-40">
+        <SelectValue placeholder="Priority" />
+      </SelectTrigger>
+      <SelectContent>
+        {priorityOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,29 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProjectListItem } from '../../../server/src/schema';
+
+interface ProjectSelectProps {
+  projects: ProjectListItem[];
+  value: number | null; // Null = Inbox
+  onChange: (value: number | null) => void;
+}
+
+export default function ProjectSelect({ projects, value, onChange }: ProjectSelectProps) {
+  return (
+    <Select
+      value={value === null ? 'inbox' : value.toString()}
+      onValueChange={(selected: string) => onChange(selected === 'inbox' ? null : parseInt(selected))}
+    >
+      <SelectTrigger size="sm" className="w-44">
+        <SelectValue placeholder="Project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="inbox">📥 Inbox</SelectItem>
+        {projects.map((project: ProjectListItem) => (
+          <SelectItem key={project.id} value={project.id.toString()}>
+            {project.icon ?? '📁'} {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,162 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { showError } from '@/lib/errors';
+import { useState } from 'react';
+import type { CreateProjectInput, ProjectList, ProjectListItem } from '../../../server/src/schema';
+
+// 'all' = every todo, 'inbox' = todos without a project, number = a project id
+export type ProjectView = 'all' | 'inbox' | number;
+
+interface ProjectSidebarProps {
+  projectList: ProjectList | null;
+  selected: ProjectView;
+  onSelect: (view: ProjectView) => void;
+  onCreateProject: (input: CreateProjectInput) => Promise<void>;
+  onArchiveProject: (projectId: number) => void;
+  onDeleteProject: (projectId: number) => void;
+  onOpenTrash: () => void;
+  myTasksSelected: boolean; // Todos assigned to the signed-in user, across projects
+  onSelectMyTasks: () => void;
+  readOnly?: boolean; // Viewers can browse projects but not change them
+}
+
+export default function ProjectSidebar({
+  projectList,
+  selected,
+  onSelect,
+  onCreateProject,
+  onArchiveProject,
+  onDeleteProject,
+  onOpenTrash,
+  myTasksSelected,
+  onSelectMyTasks,
+  readOnly = false
+}: ProjectSidebarProps) {
+  const [formData, setFormData] = useState<CreateProjectInput>({
+    name: '',
+    color: '#64748b',
+    icon: null
+  });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const projects = projectList?.projects ?? [];
+  const totalOpen = projects.reduce(
+    (sum: number, project: ProjectListItem) => sum + project.open_count,
+    projectList?.inbox.open_count ?? 0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await onCreateProject(formData);
+      setFormData({ name: '', color: '#64748b', icon: null });
+    } catch (error) {
+      showError(error, 'Could not create project');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const itemClass = (view: ProjectView) =>
+    `flex w-full items-center justify-between rounded-md px-3 py-2 text-sm hover:bg-muted ${
+      selected === view && !myTasksSelected ? 'bg-muted font-semibold' : ''
+    }`;
+
+  return (
+    <aside className="space-y-4">
+      <nav className="space-y-1">
+        <button type="button" className={itemClass('all')} onClick={() => onSelect('all')}>
+          <span>🗂️ All todos</span>
+          <Badge variant="outline">{totalOpen}</Badge>
+        </button>
+        <button type="button" className={itemClass('inbox')} onClick={() => onSelect('inbox')}>
+          <span>📥 Inbox</span>
+          <Badge variant="outline">{projectList?.inbox.open_count ?? 0}</Badge>
+        </button>
+        <button
+          type="button"
+          className={`flex w-full items-center rounded-md px-3 py-2 text-sm hover:bg-muted ${myTasksSelected ? 'bg-muted font-semibold' : ''}`}
+          onClick={onSelectMyTasks}
+        >
+          🙋 My tasks
+        </button>
+      </nav>
+
+      <div>
+        <h2 className="px-3 mb-1 text-xs font-semibold uppercase text-muted-foreground">Projects</h2>
+        {projects.length === 0 ? (
+          <p className="px-3 text-sm text-muted-foreground">No projects yet.</p>
+        ) : (
+          <nav className="space-y-1">
+            {projects.map((project: ProjectListItem) => (
+              <div key={project.id} className="group flex items-center">
+                <button type="button" className={itemClass(project.id)} onClick={() => onSelect(project.id)}>
+                  <span className="flex items-center gap-2 truncate">
+                    <span className="size-2.5 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+                    {project.icon && <span>{project.icon}</span>}
+                    <span className="truncate">{project.name}</span>
+                  </span>
+                  <Badge variant="outline">{project.open_count}</Badge>
+                </button>
+                {!readOnly && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100" aria-label={`${project.name} options`}>
+                        ⋯
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => onArchiveProject(project.id)}>
+                        🗄️ Archive
+                      </DropdownMenuItem>
+                      <DropdownMenuItem className="text-red-600" onClick={() => onDeleteProject(project.id)}>
+                        🗑️ Delete (todos move to Inbox)
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            ))}
+          </nav>
+        )}
+      </div>
+
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 px-1">
+          <input
+            type="color"
+            value={formData.color}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateProjectInput) => ({ ...prev, color: e.target.value }))
+            }
+            className="size-8 shrink-0 cursor-pointer rounded border"
+            aria-label="Project color"
+          />
+          <Input
+            placeholder="New project"
+            value={formData.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData((prev: CreateProjectInput) => ({ ...prev, name: e.target.value }))
+            }
+          />
+          <Button type="submit" size="sm" disabled={isCreating}>
+            ➕
+          </Button>
+        </form>
+      )}
+
+      <button
+        type="button"
+        className="flex w-full items-center rounded-md px-3 py-2 text-sm text-muted-foreground hover:bg-muted"
+        onClick={onOpenTrash}
+      >
+        🗑️ Trash
+      </button>
+    </aside>
+  );
+}
@@ -0,0 +1,99 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  buildRecurrence,
+  frequencyOptions,
+  parseRecurrence,
+  weekdayOptions,
+  type RecurrenceFrequency,
+  type RecurrenceOptions
+} from '@/lib/recurrence';
+
+interface RecurrencePickerProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+export default function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
+  const options = parseRecurrence(value);
+
+  const update = (changes: Partial<RecurrenceOptions>) => {
+    if (!options) return;
+    onChange(buildRecurrence({ ...options, ...changes }));
+  };
+
+  const handleFrequencyChange = (selected: string) => {
+    if (selected === 'none') {
+      onChange(null);
+    } else if (options) {
+      // Weekday choices rarely carry over between frequencies, so start fresh
+      update({ freq: selected as RecurrenceFrequency, byDay: [] });
+    } else {
+      onChange(buildRecurrence({ freq: selected as RecurrenceFrequency, interval: 1, byDay: [], count: null, extra: [] }));
+    }
+  };
+
+  const unit = frequencyOptions.find((option) => option.value === options?.freq)?.unit;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={options?.freq ?? 'none'} onValueChange={handleFrequencyChange}>
+          <SelectTrigger size="sm" className="w-40">
+            <SelectValue placeholder="Repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">🔁 Does not repeat</SelectItem>
+            {frequencyOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                🔁 {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {options && (
+          <>
+            <span className="text-sm text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              value={options.interval}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                update({ interval: Math.max(1, parseInt(e.target.value) || 1) })
+              }
+              className="h-8 w-16"
+            />
+            <span className="text-sm text-muted-foreground">{unit}(s),</span>
+            <Input
+              type="number"
+              min={1}
+              placeholder="∞"
+              value={options.count ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                update({ count: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null })
+              }
+              className="h-8 w-16"
+            />
+            <span className="text-sm text-muted-foreground">times</span>
+          </>
+        )}
+      </div>
+      {options?.freq === 'WEEKLY' && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={options.byDay}
+          onValueChange={(byDay: string[]) => update({ byDay })}
+        >
+          {weekdayOptions.map((option) => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { DiffPart, Todo, TodoRevision } from '../../../server/src/schema';
+
+interface RevisionHistoryDialogProps {
+  todoId: number | null; // Null while closed
+  onClose: () => void;
+  onRestored: (todo: Todo) => void;
+}
+
+const partClasses: Record<DiffPart['type'], string> = {
+  equal: '',
+  added: 'rounded-sm bg-green-100 text-green-900',
+  removed: 'rounded-sm bg-red-100 text-red-900 line-through'
+};
+
+function DiffText({ parts, empty }: { parts: DiffPart[]; empty: string }) {
+  if (parts.length === 0) {
+    return <p className="text-sm italic text-muted-foreground">{empty}</p>;
+  }
+
+  return (
+    <p className="whitespace-pre-wrap text-sm">
+      {parts.map((part: DiffPart, index: number) => (
+        <span key={index} className={partClasses[part.type]}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
+
+// The oldest revision has nothing to compare against, so all of its text shows as unchanged
+const unchanged = (text: string | null): DiffPart[] => (text ? [{ type: 'equal', text }] : []);
+
+export default function RevisionHistoryDialog({ todoId, onClose, onRestored }: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<TodoRevision[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [diff, setDiff] = useState<{ title: DiffPart[]; description: DiffPart[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async (id: number) => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.listTodoRevisions.query({ todo_id: id });
+      setRevisions(result);
+      setSelectedIndex(0);
+    } catch (error) {
+      showError(error, 'Could not load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (todoId !== null) {
+      loadRevisions(todoId);
+    } else {
+      setRevisions([]);
+      setDiff(null);
+    }
+  }, [todoId, loadRevisions]);
+
+  // Each revision is shown as the change from the one before it (revisions are newest first)
+  const selected = revisions[selectedIndex] ?? null;
+  const previous = revisions[selectedIndex + 1] ?? null;
+
+  useEffect(() => {
+    if (!selected) return;
+    if (!previous) {
+      setDiff({ title: unchanged(selected.title), description: unchanged(selected.description) });
+      return;
+    }
+
+    let cancelled = false;
+    trpc.getTodoRevisionDiff.query({ from_id: previous.id, to_id: selected.id })
+      .then((result) => {
+        if (!cancelled && result) {
+          setDiff({ title: result.title, description: result.description });
+        }
+      })
+      .catch((error: unknown) => showError(error, 'Could not load revision diff'));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, previous]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      const restored = await trpc.restoreTodoRevision.mutate({ id: selected.id });
+      if (restored) {
+        onRestored(restored);
+        onClose();
+      }
+    } catch (error) {
+      showError(error, 'Could not restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={todoId !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>🕘 History</DialogTitle>
+          <DialogDescription>
+            Every change to the title or description is kept. Restoring a version saves it as a new change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : 'The title and description have not been changed yet.'}
+          </p>
+        ) : (
+          <div className="flex gap-4">
+            <ol className="w-48 shrink-0 space-y-1">
+              {revisions.map((revision: TodoRevision, index: number) => (
+                <li key={revision.id}>
+                  <Button
+                    variant={index === selectedIndex ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-auto w-full flex-col items-start py-1 text-left"
+                    onClick={() => setSelectedIndex(index)}
+                  >
+                    <span className="text-xs">{revision.created_at.toLocaleString()}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {revision.author?.name ?? 'Someone'}
+                      {index === 0 && ' · current'}
+                    </span>
+                  </Button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="min-w-0 flex-1 space-y-3">
+              {diff && (
+                <>
+                  <div className="space-y-1">
+                    <Badge variant="outline">Title</Badge>
+                    <DiffText parts={diff.title} empty="No title" />
+                  </div>
+                  <div className="space-y-1">
+                    <Badge variant="outline">Description</Badge>
+                    <DiffText parts={diff.description} empty="No description" />
+                  </div>
+                </>
+              )}
+              <Button size="sm" disabled={selectedIndex === 0 || isRestoring} onClick={handleRestore}>
+                {isRestoring ? 'Restoring...' : '↩️ Restore this version'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
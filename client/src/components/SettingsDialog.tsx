@@ -0,0 +1,210 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiToken, ApiTokenScope, CreateApiTokenInput } from '../../../server/src/schema';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const scopeOptions: { value: ApiTokenScope; label: string }[] = [
+  { value: 'read', label: '👀 Read todos' },
+  { value: 'write', label: '✏️ Create and change todos' },
+  { value: 'admin', label: '🔐 Manage API tokens' }
+];
+
+// Expiry choices in days; 'never' keeps the token until it is revoked
+const expiryOptions = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' }
+];
+
+const emptyForm: CreateApiTokenInput = { name: '', scopes: ['read'], expiresInDays: 90 };
+
+export default function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [formData, setFormData] = useState<CreateApiTokenInput>(emptyForm);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const result = await trpc.listApiTokens.query();
+      setTokens(result);
+    } catch (error) {
+      showError(error, 'Could not load API tokens');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadTokens();
+    } else {
+      // The secret is shown once; closing the dialog forgets it
+      setNewSecret(null);
+    }
+  }, [open, loadTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setFormData((prev: CreateApiTokenInput) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s: ApiTokenScope) => s !== scope)
+        : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || formData.scopes.length === 0) return;
+
+    setIsCreating(true);
+    try {
+      const result = await trpc.createApiToken.mutate(formData);
+      setTokens((prev: ApiToken[]) => [result.token, ...prev]);
+      setNewSecret(result.secret);
+      setFormData(emptyForm);
+    } catch (error) {
+      showError(error, 'Could not create API token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: number) => {
+    try {
+      await trpc.revokeApiToken.mutate({ id: tokenId });
+      setTokens((prev: ApiToken[]) => prev.filter((token: ApiToken) => token.id !== tokenId));
+    } catch (error) {
+      showError(error, 'Could not revoke API token');
+    }
+  };
+
+  const isExpired = (token: ApiToken): boolean =>
+    token.expires_at !== null && token.expires_at.getTime() < Date.now();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>⚙️ Settings</DialogTitle>
+          <DialogDescription>
+            Personal API tokens let scripts use the API as you. Send them as "Authorization: Bearer &lt;token&gt;".
+          </DialogDescription>
+        </DialogHeader>
+
+        {newSecret && (
+          <Alert>
+            <AlertTitle>🔑 Copy your new token now</AlertTitle>
+            <AlertDescription>
+              <p>It will not be shown again.</p>
+              <div className="flex w-full gap-2">
+                <Input readOnly value={newSecret} className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newSecret)}>
+                  📋 Copy
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Token name</Label>
+            <Input
+              id="token-name"
+              placeholder="e.g. Weekly export script"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateApiTokenInput) => ({ ...prev, name: e.target.value }))
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {scopeOptions.map((option: { value: ApiTokenScope; label: string }) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-${option.value}`}
+                  checked={formData.scopes.includes(option.value)}
+                  onCheckedChange={() => toggleScope(option.value)}
+                />
+                <Label htmlFor={`scope-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select
+                value={formData.expiresInDays ? String(formData.expiresInDays) : 'never'}
+                onValueChange={(value: string) =>
+                  setFormData((prev: CreateApiTokenInput) => ({
+                    ...prev,
+                    expiresInDays: value === 'never' ? null : Number(value)
+                  }))
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option: { value: string; label: string }) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isCreating || !formData.name.trim() || formData.scopes.length === 0}>
+              {isCreating ? 'Creating...' : '➕ Create token'}
+            </Button>
+          </div>
+        </form>
+
+        <Separator />
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API tokens yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {tokens.map((token: ApiToken) => (
+              <li key={token.id} className="flex items-start justify-between gap-2 rounded-md border p-3">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {token.name} <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope: ApiTokenScope) => (
+                      <Badge key={scope} variant="secondary">{scope}</Badge>
+                    ))}
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {token.last_used_at ? `Last used ${token.last_used_at.toLocaleString()}` : 'Never used'}
+                    {' · '}
+                    {token.expires_at ? `Expires ${token.expires_at.toLocaleDateString()}` : 'Never expires'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleRevoke(token.id)}>
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useEffect, useState } from 'react';
+import type { SimilarTodo } from '../../../server/src/schema';
+
+interface SimilarTodosProps {
+  title: string; // Title being typed for a new todo
+}
+
+// Titles shorter than this match too much to be useful
+const MIN_TITLE_LENGTH = 4;
+
+export default function SimilarTodos({ title }: SimilarTodosProps) {
+  const [similar, setSimilar] = useState<SimilarTodo[]>([]);
+
+  useEffect(() => {
+    const trimmed = title.trim();
+    if (trimmed.length < MIN_TITLE_LENGTH) {
+      setSimilar([]);
+      return;
+    }
+
+    // Check once typing pauses; ignore answers for titles that have changed since
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await trpc.findSimilarTodos.query({ title: trimmed });
+        if (!cancelled) {
+          setSimilar(result);
+        }
+      } catch (error) {
+        showError(error, 'Could not find similar todos');
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [title]);
+
+  if (similar.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert>
+      <AlertTitle>👯 Similar existing todos</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {similar.map((todo: SimilarTodo) => (
+            <li key={todo.id}>
+              {todo.title}{' '}
+              <span className="text-xs text-muted-foreground">({Math.round(todo.similarity * 100)}% match)</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,209 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { todoConflictOf } from '@/lib/conflicts';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useState, useEffect, useCallback } from 'react';
+import type { Todo, TodoTree } from '../../../server/src/schema';
+
+interface SubtaskTreeProps {
+  parentId: number;
+  // Should be stable (useCallback) - it is a dependency of the loader
+  onProgressChange: (parentId: number, childCount: number, completedChildCount: number) => void;
+  onParentUpdated: (todo: Todo) => void;
+  readOnly?: boolean; // Viewers see the subtasks but cannot change them
+}
+
+interface SubtaskNodeProps {
+  node: TodoTree;
+  onToggle: (node: TodoTree) => void;
+  onDelete: (nodeId: number) => void;
+  onAdd: (parentId: number, title: string) => Promise<void>;
+  readOnly: boolean;
+}
+
+interface AddSubtaskFormProps {
+  parentId: number;
+  onAdd: (parentId: number, title: string) => Promise<void>;
+}
+
+function AddSubtaskForm({ parentId, onAdd }: AddSubtaskFormProps) {
+  const [title, setTitle] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onAdd(parentId, title.trim());
+      setTitle('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        placeholder="Add a subtask..."
+        value={title}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+        className="h-8"
+      />
+      <Button type="submit" size="sm" variant="outline" disabled={isSubmitting}>
+        ➕
+      </Button>
+    </form>
+  );
+}
+
+function SubtaskNode({ node, onToggle, onDelete, onAdd, readOnly }: SubtaskNodeProps) {
+  const [open, setOpen] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const completedChildren = node.children.filter((child: TodoTree) => child.completed).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center gap-2 py-1">
+        {node.children.length > 0 ? (
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="size-6 p-0" aria-label={open ? 'Collapse' : 'Expand'}>
+              {open ? '▾' : '▸'}
+            </Button>
+          </CollapsibleTrigger>
+        ) : (
+          <span className="size-6" />
+        )}
+        <Checkbox checked={node.completed} disabled={readOnly} onCheckedChange={() => onToggle(node)} />
+        <span className={`flex-1 text-sm ${node.completed ? 'line-through text-muted-foreground' : ''}`}>
+          {node.title}
+          {node.children.length > 0 && (
+            <span className="ml-2 text-xs text-muted-foreground">
+              ({completedChildren}/{node.children.length})
+            </span>
+          )}
+        </span>
+        {!readOnly && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding((prev: boolean) => !prev)} aria-label="Add nested subtask">
+              ➕
+            </Button>
+            <Button variant="ghost" size="sm" className="text-red-600" onClick={() => onDelete(node.id)} aria-label="Delete subtask">
+              🗑️
+            </Button>
+          </>
+        )}
+      </div>
+      {isAdding && (
+        <div className="ml-8 mb-1">
+          <AddSubtaskForm parentId={node.id} onAdd={onAdd} />
+        </div>
+      )}
+      <CollapsibleContent className="ml-6 border-l pl-2">
+        {node.children.map((child: TodoTree) => (
+          <SubtaskNode key={child.id} node={child} onToggle={onToggle} onDelete={onDelete} onAdd={onAdd} readOnly={readOnly} />
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export default function SubtaskTree({ parentId, onProgressChange, onParentUpdated, readOnly = false }: SubtaskTreeProps) {
+  const [tree, setTree] = useState<TodoTree | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTree = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getTodo.query({ id: parentId });
+      setTree(result);
+      if (result) {
+        onProgressChange(
+          parentId,
+          result.children.length,
+          result.children.filter((child: TodoTree) => child.completed).length
+        );
+      }
+    } catch (error) {
+      showError(error, 'Could not load subtasks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [parentId, onProgressChange]);
+
+  useEffect(() => {
+    loadTree();
+  }, [loadTree]);
+
+  const handleAdd = async (subtaskParentId: number, title: string) => {
+    try {
+      await trpc.createTodo.mutate({ title, description: null, parent_id: subtaskParentId });
+      await loadTree();
+    } catch (error) {
+      showError(error, 'Could not add subtask');
+    }
+  };
+
+  const handleToggle = async (node: TodoTree) => {
+    try {
+      await trpc.updateTodo.mutate({ id: node.id, version: node.version, completed: !node.completed });
+      await loadTree();
+    } catch (error) {
+      showError(error, 'Could not update subtask');
+      // Changed elsewhere in the meantime; show the current state
+      if (todoConflictOf(error)) await loadTree();
+    }
+  };
+
+  const handleDelete = async (nodeId: number) => {
+    try {
+      await trpc.deleteTodo.mutate({ id: nodeId, subtasks: 'cascade' });
+      await loadTree();
+    } catch (error) {
+      showError(error, 'Could not delete subtask');
+    }
+  };
+
+  const handleCompleteAll = async () => {
+    if (!tree) return;
+
+    try {
+      const updatedParent = await trpc.updateTodo.mutate({ id: parentId, version: tree.version, completed: true, completeChildren: true });
+      if (updatedParent) {
+        onParentUpdated(updatedParent);
+      }
+      await loadTree();
+    } catch (error) {
+      showError(error, 'Could not complete subtasks');
+      if (todoConflictOf(error)) await loadTree();
+    }
+  };
+
+  if (!tree) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading subtasks...' : 'No subtasks.'}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {tree.children.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No subtasks yet.</p>
+      ) : (
+        <div>
+          {tree.children.map((child: TodoTree) => (
+            <SubtaskNode key={child.id} node={child} onToggle={handleToggle} onDelete={handleDelete} onAdd={handleAdd} readOnly={readOnly} />
+          ))}
+        </div>
+      )}
+      {!readOnly && <AddSubtaskForm parentId={parentId} onAdd={handleAdd} />}
+      {!readOnly && tree.children.length > 0 && !tree.completed && (
+        <Button variant="outline" size="sm" onClick={handleCompleteAll}>
+          ✅ Complete with all subtasks
+        </Button>
+      )}
+    </div>
+  );
+}
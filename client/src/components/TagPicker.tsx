@@ -0,0 +1,104 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { showError } from '@/lib/errors';
+import { useState } from 'react';
+import type { Tag } from '../../../server/src/schema';
+
+interface TagPickerProps {
+  availableTags: Tag[];
+  selected: Tag[];
+  onChange: (tags: Tag[]) => void;
+  onCreateTag: (name: string) => Promise<Tag>;
+}
+
+export default function TagPicker({ availableTags, selected, onChange, onCreateTag }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedIds = new Set(selected.map((tag: Tag) => tag.id));
+  const unselected = availableTags.filter((tag: Tag) => !selectedIds.has(tag.id));
+  const trimmedSearch = search.trim();
+  const canCreate = trimmedSearch.length > 0 &&
+    !availableTags.some((tag: Tag) => tag.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const addTag = (tag: Tag) => {
+    onChange([...selected, tag]);
+    setSearch('');
+  };
+
+  const removeTag = (tagId: number) => {
+    onChange(selected.filter((tag: Tag) => tag.id !== tagId));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const tag = await onCreateTag(trimmedSearch);
+      addTag(tag);
+    } catch (error) {
+      showError(error, 'Could not create tag');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map((tag: Tag) => (
+        <Badge key={tag.id} variant="secondary" className="gap-1">
+          #{tag.name}
+          <button
+            type="button"
+            className="ml-1 text-muted-foreground hover:text-foreground"
+            onClick={() => removeTag(tag.id)}
+            aria-label={`Remove tag ${tag.name}`}
+          >
+            ×
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            🏷️ Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create a tag..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>No tags found.</CommandEmpty>
+              {unselected.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {unselected.map((tag: Tag) => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => addTag(tag)}>
+                      #{tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup>
+                  <CommandItem
+                    value={`create ${trimmedSearch}`}
+                    onSelect={handleCreate}
+                    disabled={isCreating}
+                  >
+                    ➕ Create "{trimmedSearch}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
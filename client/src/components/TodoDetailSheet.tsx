@@ -0,0 +1,230 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import AssigneeAvatars from '@/components/AssigneeAvatars';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import Markdown from '@/components/Markdown';
+import PriorityBadge from '@/components/PriorityBadge';
+import { initials } from '@/lib/people';
+import type { ActivityLookups } from '@/lib/activity';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { Comment, Tag, TodoListItem, WorkspaceRole } from '../../../server/src/schema';
+
+interface TodoDetailSheetProps {
+  todo: TodoListItem | null; // Null = closed
+  onClose: () => void;
+  currentUserId: number;
+  role: WorkspaceRole;
+  lookups: ActivityLookups; // Project and member names for the activity timeline
+}
+
+export default function TodoDetailSheet({ todo, onClose, currentUserId, role, lookups }: TodoDetailSheetProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const todoId = todo?.id ?? null;
+  const canComment = role !== 'viewer';
+
+  const loadComments = useCallback(async () => {
+    if (todoId === null) return;
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.listComments.query({ todo_id: todoId });
+      setComments(result);
+    } catch (error) {
+      showError(error, 'Could not load comments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [todoId]);
+
+  // Each todo gets a fresh thread and an empty draft
+  useEffect(() => {
+    setComments([]);
+    setDraft('');
+    setEditingId(null);
+    loadComments();
+  }, [loadComments]);
+
+  const replaceComment = (updated: Comment) => {
+    setComments((prev: Comment[]) => prev.map((comment: Comment) => (comment.id === updated.id ? updated : comment)));
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (todoId === null || !draft.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const comment = await trpc.addComment.mutate({ todo_id: todoId, body: draft });
+      setComments((prev: Comment[]) => [...prev, comment]);
+      setDraft('');
+    } catch (error) {
+      showError(error, 'Could not add comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const startEdit = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null || !editDraft.trim()) return;
+
+    try {
+      const updated = await trpc.editComment.mutate({ id: editingId, body: editDraft });
+      replaceComment(updated);
+      setEditingId(null);
+    } catch (error) {
+      showError(error, 'Could not edit comment');
+    }
+  };
+
+  const handleDelete = async (commentId: number) => {
+    try {
+      await trpc.deleteComment.mutate({ id: commentId });
+      setComments((prev: Comment[]) => prev.filter((comment: Comment) => comment.id !== commentId));
+    } catch (error) {
+      showError(error, 'Could not delete comment');
+    }
+  };
+
+  // Ctrl/Cmd+Enter sends, like most chat boxes
+  const submitOnShortcut = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <Sheet open={todo !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto sm:max-w-lg">
+        {todo && (
+          <>
+            <SheetHeader>
+              <SheetTitle className={todo.completed ? 'line-through text-muted-foreground' : ''}>
+                {todo.completed ? '✅' : '⏳'} {todo.title}
+              </SheetTitle>
+              <SheetDescription>
+                Created {todo.created_at.toLocaleDateString()}
+                {todo.due_at && ` · Due ${todo.due_at.toLocaleDateString()}`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-4 px-4 pb-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <PriorityBadge priority={todo.priority} />
+                {todo.tags.map((tag: Tag) => (
+                  <Badge key={tag.id} variant="secondary">#{tag.name}</Badge>
+                ))}
+                <AssigneeAvatars assignees={todo.assignees} max={5} />
+              </div>
+
+              {todo.description && <Markdown text={todo.description} />}
+
+              <Separator />
+
+              <h3 className="text-sm font-semibold">💬 Discussion</h3>
+              {isLoading && comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              ) : (
+                <ul className="space-y-4">
+                  {comments.map((comment: Comment) => {
+                    const isAuthor = comment.author.id === currentUserId;
+                    return (
+                      <li key={comment.id} className="flex gap-3">
+                        <Avatar className="size-8">
+                          <AvatarFallback className="text-xs">{initials(comment.author.name)}</AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <p className="text-xs text-muted-foreground">
+                            <span className="font-medium text-foreground">{comment.author.name}</span>
+                            {' · '}
+                            {comment.created_at.toLocaleString()}
+                            {comment.edited_at && ' (edited)'}
+                          </p>
+                          {editingId === comment.id ? (
+                            <form onSubmit={handleEditSubmit} className="space-y-2">
+                              <Textarea
+                                value={editDraft}
+                                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setEditDraft(e.target.value)}
+                                onKeyDown={submitOnShortcut}
+                                rows={3}
+                              />
+                              <div className="flex gap-2">
+                                <Button type="submit" size="sm" disabled={!editDraft.trim()}>💾 Save</Button>
+                                <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </form>
+                          ) : (
+                            <Markdown text={comment.body} />
+                          )}
+                          {canComment && editingId !== comment.id && (isAuthor || role === 'owner') && (
+                            <div className="flex gap-1">
+                              {isAuthor && (
+                                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => startEdit(comment)}>
+                                  Edit
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2 text-red-600"
+                                onClick={() => handleDelete(comment.id)}
+                              >
+                                Delete
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {canComment && (
+                <form onSubmit={handlePost} className="space-y-2">
+                  <Textarea
+                    placeholder="Add a comment... @name to mention someone; **bold**, *italic*, `code`, lists and links work"
+                    value={draft}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraft(e.target.value)}
+                    onKeyDown={submitOnShortcut}
+                    rows={3}
+                  />
+                  <Button type="submit" size="sm" disabled={isPosting || !draft.trim()}>
+                    {isPosting ? 'Posting...' : '💬 Comment'}
+                  </Button>
+                </form>
+              )}
+
+              <Separator />
+
+              <h3 className="text-sm font-semibold">🕓 Activity</h3>
+              {/* Keyed by the todo's last update, so edits made meanwhile show up */}
+              <ActivityTimeline key={`${todo.id}:${todo.updated_at.getTime()}`} todoId={todo.id} lookups={lookups} />
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
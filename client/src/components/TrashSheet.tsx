@@ -0,0 +1,135 @@
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import { showError } from '@/lib/errors';
+import { useCallback, useEffect, useState } from 'react';
+import type { Todo, TrashItem } from '../../../server/src/schema';
+
+interface TrashSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (todo: Todo) => void; // Called after a todo came back from the trash
+  readOnly?: boolean; // Viewers can look but not restore or delete
+}
+
+export default function TrashSheet({ open, onOpenChange, onRestored, readOnly = false }: TrashSheetProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.listTrash.query();
+      setItems(result);
+    } catch (error) {
+      showError(error, 'Could not load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload every time the sheet opens so deletions made meanwhile show up
+  useEffect(() => {
+    if (open) {
+      loadTrash();
+    }
+  }, [open, loadTrash]);
+
+  const removeItem = (todoId: number) => {
+    setItems((prev: TrashItem[]) => prev.filter((item: TrashItem) => item.id !== todoId));
+  };
+
+  const handleRestore = async (todoId: number) => {
+    try {
+      const restored = await trpc.restoreTodo.mutate({ id: todoId });
+      removeItem(todoId);
+      onRestored(restored);
+    } catch (error) {
+      showError(error, 'Could not restore todo');
+    }
+  };
+
+  const handlePurge = async (todoId: number) => {
+    try {
+      await trpc.purgeTodo.mutate({ id: todoId });
+      removeItem(todoId);
+    } catch (error) {
+      showError(error, 'Could not delete todo permanently');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await trpc.emptyTrash.mutate();
+      setItems([]);
+    } catch (error) {
+      showError(error, 'Could not empty trash');
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>🗑️ Trash</SheetTitle>
+          <SheetDescription>Deleted todos are kept here for a while before they are removed for good.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3 px-4 pb-4">
+          {!readOnly && items.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-red-600">
+                  🔥 Empty trash
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Permanently delete all {items.length} todo(s) in the trash, including their subtasks? This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleEmptyTrash} className="bg-red-600 hover:bg-red-700">
+                    Empty trash
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+
+          {isLoading && items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The trash is empty.</p>
+          ) : (
+            <ul className="space-y-2">
+              {items.map((item: TrashItem) => (
+                <li key={item.id} className="rounded-md border p-3">
+                  <p className="font-medium">{item.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {item.deleted_at.toLocaleString()}
+                    {item.subtask_count > 0 && ` · ${item.subtask_count} subtask(s)`}
+                  </p>
+                  {!readOnly && (
+                    <div className="mt-2 flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(item.id)}>
+                        ♻️ Restore
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handlePurge(item.id)}>
+                        Delete forever
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
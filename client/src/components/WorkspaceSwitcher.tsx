@@ -0,0 +1,77 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { showError } from '@/lib/errors';
+import { useState } from 'react';
+import type { WorkspaceListItem } from '../../../server/src/schema';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceListItem[];
+  current: WorkspaceListItem;
+  onSwitch: (workspaceId: number) => void;
+  onCreate: (name: string) => Promise<void>;
+}
+
+export default function WorkspaceSwitcher({ workspaces, current, onSwitch, onCreate }: WorkspaceSwitcherProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate(name.trim());
+      setName('');
+      setIsCreateOpen(false);
+    } catch (error) {
+      showError(error, 'Could not create workspace');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <Select value={String(current.id)} onValueChange={(value: string) => onSwitch(Number(value))}>
+        <SelectTrigger size="sm" className="w-48" aria-label="Workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace: WorkspaceListItem) => (
+            <SelectItem key={workspace.id} value={String(workspace.id)}>
+              🏢 {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={() => setIsCreateOpen(true)} aria-label="New workspace">
+        ➕
+      </Button>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>🏢 New workspace</DialogTitle>
+              <DialogDescription>Share todos with others by adding them to a workspace. You will be its owner.</DialogDescription>
+            </DialogHeader>
+            <Input
+              placeholder="e.g. Family, Team Falcon"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating || !name.trim()}>
+                {isCreating ? 'Creating...' : 'Create workspace'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
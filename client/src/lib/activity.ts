@@ -0,0 +1,67 @@
+import { getPriorityOption } from '@/lib/priority';
+import { describeRecurrence } from '@/lib/recurrence';
+import type { ActivityEntry, ActivityValue, ProjectListItem, TodoPriority, WorkspaceMember } from '../../../server/src/schema';
+
+// Names for the ids stored in the log
+export interface ActivityLookups {
+  projects: ProjectListItem[];
+  members: WorkspaceMember[];
+}
+
+const quote = (value: ActivityValue): string => `"${String(value)}"`;
+
+const formatDate = (value: ActivityValue): string =>
+  typeof value === 'string' ? new Date(value).toLocaleDateString() : '';
+
+const projectName = (value: ActivityValue, lookups: ActivityLookups): string =>
+  value === null
+    ? 'Inbox'
+    : lookups.projects.find((project: ProjectListItem) => project.id === value)?.name ?? 'a project that no longer exists';
+
+const memberNames = (userIds: number[], lookups: ActivityLookups): string =>
+  userIds
+    .map((userId: number) => lookups.members.find((member: WorkspaceMember) => member.user_id === userId)?.name ?? 'a former member')
+    .join(', ');
+
+const ids = (value: ActivityValue): number[] => (Array.isArray(value) ? value : []);
+
+// One sentence per changed field, e.g. 'Title changed from "X" to "Y"'
+const describeChange = (field: string, from: ActivityValue, to: ActivityValue, lookups: ActivityLookups): string => {
+  switch (field) {
+    case 'title':
+      return `Title changed from ${quote(from)} to ${quote(to)}`;
+    case 'description':
+      return from === null ? 'Description added' : to === null ? 'Description removed' : 'Description edited';
+    case 'completed':
+      return to ? 'Marked as done' : 'Reopened';
+    case 'due_at':
+      if (from === null) return `Due date set to ${formatDate(to)}`;
+      if (to === null) return 'Due date removed';
+      return `Due date changed from ${formatDate(from)} to ${formatDate(to)}`;
+    case 'priority':
+      return `Priority changed from ${getPriorityOption(from as TodoPriority).label} to ${getPriorityOption(to as TodoPriority).label}`;
+    case 'project_id':
+      return `Moved from ${projectName(from, lookups)} to ${projectName(to, lookups)}`;
+    case 'recurrence':
+      if (to === null) return 'No longer repeats';
+      return `Repeats ${describeRecurrence(String(to)).toLowerCase()}`;
+    case 'assignee_ids': {
+      const added = ids(to).filter((userId: number) => !ids(from).includes(userId));
+      const removed = ids(from).filter((userId: number) => !ids(to).includes(userId));
+      return [
+        ...(added.length > 0 ? [`Assigned to ${memberNames(added, lookups)}`] : []),
+        ...(removed.length > 0 ? [`Unassigned ${memberNames(removed, lookups)}`] : [])
+      ].join('; ');
+    }
+    default:
+      return `${field.replace(/_/g, ' ')} changed`;
+  }
+};
+
+// Human-readable lines for a log entry, shown as one timeline item
+export const describeActivity = (entry: ActivityEntry, lookups: ActivityLookups): string[] => {
+  if (entry.action === 'created') return ['Created this todo'];
+  if (entry.action === 'deleted') return ['Moved it to the trash'];
+
+  return Object.entries(entry.changes).map(([field, change]) => describeChange(field, change.from, change.to, lookups));
+};
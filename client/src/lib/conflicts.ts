@@ -0,0 +1,45 @@
+import { TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../../server/src';
+import type { TodoConflict, UpdateTodoInput } from '../../../server/src/schema';
+
+export type ServerCopy = TodoConflict['current'];
+
+// The fields of the edit form that can clash with someone else's change
+export type MergeField = 'title' | 'description' | 'completed' | 'due_at' | 'priority' | 'project_id' | 'recurrence' | 'assignee_ids';
+
+export const MERGE_FIELDS: MergeField[] = ['title', 'description', 'completed', 'due_at', 'priority', 'project_id', 'recurrence', 'assignee_ids'];
+
+export type MergeChoice = 'mine' | 'theirs';
+
+// The server copy sent along with a CONFLICT error; null for any other error
+export const todoConflictOf = (error: unknown): TodoConflict | null =>
+  error instanceof TRPCClientError ? ((error as TRPCClientError<AppRouter>).data?.conflict ?? null) : null;
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) return [...a].sort().join() === [...b].sort().join();
+  return (a ?? null) === (b ?? null);
+};
+
+// Fields where my edit and the server copy disagree; fields I did not send cannot clash
+export const conflictingFields = (mine: UpdateTodoInput, theirs: ServerCopy): MergeField[] =>
+  MERGE_FIELDS.filter((field: MergeField) => mine[field] !== undefined && !sameValue(mine[field], theirs[field]));
+
+// Where I left a field as it was, only they changed it, so their value is the sensible default
+export const defaultChoice = (field: MergeField, base: UpdateTodoInput, mine: UpdateTodoInput): MergeChoice =>
+  sameValue(base[field], mine[field]) ? 'theirs' : 'mine';
+
+// My edit with the chosen fields taken from the server copy, based on its version so it can be saved
+export const mergeCopies = (
+  mine: UpdateTodoInput,
+  theirs: ServerCopy,
+  choices: Partial<Record<MergeField, MergeChoice>>
+): UpdateTodoInput => {
+  const merged: UpdateTodoInput = { ...mine, version: theirs.version };
+  for (const field of MERGE_FIELDS) {
+    if (choices[field] === 'theirs') {
+      Object.assign(merged, { [field]: theirs[field] });
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,45 @@
+import { TRPCClientError } from '@trpc/client';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/src';
+import type { ErrorReason } from '../../../server/src/helpers/errors';
+
+// Friendlier wording for reasons whose server message is written for API users
+const reasonMessages: Partial<Record<ErrorReason, string>> = {
+  TODO_NOT_FOUND: 'That todo no longer exists - someone may have deleted it',
+  PROJECT_NOT_FOUND: 'That project no longer exists',
+  TAG_NOT_FOUND: 'One of those tags no longer exists',
+  REVISION_NOT_FOUND: 'That version is no longer available',
+  COMMENT_NOT_FOUND: 'That comment no longer exists',
+  REFERENCE_NOT_FOUND: 'Something this refers to no longer exists',
+  ALREADY_EXISTS: 'That already exists',
+  VERSION_CONFLICT: 'Someone else changed this in the meantime',
+  SIGN_IN_REQUIRED: 'Your session has ended - please sign in again',
+  INVALID_CREDENTIALS: 'Invalid email or password',
+  MISSING_SCOPE: 'You are not allowed to do that',
+  NOT_A_MEMBER: 'You are no longer a member of this workspace',
+  ROLE_REQUIRED: 'Your role in this workspace does not allow that',
+  INVALID_INPUT: 'Some of the values are not valid'
+};
+
+// The machine-readable reason the server sent, if the request got that far
+export const errorReasonOf = (error: unknown): ErrorReason | null =>
+  error instanceof TRPCClientError ? ((error as TRPCClientError<AppRouter>).data?.reason ?? null) : null;
+
+// A message for people: specific where the server said why, otherwise what was being attempted
+export const describeError = (error: unknown, fallback: string): string => {
+  if (!(error instanceof TRPCClientError)) {
+    return `${fallback} - check your connection and try again`;
+  }
+
+  const reason = errorReasonOf(error);
+  if (reason === null || reason === 'INTERNAL') {
+    return `${fallback} - something went wrong on our side`;
+  }
+  return reasonMessages[reason] ?? error.message;
+};
+
+// Shows an error as a toast; repeats of the same message replace each other instead of piling up
+export const showError = (error: unknown, fallback: string): void => {
+  const message = describeError(error, fallback);
+  toast.error(message, { id: message });
+};
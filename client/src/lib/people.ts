@@ -0,0 +1,17 @@
+import type { Assignee, WorkspaceMember } from '../../../server/src/schema';
+
+// Up to two initials for an avatar, e.g. "Ada Lovelace" -> "AL"
+export const initials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter((part: string) => part.length > 0)
+    .slice(0, 2)
+    .map((part: string) => part[0].toUpperCase())
+    .join('') || '?';
+
+// Todos list their assignees the way workspace members look, minus the role
+export const memberToAssignee = (member: WorkspaceMember): Assignee => ({
+  id: member.user_id,
+  name: member.name,
+  email: member.email
+});
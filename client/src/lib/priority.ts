@@ -0,0 +1,19 @@
+import type { TodoPriority } from '../../../server/src/schema';
+
+interface PriorityOption {
+  value: TodoPriority;
+  label: string;
+  className: string;
+}
+
+// Highest priority first, as shown in selectors
+export const priorityOptions: PriorityOption[] = [
+  { value: 'urgent', label: '🔥 Urgent', className: 'bg-red-100 text-red-800 border-red-200' },
+  { value: 'high', label: '🔴 High', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  { value: 'medium', label: '🟡 Medium', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  { value: 'low', label: '🔵 Low', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  { value: 'none', label: '⚪ None', className: 'bg-gray-100 text-gray-700 border-gray-200' }
+];
+
+export const getPriorityOption = (priority: TodoPriority): PriorityOption =>
+  priorityOptions.find((option: PriorityOption) => option.value === priority) ?? priorityOptions[priorityOptions.length - 1];
@@ -0,0 +1,97 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// The parts of an RRULE the recurrence picker edits; other parts (e.g. UNTIL) are kept as-is
+export interface RecurrenceOptions {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: string[]; // RRULE weekday codes, possibly with ordinals (e.g. 'MO', '-1FR')
+  count: number | null;
+  extra: string[]; // Unedited parts, re-emitted verbatim
+}
+
+export const frequencyOptions: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year' }
+];
+
+// Monday first, matching the server's week start
+export const weekdayOptions: { value: string; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' }
+];
+
+// The browser's time zone; rules are sent with it, since the weekdays picked and due times are local
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const parseRecurrence = (value: string | null): RecurrenceOptions | null => {
+  if (!value) return null;
+
+  const options: RecurrenceOptions = { freq: 'DAILY', interval: 1, byDay: [], count: null, extra: [] };
+  for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, partValue] = part.split('=');
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        options.freq = partValue.toUpperCase() as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        options.interval = Number(partValue);
+        break;
+      case 'BYDAY':
+        options.byDay = partValue.toUpperCase().split(',');
+        break;
+      case 'COUNT':
+        options.count = Number(partValue);
+        break;
+      default:
+        options.extra.push(part);
+    }
+  }
+  return options;
+};
+
+export const buildRecurrence = (options: RecurrenceOptions): string => {
+  const parts = [`FREQ=${options.freq}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+  if (options.byDay.length > 0) parts.push(`BYDAY=${options.byDay.join(',')}`);
+  if (options.count !== null) parts.push(`COUNT=${options.count}`);
+  return [...parts, ...options.extra].join(';');
+};
+
+const ordinalLabel = (ordinal: number): string => {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${-ordinal}th to last`;
+  const suffix = ordinal % 10 === 1 && ordinal !== 11 ? 'st'
+    : ordinal % 10 === 2 && ordinal !== 12 ? 'nd'
+    : ordinal % 10 === 3 && ordinal !== 13 ? 'rd'
+    : 'th';
+  return `${ordinal}${suffix}`;
+};
+
+const dayLabel = (code: string): string => {
+  const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(code);
+  const weekday = weekdayOptions.find((option) => option.value === match?.[2])?.label ?? code;
+  return match?.[1] ? `${ordinalLabel(Number(match[1]))} ${weekday}` : weekday;
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed"
+export const describeRecurrence = (value: string): string => {
+  const options = parseRecurrence(value);
+  if (!options) return '';
+
+  const unit = frequencyOptions.find((option) => option.value === options.freq)?.unit ?? 'period';
+  let description = options.interval > 1 ? `Every ${options.interval} ${unit}s` : `Every ${unit}`;
+  if (options.byDay.length > 0) {
+    description += ` on ${options.byDay.map(dayLabel).join(', ')}`;
+  }
+  if (options.count !== null) {
+    description += ` (${options.count} left)`;
+  }
+  return description;
+};
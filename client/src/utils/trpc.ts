@@ -1,10 +1,51 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, createWSClient, httpBatchLink, loggerLink, splitLink, wsLink, type TRPCLink, type TRPCWebSocketClient } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// The workspace every request works in; null lets the server pick the user's first one
+let workspaceId: number | null = null;
+
+export const setWorkspaceId = (id: number | null) => {
+  workspaceId = id;
+};
+
+// How long a socket stays open after its last subscription ends
+const SOCKET_IDLE_MS = 10_000;
+
+// Subscriptions run over a WebSocket. The server reads the session and workspace once, when the socket
+// opens (browsers cannot set headers on it, so the workspace goes in the connection params),
+// which is why each workspace gets a socket of its own.
+let socket: { workspaceId: number | null; client: TRPCWebSocketClient } | null = null;
+
+const workspaceSocket = (): TRPCWebSocketClient => {
+  if (!socket || socket.workspaceId !== workspaceId) {
+    socket?.client.close();
+    socket = {
+      workspaceId,
+      client: createWSClient({
+        url: `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/api/ws`,
+        connectionParams: workspaceId === null ? null : { workspaceId: String(workspaceId) },
+        lazy: { enabled: true, closeMs: SOCKET_IDLE_MS } // Only connected while something listens
+      })
+    };
+  }
+  return socket.client;
+};
+
+const subscriptionLink: TRPCLink<AppRouter> = (runtime) => (opts) =>
+  wsLink<AppRouter>({ client: workspaceSocket(), transformer: superjson })(runtime)(opts);
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: subscriptionLink,
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers: () => (workspaceId === null ? {} : { 'x-workspace-id': String(workspaceId) })
+      })
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
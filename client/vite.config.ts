@@ -14,6 +14,7 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
+        ws: true, // Subscriptions
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
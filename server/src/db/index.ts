@@ -9,3 +9,10 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+
+// A transaction handle, for helpers that must run inside db.transaction()
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Anything queries can be run against: the pool-backed db or an open transaction
+export type Executor = typeof db | Transaction;
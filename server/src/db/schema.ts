@@ -1,17 +1,305 @@
-import { serial, text, pgTable, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, boolean, pgEnum, integer, primaryKey, index, unique, jsonb, customType, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { getTableColumns, relations, sql, type SQL } from 'drizzle-orm';
+import { type ActivityChanges, type ApiTokenScope } from '../schema';
+
+// Postgres full-text search document; only ever read inside SQL
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Declaration order matters: Postgres sorts enum values in this order
+export const priorityEnum = pgEnum('priority', ['none', 'low', 'medium', 'high', 'urgent']);
+
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(), // Stored lowercased
+  name: text('name').notNull(),
+  password_hash: text('password_hash').notNull(), // scrypt, see helpers/auth.ts
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Every user column except the password hash - select these for anything returned to clients
+const { password_hash: _passwordHash, ...userColumns } = getTableColumns(usersTable);
+export { userColumns };
+
+// Browser sessions; the cookie holds the token, the table only its SHA-256 hash
+export const sessionsTable = pgTable('sessions', {
+  id: text('id').primaryKey(), // Hashed session token
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Personal access tokens for scripts; like sessions, only the SHA-256 hash of the token is stored
+export const apiTokensTable = pgTable('api_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // What the token is for, e.g. "CI export script"
+  prefix: text('prefix').notNull(), // First characters of the token, to recognise it in the list
+  token_hash: text('token_hash').notNull().unique(),
+  scopes: text('scopes').array().$type<ApiTokenScope[]>().notNull(),
+  expires_at: timestamp('expires_at'), // Nullable - tokens without an expiry live until revoked
+  last_used_at: timestamp('last_used_at'), // Nullable - never used yet
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Every token column except the hash - select these for anything returned to clients
+const { token_hash: _tokenHash, ...apiTokenColumns } = getTableColumns(apiTokensTable);
+export { apiTokenColumns };
+
+// Workspaces hold todos, projects and tags; every user gets a personal one when registering
+export const workspacesTable = pgTable('workspaces', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Declaration order matters: roles compare by it, each including the ones before
+export const workspaceRoleEnum = pgEnum('workspace_role', ['viewer', 'editor', 'owner']);
+
+export const workspaceMembersTable = pgTable('workspace_members', {
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  role: workspaceRoleEnum('role').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspace_id, table.user_id] }),
+]);
+
+// Pending and accepted invitations; the link itself is a signed token naming the row, never stored.
+// Revoking deletes the row, accepting stamps accepted_at so the link works once.
+export const workspaceInvitesTable = pgTable('workspace_invites', {
+  id: serial('id').primaryKey(),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  role: workspaceRoleEnum('role').notNull(),
+  email: text('email'), // Only this account may accept; null = anyone with the link
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  expires_at: timestamp('expires_at').notNull(),
+  accepted_at: timestamp('accepted_at'),
+  accepted_by: integer('accepted_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('workspace_invites_workspace_id_idx').on(table.workspace_id),
+]);
+
+export const projectsTable = pgTable('projects', {
+  id: serial('id').primaryKey(),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color').notNull().default('#64748b'), // Hex color shown in the sidebar
+  icon: text('icon'), // Nullable - optional emoji
+  archived: boolean('archived').notNull().default(false),
+  position: integer('position').notNull().default(0), // Sidebar order, ascending
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
 
 export const todosTable = pgTable('todos', {
   id: serial('id').primaryKey(),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'), // Nullable by default, matches Zod schema
   completed: boolean('completed').notNull().default(false),
+  due_at: timestamp('due_at'), // Nullable - todos without a deadline
+  priority: priorityEnum('priority').notNull().default('none'),
+  // Nullable - todos without a project live in the Inbox; deleting a project moves its todos there
+  project_id: integer('project_id').references(() => projectsTable.id, { onDelete: 'set null' }),
+  // Nullable - top-level todos have no parent; subtasks are removed with their parent
+  parent_id: integer('parent_id').references((): AnyPgColumn => todosTable.id, { onDelete: 'cascade' }),
+  recurrence: text('recurrence'), // Nullable - RFC 5545 RRULE; completing the todo creates the next occurrence
+  // Nullable - IANA time zone whose days and weekdays the recurrence follows; null counts them in UTC
+  time_zone: text('time_zone'),
+  // Maintained by Postgres: title words rank above description words
+  search_vector: tsvector('search_vector').generatedAlwaysAs((): SQL =>
+    sql`setweight(to_tsvector('english', ${todosTable.title}), 'A') || setweight(to_tsvector('english', coalesce(${todosTable.description}, '')), 'B')`
+  ),
+  completed_at: timestamp('completed_at'), // Nullable - when the todo was last completed, cleared when reopened
+  archived_at: timestamp('archived_at'), // Nullable - archived todos are kept for history but hidden from lists
+  deleted_at: timestamp('deleted_at'), // Nullable - set while the todo is in the trash
+  version: integer('version').notNull().default(1), // Bumped by every updateTodo, so stale edits can be detected
+  // Fractional key for the manual order (see helpers/positions); rows inserted without one share the
+  // default until the next rebalance, and sort newest first among themselves
+  position: text('position').notNull().default('V'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('todos_search_vector_idx').using('gin', table.search_vector),
+  // Trigram index behind the duplicate check (helpers/similar); needs the pg_trgm extension in place first
+  index('todos_title_trgm_idx').using('gin', table.title.op('gin_trgm_ops')),
+  index('todos_workspace_id_idx').on(table.workspace_id),
+]);
+
+// Every todo column except the search vector - select these for anything returned to clients
+const { search_vector: _searchVector, ...todoColumns } = getTableColumns(todosTable);
+export { todoColumns };
+
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // Unique per workspace
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('tags_workspace_id_name_unique').on(table.workspace_id, table.name),
+]);
+
+// Join table for the many-to-many relation between todos and tags
+export const todoTagsTable = pgTable('todo_tags', {
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.todo_id, table.tag_id] }),
+]);
+
+// Workspace members a todo is assigned to; usually one, sometimes several
+export const todoAssigneesTable = pgTable('todo_assignees', {
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.todo_id, table.user_id] }),
+  index('todo_assignees_user_id_idx').on(table.user_id),
+]);
+
+// Discussion on a todo, oldest first
+export const commentsTable = pgTable('comments', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  author_id: integer('author_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(), // Markdown
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  edited_at: timestamp('edited_at'), // Null until the author edits it
+}, (table) => [
+  index('comments_todo_id_idx').on(table.todo_id),
+]);
+
+// @mentions of workspace members in a todo's description (comment_id null) or in a comment
+export const mentionsTable = pgTable('mentions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  comment_id: integer('comment_id').references(() => commentsTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('mentions_todo_id_idx').on(table.todo_id),
+]);
+
+// Snapshots of a todo's title and description, so an accidental overwrite can be undone
+export const todoRevisionsTable = pgTable('todo_revisions', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  description: text('description'),
+  author_id: integer('author_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null when unknown
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('todo_revisions_todo_id_idx').on(table.todo_id),
+]);
+
+export const activityActionEnum = pgEnum('activity_action', ['created', 'updated', 'deleted']);
+
+// Audit trail of changes to todos; kept after a todo is purged, hence the title snapshot
+export const activityTable = pgTable('activity', {
+  id: serial('id').primaryKey(),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  todo_id: integer('todo_id').references(() => todosTable.id, { onDelete: 'set null' }), // Null once purged
+  todo_title: text('todo_title').notNull(), // Title at the time of the change
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  action: activityActionEnum('action').notNull(),
+  changes: jsonb('changes').$type<ActivityChanges>().notNull(), // Field name -> { from, to }
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('activity_todo_id_idx').on(table.todo_id),
+  index('activity_workspace_id_idx').on(table.workspace_id),
+]);
+
+export const notificationTypeEnum = pgEnum('notification_type', ['mention']);
+
+// In-app notifications, shown per workspace to the user they are for
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  workspace_id: integer('workspace_id').notNull().references(() => workspacesTable.id, { onDelete: 'cascade' }),
+  type: notificationTypeEnum('type').notNull(),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Who caused it, if known
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  comment_id: integer('comment_id').references(() => commentsTable.id, { onDelete: 'cascade' }),
+  read_at: timestamp('read_at'), // Null while unread
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('notifications_user_id_workspace_id_idx').on(table.user_id, table.workspace_id),
+]);
+
+// Relations for relational queries (db.query.*)
+export const projectsRelations = relations(projectsTable, ({ many }) => ({
+  todos: many(todosTable),
+}));
+
+export const todosRelations = relations(todosTable, ({ one, many }) => ({
+  project: one(projectsTable, { fields: [todosTable.project_id], references: [projectsTable.id] }),
+  parent: one(todosTable, { fields: [todosTable.parent_id], references: [todosTable.id], relationName: 'subtasks' }),
+  children: many(todosTable, { relationName: 'subtasks' }),
+  todoTags: many(todoTagsTable),
+  todoAssignees: many(todoAssigneesTable),
+  comments: many(commentsTable),
+}));
+
+export const tagsRelations = relations(tagsTable, ({ many }) => ({
+  todoTags: many(todoTagsTable),
+}));
+
+export const todoTagsRelations = relations(todoTagsTable, ({ one }) => ({
+  todo: one(todosTable, { fields: [todoTagsTable.todo_id], references: [todosTable.id] }),
+  tag: one(tagsTable, { fields: [todoTagsTable.tag_id], references: [tagsTable.id] }),
+}));
+
+export const todoAssigneesRelations = relations(todoAssigneesTable, ({ one }) => ({
+  todo: one(todosTable, { fields: [todoAssigneesTable.todo_id], references: [todosTable.id] }),
+  user: one(usersTable, { fields: [todoAssigneesTable.user_id], references: [usersTable.id] }),
+}));
+
+export const commentsRelations = relations(commentsTable, ({ one }) => ({
+  todo: one(todosTable, { fields: [commentsTable.todo_id], references: [todosTable.id] }),
+  author: one(usersTable, { fields: [commentsTable.author_id], references: [usersTable.id] }),
+}));
 
 // TypeScript type for the table schema
-export type Todo = typeof todosTable.$inferSelect; // For SELECT operations
+export type User = Omit<typeof usersTable.$inferSelect, 'password_hash'>; // Via userColumns
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type ApiToken = Omit<typeof apiTokensTable.$inferSelect, 'token_hash'>; // Via apiTokenColumns
+
+export type Workspace = typeof workspacesTable.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembersTable.$inferSelect;
+export type WorkspaceInvite = typeof workspaceInvitesTable.$inferSelect;
+
+export type Project = typeof projectsTable.$inferSelect;
+export type NewProject = typeof projectsTable.$inferInsert;
+
+export type Todo = Omit<typeof todosTable.$inferSelect, 'search_vector'>; // For SELECT operations (via todoColumns)
 export type NewTodo = typeof todosTable.$inferInsert; // For INSERT operations
 
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
 // Important: Export all tables for proper query building
-export const tables = { todos: todosTable };
\ No newline at end of file
+export const tables = { 
+  users: usersTable,
+  sessions: sessionsTable,
+  apiTokens: apiTokensTable,
+  workspaces: workspacesTable,
+  workspaceMembers: workspaceMembersTable,
+  workspaceInvites: workspaceInvitesTable,
+  projects: projectsTable,
+  todos: todosTable,
+  tags: tagsTable,
+  todoTags: todoTagsTable,
+  todoAssignees: todoAssigneesTable,
+  comments: commentsTable,
+  mentions: mentionsTable,
+  notifications: notificationsTable,
+  activity: activityTable,
+  todoRevisions: todoRevisionsTable
+};
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { workspaceInvitesTable, workspaceMembersTable, workspacesTable, type User } from '../db/schema';
+import { type AcceptInviteInput, type WorkspaceListItem } from '../schema';
+import { verifyInviteToken } from '../helpers/invites';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Joins the workspace an invite is for, with the invite's role. Each invite works once.
+export const acceptInvite = async (user: User, input: AcceptInviteInput): Promise<WorkspaceListItem> => {
+  const claims = verifyInviteToken(input.token);
+  if (!claims) {
+    throw new DomainError('INVITE_NOT_FOUND', 'Invite link is invalid');
+  }
+
+  const now = new Date();
+  if (claims.expiresAt <= now) {
+    throw new DomainError('INVITE_EXPIRED', 'Invite link has expired');
+  }
+
+  if (claims.email !== null && claims.email !== user.email) {
+    throw new DomainError('INVITE_EMAIL_MISMATCH', 'This invite is for a different email address');
+  }
+
+  return await db.transaction(async (tx) => {
+    // Claiming the invite and checking it is still open in one statement, so two accepts cannot both win
+    const claimed = await tx.update(workspaceInvitesTable)
+      .set({ accepted_at: now, accepted_by: user.id })
+      .where(and(
+        eq(workspaceInvitesTable.id, claims.inviteId),
+        eq(workspaceInvitesTable.workspace_id, claims.workspaceId),
+        isNull(workspaceInvitesTable.accepted_at),
+        gt(workspaceInvitesTable.expires_at, now)
+      ))
+      .returning({ id: workspaceInvitesTable.id })
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new DomainError('INVITE_USED', 'Invite has already been used or was revoked');
+    }
+
+    const joined = await tx.insert(workspaceMembersTable)
+      .values({ workspace_id: claims.workspaceId, user_id: user.id, role: claims.role })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+
+    // Throwing rolls the claim back, leaving the invite for the person it was meant for
+    if (joined.length === 0) {
+      throw new DomainError('ALREADY_MEMBER', 'You are already a member of this workspace');
+    }
+
+    const workspace = (await tx.select()
+      .from(workspacesTable)
+      .where(eq(workspacesTable.id, claims.workspaceId))
+      .execute())[0];
+
+    return { ...workspace, role: joined[0].role };
+  });
+};
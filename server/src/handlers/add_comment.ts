@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type AddCommentInput, type Comment } from '../schema';
+import { isCommentable, selectComments } from '../helpers/comments';
+import { syncMentions } from '../helpers/mentions';
+import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Trashed todos and todos in other workspaces cannot be commented on
+export const addComment = async (workspaceId: number, userId: number, input: AddCommentInput): Promise<Comment> => {
+  if (!(await isCommentable(db, workspaceId, input.todo_id))) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${input.todo_id} not found`);
+  }
+
+  return await db.transaction(async (tx) => {
+    const inserted = await tx.insert(commentsTable)
+      .values({ todo_id: input.todo_id, author_id: userId, body: input.body })
+      .returning({ id: commentsTable.id })
+      .execute();
+
+    await syncMentions(tx, { workspaceId, todoId: input.todo_id, commentId: inserted[0].id, text: input.body, actorId: userId });
+
+    // Read it back with the author's name
+    const comments = await selectComments(tx, workspaceId, eq(commentsTable.id, inserted[0].id));
+    return comments[0];
+  });
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { usersTable, workspaceMembersTable } from '../db/schema';
+import { type AddWorkspaceMemberInput, type WorkspaceMember } from '../schema';
+import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Adds someone who already has an account to the workspace
+export const addWorkspaceMember = async (workspaceId: number, input: AddWorkspaceMemberInput): Promise<WorkspaceMember> => {
+  const users = await db.select({ id: usersTable.id, name: usersTable.name, email: usersTable.email })
+    .from(usersTable)
+    .where(eq(usersTable.email, input.email))
+    .execute();
+
+  if (users.length === 0) {
+    throw new DomainError('USER_NOT_FOUND', `No account found for ${input.email}`);
+  }
+
+  const inserted = await db.insert(workspaceMembersTable)
+    .values({ workspace_id: workspaceId, user_id: users[0].id, role: input.role })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  if (inserted.length === 0) {
+    throw new DomainError('ALREADY_MEMBER', `${input.email} is already a member of this workspace`);
+  }
+
+  const { user_id, role, created_at } = inserted[0];
+  return { user_id, name: users[0].name, email: users[0].email, role, created_at };
+};
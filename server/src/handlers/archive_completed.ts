@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type ArchiveCompletedInput } from '../schema';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { publishTodoChange } from '../helpers/events';
+
+// Archives every completed todo finished before the cutoff, returning how many were archived.
+// Todos completed before completion times were recorded fall back to their last update.
+export const archiveCompleted = async (workspaceId: number, input: ArchiveCompletedInput = {}): Promise<number> => {
+  const now = new Date();
+  const completedBefore = input.completedBefore ?? now;
+
+  const result = await db.update(todosTable)
+    .set({ archived_at: now, updated_at: now, version: sql`${todosTable.version} + 1` })
+    .where(and(
+      eq(todosTable.workspace_id, workspaceId),
+      eq(todosTable.completed, true),
+      or(
+        lt(todosTable.completed_at, completedBefore),
+        and(isNull(todosTable.completed_at), lt(todosTable.updated_at, completedBefore))
+      ),
+      isNull(todosTable.archived_at),
+      isNull(todosTable.deleted_at)
+    ))
+    .returning(todoColumns)
+    .execute();
+
+  result.forEach((todo) => publishTodoChange(workspaceId, { type: 'updated', todo }));
+  return result.length;
+};
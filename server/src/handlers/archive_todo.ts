@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type ArchiveTodoInput, type Todo } from '../schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Hides a todo from lists without deleting it; archiving an archived todo keeps its original archive time
+export const archiveTodo = async (workspaceId: number, input: ArchiveTodoInput): Promise<Todo> => {
+  const now = new Date();
+  const result = await db.update(todosTable)
+    .set({
+      archived_at: sql`coalesce(${todosTable.archived_at}, ${sql.param(now, todosTable.archived_at)})`,
+      updated_at: now,
+      version: sql`${todosTable.version} + 1`
+    })
+    .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+    .returning(todoColumns)
+    .execute();
+
+  // Trashed todos and todos in other workspaces count as missing
+  if (result.length === 0) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
+  }
+
+  publishTodoChange(workspaceId, { type: 'updated', todo: result[0] });
+  return result[0];
+};
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type BulkDeleteTodosInput, type BulkTodoResult } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { lockBulkTargets } from '../helpers/bulk';
+import { fetchDescendants } from '../helpers/subtasks';
+import { logActivity } from '../helpers/activity';
+import { publishTodoChange } from '../helpers/events';
+
+// Moves many todos to the trash in one transaction, each with all of its subtasks (deleteTodo's default).
+// Everything shares one timestamp, so each todo is restored together with its subtasks.
+// actorId is the user deleting them, credited in the activity log; a filter's assignee: 'me' means them.
+export const bulkDeleteTodos = async (
+  workspaceId: number,
+  input: BulkDeleteTodosInput,
+  actorId: number | null = null
+): Promise<BulkTodoResult[]> => {
+  const { results, trashedIds } = await db.transaction(async (tx) => {
+    const { todos, results } = await lockBulkTargets(tx, workspaceId, input.target, actorId ?? undefined);
+    const deletedAt = new Date();
+    const trashedIds = new Set(todos.map((todo) => todo.id));
+
+    for (const todo of todos) {
+      const descendants = await fetchDescendants(tx, todo.id);
+      descendants.forEach((descendant) => trashedIds.add(descendant.id));
+    }
+
+    if (trashedIds.size > 0) {
+      await tx.update(todosTable)
+        .set({ deleted_at: deletedAt })
+        .where(inArray(todosTable.id, [...trashedIds]))
+        .execute();
+    }
+
+    for (const todo of todos) {
+      await logActivity(tx, {
+        todo,
+        actorId,
+        action: 'deleted',
+        changes: { deleted_at: { from: null, to: deletedAt.toISOString() } }
+      });
+    }
+
+    return { results, trashedIds: [...trashedIds] };
+  });
+
+  if (trashedIds.length > 0) {
+    publishTodoChange(workspaceId, { type: 'deleted', ids: trashedIds });
+  }
+  return results;
+};
@@ -0,0 +1,98 @@
+import { db } from '../db';
+import { projectsTable, tagsTable, todoColumns, todosTable, todoTagsTable } from '../db/schema';
+import { type BulkTodoResult, type BulkUpdateTodosInput, type TodoChangeEvent } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { lockBulkTargets } from '../helpers/bulk';
+import { createNextOccurrence } from '../helpers/occurrences';
+import { diffTodos, logActivity } from '../helpers/activity';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Applies the same changes to many todos in one transaction. Todos that already match a change are
+// left alone, so versions only move on (and open edits only conflict) where something really changed.
+// actorId is the user making the change, credited in the activity log; a filter's assignee: 'me' means them.
+export const bulkUpdateTodos = async (
+  workspaceId: number,
+  input: BulkUpdateTodosInput,
+  actorId: number | null = null
+): Promise<BulkTodoResult[]> => {
+  // Validate the target project exists (and is in the workspace) before moving anything
+  if (input.project_id) {
+    const projects = await db.select({ id: projectsTable.id })
+      .from(projectsTable)
+      .where(and(eq(projectsTable.id, input.project_id), eq(projectsTable.workspace_id, workspaceId)))
+      .execute();
+
+    if (projects.length === 0) {
+      throw new DomainError('PROJECT_NOT_FOUND', `Project ${input.project_id} not found`);
+    }
+  }
+
+  const tagIds = [...new Set(input.add_tag_ids ?? [])];
+
+  if (tagIds.length > 0) {
+    const tags = await db.select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(and(inArray(tagsTable.id, tagIds), eq(tagsTable.workspace_id, workspaceId)))
+      .execute();
+
+    if (tags.length !== tagIds.length) {
+      throw new DomainError('TAG_NOT_FOUND', 'One or more tags not found');
+    }
+  }
+
+  // Sent once the transaction has committed
+  const events: TodoChangeEvent[] = [];
+
+  const results = await db.transaction(async (tx) => {
+    const { todos, results } = await lockBulkTargets(tx, workspaceId, input.target, actorId ?? undefined);
+    const now = new Date();
+
+    for (const todo of todos) {
+      const updateData: Partial<typeof todosTable.$inferInsert> = {};
+
+      if (input.completed !== undefined && input.completed !== todo.completed) {
+        updateData.completed = input.completed;
+        updateData.completed_at = input.completed ? now : null;
+      }
+
+      if (input.project_id !== undefined && input.project_id !== todo.project_id) {
+        updateData.project_id = input.project_id;
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        continue;
+      }
+
+      const updated = await tx.update(todosTable)
+        .set({ ...updateData, updated_at: now, version: todo.version + 1 })
+        .where(eq(todosTable.id, todo.id))
+        .returning(todoColumns)
+        .execute();
+
+      await logActivity(tx, { todo: updated[0], actorId, action: 'updated', changes: diffTodos(todo, updated[0]) });
+      events.push({ type: 'updated', todo: updated[0] });
+
+      // Completing an open recurring todo queues up its next occurrence, as with a single update
+      if (updateData.completed === true && updated[0].recurrence) {
+        const occurrence = await createNextOccurrence(tx, updated[0], now, actorId);
+        if (occurrence) {
+          events.push({ type: 'created', todo: occurrence });
+        }
+      }
+    }
+
+    // Tags are only ever added; links a todo already has are kept as they are
+    if (tagIds.length > 0 && todos.length > 0) {
+      await tx.insert(todoTagsTable)
+        .values(todos.flatMap((todo) => tagIds.map((tagId) => ({ todo_id: todo.id, tag_id: tagId }))))
+        .onConflictDoNothing()
+        .execute();
+    }
+
+    return results;
+  });
+
+  events.forEach((event) => publishTodoChange(workspaceId, event));
+  return results;
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { apiTokenColumns, apiTokensTable } from '../db/schema';
+import { type CreateApiTokenInput, type CreateApiTokenResult } from '../schema';
+import { generateApiToken, hashToken } from '../helpers/auth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Characters of the token kept in the clear so it can be recognised later ("tdo_" plus a few more)
+const VISIBLE_PREFIX_LENGTH = 10;
+
+// Creates a personal access token; the secret is returned here and never again
+export const createApiToken = async (userId: number, input: CreateApiTokenInput): Promise<CreateApiTokenResult> => {
+  const secret = generateApiToken();
+  const expiresAt = input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null;
+
+  const result = await db.insert(apiTokensTable)
+    .values({
+      user_id: userId,
+      name: input.name,
+      prefix: secret.slice(0, VISIBLE_PREFIX_LENGTH),
+      token_hash: hashToken(secret),
+      scopes: [...new Set(input.scopes)],
+      expires_at: expiresAt
+    })
+    .returning(apiTokenColumns)
+    .execute();
+
+  return { token: result[0], secret };
+};
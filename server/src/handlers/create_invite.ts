@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { workspaceInvitesTable, workspacesTable, type User } from '../db/schema';
+import { type CreateInviteInput, type CreateInviteResult } from '../schema';
+import { INVITE_TTL_DAYS, inviteLink, signInviteToken } from '../helpers/invites';
+import { getMailTransport } from '../helpers/mail';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates an invite and returns its link; invites addressed to an email are also mailed there
+export const createInvite = async (workspaceId: number, inviter: User, input: CreateInviteInput): Promise<CreateInviteResult> => {
+  const expiresAt = new Date(Date.now() + (input.expiresInDays ?? INVITE_TTL_DAYS) * DAY_MS);
+
+  const invite = (await db.insert(workspaceInvitesTable)
+    .values({
+      workspace_id: workspaceId,
+      role: input.role,
+      email: input.email ?? null,
+      created_by: inviter.id,
+      expires_at: expiresAt
+    })
+    .returning()
+    .execute())[0];
+
+  const link = inviteLink(signInviteToken({
+    inviteId: invite.id,
+    workspaceId,
+    role: invite.role,
+    email: invite.email,
+    expiresAt: invite.expires_at
+  }));
+
+  if (invite.email) {
+    const workspace = (await db.select({ name: workspacesTable.name })
+      .from(workspacesTable)
+      .where(eq(workspacesTable.id, workspaceId))
+      .execute())[0];
+
+    // The inviter has the link either way, so a delivery failure should not undo the invite
+    await getMailTransport().send({
+      to: invite.email,
+      subject: `${inviter.name} invited you to ${workspace.name}`,
+      text: `${inviter.name} invited you to join "${workspace.name}" as ${invite.role}.\n\n`
+        + `Accept the invitation: ${link}\n\nThe link expires on ${invite.expires_at.toUTCString()}.`
+    }).catch((error) => console.error('Sending invite mail failed:', error));
+  }
+
+  return { invite, link };
+};
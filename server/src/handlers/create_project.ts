@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type CreateProjectInput, type Project } from '../schema';
+import { eq, max } from 'drizzle-orm';
+
+export const createProject = async (workspaceId: number, input: CreateProjectInput): Promise<Project> => {
+  // New projects go to the bottom of the sidebar
+  const positions = await db.select({ maxPosition: max(projectsTable.position) })
+    .from(projectsTable)
+    .where(eq(projectsTable.workspace_id, workspaceId))
+    .execute();
+  const maxPosition = positions[0]?.maxPosition;
+
+  const result = await db.insert(projectsTable)
+    .values({
+      workspace_id: workspaceId,
+      name: input.name,
+      color: input.color, // Column default applies when omitted
+      icon: input.icon ?? null,
+      position: maxPosition === null || maxPosition === undefined ? 0 : maxPosition + 1
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
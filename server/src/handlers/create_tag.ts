@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type CreateTagInput, type Tag } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+export const createTag = async (workspaceId: number, input: CreateTagInput): Promise<Tag> => {
+  // Creating a tag that already exists returns the existing one,
+  // so the client can "create" tags freely from the autocomplete
+  const inserted = await db.insert(tagsTable)
+    .values({ workspace_id: workspaceId, name: input.name })
+    .onConflictDoNothing({ target: [tagsTable.workspace_id, tagsTable.name] })
+    .returning()
+    .execute();
+
+  if (inserted.length > 0) {
+    return inserted[0];
+  }
+
+  const existing = await db.select()
+    .from(tagsTable)
+    .where(and(eq(tagsTable.workspace_id, workspaceId), eq(tagsTable.name, input.name)))
+    .execute();
+
+  return existing[0];
+};
@@ -1,23 +1,87 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type CreateTodoInput, type Todo } from '../schema';
+import { projectsTable, todoColumns, todosTable } from '../db/schema';
+import { type CreateTodoInput, type CreateTodoResult } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { findSimilarOpenTodos } from '../helpers/similar';
+import { assertWorkspaceMembers, replaceAssignees } from '../helpers/assignees';
+import { syncMentions } from '../helpers/mentions';
+import { initialValues, logActivity } from '../helpers/activity';
+import { topPosition } from '../helpers/positions';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
 
-export const createTodo = async (input: CreateTodoInput): Promise<Todo> => {
-  try {
+// actorId is the user creating the todo, credited in mention notifications and the activity log
+export const createTodo = async (workspaceId: number, input: CreateTodoInput, actorId: number | null = null): Promise<CreateTodoResult> => {
+  // Validate the project exists (and is in the workspace) before inserting
+  if (input.project_id) {
+    const projects = await db.select({ id: projectsTable.id })
+      .from(projectsTable)
+      .where(and(eq(projectsTable.id, input.project_id), eq(projectsTable.workspace_id, workspaceId)))
+      .execute();
+
+    if (projects.length === 0) {
+      throw new DomainError('PROJECT_NOT_FOUND', `Project ${input.project_id} not found`);
+    }
+  }
+
+  // Validate the parent exists; subtasks default to their parent's project
+  let projectId = input.project_id ?? null; // Inbox unless a project was given
+  if (input.parent_id) {
+    const parents = await db.select({ id: todosTable.id, project_id: todosTable.project_id })
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.parent_id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+      .execute();
+
+    if (parents.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Parent todo ${input.parent_id} not found`);
+    }
+
+    if (input.project_id === undefined) {
+      projectId = parents[0].project_id;
+    }
+  }
+
+  await assertWorkspaceMembers(db, workspaceId, input.assignee_ids ?? []);
+
+  // Look for near-duplicates among open todos before adding another one
+  const similar = await findSimilarOpenTodos(db, workspaceId, input.title);
+  if (input.rejectDuplicates && similar.length > 0) {
+    throw new DomainError('DUPLICATE_TODO', `Similar todo already exists: "${similar[0].title}" (${similar[0].id})`);
+  }
+
+  const todo = await db.transaction(async (tx) => {
     // Insert todo record with completed defaulting to false
-    const result = await db.insert(todosTable)
+    const result = await tx.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: input.title,
         description: input.description,
-        completed: false // Default value for new todos
+        due_at: input.due_at ?? null, // No deadline unless one was provided
+        priority: input.priority ?? 'none',
+        project_id: projectId,
+        parent_id: input.parent_id ?? null,
+        recurrence: input.recurrence ?? null, // One-off unless a rule was provided
+        time_zone: input.time_zone ?? null,
+        completed: false, // Default value for new todos
+        position: await topPosition(tx, workspaceId) // New todos start at the top of the manual order
       })
-      .returning()
+      .returning(todoColumns)
       .execute();
 
-    // Return the created todo (timestamps are already Date objects from database)
+    const changes = initialValues(result[0]);
+    if (input.assignee_ids && input.assignee_ids.length > 0) {
+      await replaceAssignees(tx, result[0].id, input.assignee_ids);
+      changes['assignee_ids'] = { from: [], to: [...new Set(input.assignee_ids)].sort((a, b) => a - b) };
+    }
+
+    await logActivity(tx, { todo: result[0], actorId, action: 'created', changes });
+    await syncMentions(tx, { workspaceId, todoId: result[0].id, commentId: null, text: result[0].description, actorId });
+
     return result[0];
-  } catch (error) {
-    console.error('Todo creation failed:', error);
-    throw error;
-  }
+  });
+
+  publishTodoChange(workspaceId, { type: 'created', todo });
+
+  // Return the created todo (timestamps are already Date objects from database) with any lookalikes
+  return { todo, similar };
 };
\ No newline at end of file
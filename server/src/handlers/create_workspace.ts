@@ -0,0 +1,9 @@
+import { db } from '../db';
+import { type CreateWorkspaceInput, type WorkspaceListItem } from '../schema';
+import { createWorkspaceWithOwner } from '../helpers/workspaces';
+
+// Creates a workspace owned by the user creating it
+export const createWorkspace = async (userId: number, input: CreateWorkspaceInput): Promise<WorkspaceListItem> => {
+  const workspace = await db.transaction((tx) => createWorkspaceWithOwner(tx, input.name, userId));
+  return { ...workspace, role: 'owner' };
+};
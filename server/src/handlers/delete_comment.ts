@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type DeleteCommentInput } from '../schema';
+import { findCommentAuthor } from '../helpers/comments';
+import { hasRole, type WorkspaceMembership } from '../helpers/workspaces';
+import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Authors can delete their own comments, owners can moderate anyone's
+export const deleteComment = async (workspace: WorkspaceMembership, userId: number, input: DeleteCommentInput): Promise<void> => {
+  const authorId = await findCommentAuthor(db, workspace.id, input.id);
+  if (authorId === null) {
+    throw new DomainError('COMMENT_NOT_FOUND', `Comment ${input.id} not found`);
+  }
+  if (authorId !== userId && !hasRole(workspace.role, 'owner')) {
+    throw new DomainError('NOT_COMMENT_AUTHOR', 'Only the author or a workspace owner can delete a comment');
+  }
+
+  const deleted = await db.delete(commentsTable)
+    .where(eq(commentsTable.id, input.id))
+    .returning({ id: commentsTable.id })
+    .execute();
+
+  // Deleted since the author was looked up
+  if (deleted.length === 0) {
+    throw new DomainError('COMMENT_NOT_FOUND', `Comment ${input.id} not found`);
+  }
+};
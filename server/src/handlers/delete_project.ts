@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { projectsTable, todoColumns, todosTable } from '../db/schema';
+import { type DeleteProjectInput } from '../schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+export const deleteProject = async (workspaceId: number, input: DeleteProjectInput): Promise<void> => {
+  const movedTodos = await db.transaction(async (tx) => {
+    // The project's todos go to the Inbox. The foreign key (on delete set null) would do it too,
+    // but silently; moving them first gives them a new version and something to publish
+    const moved = await tx.update(todosTable)
+      .set({ project_id: null, updated_at: new Date(), version: sql`${todosTable.version} + 1` })
+      .where(and(eq(todosTable.project_id, input.id), eq(todosTable.workspace_id, workspaceId)))
+      .returning(todoColumns)
+      .execute();
+
+    const result = await tx.delete(projectsTable)
+      .where(and(eq(projectsTable.id, input.id), eq(projectsTable.workspace_id, workspaceId)))
+      .returning({ id: projectsTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new DomainError('PROJECT_NOT_FOUND', `Project ${input.id} not found`);
+    }
+
+    return moved;
+  });
+
+  // Trashed todos move too, but no list shows them
+  movedTodos
+    .filter((todo) => todo.deleted_at === null)
+    .forEach((todo) => publishTodoChange(workspaceId, { type: 'updated', todo }));
+};
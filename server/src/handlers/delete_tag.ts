@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type DeleteTagInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+export const deleteTag = async (workspaceId: number, input: DeleteTagInput): Promise<void> => {
+  // Links to todos are removed by the cascading foreign key
+  const result = await db.delete(tagsTable)
+    .where(and(eq(tagsTable.id, input.id), eq(tagsTable.workspace_id, workspaceId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new DomainError('TAG_NOT_FOUND', `Tag ${input.id} not found`);
+  }
+};
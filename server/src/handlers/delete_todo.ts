@@ -1,20 +1,59 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type DeleteTodoInput } from '../schema';
-import { eq } from 'drizzle-orm';
-
-export const deleteTodo = async (input: DeleteTodoInput): Promise<boolean> => {
-  try {
-    // Delete the todo record by ID
-    const result = await db.delete(todosTable)
-      .where(eq(todosTable.id, input.id))
-      .returning()
+import { todoColumns, todosTable } from '../db/schema';
+import { type DeleteTodoInput, type Todo } from '../schema';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { fetchDescendants } from '../helpers/subtasks';
+import { logActivity } from '../helpers/activity';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Moves a todo to the trash; purgeTodo, emptyTrash or the retention purge remove it for good.
+// actorId is the user deleting it, credited in the activity log.
+export const deleteTodo = async (workspaceId: number, input: DeleteTodoInput, actorId: number | null = null): Promise<boolean> => {
+  const { trashedIds, reparented } = await db.transaction(async (tx) => {
+    const existing = await tx.select(todoColumns)
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+      .execute();
+
+    // Already in the trash counts as missing
+    if (existing.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
+    }
+
+    // Everything trashed in one go shares the timestamp, so it can be restored together
+    const deletedAt = new Date();
+    const trashedIds = [input.id];
+    let reparented: Todo[] = [];
+
+    if (input.subtasks === 'reparent') {
+      // Move direct subtasks up one level before the parent goes away
+      reparented = await tx.update(todosTable)
+        .set({ parent_id: existing[0].parent_id, updated_at: deletedAt, version: sql`${todosTable.version} + 1` })
+        .where(and(eq(todosTable.parent_id, input.id), isNull(todosTable.deleted_at)))
+        .returning(todoColumns)
+        .execute();
+    } else {
+      const descendants = await fetchDescendants(tx, input.id);
+      trashedIds.push(...descendants.map((descendant) => descendant.id));
+    }
+
+    await tx.update(todosTable)
+      .set({ deleted_at: deletedAt })
+      .where(inArray(todosTable.id, trashedIds))
       .execute();
 
-    // Return true if a record was deleted, false if not found
-    return result.length > 0;
-  } catch (error) {
-    console.error('Todo deletion failed:', error);
-    throw error;
-  }
-};
\ No newline at end of file
+    await logActivity(tx, {
+      todo: existing[0],
+      actorId,
+      action: 'deleted',
+      changes: { deleted_at: { from: null, to: deletedAt.toISOString() } }
+    });
+
+    return { trashedIds, reparented };
+  });
+
+  publishTodoChange(workspaceId, { type: 'deleted', ids: trashedIds });
+  reparented.forEach((todo) => publishTodoChange(workspaceId, { type: 'updated', todo }));
+  return true;
+};
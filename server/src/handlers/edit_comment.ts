@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment, type EditCommentInput } from '../schema';
+import { findCommentAuthor, selectComments } from '../helpers/comments';
+import { syncMentions } from '../helpers/mentions';
+import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Only the author can change what they wrote
+export const editComment = async (workspaceId: number, userId: number, input: EditCommentInput): Promise<Comment> => {
+  const authorId = await findCommentAuthor(db, workspaceId, input.id);
+  if (authorId === null) {
+    throw new DomainError('COMMENT_NOT_FOUND', `Comment ${input.id} not found`);
+  }
+  if (authorId !== userId) {
+    throw new DomainError('NOT_COMMENT_AUTHOR', 'Only the author can edit a comment');
+  }
+
+  return await db.transaction(async (tx) => {
+    const updated = await tx.update(commentsTable)
+      .set({ body: input.body, edited_at: new Date() })
+      .where(eq(commentsTable.id, input.id))
+      .returning({ todo_id: commentsTable.todo_id })
+      .execute();
+
+    // Deleted since the author was looked up
+    if (updated.length === 0) {
+      throw new DomainError('COMMENT_NOT_FOUND', `Comment ${input.id} not found`);
+    }
+
+    // Newly mentioned people are notified; those already mentioned are not
+    await syncMentions(tx, { workspaceId, todoId: updated[0].todo_id, commentId: input.id, text: input.body, actorId: userId });
+
+    const comments = await selectComments(tx, workspaceId, eq(commentsTable.id, input.id));
+    return comments[0];
+  });
+};
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { purgeTrash } from '../helpers/trash';
+import { publishTodoChange } from '../helpers/events';
+
+// Permanently deletes everything in the workspace's trash, returning how many todos were removed
+export const emptyTrash = async (workspaceId: number): Promise<number> => {
+  const purgedIds = await purgeTrash(db, { workspaceId: workspaceId });
+
+  if (purgedIds.length > 0) {
+    publishTodoChange(workspaceId, { type: 'deleted', ids: purgedIds });
+  }
+  return purgedIds.length;
+};
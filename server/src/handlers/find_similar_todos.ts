@@ -0,0 +1,10 @@
+import { db } from '../db';
+import { type FindSimilarTodosInput, type SimilarTodo } from '../schema';
+import { findSimilarOpenTodos } from '../helpers/similar';
+
+export const findSimilarTodos = async (workspaceId: number, input: FindSimilarTodosInput): Promise<SimilarTodo[]> => {
+  return await findSimilarOpenTodos(db, workspaceId, input.title, {
+    excludeId: input.excludeId,
+    limit: input.limit
+  });
+};
@@ -1,20 +1,62 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type GetTodoInput, type Todo } from '../schema';
-import { eq } from 'drizzle-orm';
-
-export const getTodo = async (input: GetTodoInput): Promise<Todo | null> => {
-  try {
-    // Query for the specific todo by ID
-    const results = await db.select()
-      .from(todosTable)
-      .where(eq(todosTable.id, input.id))
-      .execute();
-
-    // Return the todo if found, null otherwise
-    return results.length > 0 ? results[0] : null;
-  } catch (error) {
-    console.error('Get todo failed:', error);
-    throw error;
+import { commentsTable, todoColumns, todosTable, type Todo as TodoRow } from '../db/schema';
+import { type GetTodoInput, type TodoDetail, type TodoTree } from '../schema';
+import { and, count, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { fetchDescendants } from '../helpers/subtasks';
+import { selectComments } from '../helpers/comments';
+import { DomainError } from '../helpers/errors';
+
+// How much of the discussion includeComments previews; listComments has the rest
+const LATEST_COMMENTS = 3;
+
+export const getTodo = async (workspaceId: number, input: GetTodoInput): Promise<TodoDetail> => {
+  // Query for the specific todo by ID
+  const results = await db.select(todoColumns)
+    .from(todosTable)
+    .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+    .execute();
+
+  // Trashed todos and todos in other workspaces count as missing
+  if (results.length === 0) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
   }
-};
\ No newline at end of file
+
+  // Group every descendant under its parent, then assemble the tree from the root down
+  const descendants = await fetchDescendants(db, input.id);
+  const childrenByParent = new Map<number, TodoRow[]>();
+  for (const descendant of descendants) {
+    const siblings = childrenByParent.get(descendant.parent_id!) ?? [];
+    siblings.push(descendant);
+    childrenByParent.set(descendant.parent_id!, siblings);
+  }
+
+  // Subtasks are listed oldest first, in the order they were added
+  const buildTree = (todo: TodoRow): TodoTree => ({
+    ...todo,
+    children: (childrenByParent.get(todo.id) ?? [])
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || a.id - b.id)
+      .map(buildTree)
+  });
+
+  const tree = buildTree(results[0]);
+  if (!input.includeComments) {
+    return tree;
+  }
+
+  const counts = await db.select({ count: count() })
+    .from(commentsTable)
+    .where(eq(commentsTable.todo_id, input.id))
+    .execute();
+
+  const latestIds = db.select({ id: commentsTable.id })
+    .from(commentsTable)
+    .where(eq(commentsTable.todo_id, input.id))
+    .orderBy(desc(commentsTable.created_at), desc(commentsTable.id))
+    .limit(LATEST_COMMENTS);
+
+  return {
+    ...tree,
+    comment_count: counts[0].count,
+    latest_comments: await selectComments(db, workspaceId, inArray(commentsTable.id, latestIds))
+  };
+};
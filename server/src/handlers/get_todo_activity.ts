@@ -0,0 +1,10 @@
+import { db } from '../db';
+import { activityTable } from '../db/schema';
+import { type ActivityPage, type GetTodoActivityInput } from '../schema';
+import { listActivity } from '../helpers/activity';
+import { eq } from 'drizzle-orm';
+
+// The history of one todo, newest first; empty for todos outside the workspace
+export const getTodoActivity = async (workspaceId: number, input: GetTodoActivityInput): Promise<ActivityPage> => {
+  return await listActivity(db, workspaceId, input, eq(activityTable.todo_id, input.todo_id));
+};
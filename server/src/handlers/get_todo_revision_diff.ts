@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { todoRevisionsTable } from '../db/schema';
+import { type GetTodoRevisionDiffInput, type TodoRevisionDiff } from '../schema';
+import { selectRevisions } from '../helpers/revisions';
+import { diffWords } from '../helpers/word_diff';
+import { DomainError } from '../helpers/errors';
+import { inArray } from 'drizzle-orm';
+
+// Word-level diff from one revision to another; both must belong to the same todo in the workspace
+export const getTodoRevisionDiff = async (workspaceId: number, input: GetTodoRevisionDiffInput): Promise<TodoRevisionDiff> => {
+  const revisions = await selectRevisions(db, workspaceId, inArray(todoRevisionsTable.id, [input.from_id, input.to_id]));
+
+  const from = revisions.find((revision) => revision.id === input.from_id);
+  const to = revisions.find((revision) => revision.id === input.to_id);
+  if (!from || !to) {
+    throw new DomainError('REVISION_NOT_FOUND', `Revision ${from ? input.to_id : input.from_id} not found`);
+  }
+
+  if (from.todo_id !== to.todo_id) {
+    throw new DomainError('REVISIONS_OF_DIFFERENT_TODOS', 'Revisions belong to different todos');
+  }
+
+  return {
+    from,
+    to,
+    title: diffWords(from.title, to.title),
+    description: diffWords(from.description ?? '', to.description ?? '')
+  };
+};
@@ -1,20 +1,139 @@
 import { db } from '../db';
 import { todosTable } from '../db/schema';
-import { type Todo } from '../schema';
-import { desc } from 'drizzle-orm';
+import { type GetTodosInput, type TodoPage } from '../schema';
+import { fetchChildCounts } from '../helpers/subtasks';
+import { flattenAssignees, withAssignees } from '../helpers/assignees';
+import { todoFilterConditions } from '../helpers/filters';
+import { positionOrder } from '../helpers/positions';
+import { and, asc, count, desc, or, sql, type SQL } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
 
-export const getTodos = async (): Promise<Todo[]> => {
+const DEFAULT_PAGE_SIZE = 20;
+
+type SortBy = NonNullable<GetTodosInput['sortBy']>;
+type SortDir = NonNullable<GetTodosInput['sortDir']>;
+
+// One column of the ordering; `type` casts cursor values back from text
+interface SortKey {
+  expression: SQL | typeof todosTable.id;
+  direction: SortDir;
+  type: 'timestamp' | 'text' | 'priority' | 'integer';
+}
+
+const defaultDirections: Record<SortBy, SortDir> = {
+  created_at: 'desc',
+  updated_at: 'desc',
+  title: 'asc',
+  due: 'asc',
+  priority: 'desc',
+  position: 'asc'
+};
+
+// Todos without a deadline sort as if due at the end of time
+const dueOrInfinity = sql`coalesce(${todosTable.due_at}, 'infinity'::timestamp)`;
+
+// Full ordering for a sort option, always ending in the id so every row has a unique position
+const sortKeysFor = (sortBy: SortBy, direction: SortDir): SortKey[] => {
+  const keys: SortKey[] = {
+    created_at: [{ expression: sql`${todosTable.created_at}`, direction, type: 'timestamp' as const }],
+    updated_at: [{ expression: sql`${todosTable.updated_at}`, direction, type: 'timestamp' as const }],
+    title: [{ expression: sql`${todosTable.title}`, direction, type: 'text' as const }],
+    due: [{ expression: dueOrInfinity, direction, type: 'timestamp' as const }],
+    priority: [
+      { expression: sql`${todosTable.priority}`, direction, type: 'priority' as const },
+      { expression: dueOrInfinity, direction: 'asc' as const, type: 'timestamp' as const },
+      { expression: sql`${todosTable.created_at}`, direction: 'desc' as const, type: 'timestamp' as const }
+    ],
+    // Todos sharing a position (until the next rebalance) keep the newest first
+    position: [
+      { expression: positionOrder, direction, type: 'text' as const },
+      { expression: sql`${todosTable.created_at}`, direction: 'desc' as const, type: 'timestamp' as const }
+    ]
+  }[sortBy];
+
+  return [...keys, { expression: todosTable.id, direction, type: 'integer' }];
+};
+
+// Cursors are the sort key values of the last row on a page, as text, so timestamps keep full precision
+const encodeCursor = (values: string[]): string => Buffer.from(JSON.stringify(values)).toString('base64url');
+
+const decodeCursor = (cursor: string, keyCount: number): string[] => {
   try {
-    // Query all todos ordered by created_at descending (newest first)
-    const results = await db.select()
-      .from(todosTable)
-      .orderBy(desc(todosTable.created_at))
-      .execute();
-
-    // Return todos - no numeric conversions needed since no numeric columns
-    return results;
-  } catch (error) {
-    console.error('Failed to fetch todos:', error);
-    throw error;
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(values) && values.length === keyCount && values.every((value) => typeof value === 'string')) {
+      return values;
+    }
+  } catch {
+    // Fall through to the error below
   }
-};
\ No newline at end of file
+  throw new DomainError('INVALID_CURSOR', 'Invalid cursor');
+};
+
+// Rows strictly after the cursor in the given ordering:
+// (k1 after v1) or (k1 = v1 and k2 after v2) or ...
+const afterCursor = (keys: SortKey[], values: string[]): SQL => {
+  const alternatives = keys.map((key, index) => {
+    const equalities = keys.slice(0, index).map((previous, previousIndex) =>
+      sql`${previous.expression} = ${values[previousIndex]}::${sql.raw(previous.type)}`
+    );
+    const operator = sql.raw(key.direction === 'asc' ? '>' : '<');
+    return and(...equalities, sql`${key.expression} ${operator} ${values[index]}::${sql.raw(key.type)}`)!;
+  });
+  return or(...alternatives)!;
+};
+
+// userId is the signed-in user, which assignee: 'me' refers to
+export const getTodos = async (workspaceId: number, input: GetTodosInput = {}, userId?: number): Promise<TodoPage> => {
+  const conditions = todoFilterConditions(workspaceId, input, userId);
+
+  // Total across all pages, before the cursor narrows things down
+  const totals = await db.select({ total: count() })
+    .from(todosTable)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .execute();
+
+  // Default order: created_at descending (newest first)
+  const sortBy = input.sortBy ?? 'created_at';
+  const sortKeys = sortKeysFor(sortBy, input.sortDir ?? defaultDirections[sortBy]);
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+
+  const pageConditions = input.cursor
+    ? [...conditions, afterCursor(sortKeys, decodeCursor(input.cursor, sortKeys.length))]
+    : conditions;
+
+  // Relational query so each todo comes back with its tags; one extra row tells whether another page exists
+  const rows = await db.query.todosTable.findMany({
+    where: pageConditions.length > 0 ? and(...pageConditions) : undefined,
+    orderBy: sortKeys.map((key) => key.direction === 'asc' ? asc(key.expression) : desc(key.expression)),
+    limit: limit + 1,
+    columns: { search_vector: false },
+    extras: {
+      sort_keys: sql<string[]>`array[${sql.join(sortKeys.map((key) => sql`${key.expression}::text`), sql`, `)}]`.as('sort_keys')
+    },
+    with: {
+      todoTags: {
+        with: { tag: true }
+      },
+      ...withAssignees
+    }
+  });
+
+  const results = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(results[results.length - 1].sort_keys) : null;
+
+  // Subtask progress: direct children per returned todo
+  const countsByParent = await fetchChildCounts(db, results.map((todo) => todo.id));
+
+  // Flatten the join rows into a plain list of tags per todo
+  const items = results.map(({ todoTags, todoAssignees, sort_keys: _sortKeys, ...todo }) => ({
+    ...todo,
+    tags: todoTags
+      .map((todoTag) => todoTag.tag)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    assignees: flattenAssignees(todoAssignees),
+    child_count: countsByParent.get(todo.id)?.child_count ?? 0,
+    completed_child_count: countsByParent.get(todo.id)?.completed_child_count ?? 0
+  }));
+
+  return { items, nextCursor, total: totals[0].total };
+};
@@ -0,0 +1,8 @@
+import { db } from '../db';
+import { type ActivityPage, type GetWorkspaceActivityInput } from '../schema';
+import { listActivity } from '../helpers/activity';
+
+// Everything that happened to the workspace's todos, newest first
+export const getWorkspaceActivity = async (workspaceId: number, input: GetWorkspaceActivityInput = {}): Promise<ActivityPage> => {
+  return await listActivity(db, workspaceId, input);
+};
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { apiTokenColumns, apiTokensTable } from '../db/schema';
+import { type ApiToken } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+export const listApiTokens = async (userId: number): Promise<ApiToken[]> => {
+  // Newest first; expired tokens stay listed until revoked so their names still make sense
+  return await db.select(apiTokenColumns)
+    .from(apiTokensTable)
+    .where(eq(apiTokensTable.user_id, userId))
+    .orderBy(desc(apiTokensTable.created_at), desc(apiTokensTable.id))
+    .execute();
+};
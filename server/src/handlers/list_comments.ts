@@ -0,0 +1,10 @@
+import { db } from '../db';
+import { commentsTable } from '../db/schema';
+import { type Comment, type ListCommentsInput } from '../schema';
+import { selectComments } from '../helpers/comments';
+import { eq } from 'drizzle-orm';
+
+// The whole discussion on a todo, oldest first; empty for todos outside the workspace
+export const listComments = async (workspaceId: number, input: ListCommentsInput): Promise<Comment[]> => {
+  return await selectComments(db, workspaceId, eq(commentsTable.todo_id, input.todo_id));
+};
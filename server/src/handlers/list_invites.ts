@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { workspaceInvitesTable } from '../db/schema';
+import { type WorkspaceInvite } from '../schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+// Invites nobody has accepted yet, newest first; expired ones stay listed until revoked
+export const listInvites = async (workspaceId: number): Promise<WorkspaceInvite[]> => {
+  return await db.select()
+    .from(workspaceInvitesTable)
+    .where(and(eq(workspaceInvitesTable.workspace_id, workspaceId), isNull(workspaceInvitesTable.accepted_at)))
+    .orderBy(desc(workspaceInvitesTable.created_at), desc(workspaceInvitesTable.id))
+    .execute();
+};
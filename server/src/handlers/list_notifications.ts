@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { notificationsTable, todosTable, usersTable } from '../db/schema';
+import { type ListNotificationsInput, type NotificationList } from '../schema';
+import { and, count, desc, eq, isNull, type SQL } from 'drizzle-orm';
+
+const DEFAULT_LIMIT = 20;
+
+// The user's notifications in a workspace, newest first, with the unread count for the bell
+export const listNotifications = async (
+  workspaceId: number,
+  userId: number,
+  input: ListNotificationsInput = {}
+): Promise<NotificationList> => {
+  const mine = and(eq(notificationsTable.user_id, userId), eq(notificationsTable.workspace_id, workspaceId))!;
+  const conditions: SQL[] = [mine];
+  if (input.unreadOnly) {
+    conditions.push(isNull(notificationsTable.read_at));
+  }
+
+  const items = await db.select({
+    id: notificationsTable.id,
+    type: notificationsTable.type,
+    actor: {
+      id: usersTable.id,
+      name: usersTable.name,
+      email: usersTable.email
+    },
+    todo_id: notificationsTable.todo_id,
+    todo_title: todosTable.title,
+    comment_id: notificationsTable.comment_id,
+    read_at: notificationsTable.read_at,
+    created_at: notificationsTable.created_at
+  })
+    .from(notificationsTable)
+    .innerJoin(todosTable, eq(notificationsTable.todo_id, todosTable.id))
+    .leftJoin(usersTable, eq(notificationsTable.actor_id, usersTable.id))
+    .where(and(...conditions))
+    .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+    .limit(input.limit ?? DEFAULT_LIMIT)
+    .execute();
+
+  const unread = await db.select({ count: count() })
+    .from(notificationsTable)
+    .where(and(mine, isNull(notificationsTable.read_at)))
+    .execute();
+
+  return { items, unread_count: unread[0].count };
+};
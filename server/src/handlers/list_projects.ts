@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { projectsTable, todosTable } from '../db/schema';
+import { type ListProjectsInput, type ProjectList } from '../schema';
+import { and, asc, count, eq, getTableColumns, isNull, sql } from 'drizzle-orm';
+
+// Counts open (not completed) todos alongside the total
+const openCount = sql<number>`count(${todosTable.id}) filter (where ${todosTable.completed} = false)`.mapWith(Number);
+
+export const listProjects = async (workspaceId: number, input: ListProjectsInput = {}): Promise<ProjectList> => {
+  const projects = await db.select({
+    ...getTableColumns(projectsTable),
+    todo_count: count(todosTable.id),
+    open_count: openCount
+  })
+    .from(projectsTable)
+    .leftJoin(todosTable, and(
+      eq(todosTable.project_id, projectsTable.id),
+      isNull(todosTable.archived_at),
+      isNull(todosTable.deleted_at)
+    ))
+    .where(and(eq(projectsTable.workspace_id, workspaceId), input.includeArchived ? undefined : eq(projectsTable.archived, false)))
+    .groupBy(projectsTable.id)
+    .orderBy(asc(projectsTable.position), asc(projectsTable.id))
+    .execute();
+
+  // The Inbox is every todo in the workspace without a project; archived and trashed todos count nowhere
+  const inbox = await db.select({
+    todo_count: count(todosTable.id),
+    open_count: openCount
+  })
+    .from(todosTable)
+    .where(and(
+      eq(todosTable.workspace_id, workspaceId),
+      isNull(todosTable.project_id),
+      isNull(todosTable.archived_at),
+      isNull(todosTable.deleted_at)
+    ))
+    .execute();
+
+  return { projects, inbox: inbox[0] };
+};
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type Tag } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const listTags = async (workspaceId: number): Promise<Tag[]> => {
+  // Alphabetical order for display in pickers
+  return await db.select()
+    .from(tagsTable)
+    .where(eq(tagsTable.workspace_id, workspaceId))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+};
@@ -0,0 +1,10 @@
+import { db } from '../db';
+import { todoRevisionsTable } from '../db/schema';
+import { type ListTodoRevisionsInput, type TodoRevision } from '../schema';
+import { selectRevisions } from '../helpers/revisions';
+import { eq } from 'drizzle-orm';
+
+// The saved titles and descriptions of a todo, newest first; empty for todos outside the workspace
+export const listTodoRevisions = async (workspaceId: number, input: ListTodoRevisionsInput): Promise<TodoRevision[]> => {
+  return await selectRevisions(db, workspaceId, eq(todoRevisionsTable.todo_id, input.todo_id));
+};
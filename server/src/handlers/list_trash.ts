@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { todoColumns, todosTable, type Todo } from '../db/schema';
+import { type TrashItem } from '../schema';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+
+// Lists what was deleted, most recent first. Subtasks trashed along with their parent
+// are folded into it (and counted) rather than listed separately.
+export const listTrash = async (workspaceId: number): Promise<TrashItem[]> => {
+  const trashed = await db.select(todoColumns)
+    .from(todosTable)
+    .where(and(eq(todosTable.workspace_id, workspaceId), isNotNull(todosTable.deleted_at)))
+    .orderBy(desc(todosTable.deleted_at), desc(todosTable.id))
+    .execute();
+
+  const byId = new Map(trashed.map((todo) => [todo.id, todo]));
+
+  // Deleted together = parent is in the trash with the very same timestamp
+  const trashedWithParent = (todo: Todo): boolean => {
+    const parent = todo.parent_id !== null ? byId.get(todo.parent_id) : undefined;
+    return parent !== undefined && parent.deleted_at!.getTime() === todo.deleted_at!.getTime();
+  };
+
+  const subtaskCounts = new Map<number, number>();
+  for (const todo of trashed) {
+    // Walk up to the todo that was actually deleted and count this one towards it
+    let current = todo;
+    while (trashedWithParent(current)) {
+      current = byId.get(current.parent_id!)!;
+    }
+    if (current !== todo) {
+      subtaskCounts.set(current.id, (subtaskCounts.get(current.id) ?? 0) + 1);
+    }
+  }
+
+  return trashed
+    .filter((todo) => !trashedWithParent(todo))
+    .map((todo) => ({
+      ...todo,
+      deleted_at: todo.deleted_at!,
+      subtask_count: subtaskCounts.get(todo.id) ?? 0
+    }));
+};
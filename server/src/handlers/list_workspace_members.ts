@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { usersTable, workspaceMembersTable } from '../db/schema';
+import { type WorkspaceMember } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const listWorkspaceMembers = async (workspaceId: number): Promise<WorkspaceMember[]> => {
+  return await db.select({
+    user_id: workspaceMembersTable.user_id,
+    name: usersTable.name,
+    email: usersTable.email,
+    role: workspaceMembersTable.role,
+    created_at: workspaceMembersTable.created_at
+  })
+    .from(workspaceMembersTable)
+    .innerJoin(usersTable, eq(workspaceMembersTable.user_id, usersTable.id))
+    .where(eq(workspaceMembersTable.workspace_id, workspaceId))
+    .orderBy(asc(workspaceMembersTable.created_at), asc(workspaceMembersTable.user_id))
+    .execute();
+};
@@ -0,0 +1,14 @@
+import { db } from '../db';
+import { workspaceMembersTable, workspacesTable } from '../db/schema';
+import { type WorkspaceListItem } from '../schema';
+import { asc, eq, getTableColumns } from 'drizzle-orm';
+
+// Workspaces the user belongs to, in the order they joined them
+export const listWorkspaces = async (userId: number): Promise<WorkspaceListItem[]> => {
+  return await db.select({ ...getTableColumns(workspacesTable), role: workspaceMembersTable.role })
+    .from(workspaceMembersTable)
+    .innerJoin(workspacesTable, eq(workspaceMembersTable.workspace_id, workspacesTable.id))
+    .where(eq(workspaceMembersTable.user_id, userId))
+    .orderBy(asc(workspaceMembersTable.created_at), asc(workspacesTable.id))
+    .execute();
+};
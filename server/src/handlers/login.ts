@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LoginInput, type User } from '../schema';
+import { createSession, verifyPassword, type NewSession } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Same message for unknown emails and wrong passwords, so accounts cannot be probed
+const INVALID_CREDENTIALS = 'Invalid email or password';
+
+export const login = async (input: LoginInput): Promise<{ user: User; session: NewSession }> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, input.email))
+    .execute();
+
+  if (users.length === 0) {
+    throw new DomainError('INVALID_CREDENTIALS', INVALID_CREDENTIALS);
+  }
+
+  const { password_hash: passwordHash, ...user } = users[0];
+  if (!(await verifyPassword(input.password, passwordHash))) {
+    throw new DomainError('INVALID_CREDENTIALS', INVALID_CREDENTIALS);
+  }
+
+  const session = await createSession(db, user.id);
+  return { user, session };
+};
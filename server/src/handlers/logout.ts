@@ -0,0 +1,14 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { hashToken } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+// Ends the session behind a token; returns false when there was no such session
+export const logout = async (sessionToken: string): Promise<boolean> => {
+  const result = await db.delete(sessionsTable)
+    .where(eq(sessionsTable.id, hashToken(sessionToken)))
+    .returning({ id: sessionsTable.id })
+    .execute();
+
+  return result.length > 0;
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Marks every unread notification of the user in the workspace as read; returns how many there were
+export const markAllRead = async (workspaceId: number, userId: number): Promise<number> => {
+  const updated = await db.update(notificationsTable)
+    .set({ read_at: new Date() })
+    .where(and(
+      eq(notificationsTable.user_id, userId),
+      eq(notificationsTable.workspace_id, workspaceId),
+      isNull(notificationsTable.read_at)
+    ))
+    .returning({ id: notificationsTable.id })
+    .execute();
+
+  return updated.length;
+};
@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { type MarkNotificationReadInput } from '../schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Marking a read notification again keeps its original read time; other users' notifications count as missing
+export const markNotificationRead = async (workspaceId: number, userId: number, input: MarkNotificationReadInput): Promise<void> => {
+  const updated = await db.update(notificationsTable)
+    .set({ read_at: sql`coalesce(${notificationsTable.read_at}, ${sql.param(new Date(), notificationsTable.read_at)})` })
+    .where(and(
+      eq(notificationsTable.id, input.id),
+      eq(notificationsTable.user_id, userId),
+      eq(notificationsTable.workspace_id, workspaceId)
+    ))
+    .returning({ id: notificationsTable.id })
+    .execute();
+
+  if (updated.length === 0) {
+    throw new DomainError('NOTIFICATION_NOT_FOUND', `Notification ${input.id} not found`);
+  }
+};
@@ -0,0 +1,115 @@
+import { db, type Transaction } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type MoveTodoInput, type Todo } from '../schema';
+import { and, asc, count, desc, eq, inArray, isNull, ne, sql } from 'drizzle-orm';
+import { keyBetween, positionOrder, rebalancePositions } from '../helpers/positions';
+import { DomainError } from '../helpers/errors';
+import { publishTodoChange } from '../helpers/events';
+
+// Position of a todo the moved one is placed next to; null when no todo was given on that side
+const neighbourPosition = async (tx: Transaction, workspaceId: number, id: number | null | undefined): Promise<string | null> => {
+  if (id == null) {
+    return null;
+  }
+
+  const rows = await tx.select({ position: todosTable.position })
+    .from(todosTable)
+    .where(and(eq(todosTable.id, id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${id} not found`);
+  }
+  return rows[0].position;
+};
+
+// The closest position on one side of a key, skipping the todo being moved; null at either end
+const adjacentPosition = async (
+  tx: Transaction,
+  workspaceId: number,
+  movedId: number,
+  position: string,
+  side: 'above' | 'below'
+): Promise<string | null> => {
+  const rows = await tx.select({ position: todosTable.position })
+    .from(todosTable)
+    .where(and(
+      eq(todosTable.workspace_id, workspaceId),
+      ne(todosTable.id, movedId),
+      side === 'above' ? sql`${positionOrder} < ${position}` : sql`${positionOrder} > ${position}`
+    ))
+    .orderBy(side === 'above' ? desc(positionOrder) : asc(positionOrder))
+    .limit(1)
+    .execute();
+
+  return rows[0]?.position ?? null;
+};
+
+// Whether any other todo shares a neighbour's position, so there is no gap to move into
+const sharesPosition = async (tx: Transaction, workspaceId: number, movedId: number, positions: string[]): Promise<boolean> => {
+  if (positions.length === 0) {
+    return false;
+  }
+
+  const rows = await tx.select({ count: count() })
+    .from(todosTable)
+    .where(and(eq(todosTable.workspace_id, workspaceId), ne(todosTable.id, movedId), inArray(todosTable.position, positions)))
+    .execute();
+
+  return rows[0].count > new Set(positions).size;
+};
+
+// Moves a todo within the workspace's manual order by giving it a key between its new neighbours.
+// Only its own row changes (no new version: the content stays the same), unless the neighbours share
+// a position, in which case the workspace is rebalanced first.
+export const moveTodo = async (workspaceId: number, input: MoveTodoInput): Promise<Todo> => {
+  if (input.id === input.beforeId || input.id === input.afterId) {
+    throw new DomainError('INVALID_INPUT', 'A todo cannot be moved next to itself');
+  }
+
+  const moved = await db.transaction(async (tx) => {
+    const existing = await tx.select({ id: todosTable.id })
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+      .for('update')
+      .execute();
+
+    if (existing.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
+    }
+
+    const loadNeighbours = async () => [
+      await neighbourPosition(tx, workspaceId, input.beforeId),
+      await neighbourPosition(tx, workspaceId, input.afterId)
+    ];
+
+    let [before, after] = await loadNeighbours();
+    const given = [before, after].filter((position): position is string => position !== null);
+    if (await sharesPosition(tx, workspaceId, input.id, given)) {
+      await rebalancePositions(tx, workspaceId);
+      [before, after] = await loadNeighbours();
+    }
+
+    // With one neighbour given, the other is whichever todo is next to it now
+    if (before === null) {
+      before = await adjacentPosition(tx, workspaceId, input.id, after!, 'above');
+    } else if (after === null) {
+      after = await adjacentPosition(tx, workspaceId, input.id, before, 'below');
+    }
+
+    if (before !== null && after !== null && before >= after) {
+      throw new DomainError('INVALID_INPUT', `Todo ${input.beforeId} does not come before todo ${input.afterId}`);
+    }
+
+    const result = await tx.update(todosTable)
+      .set({ position: keyBetween(before, after) })
+      .where(eq(todosTable.id, input.id))
+      .returning(todoColumns)
+      .execute();
+
+    return result[0];
+  });
+
+  publishTodoChange(workspaceId, { type: 'updated', todo: moved });
+  return moved;
+};
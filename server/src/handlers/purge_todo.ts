@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type PurgeTodoInput } from '../schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { fetchDescendantIds } from '../helpers/subtasks';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Permanently deletes a trashed todo; its subtasks go with it through the cascading foreign key
+export const purgeTodo = async (workspaceId: number, input: PurgeTodoInput): Promise<void> => {
+  const purgedIds = await db.transaction(async (tx) => {
+    // Looked up first, since the cascade leaves nothing to find afterwards
+    const descendantIds = await fetchDescendantIds(tx, input.id);
+
+    const result = await tx.delete(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNotNull(todosTable.deleted_at)))
+      .returning({ id: todosTable.id })
+      .execute();
+
+    // Only todos in the trash can be purged
+    if (result.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found in the trash`);
+    }
+
+    return [input.id, ...descendantIds];
+  });
+
+  publishTodoChange(workspaceId, { type: 'deleted', ids: purgedIds });
+};
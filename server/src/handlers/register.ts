@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { userColumns, usersTable } from '../db/schema';
+import { type RegisterInput, type User } from '../schema';
+import { createSession, hashPassword, type NewSession } from '../helpers/auth';
+import { createWorkspaceWithOwner } from '../helpers/workspaces';
+import { DomainError } from '../helpers/errors';
+
+// Creates an account with a personal workspace and signs it in straight away
+export const register = async (input: RegisterInput): Promise<{ user: User; session: NewSession }> => {
+  const passwordHash = await hashPassword(input.password);
+
+  return await db.transaction(async (tx) => {
+    const inserted = await tx.insert(usersTable)
+      .values({ email: input.email, name: input.name, password_hash: passwordHash })
+      .onConflictDoNothing({ target: usersTable.email })
+      .returning(userColumns)
+      .execute();
+
+    if (inserted.length === 0) {
+      throw new DomainError('EMAIL_TAKEN', 'Email is already registered');
+    }
+
+    await createWorkspaceWithOwner(tx, 'Personal', inserted[0].id);
+
+    const session = await createSession(tx, inserted[0].id);
+    return { user: inserted[0], session };
+  });
+};
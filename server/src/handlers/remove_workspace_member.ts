@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { todoAssigneesTable, todosTable, workspaceMembersTable } from '../db/schema';
+import { type RemoveWorkspaceMemberInput } from '../schema';
+import { assertOwnerRemains, lockWorkspace } from '../helpers/workspaces';
+import { and, eq, inArray } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Removes a member and unassigns them; the workspace's content stays, and the last owner cannot be removed
+export const removeWorkspaceMember = async (workspaceId: number, input: RemoveWorkspaceMemberInput): Promise<void> => {
+  await db.transaction(async (tx) => {
+    await lockWorkspace(tx, workspaceId);
+
+    const removed = await tx.delete(workspaceMembersTable)
+      .where(and(
+        eq(workspaceMembersTable.workspace_id, workspaceId),
+        eq(workspaceMembersTable.user_id, input.user_id)
+      ))
+      .returning({ user_id: workspaceMembersTable.user_id })
+      .execute();
+
+    if (removed.length === 0) {
+      throw new DomainError('USER_NOT_FOUND', `User ${input.user_id} is not a member of this workspace`);
+    }
+
+    await assertOwnerRemains(tx, workspaceId);
+
+    await tx.delete(todoAssigneesTable)
+      .where(and(
+        eq(todoAssigneesTable.user_id, input.user_id),
+        inArray(todoAssigneesTable.todo_id, tx.select({ id: todosTable.id }).from(todosTable).where(eq(todosTable.workspace_id, workspaceId)))
+      ))
+      .execute();
+  });
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type RenameTagInput, type Tag } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+export const renameTag = async (workspaceId: number, input: RenameTagInput): Promise<Tag> => {
+  const result = await db.update(tagsTable)
+    .set({ name: input.name })
+    .where(and(eq(tagsTable.id, input.id), eq(tagsTable.workspace_id, workspaceId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new DomainError('TAG_NOT_FOUND', `Tag ${input.id} not found`);
+  }
+
+  return result[0];
+};
@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type RestoreTodoInput, type Todo } from '../schema';
+import { and, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import { fetchDescendants } from '../helpers/subtasks';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Brings a todo back from the trash together with the subtasks that were trashed with it
+export const restoreTodo = async (workspaceId: number, input: RestoreTodoInput): Promise<Todo> => {
+  const restored = await db.transaction(async (tx) => {
+    const existing = await tx.select(todoColumns)
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNotNull(todosTable.deleted_at)))
+      .execute();
+
+    // Only todos in the trash can be restored
+    if (existing.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found in the trash`);
+    }
+
+    const todo = existing[0];
+    const descendants = await fetchDescendants(tx, todo.id, todo.deleted_at!);
+
+    // A subtask whose parent is still in the trash comes back as a top-level todo
+    let parentId = todo.parent_id;
+    if (parentId !== null) {
+      const parents = await tx.select({ id: todosTable.id })
+        .from(todosTable)
+        .where(and(eq(todosTable.id, parentId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      if (parents.length === 0) {
+        parentId = null;
+      }
+    }
+
+    const result = await tx.update(todosTable)
+      .set({ deleted_at: null, parent_id: parentId, updated_at: new Date(), version: sql`${todosTable.version} + 1` })
+      .where(eq(todosTable.id, todo.id))
+      .returning(todoColumns)
+      .execute();
+
+    const restoredChildren = descendants.length > 0
+      ? await tx.update(todosTable)
+        .set({ deleted_at: null, version: sql`${todosTable.version} + 1` })
+        .where(inArray(todosTable.id, descendants.map((descendant) => descendant.id)))
+        .returning(todoColumns)
+        .execute()
+      : [];
+
+    return [result[0], ...restoredChildren];
+  });
+
+  // Back in the lists, so subscribers see them as new todos
+  restored.forEach((todo) => publishTodoChange(workspaceId, { type: 'created', todo }));
+  return restored[0];
+};
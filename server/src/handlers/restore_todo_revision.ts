@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { todoRevisionsTable, todosTable } from '../db/schema';
+import { type RestoreTodoRevisionInput, type Todo } from '../schema';
+import { selectRevisions } from '../helpers/revisions';
+import { DomainError } from '../helpers/errors';
+import { updateTodo } from './update_todo';
+import { and, eq } from 'drizzle-orm';
+
+// Puts a revision's title and description back. This goes through updateTodo, so the restore
+// itself is logged and becomes the newest revision. Trashed todos must be restored first.
+export const restoreTodoRevision = async (workspaceId: number, input: RestoreTodoRevisionInput, actorId: number | null = null): Promise<Todo> => {
+  const revisions = await selectRevisions(db, workspaceId, eq(todoRevisionsTable.id, input.id));
+  if (revisions.length === 0) {
+    throw new DomainError('REVISION_NOT_FOUND', `Revision ${input.id} not found`);
+  }
+
+  const { todo_id, title, description } = revisions[0];
+
+  // A restore replaces the text wholesale, so it goes on top of whatever version is current
+  const todos = await db.select({ version: todosTable.version })
+    .from(todosTable)
+    .where(and(eq(todosTable.id, todo_id), eq(todosTable.workspace_id, workspaceId)))
+    .execute();
+  if (todos.length === 0) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${todo_id} not found`);
+  }
+
+  return await updateTodo(workspaceId, { id: todo_id, version: todos[0].version, title, description }, actorId);
+};
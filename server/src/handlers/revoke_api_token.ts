@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { type RevokeApiTokenInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+export const revokeApiToken = async (userId: number, input: RevokeApiTokenInput): Promise<void> => {
+  // Deleting the row is enough: requests with the token stop resolving immediately
+  const result = await db.delete(apiTokensTable)
+    .where(and(eq(apiTokensTable.id, input.id), eq(apiTokensTable.user_id, userId)))
+    .returning({ id: apiTokensTable.id })
+    .execute();
+
+  if (result.length === 0) {
+    throw new DomainError('API_TOKEN_NOT_FOUND', `API token ${input.id} not found`);
+  }
+};
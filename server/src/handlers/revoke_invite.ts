@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { workspaceInvitesTable } from '../db/schema';
+import { type RevokeInviteInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+export const revokeInvite = async (workspaceId: number, input: RevokeInviteInput): Promise<void> => {
+  // Without its row the signed link no longer resolves; accepted invites are kept as a record
+  const result = await db.delete(workspaceInvitesTable)
+    .where(and(
+      eq(workspaceInvitesTable.id, input.id),
+      eq(workspaceInvitesTable.workspace_id, workspaceId),
+      isNull(workspaceInvitesTable.accepted_at)
+    ))
+    .returning({ id: workspaceInvitesTable.id })
+    .execute();
+
+  // Accepted invites can no longer be revoked
+  if (result.length === 0) {
+    throw new DomainError('INVITE_NOT_FOUND', `Invite ${input.id} not found`);
+  }
+};
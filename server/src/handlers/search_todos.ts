@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type SearchTodosInput, type TodoSearchResult } from '../schema';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { buildTsQuery } from '../helpers/search';
+import { fetchChildCounts } from '../helpers/subtasks';
+import { flattenAssignees, withAssignees } from '../helpers/assignees';
+
+const DEFAULT_LIMIT = 20;
+
+// Titles are short, so highlight them whole; descriptions are cut down to the matching fragments
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const DESCRIPTION_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5';
+
+export const searchTodos = async (workspaceId: number, input: SearchTodosInput): Promise<TodoSearchResult[]> => {
+  const query = buildTsQuery(input.q);
+
+  // Nothing searchable in the input (e.g. only punctuation)
+  if (!query) {
+    return [];
+  }
+
+  const rank = sql<number>`ts_rank(${todosTable.search_vector}, ${query})`;
+
+  // Best match first, newest first among equally good matches
+  const results = await db.query.todosTable.findMany({
+    where: and(
+      sql`${todosTable.search_vector} @@ (${query})`,
+      eq(todosTable.workspace_id, workspaceId),
+      isNull(todosTable.deleted_at),
+      input.includeArchived ? undefined : isNull(todosTable.archived_at)
+    ),
+    orderBy: [desc(rank), desc(todosTable.created_at)],
+    limit: input.limit ?? DEFAULT_LIMIT,
+    columns: { search_vector: false },
+    extras: {
+      rank: rank.mapWith(Number).as('rank'),
+      title_highlight: sql<string>`ts_headline('english', ${todosTable.title}, ${query}, ${TITLE_HEADLINE_OPTIONS})`.as('title_highlight'),
+      description_highlight: sql<string | null>`case when ${todosTable.description} is null then null
+        else ts_headline('english', ${todosTable.description}, ${query}, ${DESCRIPTION_HEADLINE_OPTIONS}) end`.as('description_highlight')
+    },
+    with: {
+      todoTags: {
+        with: { tag: true }
+      },
+      ...withAssignees
+    }
+  });
+
+  const countsByParent = await fetchChildCounts(db, results.map((todo) => todo.id));
+
+  // Same shape as getTodos items, plus rank and highlights
+  return results.map(({ todoTags, todoAssignees, ...todo }) => ({
+    ...todo,
+    tags: todoTags
+      .map((todoTag) => todoTag.tag)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    assignees: flattenAssignees(todoAssignees),
+    child_count: countsByParent.get(todo.id)?.child_count ?? 0,
+    completed_child_count: countsByParent.get(todo.id)?.completed_child_count ?? 0
+  }));
+};
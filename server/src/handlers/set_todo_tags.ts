@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { tagsTable, todoColumns, todosTable, todoTagsTable } from '../db/schema';
+import { type SetTodoTagsInput, type Tag } from '../schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+export const setTodoTags = async (workspaceId: number, input: SetTodoTagsInput): Promise<Tag[]> => {
+  const tagIds = [...new Set(input.tag_ids)];
+
+  const { tags, todo } = await db.transaction(async (tx) => {
+    // Validate the todo and all tags exist before touching the links
+    const todos = await tx.select({ id: todosTable.id })
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.todo_id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+      .execute();
+
+    if (todos.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.todo_id} not found`);
+    }
+
+    const tags = tagIds.length > 0
+      ? await tx.select()
+        .from(tagsTable)
+        .where(and(inArray(tagsTable.id, tagIds), eq(tagsTable.workspace_id, workspaceId)))
+        .orderBy(asc(tagsTable.name))
+        .execute()
+      : [];
+
+    if (tags.length !== tagIds.length) {
+      throw new DomainError('TAG_NOT_FOUND', 'One or more tags not found');
+    }
+
+    // Replace the whole set of links
+    await tx.delete(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, input.todo_id))
+      .execute();
+
+    if (tagIds.length > 0) {
+      await tx.insert(todoTagsTable)
+        .values(tagIds.map((tagId) => ({ todo_id: input.todo_id, tag_id: tagId })))
+        .execute();
+    }
+
+    // Tags are not part of the version, but updated_at tells the change apart for subscribers
+    const updated = await tx.update(todosTable)
+      .set({ updated_at: new Date() })
+      .where(eq(todosTable.id, input.todo_id))
+      .returning(todoColumns)
+      .execute();
+
+    return { tags, todo: updated[0] };
+  });
+
+  publishTodoChange(workspaceId, { type: 'updated', todo });
+  return tags;
+};
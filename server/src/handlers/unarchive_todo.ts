@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type UnarchiveTodoInput, type Todo } from '../schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError } from '../helpers/errors';
+
+// Puts an archived todo back into the regular lists
+export const unarchiveTodo = async (workspaceId: number, input: UnarchiveTodoInput): Promise<Todo> => {
+  const result = await db.update(todosTable)
+    .set({ archived_at: null, updated_at: new Date(), version: sql`${todosTable.version} + 1` })
+    .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+    .returning(todoColumns)
+    .execute();
+
+  // Trashed todos and todos in other workspaces count as missing
+  if (result.length === 0) {
+    throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
+  }
+
+  publishTodoChange(workspaceId, { type: 'updated', todo: result[0] });
+  return result[0];
+};
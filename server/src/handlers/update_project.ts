@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type UpdateProjectInput, type Project } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+export const updateProject = async (workspaceId: number, input: UpdateProjectInput): Promise<Project> => {
+  // Build the update object only with provided fields
+  const updateData: Partial<typeof projectsTable.$inferInsert> = {
+    updated_at: new Date() // Always update the timestamp
+  };
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.color !== undefined) updateData.color = input.color;
+  if (input.icon !== undefined) updateData.icon = input.icon;
+  if (input.archived !== undefined) updateData.archived = input.archived;
+  if (input.position !== undefined) updateData.position = input.position;
+
+  const result = await db.update(projectsTable)
+    .set(updateData)
+    .where(and(eq(projectsTable.id, input.id), eq(projectsTable.workspace_id, workspaceId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new DomainError('PROJECT_NOT_FOUND', `Project ${input.id} not found`);
+  }
+
+  return result[0];
+};
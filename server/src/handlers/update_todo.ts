@@ -1,39 +1,180 @@
-import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { db, type Transaction } from '../db';
+import { projectsTable, todoAssigneesTable, todoColumns, todosTable } from '../db/schema';
 import { type UpdateTodoInput, type Todo } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { fetchDescendants } from '../helpers/subtasks';
+import { createNextOccurrence } from '../helpers/occurrences';
+import { assertWorkspaceMembers, replaceAssignees } from '../helpers/assignees';
+import { syncMentions } from '../helpers/mentions';
+import { diffTodos, logActivity } from '../helpers/activity';
+import { recordRevision } from '../helpers/revisions';
+import { publishTodoChange } from '../helpers/events';
+import { DomainError, TodoConflictError } from '../helpers/errors';
 
-export const updateTodo = async (input: UpdateTodoInput): Promise<Todo | null> => {
-  try {
-    // Build the update object only with provided fields
-    const updateData: any = {
-      updated_at: new Date() // Always update the timestamp
-    };
+// Rejects the update when the todo has moved on since the version the caller saw,
+// handing back the current copy (with its assignees) so the caller can merge
+const conflictWith = async (tx: Transaction, current: Todo): Promise<TodoConflictError> => {
+  const assignees = await tx.select({ user_id: todoAssigneesTable.user_id })
+    .from(todoAssigneesTable)
+    .where(eq(todoAssigneesTable.todo_id, current.id))
+    .execute();
 
-    // Only include fields that were actually provided
-    if (input.title !== undefined) {
-      updateData.title = input.title;
+  return new TodoConflictError({
+    current: { ...current, assignee_ids: assignees.map((assignee) => assignee.user_id).sort((a, b) => a - b) }
+  });
+};
+
+// actorId is the user making the change, credited in mention notifications, the activity log and revisions
+export const updateTodo = async (workspaceId: number, input: UpdateTodoInput, actorId: number | null = null): Promise<Todo> => {
+  // Validate the target project exists (and is in the workspace) before moving the todo
+  if (input.project_id) {
+    const projects = await db.select({ id: projectsTable.id })
+      .from(projectsTable)
+      .where(and(eq(projectsTable.id, input.project_id), eq(projectsTable.workspace_id, workspaceId)))
+      .execute();
+
+    if (projects.length === 0) {
+      throw new DomainError('PROJECT_NOT_FOUND', `Project ${input.project_id} not found`);
     }
+  }
 
-    if (input.description !== undefined) {
-      updateData.description = input.description;
+  if (input.assignee_ids) {
+    await assertWorkspaceMembers(db, workspaceId, input.assignee_ids);
+  }
+
+  // Build the update object only with provided fields
+  const now = new Date();
+  const updateData: Partial<typeof todosTable.$inferInsert> = {
+    updated_at: now // Always update the timestamp
+  };
+
+  // Only include fields that were actually provided
+  if (input.title !== undefined) {
+    updateData.title = input.title;
+  }
+
+  if (input.description !== undefined) {
+    updateData.description = input.description;
+  }
+
+  if (input.completed !== undefined) {
+    updateData.completed = input.completed;
+  }
+
+  if (input.due_at !== undefined) {
+    updateData.due_at = input.due_at;
+  }
+
+  if (input.priority !== undefined) {
+    updateData.priority = input.priority;
+  }
+
+  if (input.project_id !== undefined) {
+    updateData.project_id = input.project_id;
+  }
+
+  if (input.recurrence !== undefined) {
+    updateData.recurrence = input.recurrence;
+  }
+
+  if (input.time_zone !== undefined) {
+    updateData.time_zone = input.time_zone;
+  }
+
+  const { todo, completedChildren, occurrence } = await db.transaction(async (tx) => {
+    // Lock the row so completing a recurring todo twice cannot spawn two next occurrences,
+    // and so nobody else can bump the version between the check below and the update
+    const existing = await tx.select(todoColumns)
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+      .for('update')
+      .execute();
+
+    // Trashed todos must be restored first
+    if (existing.length === 0) {
+      throw new DomainError('TODO_NOT_FOUND', `Todo ${input.id} not found`);
     }
 
-    if (input.completed !== undefined) {
-      updateData.completed = input.completed;
+    if (existing[0].version !== input.version) {
+      throw await conflictWith(tx, existing[0]);
+    }
+    updateData.version = existing[0].version + 1;
+
+    // Completing again keeps the original completion time
+    if (input.completed === true && !existing[0].completed) {
+      updateData.completed_at = now;
+    } else if (input.completed === false) {
+      updateData.completed_at = null;
     }
 
     // Update the todo and return the updated record
-    const result = await db.update(todosTable)
+    const result = await tx.update(todosTable)
       .set(updateData)
       .where(eq(todosTable.id, input.id))
-      .returning()
+      .returning(todoColumns)
       .execute();
 
-    // Return the updated todo or null if not found
-    return result.length > 0 ? result[0] : null;
-  } catch (error) {
-    console.error('Todo update failed:', error);
-    throw error;
+    // Field-level before/after for the activity log
+    const changes = diffTodos(existing[0], result[0]);
+
+    if (input.assignee_ids) {
+      const previous = await tx.select({ user_id: todoAssigneesTable.user_id })
+        .from(todoAssigneesTable)
+        .where(eq(todoAssigneesTable.todo_id, input.id))
+        .execute();
+      await replaceAssignees(tx, input.id, input.assignee_ids);
+
+      const from = previous.map((assignee) => assignee.user_id).sort((a, b) => a - b);
+      const to = [...new Set(input.assignee_ids)].sort((a, b) => a - b);
+      if (from.join() !== to.join()) {
+        changes['assignee_ids'] = { from, to };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await logActivity(tx, { todo: result[0], actorId, action: 'updated', changes });
+    }
+
+    // Title and description changes can be undone from the revision history
+    await recordRevision(tx, existing[0], result[0], actorId);
+
+    if (input.description !== undefined) {
+      await syncMentions(tx, { workspaceId, todoId: input.id, commentId: null, text: input.description, actorId });
+    }
+
+    // Completing a parent can complete its whole subtree in the same transaction
+    let completedChildren: Todo[] = [];
+    if (input.completed === true && input.completeChildren) {
+      const openDescendants = (await fetchDescendants(tx, input.id)).filter((descendant) => !descendant.completed);
+
+      if (openDescendants.length > 0) {
+        completedChildren = await tx.update(todosTable)
+          .set({ completed: true, completed_at: now, updated_at: now, version: sql`${todosTable.version} + 1` })
+          .where(inArray(todosTable.id, openDescendants.map((descendant) => descendant.id)))
+          .returning(todoColumns)
+          .execute();
+
+        // Each subtask's own history records that it was completed along with its parent
+        for (const child of completedChildren) {
+          const before = openDescendants.find((descendant) => descendant.id === child.id)!;
+          await logActivity(tx, { todo: child, actorId, action: 'updated', changes: diffTodos(before, child) });
+        }
+      }
+    }
+
+    // Completing an open recurring todo queues up its next occurrence
+    const occurrence = input.completed === true && !existing[0].completed && result[0].recurrence
+      ? await createNextOccurrence(tx, result[0], now, actorId)
+      : null;
+
+    return { todo: result[0], completedChildren, occurrence };
+  });
+
+  publishTodoChange(workspaceId, { type: 'updated', todo });
+  completedChildren.forEach((child) => publishTodoChange(workspaceId, { type: 'updated', todo: child }));
+  if (occurrence) {
+    publishTodoChange(workspaceId, { type: 'created', todo: occurrence });
   }
+
+  return todo;
 };
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { usersTable, workspaceMembersTable } from '../db/schema';
+import { type UpdateWorkspaceMemberInput, type WorkspaceMember } from '../schema';
+import { assertOwnerRemains, lockWorkspace } from '../helpers/workspaces';
+import { and, eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+
+// Changes a member's role; the last owner cannot be demoted
+export const updateWorkspaceMember = async (workspaceId: number, input: UpdateWorkspaceMemberInput): Promise<WorkspaceMember> => {
+  return await db.transaction(async (tx) => {
+    await lockWorkspace(tx, workspaceId);
+
+    const updated = await tx.update(workspaceMembersTable)
+      .set({ role: input.role })
+      .where(and(
+        eq(workspaceMembersTable.workspace_id, workspaceId),
+        eq(workspaceMembersTable.user_id, input.user_id)
+      ))
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new DomainError('USER_NOT_FOUND', `User ${input.user_id} is not a member of this workspace`);
+    }
+
+    await assertOwnerRemains(tx, workspaceId);
+
+    const user = (await tx.select({ name: usersTable.name, email: usersTable.email })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute())[0];
+
+    const { user_id, role, created_at } = updated[0];
+    return { user_id, name: user.name, email: user.email, role, created_at };
+  });
+};
@@ -0,0 +1,101 @@
+import { type Executor } from '../db';
+import { activityTable, usersTable } from '../db/schema';
+import { type ActivityAction, type ActivityChanges, type ActivityPage, type ActivityValue, type GetWorkspaceActivityInput, type Todo } from '../schema';
+import { and, desc, eq, lt, type SQL } from 'drizzle-orm';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// The todo fields the activity log keeps track of
+const TRACKED_FIELDS = ['title', 'description', 'completed', 'due_at', 'priority', 'project_id', 'recurrence'] as const;
+
+type TrackedField = typeof TRACKED_FIELDS[number];
+
+// JSON-friendly form of a field value
+const toActivityValue = (value: Todo[TrackedField]): ActivityValue =>
+  value instanceof Date ? value.toISOString() : value;
+
+// Field-level before/after of the tracked fields that differ
+export const diffTodos = (before: Todo, after: Todo): ActivityChanges => {
+  const changes: ActivityChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    const from = toActivityValue(before[field]);
+    const to = toActivityValue(after[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+};
+
+// The tracked fields of a new todo that were set, as changes from nothing
+export const initialValues = (todo: Todo): ActivityChanges => {
+  const changes: ActivityChanges = {};
+  for (const field of TRACKED_FIELDS) {
+    const value = toActivityValue(todo[field]);
+    if (value !== null && value !== false) {
+      changes[field] = { from: null, to: value };
+    }
+  }
+  return changes;
+};
+
+interface ActivityRecord {
+  todo: Todo;
+  actorId: number | null;
+  action: ActivityAction;
+  changes: ActivityChanges;
+}
+
+export const logActivity = async (executor: Executor, record: ActivityRecord): Promise<void> => {
+  await executor.insert(activityTable)
+    .values({
+      workspace_id: record.todo.workspace_id,
+      todo_id: record.todo.id,
+      todo_title: record.todo.title,
+      actor_id: record.actorId,
+      action: record.action,
+      changes: record.changes
+    })
+    .execute();
+};
+
+// One page of a workspace's activity matching the condition, newest first.
+// Ids only ever grow, so the last id on a page is all a cursor needs.
+export const listActivity = async (
+  executor: Executor,
+  workspaceId: number,
+  input: GetWorkspaceActivityInput,
+  condition?: SQL
+): Promise<ActivityPage> => {
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions: SQL[] = [eq(activityTable.workspace_id, workspaceId)];
+  if (condition) {
+    conditions.push(condition);
+  }
+  if (input.cursor) {
+    conditions.push(lt(activityTable.id, input.cursor));
+  }
+
+  const rows = await executor.select({
+    id: activityTable.id,
+    todo_id: activityTable.todo_id,
+    todo_title: activityTable.todo_title,
+    actor: {
+      id: usersTable.id,
+      name: usersTable.name,
+      email: usersTable.email
+    },
+    action: activityTable.action,
+    changes: activityTable.changes,
+    created_at: activityTable.created_at
+  })
+    .from(activityTable)
+    .leftJoin(usersTable, eq(activityTable.actor_id, usersTable.id))
+    .where(and(...conditions))
+    .orderBy(desc(activityTable.id))
+    .limit(limit + 1) // One extra row tells whether another page exists
+    .execute();
+
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+};
@@ -0,0 +1,48 @@
+import { type Executor } from '../db';
+import { todoAssigneesTable, workspaceMembersTable } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { DomainError } from './errors';
+
+// Relational query fragment loading a todo's assignees without private user columns
+export const withAssignees = {
+  todoAssignees: {
+    with: { user: { columns: { id: true, name: true, email: true } } }
+  }
+} as const;
+
+// Flattens the join rows loaded through withAssignees, sorted by name
+export const flattenAssignees = <T extends { name: string }>(todoAssignees: { user: T }[]): T[] =>
+  todoAssignees
+    .map((todoAssignee) => todoAssignee.user)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Todos can only be assigned to people in their workspace
+export const assertWorkspaceMembers = async (executor: Executor, workspaceId: number, userIds: number[]): Promise<void> => {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const members = await executor.select({ user_id: workspaceMembersTable.user_id })
+    .from(workspaceMembersTable)
+    .where(and(eq(workspaceMembersTable.workspace_id, workspaceId), inArray(workspaceMembersTable.user_id, uniqueIds)))
+    .execute();
+
+  if (members.length !== uniqueIds.length) {
+    throw new DomainError('ASSIGNEE_NOT_MEMBER', 'Assignees must be members of the workspace');
+  }
+};
+
+// Replaces the whole set of assignees of a todo
+export const replaceAssignees = async (executor: Executor, todoId: number, userIds: number[]): Promise<void> => {
+  await executor.delete(todoAssigneesTable)
+    .where(eq(todoAssigneesTable.todo_id, todoId))
+    .execute();
+
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length > 0) {
+    await executor.insert(todoAssigneesTable)
+      .values(uniqueIds.map((userId) => ({ todo_id: todoId, user_id: userId })))
+      .execute();
+  }
+};
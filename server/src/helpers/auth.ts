@@ -0,0 +1,114 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { type Executor } from '../db';
+import { apiTokensTable, sessionsTable, userColumns, usersTable, type User } from '../db/schema';
+import { type ApiTokenScope } from '../schema';
+import { and, eq, gt, isNull, lte, or } from 'drizzle-orm';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions last this long from sign-in
+export const SESSION_TTL_DAYS = 30;
+
+export interface NewSession {
+  token: string; // Only ever handed to the client, in the session cookie
+  expires_at: Date;
+}
+
+// Password hashes are stored as "scrypt$<salt>$<key>", both base64
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [algorithm, salt, key] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Signing in with a password grants everything; API tokens get the scopes they were created with
+export const SESSION_SCOPES: ApiTokenScope[] = ['read', 'write', 'admin'];
+
+// Scopes are cumulative: admin includes write, write includes read
+const SCOPE_LEVELS: Record<ApiTokenScope, number> = { read: 0, write: 1, admin: 2 };
+
+export const hasScope = (scopes: ApiTokenScope[], required: ApiTokenScope): boolean =>
+  scopes.some((scope) => SCOPE_LEVELS[scope] >= SCOPE_LEVELS[required]);
+
+// Marks API tokens so they are easy to spot in configs and secret scanners
+export const API_TOKEN_PREFIX = 'tdo_';
+
+export const generateApiToken = (): string => API_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+export interface TokenAuth {
+  user: User;
+  scopes: ApiTokenScope[];
+}
+
+// Tokens are random, so a fast unsalted hash is enough to keep them useless if the table leaks
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const createSession = async (executor: Executor, userId: number): Promise<NewSession> => {
+  const token = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_DAYS * DAY_MS);
+
+  // Tidy up this user's expired sessions while we are at it
+  await executor.delete(sessionsTable)
+    .where(and(eq(sessionsTable.user_id, userId), lte(sessionsTable.expires_at, now)))
+    .execute();
+
+  await executor.insert(sessionsTable)
+    .values({ id: hashToken(token), user_id: userId, expires_at: expiresAt })
+    .execute();
+
+  return { token, expires_at: expiresAt };
+};
+
+// The signed-in user for a session token, or null when the session is unknown or expired
+export const findSessionUser = async (executor: Executor, token: string): Promise<User | null> => {
+  const results = await executor.select(userColumns)
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(eq(sessionsTable.id, hashToken(token)), gt(sessionsTable.expires_at, new Date())))
+    .execute();
+
+  return results[0] ?? null;
+};
+
+// The user and scopes behind an API token, or null when the token is unknown or expired.
+// Recording the use and checking the token happen in the same statement.
+export const findApiTokenUser = async (executor: Executor, token: string): Promise<TokenAuth | null> => {
+  const now = new Date();
+  const tokens = await executor.update(apiTokensTable)
+    .set({ last_used_at: now })
+    .where(and(
+      eq(apiTokensTable.token_hash, hashToken(token)),
+      or(isNull(apiTokensTable.expires_at), gt(apiTokensTable.expires_at, now))
+    ))
+    .returning({ user_id: apiTokensTable.user_id, scopes: apiTokensTable.scopes })
+    .execute();
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const users = await executor.select(userColumns)
+    .from(usersTable)
+    .where(eq(usersTable.id, tokens[0].user_id))
+    .execute();
+
+  return users.length > 0 ? { user: users[0], scopes: tokens[0].scopes } : null;
+};
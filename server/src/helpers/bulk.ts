@@ -0,0 +1,49 @@
+import { type Transaction } from '../db';
+import { todoColumns, todosTable, type Todo } from '../db/schema';
+import { type BulkTarget, type BulkTodoResult } from '../schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { todoFilterConditions } from './filters';
+import { DomainError } from './errors';
+
+// A filter may not select more todos than a list of ids may hold
+const MAX_BULK_TODOS = 500;
+
+interface BulkSelection {
+  todos: Todo[]; // Locked until the transaction ends, in id order
+  results: BulkTodoResult[]; // One per targeted id; ids that are not todos of the workspace are skipped
+}
+
+// Locks the todos a bulk operation applies to. Rows are locked in id order, so bulk operations
+// over overlapping selections wait for each other instead of deadlocking.
+// userId is the signed-in user, which a filter's assignee: 'me' refers to.
+export const lockBulkTargets = async (
+  tx: Transaction,
+  workspaceId: number,
+  target: BulkTarget,
+  userId?: number
+): Promise<BulkSelection> => {
+  const conditions = 'ids' in target
+    ? [eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at), inArray(todosTable.id, target.ids)]
+    : todoFilterConditions(workspaceId, target.filter, userId);
+
+  const todos = await tx.select(todoColumns)
+    .from(todosTable)
+    .where(and(...conditions))
+    .orderBy(asc(todosTable.id))
+    .limit(MAX_BULK_TODOS + 1)
+    .for('update')
+    .execute();
+
+  if (todos.length > MAX_BULK_TODOS) {
+    throw new DomainError('INVALID_INPUT', `More than ${MAX_BULK_TODOS} todos match - narrow the filter down`);
+  }
+
+  // Explicit ids are answered in the order they were given, trashed or foreign ones included
+  const found = new Set(todos.map((todo) => todo.id));
+  const requestedIds = 'ids' in target ? [...new Set(target.ids)] : todos.map((todo) => todo.id);
+  const results = requestedIds.map((id) => found.has(id)
+    ? { id, ok: true, reason: null }
+    : { id, ok: false, reason: 'TODO_NOT_FOUND' });
+
+  return { todos, results };
+};
@@ -0,0 +1,49 @@
+import { type Executor } from '../db';
+import { commentsTable, todosTable, usersTable } from '../db/schema';
+import { type Comment } from '../schema';
+import { and, asc, eq, isNull, type SQL } from 'drizzle-orm';
+
+// Selection for comments joined with their author, matching the Comment schema
+const commentSelection = {
+  id: commentsTable.id,
+  todo_id: commentsTable.todo_id,
+  author: {
+    id: usersTable.id,
+    name: usersTable.name,
+    email: usersTable.email
+  },
+  body: commentsTable.body,
+  created_at: commentsTable.created_at,
+  edited_at: commentsTable.edited_at
+};
+
+// Comments in a workspace matching the condition, oldest first
+export const selectComments = (executor: Executor, workspaceId: number, condition: SQL): Promise<Comment[]> =>
+  executor.select(commentSelection)
+    .from(commentsTable)
+    .innerJoin(todosTable, eq(commentsTable.todo_id, todosTable.id))
+    .innerJoin(usersTable, eq(commentsTable.author_id, usersTable.id))
+    .where(and(eq(todosTable.workspace_id, workspaceId), condition))
+    .orderBy(asc(commentsTable.created_at), asc(commentsTable.id))
+    .execute();
+
+// A comment's author, if the comment belongs to a todo in the workspace
+export const findCommentAuthor = async (executor: Executor, workspaceId: number, commentId: number): Promise<number | null> => {
+  const rows = await executor.select({ author_id: commentsTable.author_id })
+    .from(commentsTable)
+    .innerJoin(todosTable, eq(commentsTable.todo_id, todosTable.id))
+    .where(and(eq(commentsTable.id, commentId), eq(todosTable.workspace_id, workspaceId)))
+    .execute();
+
+  return rows[0]?.author_id ?? null;
+};
+
+// Only todos in the workspace that are not in the trash take new comments
+export const isCommentable = async (executor: Executor, workspaceId: number, todoId: number): Promise<boolean> => {
+  const rows = await executor.select({ id: todosTable.id })
+    .from(todosTable)
+    .where(and(eq(todosTable.id, todoId), eq(todosTable.workspace_id, workspaceId), isNull(todosTable.deleted_at)))
+    .execute();
+
+  return rows.length > 0;
+};
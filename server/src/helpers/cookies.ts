@@ -0,0 +1,41 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+
+export const SESSION_COOKIE = 'session';
+
+// Browsers only send Secure cookies over HTTPS, so this is opt-in for deployments behind TLS
+const secureCookies = (): boolean => process.env['SESSION_COOKIE_SECURE'] === 'true';
+
+// Cookie values from a request's Cookie header
+export const parseCookies = (req: IncomingMessage): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      try {
+        cookies[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        // A malformed escape in someone else's cookie must not break the request, so skip it
+      }
+    }
+  }
+  return cookies;
+};
+
+// HTTP-only so page scripts can never read the session token
+export const setSessionCookie = (res: ServerResponse, token: string, expiresAt: Date): void => {
+  const attributes = [
+    `${SESSION_COOKIE}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Expires=${expiresAt.toUTCString()}`
+  ];
+  if (secureCookies()) {
+    attributes.push('Secure');
+  }
+  res.appendHeader('Set-Cookie', attributes.join('; '));
+};
+
+export const clearSessionCookie = (res: ServerResponse): void => {
+  setSessionCookie(res, '', new Date(0));
+};
@@ -0,0 +1,121 @@
+import { TRPCError } from '@trpc/server';
+import { ZodError } from 'zod';
+import { type TodoConflict } from '../schema';
+
+type TRPCErrorCode = ConstructorParameters<typeof TRPCError>[0]['code'];
+
+// Stable, machine-readable reasons and the tRPC code each one is sent with.
+// Clients switch on the reason; the message is for people and may change.
+const REASON_CODES = {
+  // Something the request refers to does not exist (in this workspace)
+  TODO_NOT_FOUND: 'NOT_FOUND',
+  PROJECT_NOT_FOUND: 'NOT_FOUND',
+  TAG_NOT_FOUND: 'NOT_FOUND',
+  REVISION_NOT_FOUND: 'NOT_FOUND',
+  USER_NOT_FOUND: 'NOT_FOUND',
+  INVITE_NOT_FOUND: 'NOT_FOUND',
+  COMMENT_NOT_FOUND: 'NOT_FOUND',
+  NOTIFICATION_NOT_FOUND: 'NOT_FOUND',
+  API_TOKEN_NOT_FOUND: 'NOT_FOUND',
+  REFERENCE_NOT_FOUND: 'NOT_FOUND',
+  // The request itself is invalid
+  INVALID_INPUT: 'BAD_REQUEST',
+  INVALID_CURSOR: 'BAD_REQUEST',
+  ASSIGNEE_NOT_MEMBER: 'BAD_REQUEST',
+  REVISIONS_OF_DIFFERENT_TODOS: 'BAD_REQUEST',
+  INVITE_EXPIRED: 'BAD_REQUEST',
+  LAST_OWNER: 'PRECONDITION_FAILED',
+  // It clashes with what is already there
+  VERSION_CONFLICT: 'CONFLICT',
+  DUPLICATE_TODO: 'CONFLICT',
+  ALREADY_EXISTS: 'CONFLICT',
+  EMAIL_TAKEN: 'CONFLICT',
+  ALREADY_MEMBER: 'CONFLICT',
+  INVITE_USED: 'CONFLICT',
+  // The caller may not do this
+  SIGN_IN_REQUIRED: 'UNAUTHORIZED',
+  INVALID_CREDENTIALS: 'UNAUTHORIZED',
+  MISSING_SCOPE: 'FORBIDDEN',
+  NOT_A_MEMBER: 'FORBIDDEN',
+  ROLE_REQUIRED: 'FORBIDDEN',
+  NOT_COMMENT_AUTHOR: 'FORBIDDEN',
+  INVITE_EMAIL_MISMATCH: 'FORBIDDEN',
+  // Anything unexpected; the details stay in the server log
+  INTERNAL: 'INTERNAL_SERVER_ERROR'
+} as const satisfies Record<string, TRPCErrorCode>;
+
+export type ErrorReason = keyof typeof REASON_CODES;
+
+// Expected failures thrown by handlers and helpers; turned into a TRPCError by toTRPCError
+export class DomainError extends Error {
+  readonly reason: ErrorReason;
+
+  constructor(reason: ErrorReason, message: string) {
+    super(message);
+    this.name = 'DomainError';
+    this.reason = reason;
+  }
+}
+
+// An update was based on an old version; carries the server copy so the client can offer to merge
+export class TodoConflictError extends DomainError {
+  readonly conflict: TodoConflict;
+
+  constructor(conflict: TodoConflict) {
+    super('VERSION_CONFLICT', 'This todo was changed by someone else in the meantime');
+    this.name = 'TodoConflictError';
+    this.conflict = conflict;
+  }
+}
+
+// Postgres SQLSTATE codes for constraint and data errors a request can cause
+const DATABASE_ERRORS: Record<string, { reason: ErrorReason; message: string }> = {
+  '23505': { reason: 'ALREADY_EXISTS', message: 'That already exists' }, // unique_violation
+  '23503': { reason: 'REFERENCE_NOT_FOUND', message: 'Something this refers to does not exist' }, // foreign_key_violation
+  '23502': { reason: 'INVALID_INPUT', message: 'A required value is missing' }, // not_null_violation
+  '23514': { reason: 'INVALID_INPUT', message: 'A value is out of range' }, // check_violation
+  '22001': { reason: 'INVALID_INPUT', message: 'A value is too long' }, // string_data_right_truncation
+  '22003': { reason: 'INVALID_INPUT', message: 'A number is out of range' }, // numeric_value_out_of_range
+  '22007': { reason: 'INVALID_INPUT', message: 'A date is not valid' }, // invalid_datetime_format
+  '22008': { reason: 'INVALID_INPUT', message: 'A date is out of range' }, // datetime_field_overflow
+  '22P02': { reason: 'INVALID_INPUT', message: 'A value has the wrong format' } // invalid_text_representation
+};
+
+const databaseError = (error: unknown): DomainError | null => {
+  const code = error instanceof Error ? (error as Error & { code?: unknown }).code : undefined;
+  const known = typeof code === 'string' ? DATABASE_ERRORS[code] : undefined;
+  return known ? new DomainError(known.reason, known.message) : null;
+};
+
+export const fromDomainError = (error: DomainError): TRPCError =>
+  new TRPCError({ code: REASON_CODES[error.reason], message: error.message, cause: error });
+
+// Turns whatever a procedure failed with into a typed error. Domain errors and database constraint
+// violations keep a specific code; anything else is logged once and reported without its details,
+// so raw database messages never reach clients.
+export const toTRPCError = (error: TRPCError, path: string): TRPCError => {
+  if (error.cause instanceof DomainError) {
+    return fromDomainError(error.cause);
+  }
+
+  // Already deliberate, e.g. input validation by tRPC itself
+  if (error.code !== 'INTERNAL_SERVER_ERROR') {
+    return error;
+  }
+
+  const known = databaseError(error.cause);
+  if (known) {
+    return fromDomainError(known);
+  }
+
+  console.error(`${path} failed:`, error.cause ?? error);
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Something went wrong on our side', cause: error.cause });
+};
+
+// The reason the error formatter sends along with an error
+export const reasonOf = (error: TRPCError): ErrorReason | null => {
+  if (error.cause instanceof DomainError) return error.cause.reason;
+  if (error.cause instanceof ZodError || error.code === 'BAD_REQUEST') return 'INVALID_INPUT';
+  if (error.code === 'INTERNAL_SERVER_ERROR') return 'INTERNAL';
+  return null;
+};
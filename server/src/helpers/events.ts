@@ -0,0 +1,21 @@
+import { EventEmitter, on } from 'node:events';
+import { type TodoChangeEvent } from '../schema';
+
+// In-process bus for live todo changes. One server process serves every client, so subscribers
+// hear about every change; running several processes would need a shared broker instead.
+const todoEvents = new EventEmitter();
+todoEvents.setMaxListeners(0); // One listener per open subscription
+
+const channel = (workspaceId: number): string => `workspace:${workspaceId}`;
+
+// Handlers call this once their transaction has committed, so subscribers never see changes that rolled back
+export const publishTodoChange = (workspaceId: number, event: TodoChangeEvent): void => {
+  todoEvents.emit(channel(workspaceId), event);
+};
+
+// Changes to one workspace's todos as they happen, until the signal aborts
+export async function* todoChanges(workspaceId: number, signal?: AbortSignal): AsyncGenerator<TodoChangeEvent> {
+  for await (const [event] of on(todoEvents, channel(workspaceId), { signal })) {
+    yield event as TodoChangeEvent;
+  }
+}
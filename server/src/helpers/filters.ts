@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { tagsTable, todoAssigneesTable, todosTable, todoTagsTable } from '../db/schema';
+import { type TodoFilter } from '../schema';
+import { and, countDistinct, eq, gte, ilike, inArray, isNull, lt, lte, notInArray, or, type SQL } from 'drizzle-orm';
+import { DomainError } from './errors';
+
+// Conditions selecting the workspace's (untrashed) todos that match a list filter.
+// userId is the signed-in user, which assignee: 'me' refers to.
+export const todoFilterConditions = (workspaceId: number, filter: TodoFilter, userId?: number): SQL[] => {
+  const conditions: SQL[] = [
+    eq(todosTable.workspace_id, workspaceId),
+    isNull(todosTable.deleted_at) // Trashed todos only show up in the trash
+  ];
+
+  if (filter.status === 'active') {
+    conditions.push(eq(todosTable.completed, false));
+  } else if (filter.status === 'completed') {
+    conditions.push(eq(todosTable.completed, true));
+  }
+
+  if (!filter.includeArchived) {
+    conditions.push(isNull(todosTable.archived_at));
+  }
+
+  if (filter.q) {
+    // Escape LIKE wildcards so the query is matched literally
+    const pattern = `%${filter.q.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(or(ilike(todosTable.title, pattern), ilike(todosTable.description, pattern))!);
+  }
+
+  if (filter.overdue) {
+    // Overdue = still open and past its deadline (todos without a deadline never match)
+    conditions.push(lt(todosTable.due_at, new Date()));
+    conditions.push(eq(todosTable.completed, false));
+  }
+
+  if (filter.dueBefore) {
+    conditions.push(lte(todosTable.due_at, filter.dueBefore));
+  }
+
+  if (filter.dueAfter) {
+    conditions.push(gte(todosTable.due_at, filter.dueAfter));
+  }
+
+  if (filter.projectId === null) {
+    conditions.push(isNull(todosTable.project_id)); // Inbox
+  } else if (filter.projectId !== undefined) {
+    conditions.push(eq(todosTable.project_id, filter.projectId));
+  }
+
+  if (filter.topLevelOnly) {
+    conditions.push(isNull(todosTable.parent_id));
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tagNames = [...new Set(filter.tags)];
+
+    // Ids of todos carrying at least one of the requested tags
+    let taggedTodoIds = db.select({ todo_id: todoTagsTable.todo_id })
+      .from(todoTagsTable)
+      .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+      .where(and(eq(tagsTable.workspace_id, workspaceId), inArray(tagsTable.name, tagNames)))
+      .$dynamic();
+
+    if (filter.tagMatch === 'all') {
+      // ...narrowed down to todos carrying every requested tag
+      taggedTodoIds = taggedTodoIds
+        .groupBy(todoTagsTable.todo_id)
+        .having(eq(countDistinct(tagsTable.id), tagNames.length));
+    }
+
+    conditions.push(inArray(todosTable.id, taggedTodoIds));
+  }
+
+  if (filter.assignee === 'unassigned') {
+    conditions.push(notInArray(todosTable.id, db.select({ todo_id: todoAssigneesTable.todo_id }).from(todoAssigneesTable)));
+  } else if (filter.assignee !== undefined) {
+    const assigneeId = filter.assignee === 'me' ? userId : filter.assignee;
+    if (assigneeId === undefined) {
+      throw new DomainError('INVALID_INPUT', "assignee: 'me' needs a signed-in user");
+    }
+    conditions.push(inArray(
+      todosTable.id,
+      db.select({ todo_id: todoAssigneesTable.todo_id }).from(todoAssigneesTable).where(eq(todoAssigneesTable.user_id, assigneeId))
+    ));
+  }
+
+  return conditions;
+};
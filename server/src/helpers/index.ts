@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
+import { userColumns, usersTable, workspaceMembersTable, workspacesTable, type User, type Workspace } from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
 
 export const resetDB = async () => {
@@ -10,9 +11,42 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  // Extensions are not part of the generated schema
+  await db.execute(sql`create extension if not exists pg_trgm`);
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Inserts a user, e.g. to sign in or to add to a workspace
+export const createTestUser = async (email: string = 'test@example.com'): Promise<User> => {
+  const result = await db.insert(usersTable)
+    .values({ email, name: email.split('@')[0], password_hash: 'not-a-real-hash' })
+    .returning(userColumns)
+    .execute();
+  return result[0];
+};
+
+// Inserts a workspace to hold the todos, projects and tags a test works with
+export const createTestWorkspace = async (name: string = 'Test workspace'): Promise<Workspace> => {
+  const result = await db.insert(workspacesTable)
+    .values({ name })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+// Inserts a user and makes them a member of the workspace, e.g. to assign todos to
+export const createTestMember = async (
+  workspaceId: number,
+  email: string = 'member@example.com',
+  role: 'viewer' | 'editor' | 'owner' = 'editor'
+): Promise<User> => {
+  const user = await createTestUser(email);
+  await db.insert(workspaceMembersTable)
+    .values({ workspace_id: workspaceId, user_id: user.id, role })
+    .execute();
+  return user;
+};
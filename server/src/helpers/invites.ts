@@ -0,0 +1,72 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { type WorkspaceRole } from '../schema';
+
+// Invite links stay valid this long unless the inviter picks otherwise
+export const INVITE_TTL_DAYS = 7;
+
+// What an invite token vouches for; the signature stops anyone from changing the role or email
+export interface InviteClaims {
+  inviteId: number;
+  workspaceId: number;
+  role: WorkspaceRole;
+  email: string | null;
+  expiresAt: Date;
+}
+
+let generatedSecret: Buffer | null = null;
+
+// INVITE_SECRET keeps links working across restarts; without it a random per-process secret is used
+const inviteSecret = (): Buffer => {
+  const configured = process.env['INVITE_SECRET'];
+  if (configured) {
+    return Buffer.from(configured);
+  }
+  if (!generatedSecret) {
+    console.warn('INVITE_SECRET is not set; invite links will stop working when the server restarts');
+    generatedSecret = randomBytes(32);
+  }
+  return generatedSecret;
+};
+
+const sign = (payload: string): string => createHmac('sha256', inviteSecret()).update(payload).digest('base64url');
+
+// Tokens are "<payload>.<signature>", both base64url, so they can go straight into a URL
+export const signInviteToken = (claims: InviteClaims): string => {
+  const payload = Buffer.from(JSON.stringify({
+    i: claims.inviteId,
+    w: claims.workspaceId,
+    r: claims.role,
+    e: claims.email,
+    x: claims.expiresAt.getTime()
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// The claims of a genuine token, or null if it was tampered with or is malformed.
+// Expiry is left to the caller so it can tell the user why the link no longer works.
+export const verifyInviteToken = (token: string): InviteClaims | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const { i, w, r, e, x } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return { inviteId: i, workspaceId: w, role: r, email: e, expiresAt: new Date(x) };
+  } catch {
+    return null;
+  }
+};
+
+// Where the client picks the token up; APP_URL is the address people open the app at
+export const inviteLink = (token: string): string => {
+  const url = new URL(process.env['APP_URL'] ?? 'http://localhost:5173');
+  url.searchParams.set('invite', token);
+  return url.toString();
+};
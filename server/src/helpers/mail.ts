@@ -0,0 +1,48 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; swap in a real provider with setMailTransport
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const formatMessage = (message: MailMessage): string =>
+  `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`;
+
+// Prints messages to the server log - the default, since there is no outbound mail in development
+export const consoleTransport: MailTransport = {
+  send: async (message) => {
+    console.log(`--- Mail ---\n${formatMessage(message)}------------`);
+  }
+};
+
+// Appends messages to outbox.txt in the given directory
+export const fileTransport = (directory: string): MailTransport => ({
+  send: async (message) => {
+    await mkdir(directory, { recursive: true });
+    await appendFile(join(directory, 'outbox.txt'), `${formatMessage(message)}\n`);
+  }
+});
+
+// MAIL_TRANSPORT=file writes to MAIL_DIR (default ./mail); anything else logs to the console
+const transportFromEnv = (): MailTransport =>
+  process.env['MAIL_TRANSPORT'] === 'file'
+    ? fileTransport(process.env['MAIL_DIR'] ?? 'mail')
+    : consoleTransport;
+
+let transport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  transport ??= transportFromEnv();
+  return transport;
+};
+
+export const setMailTransport = (next: MailTransport | null): void => {
+  transport = next;
+};
@@ -0,0 +1,88 @@
+import { type Executor } from '../db';
+import { mentionsTable, notificationsTable, usersTable, workspaceMembersTable } from '../db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+// "@ada" or "@ada.lovelace", but not the "@example" in an email address
+const MENTION_PATTERN = /(?<![\w@.])@([\w.-]*\w)/g;
+
+// The lowercased handles mentioned in a text, each once
+export const parseMentions = (text: string): string[] =>
+  [...new Set([...text.matchAll(MENTION_PATTERN)].map((match) => match[1].toLowerCase()))];
+
+// Members can be mentioned by the part of their email before the @, or by their name without spaces
+export const mentionHandles = (user: { name: string; email: string }): string[] => [
+  user.email.split('@')[0].toLowerCase(),
+  user.name.replace(/\s+/g, '').toLowerCase()
+];
+
+// Workspace members mentioned in a text
+const resolveMentions = async (executor: Executor, workspaceId: number, text: string): Promise<number[]> => {
+  const handles = new Set(parseMentions(text));
+  if (handles.size === 0) {
+    return [];
+  }
+
+  const members = await executor.select({ id: usersTable.id, name: usersTable.name, email: usersTable.email })
+    .from(workspaceMembersTable)
+    .innerJoin(usersTable, eq(workspaceMembersTable.user_id, usersTable.id))
+    .where(eq(workspaceMembersTable.workspace_id, workspaceId))
+    .execute();
+
+  return members
+    .filter((member) => mentionHandles(member).some((handle) => handles.has(handle)))
+    .map((member) => member.id);
+};
+
+interface MentionSource {
+  workspaceId: number;
+  todoId: number;
+  commentId: number | null; // Null for the todo's description
+  text: string | null;
+  actorId: number | null; // Who wrote the text; they are not notified about mentioning themselves
+}
+
+// Brings the stored mentions of a description or comment in line with its text.
+// Only people mentioned for the first time get a notification, so editing a text does not notify twice.
+export const syncMentions = async (executor: Executor, source: MentionSource): Promise<void> => {
+  const mentioned = source.text ? await resolveMentions(executor, source.workspaceId, source.text) : [];
+
+  const sourceCondition = and(
+    eq(mentionsTable.todo_id, source.todoId),
+    source.commentId === null ? isNull(mentionsTable.comment_id) : eq(mentionsTable.comment_id, source.commentId)
+  );
+  const existing = await executor.select({ user_id: mentionsTable.user_id })
+    .from(mentionsTable)
+    .where(sourceCondition)
+    .execute();
+  const existingIds = new Set(existing.map((mention) => mention.user_id));
+
+  const removed = [...existingIds].filter((userId) => !mentioned.includes(userId));
+  if (removed.length > 0) {
+    await executor.delete(mentionsTable)
+      .where(and(sourceCondition, inArray(mentionsTable.user_id, removed)))
+      .execute();
+  }
+
+  const added = mentioned.filter((userId) => !existingIds.has(userId));
+  if (added.length === 0) {
+    return;
+  }
+
+  await executor.insert(mentionsTable)
+    .values(added.map((userId) => ({ user_id: userId, todo_id: source.todoId, comment_id: source.commentId })))
+    .execute();
+
+  const notified = added.filter((userId) => userId !== source.actorId);
+  if (notified.length > 0) {
+    await executor.insert(notificationsTable)
+      .values(notified.map((userId) => ({
+        user_id: userId,
+        workspace_id: source.workspaceId,
+        type: 'mention' as const,
+        actor_id: source.actorId,
+        todo_id: source.todoId,
+        comment_id: source.commentId
+      })))
+      .execute();
+  }
+};
@@ -0,0 +1,75 @@
+import { type Transaction } from '../db';
+import { todoAssigneesTable, todoColumns, todosTable, todoTagsTable } from '../db/schema';
+import { type Todo } from '../schema';
+import { eq } from 'drizzle-orm';
+import { initialValues, logActivity } from './activity';
+import { topPosition } from './positions';
+import { formatRRule, nextOccurrence, parseRRule } from './rrule';
+
+// Creates the next open occurrence of a recurring todo that was just completed.
+// The series is anchored on the due date (or creation time for todos without one) and counts days in
+// the todo's time zone; occurrences that already passed while the todo was open are skipped. Tags and assignees are copied, subtasks are not.
+// The occurrence goes to the top of the manual order like any new todo, and its creation is credited to actorId.
+// Returns the new occurrence, or null when the series has ended.
+export const createNextOccurrence = async (
+  tx: Transaction,
+  todo: Todo,
+  completedAt: Date,
+  actorId: number | null
+): Promise<Todo | null> => {
+  const rule = parseRRule(todo.recurrence!);
+  const start = todo.due_at ?? todo.created_at;
+  const next = nextOccurrence(rule, start, completedAt, todo.time_zone ?? 'UTC');
+
+  // COUNT or UNTIL has run out - this was the last occurrence
+  if (!next) {
+    return null;
+  }
+
+  const inserted = await tx.insert(todosTable)
+    .values({
+      workspace_id: todo.workspace_id,
+      title: todo.title,
+      description: todo.description,
+      due_at: todo.due_at ? next.date : null,
+      priority: todo.priority,
+      project_id: todo.project_id,
+      parent_id: todo.parent_id,
+      recurrence: formatRRule(next.rule),
+      time_zone: todo.time_zone,
+      completed: false,
+      position: await topPosition(tx, todo.workspace_id)
+    })
+    .returning(todoColumns)
+    .execute();
+
+  const tagLinks = await tx.select({ tag_id: todoTagsTable.tag_id })
+    .from(todoTagsTable)
+    .where(eq(todoTagsTable.todo_id, todo.id))
+    .execute();
+
+  if (tagLinks.length > 0) {
+    await tx.insert(todoTagsTable)
+      .values(tagLinks.map((link) => ({ todo_id: inserted[0].id, tag_id: link.tag_id })))
+      .execute();
+  }
+
+  const assignees = await tx.select({ user_id: todoAssigneesTable.user_id })
+    .from(todoAssigneesTable)
+    .where(eq(todoAssigneesTable.todo_id, todo.id))
+    .execute();
+
+  if (assignees.length > 0) {
+    await tx.insert(todoAssigneesTable)
+      .values(assignees.map((assignee) => ({ todo_id: inserted[0].id, user_id: assignee.user_id })))
+      .execute();
+  }
+
+  const changes = initialValues(inserted[0]);
+  if (assignees.length > 0) {
+    changes['assignee_ids'] = { from: [], to: assignees.map((assignee) => assignee.user_id).sort((a, b) => a - b) };
+  }
+  await logActivity(tx, { todo: inserted[0], actorId, action: 'created', changes });
+
+  return inserted[0];
+};
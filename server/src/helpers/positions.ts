@@ -0,0 +1,118 @@
+import { db, type Executor, type Transaction } from '../db';
+import { todosTable } from '../db/schema';
+import { asc, count, countDistinct, desc, eq, max, sql } from 'drizzle-orm';
+
+// Positions are fractional keys: strings of base-62 digits read as the fraction 0.<digits> and
+// compared character by character. There is always a key between two others, so moving a todo only
+// rewrites its own key. Keys never end in '0', which keeps room below the smallest one too.
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Keys grow by a digit every few moves into the same gap; past this length the workspace is rebalanced
+export const MAX_POSITION_LENGTH = 24;
+
+// Keys have to compare byte by byte, whatever the database's locale says
+export const positionOrder = sql`(${todosTable.position} collate "C")`;
+
+const digitValue = (key: string, index: number): number => DIGITS.indexOf(key.charAt(index));
+
+// Midpoint of a and b, where b === null stands for 1. Shares the longest common prefix,
+// then picks a digit between the first differing ones or goes one digit deeper.
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let prefix = 0;
+    while ((a.charAt(prefix) || '0') === b.charAt(prefix)) {
+      prefix++;
+    }
+    if (prefix > 0) {
+      return b.slice(0, prefix) + midpoint(a.slice(prefix), b.slice(prefix));
+    }
+  }
+
+  const low = a ? digitValue(a, 0) : 0;
+  const high = b !== null ? digitValue(b, 0) : DIGITS.length;
+
+  if (high - low > 1) {
+    return DIGITS.charAt(Math.round((low + high) / 2));
+  }
+  // Neighbouring digits: b's first digit alone is still above a if b goes on after it
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS.charAt(low) + midpoint(a.slice(1), null);
+};
+
+// A key sorting strictly between two others; null means no neighbour on that side
+export const keyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Position ${before} is not below ${after}`);
+  }
+  return midpoint(before ?? '', after);
+};
+
+// count keys spread evenly over the whole range, as short as they can be
+export const spreadKeys = (count: number): string[] => {
+  let width = 1;
+  while (DIGITS.length ** width <= count) {
+    width++;
+  }
+  const span = DIGITS.length ** width;
+
+  return Array.from({ length: count }, (_, index) => {
+    let value = Math.floor(((index + 1) * span) / (count + 1));
+    let key = '';
+    for (let digit = 0; digit < width; digit++) {
+      key = DIGITS.charAt(value % DIGITS.length) + key;
+      value = Math.floor(value / DIGITS.length);
+    }
+    return key.replace(/0+$/, ''); // Same fraction without the trailing zeros
+  });
+};
+
+// Position for a new todo: above everything else in the workspace
+export const topPosition = async (executor: Executor, workspaceId: number): Promise<string> => {
+  const first = await executor.select({ position: todosTable.position })
+    .from(todosTable)
+    .where(eq(todosTable.workspace_id, workspaceId))
+    .orderBy(asc(positionOrder))
+    .limit(1)
+    .execute();
+
+  return keyBetween(null, first[0]?.position ?? null);
+};
+
+// Gives a workspace's todos short, evenly spaced keys in their current manual order.
+// Ties are broken the way getTodos sorts them, newest first. Versions and updated_at are left alone:
+// the order is the same as before, only the keys behind it change.
+// Run it in a transaction; the rows stay locked so no move can slip in half way.
+export const rebalancePositions = async (tx: Transaction, workspaceId: number): Promise<void> => {
+  const todos = await tx.select({ id: todosTable.id })
+    .from(todosTable)
+    .where(eq(todosTable.workspace_id, workspaceId))
+    .orderBy(asc(positionOrder), desc(todosTable.created_at), asc(todosTable.id))
+    .for('update')
+    .execute();
+
+  const keys = spreadKeys(todos.length);
+  for (const [index, todo] of todos.entries()) {
+    await tx.update(todosTable)
+      .set({ position: keys[index] })
+      .where(eq(todosTable.id, todo.id))
+      .execute();
+  }
+};
+
+// Rebalance run by the server on a timer: every workspace whose keys got long or that has todos
+// sharing a position. Returns how many workspaces were rebalanced.
+export const rebalanceCrowdedPositions = async (): Promise<number> => {
+  const crowded = await db.select({ workspace_id: todosTable.workspace_id })
+    .from(todosTable)
+    .groupBy(todosTable.workspace_id)
+    .having(sql`${max(sql`length(${todosTable.position})`)} > ${MAX_POSITION_LENGTH} or ${count()} > ${countDistinct(todosTable.position)}`)
+    .execute();
+
+  for (const { workspace_id } of crowded) {
+    await db.transaction((tx) => rebalancePositions(tx, workspace_id));
+  }
+
+  return crowded.length;
+};
@@ -0,0 +1,52 @@
+import { type Executor } from '../db';
+import { todoRevisionsTable, todosTable, usersTable } from '../db/schema';
+import { type Todo, type TodoRevision } from '../schema';
+import { and, count, desc, eq, type SQL } from 'drizzle-orm';
+
+// Selection for revisions joined with their author, matching the TodoRevision schema
+const revisionSelection = {
+  id: todoRevisionsTable.id,
+  todo_id: todoRevisionsTable.todo_id,
+  title: todoRevisionsTable.title,
+  description: todoRevisionsTable.description,
+  author: {
+    id: usersTable.id,
+    name: usersTable.name,
+    email: usersTable.email
+  },
+  created_at: todoRevisionsTable.created_at
+};
+
+// Revisions of todos in a workspace matching the condition, newest first
+export const selectRevisions = (executor: Executor, workspaceId: number, condition: SQL): Promise<TodoRevision[]> =>
+  executor.select(revisionSelection)
+    .from(todoRevisionsTable)
+    .innerJoin(todosTable, eq(todoRevisionsTable.todo_id, todosTable.id))
+    .leftJoin(usersTable, eq(todoRevisionsTable.author_id, usersTable.id))
+    .where(and(eq(todosTable.workspace_id, workspaceId), condition))
+    .orderBy(desc(todoRevisionsTable.created_at), desc(todoRevisionsTable.id))
+    .execute();
+
+// Snapshots the title and description after an update changed either of them.
+// The first time round the previous state is saved too, so there is always something to go back to.
+export const recordRevision = async (executor: Executor, before: Todo, after: Todo, authorId: number | null): Promise<void> => {
+  if (before.title === after.title && before.description === after.description) {
+    return;
+  }
+
+  const existing = await executor.select({ count: count() })
+    .from(todoRevisionsTable)
+    .where(eq(todoRevisionsTable.todo_id, after.id))
+    .execute();
+
+  const snapshots: (typeof todoRevisionsTable.$inferInsert)[] = [];
+  if (existing[0].count === 0) {
+    // Who wrote the original text is unknown here
+    snapshots.push({ todo_id: before.id, title: before.title, description: before.description, created_at: before.updated_at });
+  }
+  snapshots.push({ todo_id: after.id, title: after.title, description: after.description, author_id: authorId, created_at: after.updated_at });
+
+  await executor.insert(todoRevisionsTable)
+    .values(snapshots)
+    .execute();
+};
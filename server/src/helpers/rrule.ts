@@ -0,0 +1,314 @@
+// Minimal RFC 5545 RRULE support for recurring todos.
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL and BYDAY
+// (plain weekdays, plus ordinals like 1MO or -1FR for MONTHLY and YEARLY rules).
+// Days, weekdays and times of day are those of the todo's time zone (UTC when it has none):
+// the rule is expanded on wall-clock times in that zone, which are turned back into instants at the end.
+// The week starts on Monday (WKST=MO).
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  day: number; // 0 = Sunday ... 6 = Saturday, like Date#getUTCDay()
+  ordinal: number | null; // e.g. 2 for 2TU, -1 for -1FR, null for every matching day
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count: number | null;
+  until: Date | null;
+  byDay: RRuleWeekday[];
+}
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on periods walked while expanding, so a rule that rarely matches cannot loop forever
+const MAX_PERIODS = 10000;
+
+export class RRuleParseError extends Error {
+  constructor(message: string) {
+    super(`Invalid RRULE: ${message}`);
+    this.name = 'RRuleParseError';
+  }
+}
+
+// Accepts UNTIL as a date (20301231) or UTC date-time (20301231T235959Z)
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new RRuleParseError(`bad UNTIL value "${value}"`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  if (hours === undefined) {
+    // A date-only UNTIL includes the whole day
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59, 999));
+  }
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+};
+
+const formatUntil = (until: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${until.getUTCFullYear()}${pad(until.getUTCMonth() + 1)}${pad(until.getUTCDate())}` +
+    `T${pad(until.getUTCHours())}${pad(until.getUTCMinutes())}${pad(until.getUTCSeconds())}Z`;
+};
+
+const parseWeekday = (value: string): RRuleWeekday => {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) {
+    throw new RRuleParseError(`bad BYDAY value "${value}"`);
+  }
+
+  const ordinal = match[1] === undefined ? null : Number(match[1]);
+  if (ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 53)) {
+    throw new RRuleParseError(`bad BYDAY ordinal "${value}"`);
+  }
+  return { day: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+};
+
+export const parseRRule = (value: string): RRule => {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) {
+      throw new RRuleParseError(`malformed part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RRuleParseError('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST'].includes(key)) {
+      throw new RRuleParseError(`unsupported part "${key}"`);
+    }
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RRuleParseError('INTERVAL must be a positive integer');
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) {
+    throw new RRuleParseError('COUNT must be a positive integer');
+  }
+
+  const until = parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : null;
+  if (count !== null && until !== null) {
+    throw new RRuleParseError('COUNT and UNTIL cannot be combined');
+  }
+
+  const byDay = parts.has('BYDAY') ? parts.get('BYDAY')!.split(',').map(parseWeekday) : [];
+  if (byDay.some((weekday) => weekday.ordinal !== null) && (freq === 'DAILY' || freq === 'WEEKLY')) {
+    throw new RRuleParseError('BYDAY ordinals are only allowed with MONTHLY or YEARLY');
+  }
+
+  return { freq, interval, count, until, byDay };
+};
+
+export const isValidRRule = (value: string): boolean => {
+  try {
+    parseRRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Whether the runtime knows the IANA time zone, e.g. "Europe/Berlin"
+export const isValidTimeZone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant
+const zoneOffset = (time: number, timeZone: string): number => {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormats.set(timeZone, format);
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(new Date(time)).map((part) => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts['year'], parts['month'] - 1, parts['day'], parts['hour'], parts['minute'], parts['second']);
+  return wallClock - (time - (((time % 1000) + 1000) % 1000));
+};
+
+// The zone's wall-clock time at an instant, as a date whose UTC fields read that wall-clock time
+const toWallClock = (date: Date, timeZone: string): Date =>
+  timeZone === 'UTC' ? date : new Date(date.getTime() + zoneOffset(date.getTime(), timeZone));
+
+// The instant at which the zone's clock shows the wall-clock time. The offset is looked up twice,
+// since it can differ between the two sides of a daylight saving change; times skipped by one move forward.
+const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  if (timeZone === 'UTC') {
+    return wallClock;
+  }
+  const guess = wallClock.getTime() - zoneOffset(wallClock.getTime(), timeZone);
+  return new Date(wallClock.getTime() - zoneOffset(guess, timeZone));
+};
+
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((weekday) => `${weekday.ordinal ?? ''}${WEEKDAY_CODES[weekday.day]}`).join(',')}`);
+  }
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== null) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+};
+
+// Same time of day as the start, on the given calendar day (both as wall-clock times)
+const atTimeOf = (start: Date, year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month, day, start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds(), start.getUTCMilliseconds()));
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Every day in [first, first + length) falling on one of the given weekdays, honouring ordinals
+const weekdaysInRange = (start: Date, first: Date, length: number, byDay: RRuleWeekday[]): Date[] => {
+  const days: Date[] = [];
+  for (let offset = 0; offset < length; offset++) {
+    days.push(atTimeOf(start, first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate() + offset));
+  }
+
+  const matches = new Set<number>();
+  for (const weekday of byDay) {
+    const sameDay = days.filter((day) => day.getUTCDay() === weekday.day);
+    if (weekday.ordinal === null) {
+      sameDay.forEach((day) => matches.add(day.getTime()));
+    } else {
+      const index = weekday.ordinal > 0 ? weekday.ordinal - 1 : sameDay.length + weekday.ordinal;
+      if (index >= 0 && index < sameDay.length) {
+        matches.add(sameDay[index].getTime());
+      }
+    }
+  }
+  return [...matches].sort((a, b) => a - b).map((time) => new Date(time));
+};
+
+// Candidate occurrences within the n-th period after the start (before COUNT/UNTIL are applied)
+const candidatesForPeriod = (rule: RRule, start: Date, period: number): Date[] => {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const date = start.getUTCDate();
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = atTimeOf(start, year, month, date + period);
+      const matchesByDay = rule.byDay.length === 0 || rule.byDay.some((weekday) => weekday.day === day.getUTCDay());
+      return matchesByDay ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = new Date(Date.UTC(year, month, date - mondayOffset + period * 7));
+      const byDay = rule.byDay.length > 0 ? rule.byDay : [{ day: start.getUTCDay(), ordinal: null }];
+      return weekdaysInRange(start, weekStart, 7, byDay);
+    }
+    case 'MONTHLY': {
+      const monthStart = new Date(Date.UTC(year, month + period, 1));
+      if (rule.byDay.length > 0) {
+        const length = daysInMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth());
+        return weekdaysInRange(start, monthStart, length, rule.byDay);
+      }
+      // Months without this day of month (e.g. the 31st) are skipped, as RFC 5545 requires
+      if (date > daysInMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth())) {
+        return [];
+      }
+      return [atTimeOf(start, monthStart.getUTCFullYear(), monthStart.getUTCMonth(), date)];
+    }
+    case 'YEARLY': {
+      const periodYear = year + period;
+      if (rule.byDay.length > 0) {
+        const yearStart = new Date(Date.UTC(periodYear, 0, 1));
+        const length = Math.round((Date.UTC(periodYear + 1, 0, 1) - yearStart.getTime()) / DAY_MS);
+        return weekdaysInRange(start, yearStart, length, rule.byDay);
+      }
+      // February 29th only recurs in leap years
+      if (date > daysInMonth(periodYear, month)) {
+        return [];
+      }
+      return [atTimeOf(start, periodYear, month, date)];
+    }
+  }
+};
+
+// Expands a rule into its occurrences, in order. The start always counts as the first occurrence.
+export const expandRRule = (rule: RRule, start: Date, limit: number, timeZone: string = 'UTC'): Date[] => {
+  const occurrences: Date[] = [start];
+  const maxOccurrences = Math.min(limit, rule.count ?? Infinity);
+
+  if (rule.until !== null && start > rule.until) {
+    return [];
+  }
+
+  const wallClockStart = toWallClock(start, timeZone);
+  for (let period = 0; period < MAX_PERIODS && occurrences.length < maxOccurrences; period += rule.interval) {
+    for (const wallClock of candidatesForPeriod(rule, wallClockStart, period)) {
+      const candidate = fromWallClock(wallClock, timeZone);
+      if (candidate <= start) continue;
+      if (rule.until !== null && candidate > rule.until) {
+        return occurrences.slice(0, maxOccurrences);
+      }
+      occurrences.push(candidate);
+      if (occurrences.length >= maxOccurrences) break;
+    }
+  }
+
+  return occurrences.slice(0, maxOccurrences);
+};
+
+export interface NextOccurrence {
+  date: Date;
+  rule: RRule; // The rule to carry forward, with COUNT reduced by the occurrences used up
+}
+
+// Finds the first occurrence after `after` (and after the start itself), counting days in the time zone.
+// Returns null once the series is exhausted by COUNT or UNTIL.
+export const nextOccurrence = (rule: RRule, start: Date, after: Date = start, timeZone: string = 'UTC'): NextOccurrence | null => {
+  const threshold = after > start ? after : start;
+  const batchSize = 64;
+
+  for (let limit = batchSize; limit <= batchSize * 1024; limit *= 2) {
+    const occurrences = expandRRule(rule, start, limit, timeZone);
+    const index = occurrences.findIndex((occurrence) => occurrence > threshold);
+
+    if (index !== -1) {
+      return {
+        date: occurrences[index],
+        rule: { ...rule, count: rule.count === null ? null : rule.count - index }
+      };
+    }
+
+    // Fewer occurrences than asked for means the series has ended
+    if (occurrences.length < limit) {
+      return null;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,42 @@
+import { sql, type SQL } from 'drizzle-orm';
+
+export interface SearchTerms {
+  words: string[]; // Matched as prefixes, so "meet" finds "meeting"
+  phrases: string[]; // Quoted input, matched as consecutive words
+}
+
+// Text search configuration, must match the one used for todos.search_vector
+const SEARCH_CONFIG = 'english';
+
+// Splits user input into bare words and "quoted phrases". Anything that is not a letter
+// or digit separates words, so tsquery operators in the input are never interpreted.
+export const parseSearchTerms = (input: string): SearchTerms => {
+  const phrases: string[] = [];
+  const rest = input.replace(/"([^"]*)"?/g, (_match: string, phrase: string) => {
+    const words = phrase.match(/[\p{L}\p{N}]+/gu);
+    if (words) {
+      phrases.push(words.join(' '));
+    }
+    return ' ';
+  });
+
+  return { words: rest.match(/[\p{L}\p{N}]+/gu) ?? [], phrases };
+};
+
+// Builds a tsquery matching every word (by prefix) and every phrase, or null when there is nothing to search for
+export const buildTsQuery = (input: string): SQL | null => {
+  const { words, phrases } = parseSearchTerms(input);
+  const queries: SQL[] = [];
+
+  if (words.length > 0) {
+    // Words only contain letters and digits, so they are safe to quote as tsquery lexemes
+    const prefixQuery = words.map((word) => `'${word}':*`).join(' & ');
+    queries.push(sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${prefixQuery})`);
+  }
+
+  for (const phrase of phrases) {
+    queries.push(sql`phraseto_tsquery(${SEARCH_CONFIG}::regconfig, ${phrase})`);
+  }
+
+  return queries.length > 0 ? sql.join(queries, sql` && `) : null;
+};
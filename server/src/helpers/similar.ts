@@ -0,0 +1,51 @@
+import { type Executor } from '../db';
+import { todoColumns, todosTable } from '../db/schema';
+import { type SimilarTodo } from '../schema';
+import { and, desc, eq, isNull, ne, sql } from 'drizzle-orm';
+
+// pg_trgm similarity (0..1) from which two titles count as likely duplicates.
+// Rewordings like "Update onboarding docs" / "Update the onboarding docs" score well above it.
+export const SIMILARITY_THRESHOLD = 0.4;
+
+const DEFAULT_LIMIT = 5;
+
+interface FindSimilarOptions {
+  excludeId?: number; // Leave out the todo being compared against itself
+  limit?: number;
+}
+
+// Open todos in the workspace whose title resembles the given one, most similar first.
+// Completed todos are ignored: filing a task again after finishing it is not a duplicate.
+// The % operator compares against pg_trgm.similarity_threshold and, unlike a plain similarity()
+// comparison, can use the trigram index on titles; it runs on every keystroke while typing a title.
+export const findSimilarOpenTodos = async (
+  executor: Executor,
+  workspaceId: number,
+  title: string,
+  options: FindSimilarOptions = {}
+): Promise<SimilarTodo[]> => {
+  const similarity = sql<number>`similarity(${todosTable.title}, ${title})`.mapWith(Number);
+
+  const conditions = [
+    eq(todosTable.workspace_id, workspaceId),
+    eq(todosTable.completed, false),
+    isNull(todosTable.deleted_at),
+    sql`${todosTable.title} % ${title}`
+  ];
+
+  if (options.excludeId !== undefined) {
+    conditions.push(ne(todosTable.id, options.excludeId));
+  }
+
+  // The threshold is set for this transaction only, so pooled connections keep the default
+  return await executor.transaction(async (tx) => {
+    await tx.execute(sql`select set_config('pg_trgm.similarity_threshold', ${String(SIMILARITY_THRESHOLD)}, true)`);
+
+    return await tx.select({ ...todoColumns, similarity })
+      .from(todosTable)
+      .where(and(...conditions))
+      .orderBy(desc(similarity), desc(todosTable.created_at))
+      .limit(options.limit ?? DEFAULT_LIMIT)
+      .execute();
+  });
+};
@@ -0,0 +1,69 @@
+import { type Executor } from '../db';
+import { todoColumns, todosTable, type Todo } from '../db/schema';
+import { and, count, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+// Loads every descendant of a todo, level by level (breadth-first).
+// Subtask hierarchies are shallow, so one query per level is cheap.
+// Trashed subtasks are skipped, unless `trashedAt` asks for the ones trashed together at that moment.
+export const fetchDescendants = async (executor: Executor, rootId: number, trashedAt?: Date): Promise<Todo[]> => {
+  const descendants: Todo[] = [];
+  let parentIds = [rootId];
+
+  while (parentIds.length > 0) {
+    const children = await executor.select(todoColumns)
+      .from(todosTable)
+      .where(and(
+        inArray(todosTable.parent_id, parentIds),
+        trashedAt ? eq(todosTable.deleted_at, trashedAt) : isNull(todosTable.deleted_at)
+      ))
+      .execute();
+
+    descendants.push(...children);
+    parentIds = children.map((child) => child.id);
+  }
+
+  return descendants;
+};
+
+export interface ChildCounts {
+  child_count: number;
+  completed_child_count: number;
+}
+
+// Subtask progress for list views: direct (untrashed) children per todo, keyed by todo id.
+// Todos without subtasks are missing from the map.
+export const fetchChildCounts = async (executor: Executor, todoIds: number[]): Promise<Map<number, ChildCounts>> => {
+  if (todoIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await executor.select({
+    parent_id: todosTable.parent_id,
+    child_count: count(),
+    completed_child_count: sql<number>`count(*) filter (where ${todosTable.completed} = true)`.mapWith(Number)
+  })
+    .from(todosTable)
+    .where(and(inArray(todosTable.parent_id, todoIds), isNull(todosTable.deleted_at)))
+    .groupBy(todosTable.parent_id)
+    .execute();
+
+  return new Map(rows.map(({ parent_id, ...counts }) => [parent_id!, counts]));
+};
+
+// Ids of every descendant of a todo, trashed or not: the rows deleting it cascades to
+export const fetchDescendantIds = async (executor: Executor, rootId: number): Promise<number[]> => {
+  const ids: number[] = [];
+  let parentIds = [rootId];
+
+  while (parentIds.length > 0) {
+    const children = await executor.select({ id: todosTable.id })
+      .from(todosTable)
+      .where(inArray(todosTable.parent_id, parentIds))
+      .execute();
+
+    parentIds = children.map((child) => child.id);
+    ids.push(...parentIds);
+  }
+
+  return ids;
+};
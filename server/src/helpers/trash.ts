@@ -0,0 +1,36 @@
+import { type Executor } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNotNull, lt } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a todo stays in the trash before the background purge removes it
+export const trashRetentionDays = (): number => {
+  const days = Number(process.env['TRASH_RETENTION_DAYS'] ?? 30);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+};
+
+interface PurgeOptions {
+  workspaceId?: number; // Only this workspace's trash, every workspace's when omitted
+  trashedBefore?: Date; // Only todos trashed before this cutoff
+}
+
+// Permanently deletes trashed todos. Returns the ids of the todos removed.
+export const purgeTrash = async (executor: Executor, options: PurgeOptions = {}): Promise<number[]> => {
+  const deleted = await executor.delete(todosTable)
+    .where(and(
+      isNotNull(todosTable.deleted_at),
+      options.workspaceId !== undefined ? eq(todosTable.workspace_id, options.workspaceId) : undefined,
+      options.trashedBefore ? lt(todosTable.deleted_at, options.trashedBefore) : undefined
+    ))
+    .returning({ id: todosTable.id })
+    .execute();
+
+  return deleted.map((todo) => todo.id);
+};
+
+// Purge run by the server on a timer. Returns how many todos were removed.
+export const purgeExpiredTrash = async (executor: Executor, now: Date = new Date()): Promise<number> => {
+  const purgedIds = await purgeTrash(executor, { trashedBefore: new Date(now.getTime() - trashRetentionDays() * DAY_MS) });
+  return purgedIds.length;
+};
@@ -0,0 +1,53 @@
+import { type DiffPart } from '../schema';
+
+// Words with their trailing whitespace (plus any leading whitespace), so the diff keeps the
+// original spacing without lone spaces matching up between otherwise unrelated words
+const tokenize = (text: string): string[] => text.match(/^\s+|\S+\s*/g) ?? [];
+
+// Appends a token, merging it into the previous part when that has the same type
+const append = (parts: DiffPart[], type: DiffPart['type'], text: string): void => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+// Word-level diff via the longest common subsequence of tokens.
+// Quadratic in the number of words, which is fine for todo titles and descriptions.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      append(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      append(parts, 'removed', a[i++]);
+    } else {
+      append(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) {
+    append(parts, 'removed', a[i++]);
+  }
+  while (j < b.length) {
+    append(parts, 'added', b[j++]);
+  }
+
+  return parts;
+};
@@ -0,0 +1,72 @@
+import { type Executor, type Transaction } from '../db';
+import { workspaceMembersTable, workspacesTable, type Workspace } from '../db/schema';
+import { type WorkspaceRole } from '../schema';
+import { and, asc, count, eq } from 'drizzle-orm';
+import { DomainError } from './errors';
+
+// Roles are cumulative: owners can do what editors can, editors what viewers can
+const ROLE_LEVELS: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export const hasRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+
+export interface WorkspaceMembership {
+  id: number; // The workspace
+  role: WorkspaceRole;
+}
+
+// Creates a workspace with the given user as its only owner
+export const createWorkspaceWithOwner = async (executor: Executor, name: string, userId: number): Promise<Workspace> => {
+  const workspace = (await executor.insert(workspacesTable)
+    .values({ name })
+    .returning()
+    .execute())[0];
+
+  await executor.insert(workspaceMembersTable)
+    .values({ workspace_id: workspace.id, user_id: userId, role: 'owner' })
+    .execute();
+
+  return workspace;
+};
+
+// The user's membership in a workspace; without a workspace id, the first one they joined
+export const findMembership = async (
+  executor: Executor,
+  userId: number,
+  workspaceId: number | null
+): Promise<WorkspaceMembership | null> => {
+  const conditions = [eq(workspaceMembersTable.user_id, userId)];
+  if (workspaceId !== null) {
+    conditions.push(eq(workspaceMembersTable.workspace_id, workspaceId));
+  }
+
+  const rows = await executor.select({ id: workspaceMembersTable.workspace_id, role: workspaceMembersTable.role })
+    .from(workspaceMembersTable)
+    .where(and(...conditions))
+    .orderBy(asc(workspaceMembersTable.created_at), asc(workspaceMembersTable.workspace_id))
+    .limit(1)
+    .execute();
+
+  return rows[0] ?? null;
+};
+
+// Serialises membership changes per workspace so two owners cannot demote each other at once
+export const lockWorkspace = async (tx: Transaction, workspaceId: number): Promise<void> => {
+  await tx.select({ id: workspacesTable.id })
+    .from(workspacesTable)
+    .where(eq(workspacesTable.id, workspaceId))
+    .for('update')
+    .execute();
+};
+
+// Throws (rolling back the surrounding transaction) when a change left the workspace without an owner
+export const assertOwnerRemains = async (tx: Transaction, workspaceId: number): Promise<void> => {
+  const owners = await tx.select({ count: count() })
+    .from(workspaceMembersTable)
+    .where(and(eq(workspaceMembersTable.workspace_id, workspaceId), eq(workspaceMembersTable.role, 'owner')))
+    .execute();
+
+  if (owners[0].count === 0) {
+    throw new DomainError('LAST_OWNER', 'A workspace needs at least one owner');
+  }
+};
@@ -1,72 +1,547 @@
 import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { applyWSSHandler, type CreateWSSContextFnOptions } from '@trpc/server/adapters/ws';
+import { WebSocketServer } from 'ws';
+import { ServerResponse } from 'node:http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
+import { sql } from 'drizzle-orm';
+import { db } from './db';
 
 // Import schema types
 import { 
+  registerInputSchema,
+  loginInputSchema,
+  createApiTokenInputSchema,
+  revokeApiTokenInputSchema,
+  createWorkspaceInputSchema,
+  addWorkspaceMemberInputSchema,
+  updateWorkspaceMemberInputSchema,
+  removeWorkspaceMemberInputSchema,
+  createInviteInputSchema,
+  revokeInviteInputSchema,
+  acceptInviteInputSchema,
   createTodoInputSchema, 
   updateTodoInputSchema, 
   deleteTodoInputSchema, 
-  getTodoInputSchema 
+  moveTodoInputSchema,
+  bulkUpdateTodosInputSchema,
+  bulkDeleteTodosInputSchema,
+  restoreTodoInputSchema,
+  purgeTodoInputSchema,
+  archiveTodoInputSchema,
+  unarchiveTodoInputSchema,
+  archiveCompletedInputSchema,
+  getTodoInputSchema,
+  getTodosInputSchema,
+  searchTodosInputSchema,
+  findSimilarTodosInputSchema,
+  createTagInputSchema,
+  renameTagInputSchema,
+  deleteTagInputSchema,
+  setTodoTagsInputSchema,
+  addCommentInputSchema,
+  editCommentInputSchema,
+  deleteCommentInputSchema,
+  listCommentsInputSchema,
+  listNotificationsInputSchema,
+  markNotificationReadInputSchema,
+  getTodoActivityInputSchema,
+  getWorkspaceActivityInputSchema,
+  listTodoRevisionsInputSchema,
+  getTodoRevisionDiffInputSchema,
+  restoreTodoRevisionInputSchema,
+  createProjectInputSchema,
+  listProjectsInputSchema,
+  updateProjectInputSchema,
+  deleteProjectInputSchema
 } from './schema';
 
 // Import handlers
+import { register } from './handlers/register';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { createApiToken } from './handlers/create_api_token';
+import { listApiTokens } from './handlers/list_api_tokens';
+import { revokeApiToken } from './handlers/revoke_api_token';
+import { createWorkspace } from './handlers/create_workspace';
+import { listWorkspaces } from './handlers/list_workspaces';
+import { listWorkspaceMembers } from './handlers/list_workspace_members';
+import { addWorkspaceMember } from './handlers/add_workspace_member';
+import { updateWorkspaceMember } from './handlers/update_workspace_member';
+import { removeWorkspaceMember } from './handlers/remove_workspace_member';
+import { createInvite } from './handlers/create_invite';
+import { listInvites } from './handlers/list_invites';
+import { revokeInvite } from './handlers/revoke_invite';
+import { acceptInvite } from './handlers/accept_invite';
 import { createTodo } from './handlers/create_todo';
 import { getTodos } from './handlers/get_todos';
 import { getTodo } from './handlers/get_todo';
+import { searchTodos } from './handlers/search_todos';
+import { findSimilarTodos } from './handlers/find_similar_todos';
 import { updateTodo } from './handlers/update_todo';
 import { deleteTodo } from './handlers/delete_todo';
+import { moveTodo } from './handlers/move_todo';
+import { bulkUpdateTodos } from './handlers/bulk_update_todos';
+import { bulkDeleteTodos } from './handlers/bulk_delete_todos';
+import { listTrash } from './handlers/list_trash';
+import { restoreTodo } from './handlers/restore_todo';
+import { purgeTodo } from './handlers/purge_todo';
+import { emptyTrash } from './handlers/empty_trash';
+import { purgeExpiredTrash } from './helpers/trash';
+import { todoChanges } from './helpers/events';
+import { rebalanceCrowdedPositions } from './helpers/positions';
+import { archiveTodo } from './handlers/archive_todo';
+import { unarchiveTodo } from './handlers/unarchive_todo';
+import { archiveCompleted } from './handlers/archive_completed';
+import { createTag } from './handlers/create_tag';
+import { listTags } from './handlers/list_tags';
+import { renameTag } from './handlers/rename_tag';
+import { deleteTag } from './handlers/delete_tag';
+import { setTodoTags } from './handlers/set_todo_tags';
+import { addComment } from './handlers/add_comment';
+import { editComment } from './handlers/edit_comment';
+import { deleteComment } from './handlers/delete_comment';
+import { listComments } from './handlers/list_comments';
+import { listNotifications } from './handlers/list_notifications';
+import { markNotificationRead } from './handlers/mark_notification_read';
+import { markAllRead } from './handlers/mark_all_read';
+import { getTodoActivity } from './handlers/get_todo_activity';
+import { getWorkspaceActivity } from './handlers/get_workspace_activity';
+import { listTodoRevisions } from './handlers/list_todo_revisions';
+import { getTodoRevisionDiff } from './handlers/get_todo_revision_diff';
+import { restoreTodoRevision } from './handlers/restore_todo_revision';
+import { createProject } from './handlers/create_project';
+import { listProjects } from './handlers/list_projects';
+import { updateProject } from './handlers/update_project';
+import { deleteProject } from './handlers/delete_project';
+import { findApiTokenUser, findSessionUser, hasScope, SESSION_SCOPES } from './helpers/auth';
+import { clearSessionCookie, parseCookies, SESSION_COOKIE, setSessionCookie } from './helpers/cookies';
+import { findMembership, hasRole } from './helpers/workspaces';
+import { DomainError, fromDomainError, reasonOf, TodoConflictError, toTRPCError } from './helpers/errors';
+import { type ApiTokenScope, type User, type WorkspaceRole } from './schema';
 
-const t = initTRPC.create({
+// Clients pick the workspace to work in with this header; without it the user's first workspace is used
+const WORKSPACE_HEADER = 'x-workspace-id';
+
+const parseWorkspaceId = (value: string | string[] | undefined): number | null => {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+interface Credentials {
+  sessionToken: string | null;
+  apiToken: string | null;
+}
+
+// The user an API token or session belongs to right now, and what it allows
+const authenticate = async ({ sessionToken, apiToken }: Credentials): Promise<{ user: User | null; scopes: ApiTokenScope[] }> => {
+  if (apiToken !== null) {
+    const auth = await findApiTokenUser(db, apiToken);
+    return { user: auth?.user ?? null, scopes: auth?.scopes ?? [] };
+  }
+
+  const user = sessionToken ? await findSessionUser(db, sessionToken) : null;
+  return { user, scopes: user ? SESSION_SCOPES : [] };
+};
+
+// Every request carries the signed-in user, if any, and what they may do.
+// Scripts authenticate with "Authorization: Bearer <API token>", browsers with the session cookie.
+// A WebSocket does so once, when it connects; browsers cannot set headers on one, so it names
+// the workspace in its connection params instead.
+export const createContext = async ({ req, res: response, info }: CreateHTTPContextOptions | CreateWSSContextFnOptions) => {
+  const workspaceId = parseWorkspaceId(info.connectionParams?.['workspaceId'] ?? req.headers[WORKSPACE_HEADER]);
+  const res = response instanceof ServerResponse ? response : null; // Null on a WebSocket, which cannot set cookies
+
+  const authorization = req.headers.authorization;
+  const apiToken = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : null;
+  const sessionToken = apiToken === null ? parseCookies(req)[SESSION_COOKIE] || null : null;
+  return { res, sessionToken, apiToken, workspaceId, ...(await authenticate({ sessionToken, apiToken })) };
+};
+
+// Why a long-lived subscription may no longer see the workspace: the session ended, the token
+// was revoked or the user left the workspace since the socket opened. Null while access still holds.
+const lostAccess = async (credentials: Credentials, userId: number, workspaceId: number): Promise<DomainError | null> => {
+  const { user } = await authenticate(credentials);
+  if (user?.id !== userId) {
+    return new DomainError('SIGN_IN_REQUIRED', 'Your session has ended, sign in again');
+  }
+  if (!(await findMembership(db, userId, workspaceId))) {
+    return new DomainError('NOT_A_MEMBER', 'You are no longer a member of this workspace');
+  }
+  return null;
+};
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Every error says why it happened in data.reason; conflicting updates also carry the server copy
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      reason: reasonOf(error),
+      conflict: error.cause instanceof TodoConflictError ? error.cause.conflict : null
+    }
+  }),
 });
 
-const publicProcedure = t.procedure;
+// Every procedure reports failures as typed errors (see helpers/errors)
+const publicProcedure = t.procedure.use(async ({ path, next }) => {
+  const result = await next();
+  if (!result.ok) {
+    throw toTRPCError(result.error, path);
+  }
+  return result;
+});
 const router = t.router;
 
-const appRouter = router({
+// Sign-in and sign-out set the session cookie, so they only work over HTTP
+const cookieProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.res) {
+    throw new DomainError('INVALID_INPUT', 'Sign in and out over HTTP, not a WebSocket');
+  }
+  return next({ ctx: { ...ctx, res: ctx.res } });
+});
+
+// Procedures for signed-in users only.
+// Queries and subscriptions need the read scope and mutations the write scope, which only matters for API tokens.
+const protectedProcedure = publicProcedure.use(({ ctx, type, next }) => {
+  if (!ctx.user) {
+    throw new DomainError('SIGN_IN_REQUIRED', 'Sign in required');
+  }
+  const requiredScope = type === 'mutation' ? 'write' : 'read';
+  if (!hasScope(ctx.scopes, requiredScope)) {
+    throw new DomainError('MISSING_SCOPE', `This token lacks the ${requiredScope} scope`);
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Account administration, e.g. managing API tokens - tokens need the admin scope
+const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!hasScope(ctx.scopes, 'admin')) {
+    throw new DomainError('MISSING_SCOPE', 'This token lacks the admin scope');
+  }
+  return next();
+});
+
+// Procedures working on a workspace's content; handlers get the workspace id to scope their queries
+const workspaceProcedure = (requiredRole: WorkspaceRole) => protectedProcedure.use(async ({ ctx, next }) => {
+  const membership = await findMembership(db, ctx.user.id, ctx.workspaceId);
+  if (!membership) {
+    throw new DomainError('NOT_A_MEMBER', 'You are not a member of this workspace');
+  }
+  if (!hasRole(membership.role, requiredRole)) {
+    throw new DomainError('ROLE_REQUIRED', `This needs the ${requiredRole} role in the workspace`);
+  }
+  return next({ ctx: { ...ctx, workspace: membership } });
+});
+
+// Viewers can read, editors can also change todos, projects and tags, owners can also manage members
+const viewerProcedure = workspaceProcedure('viewer');
+const editorProcedure = workspaceProcedure('editor');
+const ownerProcedure = workspaceProcedure('owner');
+
+export const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
+
+  // Account operations
+  register: cookieProcedure
+    .input(registerInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { user, session } = await register(input);
+      setSessionCookie(ctx.res, session.token, session.expires_at);
+      return user;
+    }),
+
+  login: cookieProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { user, session } = await login(input);
+      setSessionCookie(ctx.res, session.token, session.expires_at);
+      return user;
+    }),
+
+  logout: cookieProcedure
+    .mutation(async ({ ctx }) => {
+      if (ctx.sessionToken) {
+        await logout(ctx.sessionToken);
+      }
+      clearSessionCookie(ctx.res);
+      return true;
+    }),
+
+  // The signed-in user, or null - lets the client decide whether to show the login screen
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
   
+  // API token operations
+  createApiToken: adminProcedure
+    .input(createApiTokenInputSchema)
+    .mutation(({ input, ctx }) => createApiToken(ctx.user.id, input)),
+
+  listApiTokens: adminProcedure
+    .query(({ ctx }) => listApiTokens(ctx.user.id)),
+
+  revokeApiToken: adminProcedure
+    .input(revokeApiTokenInputSchema)
+    .mutation(({ input, ctx }) => revokeApiToken(ctx.user.id, input)),
+
+  // Workspace operations
+  listWorkspaces: protectedProcedure
+    .query(({ ctx }) => listWorkspaces(ctx.user.id)),
+
+  createWorkspace: protectedProcedure
+    .input(createWorkspaceInputSchema)
+    .mutation(({ input, ctx }) => createWorkspace(ctx.user.id, input)),
+
+  listWorkspaceMembers: viewerProcedure
+    .query(({ ctx }) => listWorkspaceMembers(ctx.workspace.id)),
+
+  addWorkspaceMember: ownerProcedure
+    .input(addWorkspaceMemberInputSchema)
+    .mutation(({ input, ctx }) => addWorkspaceMember(ctx.workspace.id, input)),
+
+  updateWorkspaceMember: ownerProcedure
+    .input(updateWorkspaceMemberInputSchema)
+    .mutation(({ input, ctx }) => updateWorkspaceMember(ctx.workspace.id, input)),
+
+  removeWorkspaceMember: ownerProcedure
+    .input(removeWorkspaceMemberInputSchema)
+    .mutation(({ input, ctx }) => removeWorkspaceMember(ctx.workspace.id, input)),
+
+  // Invite operations
+  createInvite: ownerProcedure
+    .input(createInviteInputSchema)
+    .mutation(({ input, ctx }) => createInvite(ctx.workspace.id, ctx.user, input)),
+
+  listInvites: ownerProcedure
+    .query(({ ctx }) => listInvites(ctx.workspace.id)),
+
+  revokeInvite: ownerProcedure
+    .input(revokeInviteInputSchema)
+    .mutation(({ input, ctx }) => revokeInvite(ctx.workspace.id, input)),
+
+  // Not tied to the current workspace: the invite names the workspace to join
+  acceptInvite: protectedProcedure
+    .input(acceptInviteInputSchema)
+    .mutation(({ input, ctx }) => acceptInvite(ctx.user, input)),
+
   // Todo operations
-  createTodo: publicProcedure
+  createTodo: editorProcedure
     .input(createTodoInputSchema)
-    .mutation(({ input }) => createTodo(input)),
+    .mutation(({ input, ctx }) => createTodo(ctx.workspace.id, input, ctx.user.id)),
     
-  getTodos: publicProcedure
-    .query(() => getTodos()),
+  getTodos: viewerProcedure
+    .input(getTodosInputSchema.optional())
+    .query(({ input, ctx }) => getTodos(ctx.workspace.id, input, ctx.user.id)),
     
-  getTodo: publicProcedure
+  getTodo: viewerProcedure
     .input(getTodoInputSchema)
-    .query(({ input }) => getTodo(input)),
+    .query(({ input, ctx }) => getTodo(ctx.workspace.id, input)),
+
+  searchTodos: viewerProcedure
+    .input(searchTodosInputSchema)
+    .query(({ input, ctx }) => searchTodos(ctx.workspace.id, input)),
+
+  findSimilarTodos: viewerProcedure
+    .input(findSimilarTodosInputSchema)
+    .query(({ input, ctx }) => findSimilarTodos(ctx.workspace.id, input)),
     
-  updateTodo: publicProcedure
+  updateTodo: editorProcedure
     .input(updateTodoInputSchema)
-    .mutation(({ input }) => updateTodo(input)),
+    .mutation(({ input, ctx }) => updateTodo(ctx.workspace.id, input, ctx.user.id)),
     
-  deleteTodo: publicProcedure
+  deleteTodo: editorProcedure
     .input(deleteTodoInputSchema)
-    .mutation(({ input }) => deleteTodo(input)),
+    .mutation(({ input, ctx }) => deleteTodo(ctx.workspace.id, input, ctx.user.id)),
+
+  moveTodo: editorProcedure
+    .input(moveTodoInputSchema)
+    .mutation(({ input, ctx }) => moveTodo(ctx.workspace.id, input)),
+
+  // Many todos at once, picked by id or by the same filters as getTodos
+  bulkUpdateTodos: editorProcedure
+    .input(bulkUpdateTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdateTodos(ctx.workspace.id, input, ctx.user.id)),
+
+  bulkDeleteTodos: editorProcedure
+    .input(bulkDeleteTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkDeleteTodos(ctx.workspace.id, input, ctx.user.id)),
+
+  // Live created/updated/deleted events for the workspace's todos, for as long as the client listens.
+  // Access is checked again before every event, so the stream ends once it is lost.
+  onTodoChanged: viewerProcedure
+    .subscription(async function* ({ ctx, signal }) {
+      for await (const event of todoChanges(ctx.workspace.id, signal)) {
+        const lost = await lostAccess(ctx, ctx.user.id, ctx.workspace.id);
+        if (lost) {
+          throw fromDomainError(lost);
+        }
+        yield event;
+      }
+    }),
+
+  getTodoActivity: viewerProcedure
+    .input(getTodoActivityInputSchema)
+    .query(({ input, ctx }) => getTodoActivity(ctx.workspace.id, input)),
+
+  getWorkspaceActivity: viewerProcedure
+    .input(getWorkspaceActivityInputSchema.optional())
+    .query(({ input, ctx }) => getWorkspaceActivity(ctx.workspace.id, input)),
+
+  // Title and description history
+  listTodoRevisions: viewerProcedure
+    .input(listTodoRevisionsInputSchema)
+    .query(({ input, ctx }) => listTodoRevisions(ctx.workspace.id, input)),
+
+  getTodoRevisionDiff: viewerProcedure
+    .input(getTodoRevisionDiffInputSchema)
+    .query(({ input, ctx }) => getTodoRevisionDiff(ctx.workspace.id, input)),
+
+  restoreTodoRevision: editorProcedure
+    .input(restoreTodoRevisionInputSchema)
+    .mutation(({ input, ctx }) => restoreTodoRevision(ctx.workspace.id, input, ctx.user.id)),
+
+  // Archive operations
+  archiveTodo: editorProcedure
+    .input(archiveTodoInputSchema)
+    .mutation(({ input, ctx }) => archiveTodo(ctx.workspace.id, input)),
+
+  unarchiveTodo: editorProcedure
+    .input(unarchiveTodoInputSchema)
+    .mutation(({ input, ctx }) => unarchiveTodo(ctx.workspace.id, input)),
+
+  archiveCompleted: editorProcedure
+    .input(archiveCompletedInputSchema)
+    .mutation(({ input, ctx }) => archiveCompleted(ctx.workspace.id, input)),
+
+  // Trash operations
+  listTrash: viewerProcedure
+    .query(({ ctx }) => listTrash(ctx.workspace.id)),
+
+  restoreTodo: editorProcedure
+    .input(restoreTodoInputSchema)
+    .mutation(({ input, ctx }) => restoreTodo(ctx.workspace.id, input)),
+
+  purgeTodo: editorProcedure
+    .input(purgeTodoInputSchema)
+    .mutation(({ input, ctx }) => purgeTodo(ctx.workspace.id, input)),
+
+  emptyTrash: editorProcedure
+    .mutation(({ ctx }) => emptyTrash(ctx.workspace.id)),
+
+  // Tag operations
+  createTag: editorProcedure
+    .input(createTagInputSchema)
+    .mutation(({ input, ctx }) => createTag(ctx.workspace.id, input)),
+
+  listTags: viewerProcedure
+    .query(({ ctx }) => listTags(ctx.workspace.id)),
+
+  renameTag: editorProcedure
+    .input(renameTagInputSchema)
+    .mutation(({ input, ctx }) => renameTag(ctx.workspace.id, input)),
+
+  deleteTag: editorProcedure
+    .input(deleteTagInputSchema)
+    .mutation(({ input, ctx }) => deleteTag(ctx.workspace.id, input)),
+
+  setTodoTags: editorProcedure
+    .input(setTodoTagsInputSchema)
+    .mutation(({ input, ctx }) => setTodoTags(ctx.workspace.id, input)),
+
+  // Comment operations
+  addComment: editorProcedure
+    .input(addCommentInputSchema)
+    .mutation(({ input, ctx }) => addComment(ctx.workspace.id, ctx.user.id, input)),
+
+  editComment: editorProcedure
+    .input(editCommentInputSchema)
+    .mutation(({ input, ctx }) => editComment(ctx.workspace.id, ctx.user.id, input)),
+
+  deleteComment: editorProcedure
+    .input(deleteCommentInputSchema)
+    .mutation(({ input, ctx }) => deleteComment(ctx.workspace, ctx.user.id, input)),
+
+  listComments: viewerProcedure
+    .input(listCommentsInputSchema)
+    .query(({ input, ctx }) => listComments(ctx.workspace.id, input)),
+
+  // Notification operations; everyone gets their own, viewers included
+  listNotifications: viewerProcedure
+    .input(listNotificationsInputSchema.optional())
+    .query(({ input, ctx }) => listNotifications(ctx.workspace.id, ctx.user.id, input)),
+
+  markNotificationRead: viewerProcedure
+    .input(markNotificationReadInputSchema)
+    .mutation(({ input, ctx }) => markNotificationRead(ctx.workspace.id, ctx.user.id, input)),
+
+  markAllRead: viewerProcedure
+    .mutation(({ ctx }) => markAllRead(ctx.workspace.id, ctx.user.id)),
+
+  // Project operations
+  createProject: editorProcedure
+    .input(createProjectInputSchema)
+    .mutation(({ input, ctx }) => createProject(ctx.workspace.id, input)),
+
+  listProjects: viewerProcedure
+    .input(listProjectsInputSchema.optional())
+    .query(({ input, ctx }) => listProjects(ctx.workspace.id, input)),
+
+  updateProject: editorProcedure
+    .input(updateProjectInputSchema)
+    .mutation(({ input, ctx }) => updateProject(ctx.workspace.id, input)),
+
+  deleteProject: editorProcedure
+    .input(deleteProjectInputSchema)
+    .mutation(({ input, ctx }) => deleteProject(ctx.workspace.id, input)),
 });
 
 export type AppRouter = typeof appRouter;
 
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const REBALANCE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
 async function start() {
+  // Trigram similarity for duplicate detection; schema pushes do not create extensions
+  await db.execute(sql`create extension if not exists pg_trgm`);
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
+  // Subscriptions run over WebSockets on the same port
+  const wss = new WebSocketServer({ server });
+  applyWSSHandler({ wss, router: appRouter, createContext, keepAlive: { enabled: true } });
+
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Permanently remove todos that sat in the trash longer than TRASH_RETENTION_DAYS
+  const purgeTrash = () => purgeExpiredTrash(db)
+    .then((count) => count > 0 && console.log(`Purged ${count} todo(s) from the trash`))
+    .catch((error) => console.error('Trash purge failed:', error));
+  purgeTrash();
+  setInterval(purgeTrash, TRASH_PURGE_INTERVAL_MS);
+
+  // Shorten manual order keys that grew long and split up todos sharing a position
+  const rebalance = () => rebalanceCrowdedPositions()
+    .then((count) => count > 0 && console.log(`Rebalanced todo positions in ${count} workspace(s)`))
+    .catch((error) => console.error('Position rebalance failed:', error));
+  rebalance();
+  setInterval(rebalance, REBALANCE_INTERVAL_MS);
 }
 
-start();
\ No newline at end of file
+// Importing the router, e.g. in tests, must not start a server
+if (import.meta.main) {
+  start();
+}
@@ -1,21 +1,466 @@
 import { z } from 'zod';
+import { isValidRRule, isValidTimeZone } from './helpers/rrule';
+
+// Priority levels, lowest to highest - mirrors the Postgres enum
+export const todoPrioritySchema = z.enum(['none', 'low', 'medium', 'high', 'urgent']);
+
+export type TodoPriority = z.infer<typeof todoPrioritySchema>;
+
+// RFC 5545 recurrence rule, e.g. "FREQ=WEEKLY;BYDAY=MO,WE" (an "RRULE:" prefix is accepted)
+const recurrenceSchema = z.string().trim().refine(isValidRRule, { message: 'Invalid recurrence rule' });
+
+// IANA time zone, e.g. "America/New_York"
+const timeZoneSchema = z.string().refine(isValidTimeZone, { message: 'Unknown time zone' });
+
+// User schema - never includes the password hash
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Input schema for creating an account
+export const registerInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1, 'Name is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+export type RegisterInput = z.infer<typeof registerInputSchema>;
+
+// Input schema for signing in
+export const loginInputSchema = z.object({
+  email: z.string().trim().toLowerCase(),
+  password: z.string()
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// What an API token may do: read = queries, write = mutations too, admin = also manage tokens
+export const apiTokenScopeSchema = z.enum(['read', 'write', 'admin']);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// API token as listed in settings - the token itself is only ever shown once, at creation
+export const apiTokenSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiTokenScopeSchema),
+  expires_at: z.coerce.date().nullable(), // Null = never expires
+  last_used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+// Input schema for creating an API token
+export const createApiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  scopes: z.array(apiTokenScopeSchema).min(1, 'Pick at least one scope'),
+  expiresInDays: z.number().int().positive().nullable().optional() // Null or omitted = never expires
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenInputSchema>;
+
+// A new token together with its secret, which cannot be retrieved again
+export const createApiTokenResultSchema = z.object({
+  token: apiTokenSchema,
+  secret: z.string()
+});
+
+export type CreateApiTokenResult = z.infer<typeof createApiTokenResultSchema>;
+
+// Input schema for revoking an API token
+export const revokeApiTokenInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeApiTokenInput = z.infer<typeof revokeApiTokenInputSchema>;
+
+// Roles from least to most privileged: viewers read, editors also write, owners also manage members
+export const workspaceRoleSchema = z.enum(['viewer', 'editor', 'owner']);
+
+export type WorkspaceRole = z.infer<typeof workspaceRoleSchema>;
+
+export const workspaceSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Workspace = z.infer<typeof workspaceSchema>;
+
+// A workspace as listed in the switcher, with the current user's role in it
+export const workspaceListItemSchema = workspaceSchema.extend({
+  role: workspaceRoleSchema
+});
+
+export type WorkspaceListItem = z.infer<typeof workspaceListItemSchema>;
+
+// Input schema for creating a workspace; the creator becomes its owner
+export const createWorkspaceInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required')
+});
+
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceInputSchema>;
+
+// A member of a workspace with their user details
+export const workspaceMemberSchema = z.object({
+  user_id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: workspaceRoleSchema,
+  created_at: z.coerce.date() // When they joined
+});
+
+export type WorkspaceMember = z.infer<typeof workspaceMemberSchema>;
+
+// Input schema for adding an existing user to a workspace
+export const addWorkspaceMemberInputSchema = z.object({
+  email: z.string().trim().toLowerCase(),
+  role: workspaceRoleSchema
+});
+
+export type AddWorkspaceMemberInput = z.infer<typeof addWorkspaceMemberInputSchema>;
+
+// Input schema for changing a member's role
+export const updateWorkspaceMemberInputSchema = z.object({
+  user_id: z.number(),
+  role: workspaceRoleSchema
+});
+
+export type UpdateWorkspaceMemberInput = z.infer<typeof updateWorkspaceMemberInputSchema>;
+
+// Input schema for removing a member (or leaving, with one's own id)
+export const removeWorkspaceMemberInputSchema = z.object({
+  user_id: z.number()
+});
+
+export type RemoveWorkspaceMemberInput = z.infer<typeof removeWorkspaceMemberInputSchema>;
+
+// An invitation to join a workspace with a preassigned role
+export const workspaceInviteSchema = z.object({
+  id: z.number(),
+  workspace_id: z.number(),
+  role: workspaceRoleSchema,
+  email: z.string().nullable(), // Null = anyone with the link may accept
+  created_by: z.number().nullable(),
+  expires_at: z.coerce.date(),
+  accepted_at: z.coerce.date().nullable(),
+  accepted_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type WorkspaceInvite = z.infer<typeof workspaceInviteSchema>;
+
+// Input schema for inviting someone; the link is valid for expiresInDays
+export const createInviteInputSchema = z.object({
+  role: workspaceRoleSchema,
+  email: z.string().trim().toLowerCase().email().nullable().optional(),
+  expiresInDays: z.number().int().min(1).max(30).optional() // Defaults to 7
+});
+
+export type CreateInviteInput = z.infer<typeof createInviteInputSchema>;
+
+// A new invite with the link to hand out
+export const createInviteResultSchema = z.object({
+  invite: workspaceInviteSchema,
+  link: z.string()
+});
+
+export type CreateInviteResult = z.infer<typeof createInviteResultSchema>;
+
+// Input schema for revoking an invite that has not been accepted yet
+export const revokeInviteInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeInviteInput = z.infer<typeof revokeInviteInputSchema>;
+
+// Input schema for accepting an invite, with the token from the link
+export const acceptInviteInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type AcceptInviteInput = z.infer<typeof acceptInviteInputSchema>;
+
+// Project schema for grouping todos
+export const projectSchema = z.object({
+  id: z.number(),
+  workspace_id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  icon: z.string().nullable(),
+  archived: z.boolean(),
+  position: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Project = z.infer<typeof projectSchema>;
+
+// Todo counts shown next to each project in the sidebar
+export const projectCountsSchema = z.object({
+  todo_count: z.number().int(),
+  open_count: z.number().int()
+});
+
+export type ProjectCounts = z.infer<typeof projectCountsSchema>;
+
+export const projectListItemSchema = projectSchema.merge(projectCountsSchema);
+
+export type ProjectListItem = z.infer<typeof projectListItemSchema>;
+
+// Projects plus the counts for the Inbox (todos without a project)
+export const projectListSchema = z.object({
+  projects: z.array(projectListItemSchema),
+  inbox: projectCountsSchema
+});
+
+export type ProjectList = z.infer<typeof projectListSchema>;
 
 // Todo schema with proper type handling
 export const todoSchema = z.object({
   id: z.number(),
+  workspace_id: z.number(),
   title: z.string(),
   description: z.string().nullable(), // Nullable field, can be explicitly null
   completed: z.boolean(),
+  due_at: z.coerce.date().nullable(), // Deadline, null when the todo has none
+  priority: todoPrioritySchema,
+  project_id: z.number().nullable(), // Null = Inbox
+  parent_id: z.number().nullable(), // Null = top-level todo, otherwise a subtask
+  recurrence: z.string().nullable(), // RRULE string, null for one-off todos
+  time_zone: z.string().nullable(), // Time zone the recurrence counts days in, null = UTC
+  completed_at: z.coerce.date().nullable(), // When the todo was completed, null while open
+  archived_at: z.coerce.date().nullable(), // When the todo was archived, null otherwise
+  deleted_at: z.coerce.date().nullable(), // When the todo was moved to the trash, null otherwise
+  version: z.number().int(), // Sent back with updates to detect concurrent edits
+  position: z.string(), // Sort key of the manual order; compare with plain string comparison
   created_at: z.coerce.date(), // Automatically converts string timestamps to Date objects
   updated_at: z.coerce.date()
 });
 
 export type Todo = z.infer<typeof todoSchema>;
 
+// The server copy that comes with a CONFLICT error when an update was based on an old version
+export const todoConflictSchema = z.object({
+  current: todoSchema.extend({
+    assignee_ids: z.array(z.number())
+  })
+});
+
+export type TodoConflict = z.infer<typeof todoConflictSchema>;
+
+// Tag schema
+export const tagSchema = z.object({
+  id: z.number(),
+  workspace_id: z.number(),
+  name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// Todo with its full subtask hierarchy, as returned by getTodo
+export type TodoTree = Todo & { children: TodoTree[] };
+
+export const todoTreeSchema: z.ZodType<TodoTree, z.ZodTypeDef, unknown> = todoSchema.extend({
+  children: z.lazy(() => z.array(todoTreeSchema))
+});
+
+// A person as shown next to todos and comments, without account details
+export const userSummarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string()
+});
+
+export type UserSummary = z.infer<typeof userSummarySchema>;
+
+// A workspace member a todo is assigned to
+export const assigneeSchema = userSummarySchema;
+
+export type Assignee = z.infer<typeof assigneeSchema>;
+
+// Comment schema; bodies are markdown, rendered by the client
+export const commentSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  author: userSummarySchema,
+  body: z.string(),
+  created_at: z.coerce.date(),
+  edited_at: z.coerce.date().nullable() // Null until the author edits it
+});
+
+export type Comment = z.infer<typeof commentSchema>;
+
+export const notificationTypeSchema = z.enum(['mention']);
+
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+
+// Notification schema, with what the client needs to describe it
+export const notificationSchema = z.object({
+  id: z.number(),
+  type: notificationTypeSchema,
+  actor: userSummarySchema.nullable(), // Null when the account is gone or the change came from the system
+  todo_id: z.number(),
+  todo_title: z.string(),
+  comment_id: z.number().nullable(), // Set for mentions in comments
+  read_at: z.coerce.date().nullable(), // Null while unread
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const notificationListSchema = z.object({
+  items: z.array(notificationSchema), // Newest first
+  unread_count: z.number().int() // Across all notifications, not just the listed ones
+});
+
+export type NotificationList = z.infer<typeof notificationListSchema>;
+
+// Revision schema: the title and description as they were at one point
+export const todoRevisionSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  title: z.string(),
+  description: z.string().nullable(),
+  author: userSummarySchema.nullable(), // Null when unknown or the account is gone
+  created_at: z.coerce.date()
+});
+
+export type TodoRevision = z.infer<typeof todoRevisionSchema>;
+
+// A run of words that is the same in both texts, or only in one of them
+export const diffPartSchema = z.object({
+  type: z.enum(['equal', 'added', 'removed']),
+  text: z.string()
+});
+
+export type DiffPart = z.infer<typeof diffPartSchema>;
+
+export const todoRevisionDiffSchema = z.object({
+  from: todoRevisionSchema,
+  to: todoRevisionSchema,
+  title: z.array(diffPartSchema),
+  description: z.array(diffPartSchema)
+});
+
+export type TodoRevisionDiff = z.infer<typeof todoRevisionDiffSchema>;
+
+export const activityActionSchema = z.enum(['created', 'updated', 'deleted']);
+
+export type ActivityAction = z.infer<typeof activityActionSchema>;
+
+// A field value as stored in the activity log; dates are ISO strings, assignees a list of user ids
+export const activityValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.number())]);
+
+export type ActivityValue = z.infer<typeof activityValueSchema>;
+
+// Field name -> its value before and after the change
+export const activityChangesSchema = z.record(z.object({
+  from: activityValueSchema,
+  to: activityValueSchema
+}));
+
+export type ActivityChanges = z.infer<typeof activityChangesSchema>;
+
+// Activity log entry schema
+export const activityEntrySchema = z.object({
+  id: z.number(),
+  todo_id: z.number().nullable(), // Null once the todo was purged
+  todo_title: z.string(), // Title at the time of the change
+  actor: userSummarySchema.nullable(), // Null when unknown or the account is gone
+  action: activityActionSchema,
+  changes: activityChangesSchema,
+  created_at: z.coerce.date()
+});
+
+export type ActivityEntry = z.infer<typeof activityEntrySchema>;
+
+// One page of activity, newest first; pass nextCursor back as `cursor` for older entries
+export const activityPageSchema = z.object({
+  items: z.array(activityEntrySchema),
+  nextCursor: z.number().nullable() // Null on the last page
+});
+
+export type ActivityPage = z.infer<typeof activityPageSchema>;
+
+// getTodo with includeComments: the tree plus a preview of the discussion
+export type TodoDetail = TodoTree & {
+  comment_count?: number;
+  latest_comments?: Comment[]; // The most recent few, oldest first
+};
+
+export const todoDetailSchema: z.ZodType<TodoDetail, z.ZodTypeDef, unknown> = todoSchema.extend({
+  children: z.lazy(() => z.array(todoTreeSchema)),
+  comment_count: z.number().int().optional(),
+  latest_comments: z.array(commentSchema).optional()
+});
+
+// Todo as returned by getTodos, with its related data
+export const todoListItemSchema = todoSchema.extend({
+  tags: z.array(tagSchema),
+  assignees: z.array(assigneeSchema),
+  child_count: z.number().int(), // Direct subtasks
+  completed_child_count: z.number().int()
+});
+
+export type TodoListItem = z.infer<typeof todoListItemSchema>;
+
+// One page of todos; pass nextCursor back as `cursor` to fetch the following page
+export const todoPageSchema = z.object({
+  items: z.array(todoListItemSchema),
+  nextCursor: z.string().nullable(), // Null on the last page
+  total: z.number().int() // Todos matching the filters across all pages
+});
+
+export type TodoPage = z.infer<typeof todoPageSchema>;
+
+// Open todo that looks like a duplicate, with its pg_trgm title similarity (0..1)
+export const similarTodoSchema = todoSchema.extend({
+  similarity: z.number()
+});
+
+export type SimilarTodo = z.infer<typeof similarTodoSchema>;
+
+// A newly created todo, plus open todos it may duplicate
+export const createTodoResultSchema = z.object({
+  todo: todoSchema,
+  similar: z.array(similarTodoSchema) // Empty when nothing similar exists
+});
+
+export type CreateTodoResult = z.infer<typeof createTodoResultSchema>;
+
+// Full-text search hit; highlights wrap matched words in <mark></mark>
+export const todoSearchResultSchema = todoListItemSchema.extend({
+  rank: z.number(),
+  title_highlight: z.string(),
+  description_highlight: z.string().nullable() // Null when the todo has no description
+});
+
+export type TodoSearchResult = z.infer<typeof todoSearchResultSchema>;
+
 // Input schema for creating todos
 export const createTodoInputSchema = z.object({
   title: z.string().min(1, "Title is required"), // Validate that title is not empty
-  description: z.string().nullable() // Explicit null allowed, undefined not allowed
+  description: z.string().nullable(), // Explicit null allowed, undefined not allowed
+  due_at: z.coerce.date().nullable().optional(), // Omitted or null = no deadline
+  priority: todoPrioritySchema.optional(), // Defaults to 'none' when omitted
+  project_id: z.number().nullable().optional(), // Omitted or null = Inbox
+  parent_id: z.number().nullable().optional(), // Omitted or null = top-level todo
+  recurrence: recurrenceSchema.nullable().optional(), // Omitted or null = does not repeat
+  time_zone: timeZoneSchema.nullable().optional(), // The creator's time zone; omitted or null = UTC
+  assignee_ids: z.array(z.number()).optional(), // Workspace members to assign; omitted = nobody
+  rejectDuplicates: z.boolean().optional() // When true, fail instead of creating a likely duplicate
 });
 
 export type CreateTodoInput = z.infer<typeof createTodoInputSchema>;
@@ -23,23 +468,335 @@ export type CreateTodoInput = z.infer<typeof createTodoInputSchema>;
 // Input schema for updating todos
 export const updateTodoInputSchema = z.object({
   id: z.number(),
+  version: z.number().int(), // The version the change is based on; a newer one on the server is a conflict
   title: z.string().min(1, "Title is required").optional(), // Optional = field can be undefined (omitted)
   description: z.string().nullable().optional(), // Can be null or undefined
-  completed: z.boolean().optional()
+  completed: z.boolean().optional(),
+  due_at: z.coerce.date().nullable().optional(), // Null clears the deadline
+  priority: todoPrioritySchema.optional(),
+  project_id: z.number().nullable().optional(), // Null moves the todo to the Inbox
+  recurrence: recurrenceSchema.nullable().optional(), // Null stops the todo from repeating
+  time_zone: timeZoneSchema.nullable().optional(), // The editor's time zone, sent along with the recurrence
+  assignee_ids: z.array(z.number()).optional(), // Replaces the assignees; [] unassigns everyone
+  completeChildren: z.boolean().optional() // With completed: true, also completes every subtask
 });
 
 export type UpdateTodoInput = z.infer<typeof updateTodoInputSchema>;
 
-// Input schema for deleting todos
+// Input schema for moving a todo within the manual order, between the todos that will be right
+// before and right after it. Either can be left out: the todo then goes directly next to the other one.
+export const moveTodoInputSchema = z.object({
+  id: z.number(),
+  beforeId: z.number().nullable().optional(), // The todo just above it once moved
+  afterId: z.number().nullable().optional() // The todo just below it once moved
+}).refine((input) => input.beforeId != null || input.afterId != null, {
+  message: "Give beforeId, afterId or both"
+});
+
+export type MoveTodoInput = z.infer<typeof moveTodoInputSchema>;
+
+// Input schema for deleting (moving to the trash) todos
 export const deleteTodoInputSchema = z.object({
-  id: z.number()
+  id: z.number(),
+  // 'cascade' (default) trashes all subtasks too, 'reparent' moves them up to the deleted todo's parent
+  subtasks: z.enum(['cascade', 'reparent']).optional()
 });
 
 export type DeleteTodoInput = z.infer<typeof deleteTodoInputSchema>;
 
+// Trashed todo as listed in the trash; its trashed subtasks come back with it when restored
+export const trashItemSchema = todoSchema.extend({
+  deleted_at: z.coerce.date(),
+  subtask_count: z.number().int() // Subtasks trashed together with this todo
+});
+
+export type TrashItem = z.infer<typeof trashItemSchema>;
+
+// Input schema for restoring a todo from the trash
+export const restoreTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestoreTodoInput = z.infer<typeof restoreTodoInputSchema>;
+
+// Input schema for permanently deleting a trashed todo
+export const purgeTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type PurgeTodoInput = z.infer<typeof purgeTodoInputSchema>;
+
+// Input schema for archiving a todo
+export const archiveTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type ArchiveTodoInput = z.infer<typeof archiveTodoInputSchema>;
+
+// Input schema for taking a todo back out of the archive
+export const unarchiveTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type UnarchiveTodoInput = z.infer<typeof unarchiveTodoInputSchema>;
+
+// Input schema for archiving completed todos in bulk
+export const archiveCompletedInputSchema = z.object({
+  completedBefore: z.coerce.date().optional() // Defaults to now, i.e. everything completed so far
+});
+
+export type ArchiveCompletedInput = z.infer<typeof archiveCompletedInputSchema>;
+
 // Input schema for getting a single todo
 export const getTodoInputSchema = z.object({
+  id: z.number(),
+  includeComments: z.boolean().optional() // When true, adds comment_count and latest_comments
+});
+
+export type GetTodoInput = z.infer<typeof getTodoInputSchema>;
+
+// Which todos a list shows; bulk operations can target the same selection
+export const todoFilterSchema = z.object({
+  status: z.enum(['all', 'active', 'completed']).optional(), // 'all' (default), 'active' = open only
+  q: z.string().trim().optional(), // Case-insensitive match on title or description
+  overdue: z.boolean().optional(), // When true, only open todos whose deadline has passed
+  dueBefore: z.coerce.date().optional(), // Inclusive upper bound on due_at
+  dueAfter: z.coerce.date().optional(), // Inclusive lower bound on due_at
+  tags: z.array(z.string()).optional(), // Tag names to filter by
+  tagMatch: z.enum(['any', 'all']).optional(), // 'any' (default) = at least one tag, 'all' = every tag
+  projectId: z.number().nullable().optional(), // Null = Inbox only, omitted = every project
+  topLevelOnly: z.boolean().optional(), // When true, subtasks are left out
+  includeArchived: z.boolean().optional(), // Archived todos are hidden unless this is true
+  // 'me' = assigned to the signed-in user, a user id = assigned to that member, 'unassigned' = nobody
+  assignee: z.union([z.literal('me'), z.literal('unassigned'), z.number()]).optional()
+});
+
+export type TodoFilter = z.infer<typeof todoFilterSchema>;
+
+// Input schema for listing todos with filters, ordering and cursor pagination
+export const getTodosInputSchema = todoFilterSchema.extend({
+  // 'priority' = highest first, then soonest due date; 'due' puts todos without a deadline last
+  // 'position' = the manual order set with moveTodo
+  sortBy: z.enum(['created_at', 'updated_at', 'title', 'due', 'priority', 'position']).optional(),
+  sortDir: z.enum(['asc', 'desc']).optional(), // Defaults to desc for dates and priority, asc otherwise
+  limit: z.number().int().min(1).max(100).optional(), // Page size, defaults to 20
+  cursor: z.string().nullable().optional() // nextCursor from the previous page, omitted for the first page
+});
+
+export type GetTodosInput = z.infer<typeof getTodosInputSchema>;
+
+// The todos a bulk operation applies to: a list of ids, or everything matching a list filter
+export const bulkTargetSchema = z.union([
+  z.object({ ids: z.array(z.number()).min(1, "Select at least one todo").max(500) }),
+  z.object({ filter: todoFilterSchema })
+]);
+
+export type BulkTarget = z.infer<typeof bulkTargetSchema>;
+
+// Input schema for changing many todos at once; only the provided changes are applied
+export const bulkUpdateTodosInputSchema = z.object({
+  target: bulkTargetSchema,
+  completed: z.boolean().optional(),
+  project_id: z.number().nullable().optional(), // Null moves the todos to the Inbox
+  add_tag_ids: z.array(z.number()).optional() // Added to the tags each todo already has
+}).refine(
+  (input) => input.completed !== undefined || input.project_id !== undefined || (input.add_tag_ids?.length ?? 0) > 0,
+  { message: "Nothing to change" }
+);
+
+export type BulkUpdateTodosInput = z.infer<typeof bulkUpdateTodosInputSchema>;
+
+// Input schema for moving many todos to the trash at once, each with its subtasks
+export const bulkDeleteTodosInputSchema = z.object({
+  target: bulkTargetSchema
+});
+
+export type BulkDeleteTodosInput = z.infer<typeof bulkDeleteTodosInputSchema>;
+
+// Outcome of a bulk operation for one targeted todo
+export const bulkTodoResultSchema = z.object({
+  id: z.number(),
+  ok: z.boolean(),
+  reason: z.string().nullable() // Why it was skipped, e.g. TODO_NOT_FOUND; null when ok
+});
+
+export type BulkTodoResult = z.infer<typeof bulkTodoResultSchema>;
+
+// Live change to a workspace's todos, as sent to onTodoChanged subscribers.
+// Restored todos come back as created; deletions name every todo that went to the trash, subtasks included.
+export const todoChangeEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), todo: todoSchema }),
+  z.object({ type: z.literal('updated'), todo: todoSchema }),
+  z.object({ type: z.literal('deleted'), ids: z.array(z.number()) })
+]);
+
+export type TodoChangeEvent = z.infer<typeof todoChangeEventSchema>;
+
+// Input schema for full-text search: words match by prefix, "quoted phrases" match exactly
+export const searchTodosInputSchema = z.object({
+  q: z.string().trim().min(1, "Search query is required"),
+  limit: z.number().int().min(1).max(100).optional(), // Defaults to 20
+  includeArchived: z.boolean().optional() // Archived todos are hidden unless this is true, as in getTodos
+});
+
+export type SearchTodosInput = z.infer<typeof searchTodosInputSchema>;
+
+// Input schema for checking a title against existing open todos
+export const findSimilarTodosInputSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  excludeId: z.number().optional(), // e.g. the todo being edited
+  limit: z.number().int().min(1).max(20).optional() // Defaults to 5
+});
+
+export type FindSimilarTodosInput = z.infer<typeof findSimilarTodosInputSchema>;
+
+// Input schema for creating tags
+export const createTagInputSchema = z.object({
+  name: z.string().trim().min(1, "Tag name is required")
+});
+
+export type CreateTagInput = z.infer<typeof createTagInputSchema>;
+
+// Input schema for renaming tags
+export const renameTagInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Tag name is required")
+});
+
+export type RenameTagInput = z.infer<typeof renameTagInputSchema>;
+
+// Input schema for deleting tags
+export const deleteTagInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteTagInput = z.infer<typeof deleteTagInputSchema>;
+
+// Input schema for replacing the full set of tags on a todo
+export const setTodoTagsInputSchema = z.object({
+  todo_id: z.number(),
+  tag_ids: z.array(z.number()) // Empty array removes all tags
+});
+
+export type SetTodoTagsInput = z.infer<typeof setTodoTagsInputSchema>;
+
+const commentBodySchema = z.string().trim().min(1, "Comment cannot be empty").max(10000, "Comment is too long");
+
+// Input schema for commenting on a todo
+export const addCommentInputSchema = z.object({
+  todo_id: z.number(),
+  body: commentBodySchema
+});
+
+export type AddCommentInput = z.infer<typeof addCommentInputSchema>;
+
+// Input schema for editing a comment; only its author may
+export const editCommentInputSchema = z.object({
+  id: z.number(),
+  body: commentBodySchema
+});
+
+export type EditCommentInput = z.infer<typeof editCommentInputSchema>;
+
+// Input schema for deleting a comment; its author or a workspace owner may
+export const deleteCommentInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteCommentInput = z.infer<typeof deleteCommentInputSchema>;
+
+// Input schema for listing the comments on a todo
+export const listCommentsInputSchema = z.object({
+  todo_id: z.number()
+});
+
+export type ListCommentsInput = z.infer<typeof listCommentsInputSchema>;
+
+// Input schema for listing notifications
+export const listNotificationsInputSchema = z.object({
+  unreadOnly: z.boolean().optional(),
+  limit: z.number().int().min(1).max(100).optional() // Defaults to 20
+});
+
+export type ListNotificationsInput = z.infer<typeof listNotificationsInputSchema>;
+
+// Input schema for marking a notification as read
+export const markNotificationReadInputSchema = z.object({
+  id: z.number()
+});
+
+export type MarkNotificationReadInput = z.infer<typeof markNotificationReadInputSchema>;
+
+// Input schema for listing the revisions of a todo
+export const listTodoRevisionsInputSchema = z.object({
+  todo_id: z.number()
+});
+
+export type ListTodoRevisionsInput = z.infer<typeof listTodoRevisionsInputSchema>;
+
+// Input schema for comparing two revisions of the same todo
+export const getTodoRevisionDiffInputSchema = z.object({
+  from_id: z.number(), // Usually the older revision
+  to_id: z.number()
+});
+
+export type GetTodoRevisionDiffInput = z.infer<typeof getTodoRevisionDiffInputSchema>;
+
+// Input schema for putting a revision's title and description back
+export const restoreTodoRevisionInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestoreTodoRevisionInput = z.infer<typeof restoreTodoRevisionInputSchema>;
+
+// Input schema for paging through the activity of a workspace
+export const getWorkspaceActivityInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).optional(), // Page size, defaults to 20
+  cursor: z.number().nullable().optional() // nextCursor from the previous page, omitted for the first page
+});
+
+export type GetWorkspaceActivityInput = z.infer<typeof getWorkspaceActivityInputSchema>;
+
+// Input schema for paging through the activity of one todo
+export const getTodoActivityInputSchema = getWorkspaceActivityInputSchema.extend({
+  todo_id: z.number()
+});
+
+export type GetTodoActivityInput = z.infer<typeof getTodoActivityInputSchema>;
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #22c55e");
+
+// Input schema for creating projects
+export const createProjectInputSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required"),
+  color: hexColorSchema.optional(), // Defaults to slate gray
+  icon: z.string().nullable().optional()
+});
+
+export type CreateProjectInput = z.infer<typeof createProjectInputSchema>;
+
+// Input schema for listing projects
+export const listProjectsInputSchema = z.object({
+  includeArchived: z.boolean().optional()
+});
+
+export type ListProjectsInput = z.infer<typeof listProjectsInputSchema>;
+
+// Input schema for updating projects
+export const updateProjectInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Project name is required").optional(),
+  color: hexColorSchema.optional(),
+  icon: z.string().nullable().optional(),
+  archived: z.boolean().optional(),
+  position: z.number().int().nonnegative().optional()
+});
+
+export type UpdateProjectInput = z.infer<typeof updateProjectInputSchema>;
+
+// Input schema for deleting projects
+export const deleteProjectInputSchema = z.object({
   id: z.number()
 });
 
-export type GetTodoInput = z.infer<typeof getTodoInputSchema>;
\ No newline at end of file
+export type DeleteProjectInput = z.infer<typeof deleteProjectInputSchema>;
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceInvitesTable, workspaceMembersTable, type User } from '../db/schema';
+import { type CreateInviteInput } from '../schema';
+import { createInvite } from '../handlers/create_invite';
+import { acceptInvite } from '../handlers/accept_invite';
+import { signInviteToken } from '../helpers/invites';
+import { eq } from 'drizzle-orm';
+
+describe('acceptInvite', () => {
+  let workspaceId: number;
+  let owner: User;
+  let invitee: User;
+
+  // Creates an invite and returns the token from its link
+  const inviteToken = async (input: CreateInviteInput): Promise<string> => {
+    const { link } = await createInvite(workspaceId, owner, input);
+    return new URL(link).searchParams.get('invite')!;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace('Team')).id;
+    owner = await createTestUser('owner@example.com');
+    invitee = await createTestUser('ada@example.com');
+  });
+  afterEach(resetDB);
+
+  it('should add the user with the invite\'s role', async () => {
+    const token = await inviteToken({ role: 'editor' });
+
+    const result = await acceptInvite(invitee, { token });
+
+    expect(result.id).toEqual(workspaceId);
+    expect(result.name).toEqual('Team');
+    expect(result.role).toEqual('editor');
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members).toEqual([expect.objectContaining({ workspace_id: workspaceId, user_id: invitee.id, role: 'editor' })]);
+
+    const invites = await db.select().from(workspaceInvitesTable).execute();
+    expect(invites[0].accepted_by).toEqual(invitee.id);
+    expect(invites[0].accepted_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a token that was already used', async () => {
+    const token = await inviteToken({ role: 'editor' });
+    await acceptInvite(invitee, { token });
+
+    const someoneElse = await createTestUser('bob@example.com');
+    await expect(acceptInvite(someoneElse, { token })).rejects.toThrow(/already been used/i);
+
+    expect(await db.select().from(workspaceMembersTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject expired invites', async () => {
+    const { invite } = await createInvite(workspaceId, owner, { role: 'editor' });
+    const expiresAt = new Date(Date.now() - 1000);
+    await db.update(workspaceInvitesTable).set({ expires_at: expiresAt }).where(eq(workspaceInvitesTable.id, invite.id)).execute();
+    const token = signInviteToken({ inviteId: invite.id, workspaceId, role: 'editor', email: null, expiresAt });
+
+    await expect(acceptInvite(invitee, { token })).rejects.toThrow(/expired/i);
+  });
+
+  it('should reject tampered tokens', async () => {
+    const token = await inviteToken({ role: 'viewer' });
+
+    await expect(acceptInvite(invitee, { token: `${token}x` })).rejects.toThrow(/invalid/i);
+  });
+
+  it('should only let the invited email accept', async () => {
+    const token = await inviteToken({ role: 'editor', email: 'bob@example.com' });
+
+    await expect(acceptInvite(invitee, { token })).rejects.toThrow(/different email/i);
+
+    const bob = await createTestUser('bob@example.com');
+    const result = await acceptInvite(bob, { token });
+    expect(result.role).toEqual('editor');
+  });
+
+  it('should leave the invite unused when the user is already a member', async () => {
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: invitee.id, role: 'viewer' })
+      .execute();
+    const token = await inviteToken({ role: 'owner' });
+
+    await expect(acceptInvite(invitee, { token })).rejects.toThrow(/already a member/i);
+
+    const invites = await db.select().from(workspaceInvitesTable).execute();
+    expect(invites[0].accepted_at).toBeNull();
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members[0].role).toEqual('viewer');
+  });
+});
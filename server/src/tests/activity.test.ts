@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import { diffTodos, initialValues } from '../helpers/activity';
+import { type Todo } from '../schema';
+
+const baseTodo: Todo = {
+  id: 1,
+  workspace_id: 1,
+  title: 'Write report',
+  description: null,
+  completed: false,
+  due_at: null,
+  priority: 'none',
+  project_id: null,
+  parent_id: null,
+  recurrence: null,
+  time_zone: null,
+  completed_at: null,
+  archived_at: null,
+  deleted_at: null,
+  version: 1,
+  position: 'V',
+  created_at: new Date('2030-01-01T09:00:00Z'),
+  updated_at: new Date('2030-01-01T09:00:00Z')
+};
+
+describe('activity', () => {
+  describe('diffTodos', () => {
+    it('should list the tracked fields that changed', () => {
+      const after: Todo = {
+        ...baseTodo,
+        title: 'Write the report',
+        due_at: new Date('2030-02-01T12:00:00Z'),
+        priority: 'high',
+        updated_at: new Date('2030-01-02T09:00:00Z')
+      };
+
+      expect(diffTodos(baseTodo, after)).toEqual({
+        title: { from: 'Write report', to: 'Write the report' },
+        due_at: { from: null, to: '2030-02-01T12:00:00.000Z' },
+        priority: { from: 'none', to: 'high' }
+      });
+    });
+
+    it('should compare dates by value', () => {
+      const before: Todo = { ...baseTodo, due_at: new Date('2030-02-01T12:00:00Z') };
+      const after: Todo = { ...baseTodo, due_at: new Date('2030-02-01T12:00:00Z') };
+
+      expect(diffTodos(before, after)).toEqual({});
+    });
+  });
+
+  describe('initialValues', () => {
+    it('should list the fields a new todo was created with', () => {
+      expect(initialValues({ ...baseTodo, description: 'Quarterly', project_id: 3 })).toEqual({
+        title: { from: null, to: 'Write report' },
+        description: { from: null, to: 'Quarterly' },
+        priority: { from: null, to: 'none' },
+        project_id: { from: null, to: 3 }
+      });
+    });
+  });
+});
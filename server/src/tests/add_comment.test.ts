@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { commentsTable, notificationsTable, todosTable, type Todo, type User } from '../db/schema';
+import { addComment } from '../handlers/add_comment';
+
+describe('addComment', () => {
+  let workspaceId: number;
+  let author: User;
+  let todo: Todo;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    author = await createTestMember(workspaceId, 'ada@example.com');
+    todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+  });
+  afterEach(resetDB);
+
+  it('should add a comment with its author', async () => {
+    const comment = await addComment(workspaceId, author.id, { todo_id: todo.id, body: 'What about **Lisbon**?' });
+
+    expect(comment.todo_id).toEqual(todo.id);
+    expect(comment.body).toEqual('What about **Lisbon**?');
+    expect(comment.author).toEqual({ id: author.id, name: 'ada', email: 'ada@example.com' });
+    expect(comment.created_at).toBeInstanceOf(Date);
+    expect(comment.edited_at).toBeNull();
+
+    const saved = await db.select().from(commentsTable).execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].author_id).toEqual(author.id);
+  });
+
+  it('should notify members mentioned in the comment', async () => {
+    const grace = await createTestMember(workspaceId, 'grace@example.com');
+
+    const comment = await addComment(workspaceId, author.id, { todo_id: todo.id, body: '@grace what do you think?' });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ user_id: grace.id, actor_id: author.id, comment_id: comment.id });
+  });
+
+  it('should reject todos in other workspaces', async () => {
+    const other = await createTestWorkspace('Other workspace');
+    const theirs = (await db.insert(todosTable)
+      .values({ workspace_id: other.id, title: 'Theirs', description: null })
+      .returning()
+      .execute())[0];
+
+    await expect(addComment(workspaceId, author.id, { todo_id: theirs.id, body: 'Hello' })).rejects.toThrow(/not found/i);
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject todos in the trash', async () => {
+    await db.update(todosTable).set({ deleted_at: new Date() }).execute();
+
+    await expect(addComment(workspaceId, author.id, { todo_id: todo.id, body: 'Hello' })).rejects.toThrow(/not found/i);
+  });
+});
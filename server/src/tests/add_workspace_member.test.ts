@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { addWorkspaceMemberInputSchema } from '../schema';
+import { addWorkspaceMember } from '../handlers/add_workspace_member';
+
+describe('addWorkspaceMember', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should add an existing user with the given role', async () => {
+    const user = await createTestUser('editor@example.com');
+
+    const result = await addWorkspaceMember(workspaceId, { email: 'editor@example.com', role: 'editor' });
+
+    expect(result.user_id).toEqual(user.id);
+    expect(result.email).toEqual('editor@example.com');
+    expect(result.role).toEqual('editor');
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members).toHaveLength(1);
+    expect(members[0].workspace_id).toEqual(workspaceId);
+  });
+
+  it('should match emails case-insensitively through the input schema', async () => {
+    await createTestUser('editor@example.com');
+
+    const input = addWorkspaceMemberInputSchema.parse({ email: ' Editor@Example.com ', role: 'viewer' });
+    const result = await addWorkspaceMember(workspaceId, input);
+
+    expect(result.email).toEqual('editor@example.com');
+  });
+
+  it('should reject emails without an account', async () => {
+    await expect(addWorkspaceMember(workspaceId, { email: 'nobody@example.com', role: 'viewer' }))
+      .rejects.toThrow(/no account/i);
+  });
+
+  it('should reject users who are already members', async () => {
+    await createTestUser('editor@example.com');
+    await addWorkspaceMember(workspaceId, { email: 'editor@example.com', role: 'editor' });
+
+    await expect(addWorkspaceMember(workspaceId, { email: 'editor@example.com', role: 'owner' }))
+      .rejects.toThrow(/already a member/i);
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members[0].role).toEqual('editor');
+  });
+});
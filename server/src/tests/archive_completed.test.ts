@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { archiveCompleted } from '../handlers/archive_completed';
+import { asc } from 'drizzle-orm';
+
+describe('archiveCompleted', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  const archivedTitles = async () => {
+    const todos = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    return todos.filter(todo => todo.archived_at !== null).map(todo => todo.title);
+  };
+
+  it('should archive every completed todo by default', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Done', description: null, completed: true, completed_at: new Date() },
+        { workspace_id: workspaceId, title: 'Open', description: null }
+      ])
+      .execute();
+
+    const result = await archiveCompleted(workspaceId);
+
+    expect(result).toEqual(1);
+    expect(await archivedTitles()).toEqual(['Done']);
+  });
+
+  it('should only archive todos completed before the cutoff', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Done last year', description: null, completed: true, completed_at: new Date('2025-03-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Done this week', description: null, completed: true, completed_at: new Date() }
+      ])
+      .execute();
+
+    const result = await archiveCompleted(workspaceId, { completedBefore: new Date('2026-01-01T00:00:00Z') });
+
+    expect(result).toEqual(1);
+    expect(await archivedTitles()).toEqual(['Done last year']);
+  });
+
+  it('should fall back to the last update for todos without a completion time', async () => {
+    await db.insert(todosTable)
+      .values({
+        workspace_id: workspaceId,
+        title: 'Done long ago',
+        description: null,
+        completed: true,
+        updated_at: new Date('2025-03-01T00:00:00Z')
+      })
+      .execute();
+
+    expect(await archiveCompleted(workspaceId, { completedBefore: new Date('2026-01-01T00:00:00Z') })).toEqual(1);
+  });
+
+  it('should leave archived and trashed todos alone', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Already archived', description: null, completed: true, archived_at: new Date('2025-01-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Trashed', description: null, completed: true, deleted_at: new Date() }
+      ])
+      .execute();
+
+    expect(await archiveCompleted(workspaceId)).toEqual(0);
+  });
+});
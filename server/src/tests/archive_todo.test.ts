@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { archiveTodo } from '../handlers/archive_todo';
+import { getTodos } from '../handlers/get_todos';
+import { updateTodo } from '../handlers/update_todo';
+import { TodoConflictError } from '../helpers/errors';
+
+describe('archiveTodo', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should archive a todo without completing or deleting it', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Someday maybe', description: null })
+      .returning()
+      .execute())[0];
+
+    const result = await archiveTodo(workspaceId, { id: todo.id });
+
+    expect(result.archived_at).toBeInstanceOf(Date);
+    expect(result.completed).toBe(false);
+    expect(result.deleted_at).toBeNull();
+    expect(result).not.toHaveProperty('search_vector');
+  });
+
+  it('should hide archived todos from getTodos unless requested', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Archived', description: null })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable).values({ workspace_id: workspaceId, title: 'Visible', description: null }).execute();
+
+    await archiveTodo(workspaceId, { id: todo.id });
+
+    expect((await getTodos(workspaceId)).items.map(t => t.title)).toEqual(['Visible']);
+    expect((await getTodos(workspaceId, { includeArchived: true })).total).toEqual(2);
+  });
+
+  it('should keep the original archive time when archived again', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Archived twice', description: null })
+      .returning()
+      .execute())[0];
+
+    const first = await archiveTodo(workspaceId, { id: todo.id });
+    const second = await archiveTodo(workspaceId, { id: todo.id });
+
+    expect(second.archived_at!.getTime()).toEqual(first.archived_at!.getTime());
+  });
+
+  it('should make edits started before the archive conflict', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Stale edit', description: null })
+      .returning()
+      .execute())[0];
+
+    const archived = await archiveTodo(workspaceId, { id: todo.id });
+
+    expect(archived.version).toEqual(todo.version + 1);
+    const error = await updateTodo(workspaceId, { id: todo.id, version: todo.version, title: 'Too late' }).catch((e) => e);
+    expect(error).toBeInstanceOf(TodoConflictError);
+    expect(error.reason).toEqual('VERSION_CONFLICT');
+  });
+
+  it('should reject missing or trashed todos', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Trashed', description: null, deleted_at: new Date() })
+      .returning()
+      .execute())[0];
+
+    await expect(archiveTodo(workspaceId, { id: todo.id })).rejects.toThrow(/not found/i);
+    await expect(archiveTodo(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
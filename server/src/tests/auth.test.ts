@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { apiTokensTable, sessionsTable } from '../db/schema';
+import { createSession, findApiTokenUser, findSessionUser, hasScope, hashPassword, hashToken, verifyPassword } from '../helpers/auth';
+
+describe('password hashing', () => {
+  it('should verify the original password only', async () => {
+    const passwordHash = await hashPassword('correct horse');
+
+    expect(await verifyPassword('correct horse', passwordHash)).toBe(true);
+    expect(await verifyPassword('wrong horse', passwordHash)).toBe(false);
+  });
+
+  it('should salt every hash', async () => {
+    expect(await hashPassword('correct horse')).not.toEqual(await hashPassword('correct horse'));
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('correct horse', 'plaintext')).toBe(false);
+  });
+});
+
+describe('hasScope', () => {
+  it('should treat scopes as cumulative', () => {
+    expect(hasScope(['admin'], 'read')).toBe(true);
+    expect(hasScope(['write'], 'read')).toBe(true);
+    expect(hasScope(['read'], 'write')).toBe(false);
+    expect(hasScope(['write'], 'admin')).toBe(false);
+    expect(hasScope([], 'read')).toBe(false);
+  });
+});
+
+describe('sessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve a session token to its user', async () => {
+    const user = await createTestUser();
+    const session = await createSession(db, user.id);
+
+    const result = await findSessionUser(db, session.token);
+
+    expect(result).toEqual(user);
+  });
+
+  it('should ignore expired sessions', async () => {
+    const user = await createTestUser();
+    await db.insert(sessionsTable)
+      .values({ id: hashToken('expired'), user_id: user.id, expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    expect(await findSessionUser(db, 'expired')).toBeNull();
+  });
+
+  it('should ignore unknown tokens', async () => {
+    expect(await findSessionUser(db, 'unknown')).toBeNull();
+  });
+});
+
+describe('API tokens', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should ignore expired tokens', async () => {
+    const user = await createTestUser();
+    await db.insert(apiTokensTable)
+      .values({
+        user_id: user.id,
+        name: 'Expired',
+        prefix: 'tdo_expire',
+        token_hash: hashToken('tdo_expired'),
+        scopes: ['read'],
+        expires_at: new Date(Date.now() - 1000)
+      })
+      .execute();
+
+    expect(await findApiTokenUser(db, 'tdo_expired')).toBeNull();
+  });
+
+  it('should ignore unknown tokens', async () => {
+    expect(await findApiTokenUser(db, 'tdo_unknown')).toBeNull();
+  });
+});
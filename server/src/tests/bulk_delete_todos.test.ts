@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { activityTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { bulkDeleteTodos } from '../handlers/bulk_delete_todos';
+import { listTrash } from '../handlers/list_trash';
+import { restoreTodo } from '../handlers/restore_todo';
+import { eq } from 'drizzle-orm';
+
+let workspaceId: number;
+
+const createTestTodo = async (title: string, values: Partial<typeof todosTable.$inferInsert> = {}) => {
+  const result = await db.insert(todosTable)
+    .values({ workspace_id: workspaceId, title, description: null, ...values })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const findTodo = async (id: number) => {
+  const rows = await db.select().from(todosTable).where(eq(todosTable.id, id)).execute();
+  return rows[0];
+};
+
+describe('bulkDeleteTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move every listed todo to the trash', async () => {
+    const first = await createTestTodo('First');
+    const second = await createTestTodo('Second');
+    const kept = await createTestTodo('Kept');
+
+    const results = await bulkDeleteTodos(workspaceId, { target: { ids: [second.id, first.id] } });
+
+    expect(results).toEqual([
+      { id: second.id, ok: true, reason: null },
+      { id: first.id, ok: true, reason: null }
+    ]);
+    expect((await findTodo(first.id)).deleted_at).toBeInstanceOf(Date);
+    expect((await findTodo(second.id)).deleted_at).toBeInstanceOf(Date);
+    expect((await findTodo(kept.id)).deleted_at).toBeNull();
+  });
+
+  it('should report ids that are missing or already trashed', async () => {
+    const trashedAt = new Date('2024-01-01T00:00:00Z');
+    const trashed = await createTestTodo('Trashed', { deleted_at: trashedAt });
+
+    const results = await bulkDeleteTodos(workspaceId, { target: { ids: [trashed.id, 99999] } });
+
+    expect(results).toEqual([
+      { id: trashed.id, ok: false, reason: 'TODO_NOT_FOUND' },
+      { id: 99999, ok: false, reason: 'TODO_NOT_FOUND' }
+    ]);
+
+    // The earlier trash timestamp is kept
+    expect((await findTodo(trashed.id)).deleted_at).toEqual(trashedAt);
+  });
+
+  it('should trash subtasks with their parents so they are restored together', async () => {
+    const parent = await createTestTodo('Parent');
+    const child = await createTestTodo('Child', { parent_id: parent.id });
+    const grandchild = await createTestTodo('Grandchild', { parent_id: child.id });
+
+    await bulkDeleteTodos(workspaceId, { target: { ids: [parent.id, child.id] } });
+
+    const trash = await listTrash(workspaceId);
+    expect(trash).toHaveLength(1);
+    expect(trash[0].id).toEqual(parent.id);
+    expect(trash[0].subtask_count).toEqual(2);
+
+    await restoreTodo(workspaceId, { id: parent.id });
+
+    for (const todo of [parent, child, grandchild]) {
+      expect((await findTodo(todo.id)).deleted_at).toBeNull();
+    }
+  });
+
+  it('should trash the todos matching a filter', async () => {
+    const tag = (await db.insert(tagsTable).values({ workspace_id: workspaceId, name: 'stale' }).returning().execute())[0];
+    const stale = await createTestTodo('Stale');
+    const fresh = await createTestTodo('Fresh');
+    await db.insert(todoTagsTable).values({ todo_id: stale.id, tag_id: tag.id }).execute();
+
+    const results = await bulkDeleteTodos(workspaceId, { target: { filter: { tags: ['stale'] } } });
+
+    expect(results).toEqual([{ id: stale.id, ok: true, reason: null }]);
+    expect((await findTodo(stale.id)).deleted_at).toBeInstanceOf(Date);
+    expect((await findTodo(fresh.id)).deleted_at).toBeNull();
+  });
+
+  it('should log a deletion for each targeted todo', async () => {
+    const first = await createTestTodo('First');
+    const second = await createTestTodo('Second');
+
+    await bulkDeleteTodos(workspaceId, { target: { ids: [first.id, second.id] } });
+
+    const activity = await db.select().from(activityTable).execute();
+    expect(activity.map((entry) => entry.todo_id).sort((a, b) => a! - b!)).toEqual([first.id, second.id]);
+    expect(activity.every((entry) => entry.action === 'deleted')).toBe(true);
+  });
+
+  it('should leave other workspaces alone', async () => {
+    const otherWorkspace = await createTestWorkspace('Other');
+    const foreign = (await db.insert(todosTable)
+      .values({ workspace_id: otherWorkspace.id, title: 'Elsewhere', description: null })
+      .returning()
+      .execute())[0];
+
+    const results = await bulkDeleteTodos(workspaceId, { target: { filter: {} } });
+
+    expect(results).toEqual([]);
+    expect((await findTodo(foreign.id)).deleted_at).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { activityTable, projectsTable, tagsTable, todoAssigneesTable, todosTable, todoTagsTable } from '../db/schema';
+import { bulkUpdateTodos } from '../handlers/bulk_update_todos';
+import { DomainError } from '../helpers/errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+let workspaceId: number;
+
+const createTestTodo = async (title: string, values: Partial<typeof todosTable.$inferInsert> = {}) => {
+  const result = await db.insert(todosTable)
+    .values({ workspace_id: workspaceId, title, description: null, ...values })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestTag = async (name: string, inWorkspace: number = workspaceId) => {
+  const result = await db.insert(tagsTable)
+    .values({ workspace_id: inWorkspace, name })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const findTodo = async (id: number) => {
+  const rows = await db.select().from(todosTable).where(eq(todosTable.id, id)).execute();
+  return rows[0];
+};
+
+describe('bulkUpdateTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should complete every listed todo', async () => {
+    const first = await createTestTodo('First');
+    const second = await createTestTodo('Second');
+
+    const results = await bulkUpdateTodos(workspaceId, { target: { ids: [first.id, second.id] }, completed: true });
+
+    expect(results).toEqual([
+      { id: first.id, ok: true, reason: null },
+      { id: second.id, ok: true, reason: null }
+    ]);
+
+    for (const todo of [first, second]) {
+      const saved = await findTodo(todo.id);
+      expect(saved.completed).toBe(true);
+      expect(saved.completed_at).toBeInstanceOf(Date);
+      expect(saved.version).toEqual(2);
+    }
+  });
+
+  it('should report ids that are missing, trashed or in another workspace', async () => {
+    const todo = await createTestTodo('Here');
+    const trashed = await createTestTodo('Trashed', { deleted_at: new Date() });
+    const otherWorkspace = await createTestWorkspace('Other');
+    const foreign = (await db.insert(todosTable)
+      .values({ workspace_id: otherWorkspace.id, title: 'Elsewhere', description: null })
+      .returning()
+      .execute())[0];
+
+    const results = await bulkUpdateTodos(workspaceId, {
+      target: { ids: [99999, todo.id, trashed.id, foreign.id] },
+      completed: true
+    });
+
+    expect(results).toEqual([
+      { id: 99999, ok: false, reason: 'TODO_NOT_FOUND' },
+      { id: todo.id, ok: true, reason: null },
+      { id: trashed.id, ok: false, reason: 'TODO_NOT_FOUND' },
+      { id: foreign.id, ok: false, reason: 'TODO_NOT_FOUND' }
+    ]);
+    expect((await findTodo(todo.id)).completed).toBe(true);
+    expect((await findTodo(trashed.id)).completed).toBe(false);
+    expect((await findTodo(foreign.id)).completed).toBe(false);
+  });
+
+  it('should apply the changes to every todo matching a filter', async () => {
+    const project = (await db.insert(projectsTable).values({ workspace_id: workspaceId, name: 'Sprint 12' }).returning().execute())[0];
+    const inbox = await createTestTodo('Inbox todo');
+    const inProject = await createTestTodo('Project todo', { project_id: project.id });
+    const done = await createTestTodo('Done already', { project_id: project.id, completed: true });
+
+    const results = await bulkUpdateTodos(workspaceId, {
+      target: { filter: { projectId: project.id, status: 'active' } },
+      completed: true
+    });
+
+    expect(results).toEqual([{ id: inProject.id, ok: true, reason: null }]);
+    expect((await findTodo(inProject.id)).completed).toBe(true);
+    expect((await findTodo(inbox.id)).completed).toBe(false);
+    expect((await findTodo(done.id)).version).toEqual(1);
+  });
+
+  it("should resolve assignee: 'me' to the acting user", async () => {
+    const me = await createTestMember(workspaceId, 'me@example.com');
+    const mine = await createTestTodo('Mine');
+    const theirs = await createTestTodo('Theirs');
+    await db.insert(todoAssigneesTable).values({ todo_id: mine.id, user_id: me.id }).execute();
+
+    const results = await bulkUpdateTodos(workspaceId, { target: { filter: { assignee: 'me' } }, completed: true }, me.id);
+
+    expect(results.map((result) => result.id)).toEqual([mine.id]);
+    expect((await findTodo(theirs.id)).completed).toBe(false);
+  });
+
+  it('should move todos to a project and back to the Inbox', async () => {
+    const project = (await db.insert(projectsTable).values({ workspace_id: workspaceId, name: 'Launch' }).returning().execute())[0];
+    const todo = await createTestTodo('Move me');
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, project_id: project.id });
+    expect((await findTodo(todo.id)).project_id).toEqual(project.id);
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, project_id: null });
+    expect((await findTodo(todo.id)).project_id).toBeNull();
+  });
+
+  it('should reject a project from another workspace without changing anything', async () => {
+    const otherWorkspace = await createTestWorkspace('Other');
+    const project = (await db.insert(projectsTable).values({ workspace_id: otherWorkspace.id, name: 'Theirs' }).returning().execute())[0];
+    const todo = await createTestTodo('Stay put');
+
+    const error = await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, project_id: project.id, completed: true }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('PROJECT_NOT_FOUND');
+    expect((await findTodo(todo.id)).completed).toBe(false);
+  });
+
+  it('should add tags and keep the ones already there', async () => {
+    const urgent = await createTestTag('urgent');
+    const backend = await createTestTag('backend');
+    const first = await createTestTodo('First');
+    const second = await createTestTodo('Second');
+    await db.insert(todoTagsTable).values({ todo_id: first.id, tag_id: backend.id }).execute();
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [first.id, second.id] }, add_tag_ids: [urgent.id, backend.id] });
+
+    const links = await db.select().from(todoTagsTable).execute();
+    const tagsOf = (todoId: number) => links
+      .filter((link) => link.todo_id === todoId)
+      .map((link) => link.tag_id)
+      .sort((a, b) => a - b);
+
+    expect(tagsOf(first.id)).toEqual([urgent.id, backend.id].sort((a, b) => a - b));
+    expect(tagsOf(second.id)).toEqual([urgent.id, backend.id].sort((a, b) => a - b));
+
+    // Tags do not live on the todo row, so adding them leaves the version alone
+    expect((await findTodo(first.id)).version).toEqual(1);
+  });
+
+  it('should reject tags from another workspace', async () => {
+    const otherWorkspace = await createTestWorkspace('Other');
+    const foreignTag = await createTestTag('theirs', otherWorkspace.id);
+    const todo = await createTestTodo('Todo');
+
+    const error = await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, add_tag_ids: [foreignTag.id] }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('TAG_NOT_FOUND');
+    expect(await db.select().from(todoTagsTable).execute()).toHaveLength(0);
+  });
+
+  it('should only bump versions and log activity for todos that actually change', async () => {
+    const open = await createTestTodo('Open');
+    const done = await createTestTodo('Done', { completed: true, completed_at: new Date('2024-01-01T00:00:00Z') });
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [open.id, done.id] }, completed: true }, null);
+
+    expect((await findTodo(open.id)).version).toEqual(2);
+    const untouched = await findTodo(done.id);
+    expect(untouched.version).toEqual(1);
+    expect(untouched.completed_at).toEqual(new Date('2024-01-01T00:00:00Z'));
+
+    const activity = await db.select().from(activityTable).execute();
+    expect(activity).toHaveLength(1);
+    expect(activity[0].todo_id).toEqual(open.id);
+    expect(activity[0].changes).toMatchObject({ completed: { from: false, to: true } });
+  });
+
+  it('should queue up the next occurrence of recurring todos it completes', async () => {
+    const todo = await createTestTodo('Water plants', { due_at: new Date(), recurrence: 'FREQ=DAILY' });
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, completed: true });
+
+    const next = await db.select()
+      .from(todosTable)
+      .where(and(eq(todosTable.title, 'Water plants'), eq(todosTable.completed, false), isNull(todosTable.deleted_at)))
+      .execute();
+    expect(next).toHaveLength(1);
+    expect(next[0].id).not.toEqual(todo.id);
+  });
+
+  it('should reopen completed todos', async () => {
+    const todo = await createTestTodo('Not done after all', { completed: true, completed_at: new Date() });
+
+    await bulkUpdateTodos(workspaceId, { target: { ids: [todo.id] }, completed: false });
+
+    const saved = await findTodo(todo.id);
+    expect(saved.completed).toBe(false);
+    expect(saved.completed_at).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'bun:test';
+import { type IncomingMessage } from 'node:http';
+import { parseCookies } from '../helpers/cookies';
+
+const request = (cookie?: string): IncomingMessage => ({ headers: cookie === undefined ? {} : { cookie } }) as IncomingMessage;
+
+describe('parseCookies', () => {
+  it('should decode every cookie in the header', () => {
+    expect(parseCookies(request('session=abc%20def; theme=dark'))).toEqual({ session: 'abc def', theme: 'dark' });
+  });
+
+  it('should return nothing without a Cookie header', () => {
+    expect(parseCookies(request())).toEqual({});
+  });
+
+  it('should skip cookies that are not valid percent-encoding', () => {
+    expect(parseCookies(request('a=%E0%A4; session=abc'))).toEqual({ session: 'abc' });
+  });
+});
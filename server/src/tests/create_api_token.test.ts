@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { createApiToken } from '../handlers/create_api_token';
+import { findApiTokenUser } from '../helpers/auth';
+
+describe('createApiToken', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return the secret once and store only its hash', async () => {
+    const result = await createApiToken(userId, { name: 'Export script', scopes: ['read'] });
+
+    expect(result.secret).toStartWith('tdo_');
+    expect(result.token.name).toEqual('Export script');
+    expect(result.token.prefix).toEqual(result.secret.slice(0, 10));
+    expect(result.token).not.toHaveProperty('token_hash');
+
+    const saved = await db.select().from(apiTokensTable).execute();
+    expect(saved[0].token_hash).not.toEqual(result.secret);
+    expect(saved[0].token_hash).not.toContain(result.secret);
+  });
+
+  it('should authenticate requests with the new token', async () => {
+    const result = await createApiToken(userId, { name: 'CI', scopes: ['read', 'write'] });
+
+    const auth = await findApiTokenUser(db, result.secret);
+
+    expect(auth!.user.id).toEqual(userId);
+    expect(auth!.scopes).toEqual(['read', 'write']);
+  });
+
+  it('should set an expiry when requested', async () => {
+    const result = await createApiToken(userId, { name: 'Short-lived', scopes: ['read'], expiresInDays: 7 });
+
+    const days = (result.token.expires_at!.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toEqual(7);
+  });
+
+  it('should never expire by default', async () => {
+    const result = await createApiToken(userId, { name: 'Forever', scopes: ['admin'] });
+
+    expect(result.token.expires_at).toBeNull();
+    expect(result.token.last_used_at).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceInvitesTable, type User } from '../db/schema';
+import { createInvite } from '../handlers/create_invite';
+import { verifyInviteToken } from '../helpers/invites';
+import { setMailTransport, type MailMessage } from '../helpers/mail';
+
+describe('createInvite', () => {
+  let workspaceId: number;
+  let inviter: User;
+  let sent: MailMessage[];
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace('Team')).id;
+    inviter = await createTestUser('owner@example.com');
+    sent = [];
+    setMailTransport({ send: async (message) => { sent.push(message); } });
+  });
+  afterEach(async () => {
+    setMailTransport(null);
+    await resetDB();
+  });
+
+  it('should return a link whose token carries the role and email', async () => {
+    const result = await createInvite(workspaceId, inviter, { role: 'editor', email: 'ada@example.com' });
+
+    expect(result.invite.role).toEqual('editor');
+    expect(result.invite.email).toEqual('ada@example.com');
+    expect(result.invite.created_by).toEqual(inviter.id);
+    expect(result.invite.accepted_at).toBeNull();
+
+    const token = new URL(result.link).searchParams.get('invite')!;
+    expect(verifyInviteToken(token)).toEqual({
+      inviteId: result.invite.id,
+      workspaceId,
+      role: 'editor',
+      email: 'ada@example.com',
+      expiresAt: result.invite.expires_at
+    });
+  });
+
+  it('should mail the link to the invited email', async () => {
+    const result = await createInvite(workspaceId, inviter, { role: 'viewer', email: 'ada@example.com' });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toEqual('ada@example.com');
+    expect(sent[0].subject).toContain('Team');
+    expect(sent[0].text).toContain(result.link);
+  });
+
+  it('should not send mail for open invites', async () => {
+    const result = await createInvite(workspaceId, inviter, { role: 'viewer' });
+
+    expect(result.invite.email).toBeNull();
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should expire after the requested number of days', async () => {
+    const before = Date.now();
+    const result = await createInvite(workspaceId, inviter, { role: 'viewer', expiresInDays: 1 });
+
+    const day = 24 * 60 * 60 * 1000;
+    expect(result.invite.expires_at.getTime()).toBeGreaterThanOrEqual(before + day - 1000);
+    expect(result.invite.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + day + 1000);
+  });
+
+  it('should keep the invite when the mail cannot be sent', async () => {
+    setMailTransport({ send: async () => { throw new Error('SMTP down'); } });
+
+    const result = await createInvite(workspaceId, inviter, { role: 'viewer', email: 'ada@example.com' });
+
+    expect(result.link).toContain('invite=');
+    expect(await db.select().from(workspaceInvitesTable).execute()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type CreateProjectInput } from '../schema';
+import { createProject } from '../handlers/create_project';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateProjectInput = {
+  name: 'Work',
+  color: '#22c55e',
+  icon: '💼'
+};
+
+describe('createProject', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create a project with all fields', async () => {
+    const result = await createProject(workspaceId, testInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Work');
+    expect(result.color).toEqual('#22c55e');
+    expect(result.icon).toEqual('💼');
+    expect(result.archived).toEqual(false);
+    expect(result.position).toEqual(0);
+    expect(result.created_at).toBeInstanceOf(Date);
+    expect(result.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should apply defaults for color and icon', async () => {
+    const result = await createProject(workspaceId, { name: 'Home' });
+
+    expect(result.color).toEqual('#64748b');
+    expect(result.icon).toBeNull();
+  });
+
+  it('should place new projects after existing ones', async () => {
+    const first = await createProject(workspaceId, testInput);
+    const second = await createProject(workspaceId, { ...testInput, name: 'Personal' });
+
+    expect(second.position).toBeGreaterThan(first.position);
+
+    const saved = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, second.id))
+      .execute();
+
+    expect(saved[0].name).toEqual('Personal');
+    expect(saved[0].position).toEqual(second.position);
+  });
+});
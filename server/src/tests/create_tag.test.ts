@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type CreateTagInput } from '../schema';
+import { createTag } from '../handlers/create_tag';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateTagInput = {
+  name: 'work'
+};
+
+describe('createTag', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create a tag', async () => {
+    const result = await createTag(workspaceId, testInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('work');
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save tag to database', async () => {
+    const result = await createTag(workspaceId, testInput);
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, result.id))
+      .execute();
+
+    expect(tags).toHaveLength(1);
+    expect(tags[0].name).toEqual('work');
+  });
+
+  it('should return the existing tag when the name is taken', async () => {
+    const first = await createTag(workspaceId, testInput);
+    const second = await createTag(workspaceId, testInput);
+
+    expect(second.id).toEqual(first.id);
+
+    const allTags = await db.select().from(tagsTable).execute();
+    expect(allTags).toHaveLength(1);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestMember, createTestUser, createTestWorkspace } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { activityTable, notificationsTable, projectsTable, todoAssigneesTable, todosTable } from '../db/schema';
 import { type CreateTodoInput } from '../schema';
 import { createTodo } from '../handlers/create_todo';
 import { eq } from 'drizzle-orm';
@@ -23,11 +23,16 @@ const emptyTitleInput = {
 };
 
 describe('createTodo', () => {
-  beforeEach(createDB);
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
   afterEach(resetDB);
 
   it('should create a todo with description', async () => {
-    const result = await createTodo(basicTodoInput);
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
 
     // Basic field validation
     expect(result.title).toEqual('Test Todo');
@@ -40,7 +45,7 @@ describe('createTodo', () => {
   });
 
   it('should create a todo with null description', async () => {
-    const result = await createTodo(todoWithNullDescription);
+    const { todo: result } = await createTodo(workspaceId, todoWithNullDescription);
 
     expect(result.title).toEqual('Todo without description');
     expect(result.description).toBeNull();
@@ -51,7 +56,7 @@ describe('createTodo', () => {
   });
 
   it('should save todo to database', async () => {
-    const result = await createTodo(basicTodoInput);
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
 
     // Query the database to verify the todo was saved
     const todos = await db.select()
@@ -68,7 +73,7 @@ describe('createTodo', () => {
   });
 
   it('should set completed to false by default', async () => {
-    const result = await createTodo(basicTodoInput);
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
 
     expect(result.completed).toEqual(false);
 
@@ -82,12 +87,12 @@ describe('createTodo', () => {
   });
 
   it('should create multiple todos with unique IDs', async () => {
-    const todo1 = await createTodo({
+    const { todo: todo1 } = await createTodo(workspaceId, {
       title: 'First Todo',
       description: 'First description'
     });
 
-    const todo2 = await createTodo({
+    const { todo: todo2 } = await createTodo(workspaceId, {
       title: 'Second Todo',
       description: 'Second description'
     });
@@ -104,10 +109,204 @@ describe('createTodo', () => {
     expect(allTodos).toHaveLength(2);
   });
 
+  it('should create a todo with a due date', async () => {
+    const dueAt = new Date('2030-01-15T09:00:00Z');
+    const { todo: result } = await createTodo(workspaceId, {
+      title: 'Todo with deadline',
+      description: null,
+      due_at: dueAt
+    });
+
+    expect(result.due_at).toBeInstanceOf(Date);
+    expect(result.due_at!.getTime()).toEqual(dueAt.getTime());
+
+    const todos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, result.id))
+      .execute();
+
+    expect(todos[0].due_at!.getTime()).toEqual(dueAt.getTime());
+  });
+
+  it('should default due date to null when omitted', async () => {
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
+
+    expect(result.due_at).toBeNull();
+  });
+
+  it('should create a todo with a priority', async () => {
+    const { todo: result } = await createTodo(workspaceId, {
+      title: 'Urgent todo',
+      description: null,
+      due_at: null,
+      priority: 'urgent'
+    });
+
+    expect(result.priority).toEqual('urgent');
+  });
+
+  it('should default priority to none', async () => {
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
+
+    expect(result.priority).toEqual('none');
+  });
+
+  it('should create a todo in a project', async () => {
+    const project = (await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work' })
+      .returning()
+      .execute())[0];
+
+    const { todo: result } = await createTodo(workspaceId, {
+      title: 'Project todo',
+      description: null,
+      due_at: null,
+      priority: 'none',
+      project_id: project.id
+    });
+
+    expect(result.project_id).toEqual(project.id);
+  });
+
+  it('should put todos without a project in the inbox', async () => {
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
+
+    expect(result.project_id).toBeNull();
+  });
+
+  it('should reject a non-existent project', async () => {
+    await expect(createTodo(workspaceId, { ...basicTodoInput, project_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+
   it('should handle database constraints properly', async () => {
     // This would fail Zod validation before reaching the handler
     // but we can test what happens if empty title somehow gets through
-    await expect(createTodo(emptyTitleInput as CreateTodoInput))
+    await expect(createTodo(workspaceId, emptyTitleInput as CreateTodoInput))
       .resolves.toBeDefined(); // The database allows empty strings, Zod should catch this
   });
-});
\ No newline at end of file
+
+  it('should create a subtask that inherits the parent project', async () => {
+    const project = (await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work' })
+      .returning()
+      .execute())[0];
+
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null, project_id: project.id })
+      .returning()
+      .execute())[0];
+
+    const { todo: result } = await createTodo(workspaceId, {
+      title: 'Subtask',
+      description: null,
+      parent_id: parent.id
+    });
+
+    expect(result.parent_id).toEqual(parent.id);
+    expect(result.project_id).toEqual(project.id);
+  });
+
+  it('should reject a non-existent parent', async () => {
+    await expect(createTodo(workspaceId, { ...basicTodoInput, parent_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should create a recurring todo', async () => {
+    const { todo: result } = await createTodo(workspaceId, { ...basicTodoInput, recurrence: 'FREQ=WEEKLY;BYDAY=MO' });
+
+    expect(result.recurrence).toEqual('FREQ=WEEKLY;BYDAY=MO');
+  });
+
+  it('should default recurrence to null when omitted', async () => {
+    const { todo: result } = await createTodo(workspaceId, basicTodoInput);
+
+    expect(result.recurrence).toBeNull();
+  });
+
+  it('should put new todos at the top of the manual order', async () => {
+    const { todo: first } = await createTodo(workspaceId, { title: 'First', description: null });
+    const { todo: second } = await createTodo(workspaceId, { title: 'Second', description: null });
+
+    expect(second.position < first.position).toBe(true);
+  });
+
+  it('should return similar open todos alongside the new todo', async () => {
+    const existing = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Update onboarding docs', description: null })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Update the onboarding docs', description: null, completed: true })
+      .execute();
+
+    const result = await createTodo(workspaceId, { title: 'Update the onboarding docs', description: null });
+
+    // Completed lookalikes are not duplicates
+    expect(result.similar).toHaveLength(1);
+    expect(result.similar[0].id).toEqual(existing.id);
+    expect(result.similar[0].similarity).toBeGreaterThan(0.4);
+    expect(result.similar[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('should return no similar todos for unrelated titles', async () => {
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Water the plants', description: null })
+      .execute();
+
+    const result = await createTodo(workspaceId, { title: 'Book dentist appointment', description: null });
+
+    expect(result.similar).toEqual([]);
+  });
+
+  it('should reject likely duplicates when rejectDuplicates is set', async () => {
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Prepare quarterly report', description: null })
+      .execute();
+
+    await expect(createTodo(workspaceId, { title: 'Prepare the quarterly report', description: null, rejectDuplicates: true }))
+      .rejects.toThrow(/similar todo already exists/i);
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(1);
+  });
+
+  it('should assign the todo to workspace members', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+
+    const { todo } = await createTodo(workspaceId, { ...basicTodoInput, assignee_ids: [ada.id, ada.id] });
+
+    const assignees = await db.select().from(todoAssigneesTable).execute();
+    expect(assignees).toEqual([{ todo_id: todo.id, user_id: ada.id }]);
+  });
+
+  it('should log the creation with the initial values', async () => {
+    const author = await createTestMember(workspaceId, 'author@example.com');
+
+    const { todo } = await createTodo(workspaceId, { ...basicTodoInput, priority: 'high' }, author.id);
+
+    const entries = await db.select().from(activityTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ todo_id: todo.id, actor_id: author.id, action: 'created' });
+    expect(entries[0].changes['title']).toEqual({ from: null, to: todo.title });
+    expect(entries[0].changes['priority']).toEqual({ from: null, to: 'high' });
+  });
+
+  it('should notify members mentioned in the description', async () => {
+    const author = await createTestMember(workspaceId, 'author@example.com');
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+
+    const { todo } = await createTodo(workspaceId, { ...basicTodoInput, description: 'Needs a look from @ada' }, author.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ user_id: ada.id, actor_id: author.id, todo_id: todo.id, comment_id: null });
+  });
+
+  it('should reject assignees who are not workspace members', async () => {
+    const outsider = await createTestUser('outsider@example.com');
+
+    await expect(createTodo(workspaceId, { ...basicTodoInput, assignee_ids: [outsider.id] }))
+      .rejects.toThrow(/members of the workspace/i);
+
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+  });
+});
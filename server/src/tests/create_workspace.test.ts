@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { createWorkspace } from '../handlers/create_workspace';
+
+describe('createWorkspace', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create a workspace owned by its creator', async () => {
+    const result = await createWorkspace(userId, { name: 'Team' });
+
+    expect(result.name).toEqual('Team');
+    expect(result.role).toEqual('owner');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members).toHaveLength(1);
+    expect(members[0].workspace_id).toEqual(result.id);
+    expect(members[0].user_id).toEqual(userId);
+    expect(members[0].role).toEqual('owner');
+  });
+});
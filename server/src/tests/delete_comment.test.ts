@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { commentsTable, todosTable, type User } from '../db/schema';
+import { type Comment } from '../schema';
+import { addComment } from '../handlers/add_comment';
+import { deleteComment } from '../handlers/delete_comment';
+
+describe('deleteComment', () => {
+  let workspaceId: number;
+  let author: User;
+  let comment: Comment;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    author = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+    comment = await addComment(workspaceId, author.id, { todo_id: todo.id, body: 'Lisbon?' });
+  });
+  afterEach(resetDB);
+
+  it('should let the author delete their comment', async () => {
+    await deleteComment({ id: workspaceId, role: 'editor' }, author.id, { id: comment.id });
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should let owners delete anyone\'s comment', async () => {
+    const owner = await createTestMember(workspaceId, 'owner@example.com', 'owner');
+
+    await deleteComment({ id: workspaceId, role: 'owner' }, owner.id, { id: comment.id });
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not let other editors delete the comment', async () => {
+    const editor = await createTestMember(workspaceId, 'bob@example.com');
+
+    await expect(deleteComment({ id: workspaceId, role: 'editor' }, editor.id, { id: comment.id }))
+      .rejects.toThrow(/author or a workspace owner/i);
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject comments in other workspaces', async () => {
+    const other = await createTestWorkspace('Other workspace');
+
+    await expect(deleteComment({ id: other.id, role: 'owner' }, author.id, { id: comment.id }))
+      .rejects.toThrow(/not found/i);
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(1);
+  });
+
+  it('should be removed along with its todo', async () => {
+    await db.delete(todosTable).execute();
+
+    expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+  });
+});
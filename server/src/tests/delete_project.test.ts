@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { projectsTable, todosTable } from '../db/schema';
+import { deleteProject } from '../handlers/delete_project';
+import { eq } from 'drizzle-orm';
+
+describe('deleteProject', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should delete the project and move its todos to the inbox', async () => {
+    const project = (await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work' })
+      .returning()
+      .execute())[0];
+
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'In project', description: null, project_id: project.id })
+      .returning()
+      .execute())[0];
+
+    await deleteProject(workspaceId, { id: project.id });
+
+    const projects = await db.select().from(projectsTable).execute();
+    expect(projects).toHaveLength(0);
+
+    const todos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, todo.id))
+      .execute();
+    expect(todos).toHaveLength(1);
+    expect(todos[0].project_id).toBeNull();
+  });
+
+  it('should reject a non-existent project', async () => {
+    await expect(deleteProject(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { deleteTag } from '../handlers/delete_tag';
+import { eq } from 'drizzle-orm';
+
+describe('deleteTag', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should delete an existing tag and its todo links', async () => {
+    const tag = (await db.insert(tagsTable).values({ workspace_id: workspaceId, name: 'work' }).returning().execute())[0];
+    const todo = (await db.insert(todosTable).values({ workspace_id: workspaceId, title: 'Tagged', description: null }).returning().execute())[0];
+    await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+
+    await deleteTag(workspaceId, { id: tag.id });
+
+    const remainingTags = await db.select().from(tagsTable).execute();
+    expect(remainingTags).toHaveLength(0);
+
+    const remainingLinks = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, todo.id))
+      .execute();
+    expect(remainingLinks).toHaveLength(0);
+
+    // The todo itself is untouched
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(1);
+  });
+
+  it('should reject a non-existent tag', async () => {
+    await expect(deleteTag(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
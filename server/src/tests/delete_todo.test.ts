@@ -1,15 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { activityTable, todosTable } from '../db/schema';
 import { type DeleteTodoInput, type CreateTodoInput } from '../schema';
 import { deleteTodo } from '../handlers/delete_todo';
-import { eq } from 'drizzle-orm';
+import { DomainError } from '../helpers/errors';
+import { eq, isNull } from 'drizzle-orm';
+
+let workspaceId: number;
 
 // Helper function to create a test todo
 const createTestTodo = async (input: CreateTodoInput) => {
   const result = await db.insert(todosTable)
     .values({
+      workspace_id: workspaceId,
       title: input.title,
       description: input.description
     })
@@ -20,10 +24,13 @@ const createTestTodo = async (input: CreateTodoInput) => {
 };
 
 describe('deleteTodo', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
   afterEach(resetDB);
 
-  it('should delete an existing todo', async () => {
+  it('should move an existing todo to the trash', async () => {
     // Create a test todo first
     const testTodo = await createTestTodo({
       title: 'Test Todo',
@@ -35,18 +42,19 @@ describe('deleteTodo', () => {
     };
 
     // Delete the todo
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(workspaceId, deleteInput);
 
     // Should return true for successful deletion
     expect(result).toBe(true);
 
-    // Verify todo is actually deleted from database
-    const remainingTodos = await db.select()
+    // Verify todo is kept but marked as trashed
+    const trashedTodos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, testTodo.id))
       .execute();
 
-    expect(remainingTodos).toHaveLength(0);
+    expect(trashedTodos).toHaveLength(1);
+    expect(trashedTodos[0].deleted_at).toBeInstanceOf(Date);
   });
 
   it('should return false for non-existent todo', async () => {
@@ -55,10 +63,10 @@ describe('deleteTodo', () => {
     };
 
     // Try to delete non-existent todo
-    const result = await deleteTodo(deleteInput);
+    const error = await deleteTodo(workspaceId, deleteInput).catch((e) => e);
 
-    // Should return false for non-existent todo
-    expect(result).toBe(false);
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('TODO_NOT_FOUND');
   });
 
   it('should not affect other todos when deleting one', async () => {
@@ -83,12 +91,13 @@ describe('deleteTodo', () => {
       id: todo2.id
     };
 
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(workspaceId, deleteInput);
     expect(result).toBe(true);
 
-    // Verify other todos still exist
+    // Verify other todos are untouched
     const remainingTodos = await db.select()
       .from(todosTable)
+      .where(isNull(todosTable.deleted_at))
       .execute();
 
     expect(remainingTodos).toHaveLength(2);
@@ -111,12 +120,11 @@ describe('deleteTodo', () => {
     };
 
     // First deletion should succeed
-    const firstResult = await deleteTodo(deleteInput);
+    const firstResult = await deleteTodo(workspaceId, deleteInput);
     expect(firstResult).toBe(true);
 
-    // Second deletion of the same todo should return false
-    const secondResult = await deleteTodo(deleteInput);
-    expect(secondResult).toBe(false);
+    // The todo is in the trash now, so deleting it again finds nothing
+    await expect(deleteTodo(workspaceId, deleteInput)).rejects.toThrow(/not found/i);
   });
 
   it('should delete todo with null description', async () => {
@@ -130,22 +138,23 @@ describe('deleteTodo', () => {
       id: testTodo.id
     };
 
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(workspaceId, deleteInput);
     expect(result).toBe(true);
 
     // Verify deletion
-    const remainingTodos = await db.select()
+    const trashedTodos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, testTodo.id))
       .execute();
 
-    expect(remainingTodos).toHaveLength(0);
+    expect(trashedTodos[0].deleted_at).toBeInstanceOf(Date);
   });
 
   it('should delete completed todo', async () => {
     // Create a completed todo
     const result = await db.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: 'Completed Todo',
         description: 'This todo is completed',
         completed: true
@@ -159,15 +168,70 @@ describe('deleteTodo', () => {
       id: testTodo.id
     };
 
-    const deleteResult = await deleteTodo(deleteInput);
+    const deleteResult = await deleteTodo(workspaceId, deleteInput);
     expect(deleteResult).toBe(true);
 
     // Verify deletion
-    const remainingTodos = await db.select()
+    const trashedTodos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, testTodo.id))
       .execute();
 
-    expect(remainingTodos).toHaveLength(0);
+    expect(trashedTodos[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should log the deletion', async () => {
+    const actor = await createTestUser('actor@example.com');
+    const testTodo = await createTestTodo({ title: 'Logged', description: null });
+
+    await deleteTodo(workspaceId, { id: testTodo.id }, actor.id);
+
+    const entries = await db.select().from(activityTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ todo_id: testTodo.id, actor_id: actor.id, action: 'deleted', todo_title: 'Logged' });
+    expect(entries[0].changes['deleted_at'].from).toBeNull();
+  });
+
+  it('should trash subtasks along with their parent by default', async () => {
+    const parent = await createTestTodo({ title: 'Parent', description: null });
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Grandchild', description: null, parent_id: child.id })
+      .execute();
+
+    const result = await deleteTodo(workspaceId, { id: parent.id });
+    expect(result).toBe(true);
+
+    // All three share the same timestamp so they can be restored together
+    const trashedTodos = await db.select().from(todosTable).execute();
+    expect(trashedTodos).toHaveLength(3);
+    expect(new Set(trashedTodos.map(todo => todo.deleted_at?.getTime())).size).toEqual(1);
+    expect(trashedTodos[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should move subtasks up a level when reparenting', async () => {
+    const grandparent = await createTestTodo({ title: 'Grandparent', description: null });
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null, parent_id: grandparent.id })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+
+    const result = await deleteTodo(workspaceId, { id: parent.id, subtasks: 'reparent' });
+    expect(result).toBe(true);
+
+    const saved = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, child.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+    expect(saved[0].parent_id).toEqual(grandparent.id);
+    expect(saved[0].deleted_at).toBeNull();
   });
-});
\ No newline at end of file
+});
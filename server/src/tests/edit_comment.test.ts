@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { commentsTable, notificationsTable, todosTable, type User } from '../db/schema';
+import { type Comment } from '../schema';
+import { addComment } from '../handlers/add_comment';
+import { editComment } from '../handlers/edit_comment';
+import { eq } from 'drizzle-orm';
+
+describe('editComment', () => {
+  let workspaceId: number;
+  let author: User;
+  let comment: Comment;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    author = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+    comment = await addComment(workspaceId, author.id, { todo_id: todo.id, body: 'Lisbon?' });
+  });
+  afterEach(resetDB);
+
+  it('should change the body and mark the comment as edited', async () => {
+    const result = await editComment(workspaceId, author.id, { id: comment.id, body: 'Porto?' });
+
+    expect(result.body).toEqual('Porto?');
+    expect(result.edited_at).toBeInstanceOf(Date);
+    expect(result.created_at).toEqual(comment.created_at);
+
+    const saved = await db.select().from(commentsTable).where(eq(commentsTable.id, comment.id)).execute();
+    expect(saved[0].body).toEqual('Porto?');
+  });
+
+  it('should notify people newly mentioned in the edit', async () => {
+    const grace = await createTestMember(workspaceId, 'grace@example.com');
+
+    await editComment(workspaceId, author.id, { id: comment.id, body: 'Lisbon? @grace' });
+    await editComment(workspaceId, author.id, { id: comment.id, body: 'Lisbon or Porto? @grace' });
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications.map(notification => notification.user_id)).toEqual([grace.id]);
+  });
+
+  it('should only let the author edit', async () => {
+    const other = await createTestMember(workspaceId, 'bob@example.com', 'owner');
+
+    await expect(editComment(workspaceId, other.id, { id: comment.id, body: 'Porto?' }))
+      .rejects.toThrow(/only the author/i);
+
+    const saved = await db.select().from(commentsTable).where(eq(commentsTable.id, comment.id)).execute();
+    expect(saved[0].body).toEqual('Lisbon?');
+    expect(saved[0].edited_at).toBeNull();
+  });
+
+  it('should reject comments in other workspaces', async () => {
+    const other = await createTestWorkspace('Other workspace');
+
+    await expect(editComment(other.id, author.id, { id: comment.id, body: 'Porto?' })).rejects.toThrow(/not found/i);
+    await expect(editComment(workspaceId, author.id, { id: 999, body: 'Porto?' })).rejects.toThrow(/not found/i);
+  });
+});
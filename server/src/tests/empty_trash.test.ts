@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { emptyTrash } from '../handlers/empty_trash';
+import { purgeExpiredTrash } from '../helpers/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('emptyTrash', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should permanently delete every trashed todo', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Trashed 1', description: null, deleted_at: new Date() },
+        { workspace_id: workspaceId, title: 'Trashed 2', description: null, deleted_at: new Date() },
+        { workspace_id: workspaceId, title: 'Kept', description: null }
+      ])
+      .execute();
+
+    const result = await emptyTrash(workspaceId);
+
+    expect(result).toEqual(2);
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining.map(todo => todo.title)).toEqual(['Kept']);
+  });
+
+  it('should return 0 when the trash is empty', async () => {
+    expect(await emptyTrash(workspaceId)).toEqual(0);
+  });
+
+  it('should only purge todos past the retention period on the timed purge', async () => {
+    const now = new Date();
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Expired', description: null, deleted_at: new Date(now.getTime() - 31 * DAY_MS) },
+        { workspace_id: workspaceId, title: 'Recent', description: null, deleted_at: new Date(now.getTime() - 2 * DAY_MS) }
+      ])
+      .execute();
+
+    const result = await purgeExpiredTrash(db, now);
+
+    expect(result).toEqual(1);
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining.map(todo => todo.title)).toEqual(['Recent']);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { DomainError, reasonOf, TodoConflictError, toTRPCError } from '../helpers/errors';
+
+// What tRPC hands a middleware when a procedure throws something that is not a TRPCError
+const thrown = (cause: Error): TRPCError => new TRPCError({ code: 'INTERNAL_SERVER_ERROR', cause });
+
+describe('errors', () => {
+  describe('toTRPCError', () => {
+    it('should map domain errors to their tRPC code and keep the message', () => {
+      const result = toTRPCError(thrown(new DomainError('TODO_NOT_FOUND', 'Todo 7 not found')), 'getTodo');
+
+      expect(result.code).toEqual('NOT_FOUND');
+      expect(result.message).toEqual('Todo 7 not found');
+      expect(reasonOf(result)).toEqual('TODO_NOT_FOUND');
+    });
+
+    it('should map permission, validation and conflict reasons', () => {
+      expect(toTRPCError(thrown(new DomainError('ROLE_REQUIRED', 'No')), 'x').code).toEqual('FORBIDDEN');
+      expect(toTRPCError(thrown(new DomainError('SIGN_IN_REQUIRED', 'No')), 'x').code).toEqual('UNAUTHORIZED');
+      expect(toTRPCError(thrown(new DomainError('INVALID_CURSOR', 'No')), 'x').code).toEqual('BAD_REQUEST');
+      expect(toTRPCError(thrown(new DomainError('EMAIL_TAKEN', 'No')), 'x').code).toEqual('CONFLICT');
+    });
+
+    it('should keep the server copy of a version conflict', () => {
+      const conflict = new TodoConflictError({ current: { id: 1, title: 'Theirs' } as never });
+
+      const result = toTRPCError(thrown(conflict), 'updateTodo');
+
+      expect(result.code).toEqual('CONFLICT');
+      expect(result.cause).toBe(conflict);
+      expect(reasonOf(result)).toEqual('VERSION_CONFLICT');
+    });
+
+    it('should map database constraint violations without exposing their messages', () => {
+      const duplicate = Object.assign(new Error('duplicate key value violates unique constraint "tags_workspace_id_name_unique"'), { code: '23505' });
+      const missing = Object.assign(new Error('insert or update on table "todos" violates foreign key constraint'), { code: '23503' });
+
+      const duplicateResult = toTRPCError(thrown(duplicate), 'createTag');
+      const missingResult = toTRPCError(thrown(missing), 'createTodo');
+
+      expect(duplicateResult.code).toEqual('CONFLICT');
+      expect(reasonOf(duplicateResult)).toEqual('ALREADY_EXISTS');
+      expect(duplicateResult.message).not.toContain('tags_workspace_id_name_unique');
+      expect(missingResult.code).toEqual('NOT_FOUND');
+      expect(reasonOf(missingResult)).toEqual('REFERENCE_NOT_FOUND');
+    });
+
+    it('should hide unexpected errors behind a generic message', () => {
+      const result = toTRPCError(thrown(new Error('connection terminated unexpectedly')), 'getTodos');
+
+      expect(result.code).toEqual('INTERNAL_SERVER_ERROR');
+      expect(result.message).not.toContain('connection');
+      expect(reasonOf(result)).toEqual('INTERNAL');
+    });
+
+    it('should pass deliberate tRPC errors through', () => {
+      const invalid = new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid input', cause: new z.ZodError([]) });
+
+      expect(toTRPCError(invalid, 'createTodo')).toBe(invalid);
+      expect(reasonOf(invalid)).toEqual('INVALID_INPUT');
+    });
+  });
+});
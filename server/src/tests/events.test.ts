@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { projectsTable, tagsTable, todosTable } from '../db/schema';
+import { type TodoChangeEvent } from '../schema';
+import { publishTodoChange, todoChanges } from '../helpers/events';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { restoreTodo } from '../handlers/restore_todo';
+import { bulkUpdateTodos } from '../handlers/bulk_update_todos';
+import { purgeTodo } from '../handlers/purge_todo';
+import { emptyTrash } from '../handlers/empty_trash';
+import { setTodoTags } from '../handlers/set_todo_tags';
+import { deleteProject } from '../handlers/delete_project';
+
+// Collects a workspace's events until stopped
+const listen = (workspaceId: number) => {
+  const events: TodoChangeEvent[] = [];
+  const controller = new AbortController();
+  const done = (async () => {
+    for await (const event of todoChanges(workspaceId, controller.signal)) {
+      events.push(event);
+    }
+  })().catch(() => {}); // Aborting ends the loop with an AbortError
+
+  return {
+    events,
+    stop: async () => {
+      controller.abort();
+      await done;
+    }
+  };
+};
+
+// Lets queued events reach the listener
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('todo events', () => {
+  it('should only reach subscribers of the same workspace', async () => {
+    const first = listen(1);
+    const second = listen(2);
+
+    publishTodoChange(1, { type: 'deleted', ids: [10] });
+    publishTodoChange(2, { type: 'deleted', ids: [20, 21] });
+    await flush();
+
+    expect(first.events).toEqual([{ type: 'deleted', ids: [10] }]);
+    expect(second.events).toEqual([{ type: 'deleted', ids: [20, 21] }]);
+
+    await first.stop();
+    await second.stop();
+  });
+
+  it('should stop delivering once the subscriber aborts', async () => {
+    const subscriber = listen(1);
+    await subscriber.stop();
+
+    publishTodoChange(1, { type: 'deleted', ids: [10] });
+    await flush();
+
+    expect(subscriber.events).toEqual([]);
+  });
+
+  describe('from handlers', () => {
+    let workspaceId: number;
+
+    beforeEach(async () => {
+      await createDB();
+      workspaceId = (await createTestWorkspace()).id;
+    });
+    afterEach(resetDB);
+
+    it('should publish created, updated and deleted todos', async () => {
+      const subscriber = listen(workspaceId);
+
+      const { todo } = await createTodo(workspaceId, { title: 'Live', description: null });
+      const updated = await updateTodo(workspaceId, { id: todo.id, version: todo.version, title: 'Live edit' });
+      await deleteTodo(workspaceId, { id: todo.id });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toEqual([
+        { type: 'created', todo },
+        { type: 'updated', todo: updated },
+        { type: 'deleted', ids: [todo.id] }
+      ]);
+    });
+
+    it('should name every trashed subtask and bring them back as created', async () => {
+      const parent = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+        .returning()
+        .execute())[0];
+      const child = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+        .returning()
+        .execute())[0];
+
+      const subscriber = listen(workspaceId);
+      await deleteTodo(workspaceId, { id: parent.id });
+      await restoreTodo(workspaceId, { id: parent.id });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events[0]).toEqual({ type: 'deleted', ids: [parent.id, child.id] });
+      expect(subscriber.events.slice(1).map((event) => event.type)).toEqual(['created', 'created']);
+    });
+
+    it('should name every purged todo, subtasks included', async () => {
+      const parent = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Parent', description: null, deleted_at: new Date() })
+        .returning()
+        .execute())[0];
+      const child = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id, deleted_at: new Date() })
+        .returning()
+        .execute())[0];
+      const other = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Other', description: null, deleted_at: new Date() })
+        .returning()
+        .execute())[0];
+
+      const subscriber = listen(workspaceId);
+      await purgeTodo(workspaceId, { id: parent.id });
+      await emptyTrash(workspaceId);
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toEqual([
+        { type: 'deleted', ids: [parent.id, child.id] },
+        { type: 'deleted', ids: [other.id] }
+      ]);
+    });
+
+    it('should publish subtasks moved up when their parent is trashed', async () => {
+      const { todo: parent } = await createTodo(workspaceId, { title: 'Parent', description: null });
+      const { todo: child } = await createTodo(workspaceId, { title: 'Child', description: null, parent_id: parent.id });
+
+      const subscriber = listen(workspaceId);
+      await deleteTodo(workspaceId, { id: parent.id, subtasks: 'reparent' });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toHaveLength(2);
+      expect(subscriber.events[0]).toEqual({ type: 'deleted', ids: [parent.id] });
+      expect(subscriber.events[1]).toMatchObject({ type: 'updated', todo: { id: child.id, parent_id: null, version: child.version + 1 } });
+    });
+
+    it('should publish todos whose tags changed', async () => {
+      const { todo } = await createTodo(workspaceId, { title: 'Tagged', description: null });
+      const tag = (await db.insert(tagsTable).values({ workspace_id: workspaceId, name: 'work' }).returning().execute())[0];
+
+      const subscriber = listen(workspaceId);
+      await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tag.id] });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toHaveLength(1);
+      expect(subscriber.events[0]).toMatchObject({ type: 'updated', todo: { id: todo.id, version: todo.version } });
+    });
+
+    it('should publish the todos a deleted project moves to the Inbox', async () => {
+      const project = (await db.insert(projectsTable).values({ workspace_id: workspaceId, name: 'Work' }).returning().execute())[0];
+      const { todo } = await createTodo(workspaceId, { title: 'In project', description: null, project_id: project.id });
+
+      const subscriber = listen(workspaceId);
+      await deleteProject(workspaceId, { id: project.id });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toHaveLength(1);
+      expect(subscriber.events[0]).toMatchObject({ type: 'updated', todo: { id: todo.id, project_id: null, version: todo.version + 1 } });
+    });
+
+    it('should announce the next occurrence of a completed recurring todo', async () => {
+      const { todo } = await createTodo(workspaceId, { title: 'Weekly', description: null, recurrence: 'FREQ=WEEKLY' });
+
+      const subscriber = listen(workspaceId);
+      await updateTodo(workspaceId, { id: todo.id, version: todo.version, completed: true });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events.map((event) => event.type)).toEqual(['updated', 'created']);
+      const created = subscriber.events[1];
+      expect(created.type === 'created' && created.todo.title).toEqual('Weekly');
+    });
+
+    it('should only publish the todos a bulk update really changed', async () => {
+      const { todo: open } = await createTodo(workspaceId, { title: 'Open', description: null });
+      const { todo: done } = await createTodo(workspaceId, { title: 'Done', description: null });
+      await updateTodo(workspaceId, { id: done.id, version: done.version, completed: true });
+
+      const subscriber = listen(workspaceId);
+      await bulkUpdateTodos(workspaceId, { target: { ids: [open.id, done.id] }, completed: true });
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toHaveLength(1);
+      expect(subscriber.events[0]).toMatchObject({ type: 'updated', todo: { id: open.id, completed: true } });
+    });
+
+    it('should not publish anything when a change fails', async () => {
+      const subscriber = listen(workspaceId);
+
+      await expect(updateTodo(workspaceId, { id: 99999, version: 1, title: 'Missing' })).rejects.toThrow(/not found/i);
+      await flush();
+      await subscriber.stop();
+
+      expect(subscriber.events).toEqual([]);
+    });
+  });
+});
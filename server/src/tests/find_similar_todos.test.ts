@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { findSimilarTodos } from '../handlers/find_similar_todos';
+
+describe('findSimilarTodos', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return open todos with similar titles, most similar first', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Fix login bug', description: null },
+        { workspace_id: workspaceId, title: 'Fix the login page bug', description: null },
+        { workspace_id: workspaceId, title: 'Plan team offsite', description: null }
+      ])
+      .execute();
+
+    const results = await findSimilarTodos(workspaceId, { title: 'Fix login bug' });
+
+    expect(results.map(todo => todo.title)).toEqual(['Fix login bug', 'Fix the login page bug']);
+    expect(results[0].similarity).toEqual(1);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+  });
+
+  it('should ignore case and small typos', async () => {
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Renew passport', description: null })
+      .execute();
+
+    const results = await findSimilarTodos(workspaceId, { title: 'renew pasport' });
+
+    expect(results.map(todo => todo.title)).toEqual(['Renew passport']);
+  });
+
+  it('should skip completed todos and the excluded todo', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Call the bank', description: null },
+        { workspace_id: workspaceId, title: 'Call the bank', description: null, completed: true }
+      ])
+      .returning()
+      .execute();
+
+    const results = await findSimilarTodos(workspaceId, { title: 'Call the bank', excludeId: todos[0].id });
+
+    expect(results).toEqual([]);
+  });
+
+  it('should respect the limit', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Email Alice', description: null },
+        { workspace_id: workspaceId, title: 'Email Alice again', description: null },
+        { workspace_id: workspaceId, title: 'Email Alice re: budget', description: null }
+      ])
+      .execute();
+
+    const results = await findSimilarTodos(workspaceId, { title: 'Email Alice', limit: 2 });
+
+    expect(results).toHaveLength(2);
+  });
+});
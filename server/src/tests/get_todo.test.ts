@@ -1,12 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
 import { db } from '../db';
 import { todosTable } from '../db/schema';
 import { type GetTodoInput } from '../schema';
 import { getTodo } from '../handlers/get_todo';
+import { addComment } from '../handlers/add_comment';
+import { DomainError } from '../helpers/errors';
 
 describe('getTodo', () => {
-  beforeEach(createDB);
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
   afterEach(resetDB);
 
   it('should return a todo when it exists', async () => {
@@ -18,7 +25,7 @@ describe('getTodo', () => {
     };
 
     const insertResult = await db.insert(todosTable)
-      .values(todoData)
+      .values({ ...todoData, workspace_id: workspaceId })
       .returning()
       .execute();
 
@@ -29,7 +36,7 @@ describe('getTodo', () => {
       id: createdTodo.id
     };
 
-    const result = await getTodo(input);
+    const result = await getTodo(workspaceId, input);
 
     // Verify the result
     expect(result).not.toBeNull();
@@ -41,14 +48,15 @@ describe('getTodo', () => {
     expect(result!.updated_at).toBeInstanceOf(Date);
   });
 
-  it('should return null when todo does not exist', async () => {
+  it('should throw TODO_NOT_FOUND when todo does not exist', async () => {
     const input: GetTodoInput = {
       id: 999 // Non-existent ID
     };
 
-    const result = await getTodo(input);
+    const error = await getTodo(workspaceId, input).catch((e) => e);
 
-    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('TODO_NOT_FOUND');
   });
 
   it('should handle todos with null description correctly', async () => {
@@ -60,7 +68,7 @@ describe('getTodo', () => {
     };
 
     const insertResult = await db.insert(todosTable)
-      .values(todoData)
+      .values({ ...todoData, workspace_id: workspaceId })
       .returning()
       .execute();
 
@@ -70,7 +78,7 @@ describe('getTodo', () => {
       id: createdTodo.id
     };
 
-    const result = await getTodo(input);
+    const result = await getTodo(workspaceId, input);
 
     expect(result).not.toBeNull();
     expect(result!.title).toEqual('Todo with no description');
@@ -93,12 +101,12 @@ describe('getTodo', () => {
     };
 
     const insertResult1 = await db.insert(todosTable)
-      .values(todo1Data)
+      .values({ ...todo1Data, workspace_id: workspaceId })
       .returning()
       .execute();
 
     const insertResult2 = await db.insert(todosTable)
-      .values(todo2Data)
+      .values({ ...todo2Data, workspace_id: workspaceId })
       .returning()
       .execute();
 
@@ -110,7 +118,7 @@ describe('getTodo', () => {
       id: createdTodo2.id
     };
 
-    const result = await getTodo(input);
+    const result = await getTodo(workspaceId, input);
 
     expect(result).not.toBeNull();
     expect(result!.id).toEqual(createdTodo2.id);
@@ -129,8 +137,88 @@ describe('getTodo', () => {
       id: 1 // Any ID should not exist in fresh DB
     };
 
-    const result = await getTodo(input);
+    await expect(getTodo(workspaceId, input)).rejects.toThrow(/not found/i);
+  });
+
+  it('should return the full subtask tree', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+
+    const children = await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Child A', description: null, parent_id: parent.id },
+        { workspace_id: workspaceId, title: 'Child B', description: null, parent_id: parent.id, completed: true }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Grandchild', description: null, parent_id: children[0].id })
+      .execute();
+
+    // Unrelated todo must not show up in the tree
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Unrelated', description: null })
+      .execute();
+
+    const result = await getTodo(workspaceId, { id: parent.id });
+
+    expect(result).not.toBeNull();
+    expect(result!.children.map(child => child.title).sort()).toEqual(['Child A', 'Child B']);
+
+    const childA = result!.children.find(child => child.title === 'Child A');
+    expect(childA!.parent_id).toEqual(parent.id);
+    expect(childA!.children).toHaveLength(1);
+    expect(childA!.children[0].title).toEqual('Grandchild');
+    expect(childA!.children[0].children).toEqual([]);
+  });
+
+  it('should return a subtask with its own subtree', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+
+    const result = await getTodo(workspaceId, { id: child.id });
+
+    expect(result!.title).toEqual('Child');
+    expect(result!.parent_id).toEqual(parent.id);
+    expect(result!.children).toEqual([]);
+  });
+
+  it('should include the comment count and latest comments when asked', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Discussed', description: null })
+      .returning()
+      .execute())[0];
+    for (const body of ['First', 'Second', 'Third', 'Fourth']) {
+      await addComment(workspaceId, ada.id, { todo_id: todo.id, body });
+    }
+
+    const result = await getTodo(workspaceId, { id: todo.id, includeComments: true });
+
+    expect(result!.comment_count).toEqual(4);
+    expect(result!.latest_comments!.map(comment => comment.body)).toEqual(['Second', 'Third', 'Fourth']);
+    expect(result!.latest_comments![0].author.name).toEqual('ada');
+  });
+
+  it('should leave comments out by default', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Quiet', description: null })
+      .returning()
+      .execute())[0];
+
+    const result = await getTodo(workspaceId, { id: todo.id });
 
-    expect(result).toBeNull();
+    expect(result!.comment_count).toBeUndefined();
+    expect(result!.latest_comments).toBeUndefined();
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable, type User } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { purgeTodo } from '../handlers/purge_todo';
+import { getTodoActivity } from '../handlers/get_todo_activity';
+
+describe('getTodoActivity', () => {
+  let workspaceId: number;
+  let ada: User;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ada = await createTestMember(workspaceId, 'ada@example.com');
+  });
+  afterEach(resetDB);
+
+  it('should return the history of a todo newest first', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Draft', description: null }, ada.id);
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Final' }, ada.id);
+    await deleteTodo(workspaceId, { id: todo.id }, ada.id);
+
+    const result = await getTodoActivity(workspaceId, { todo_id: todo.id });
+
+    expect(result.items.map(entry => entry.action)).toEqual(['deleted', 'updated', 'created']);
+    expect(result.items[1].changes).toEqual({ title: { from: 'Draft', to: 'Final' } });
+    expect(result.items[1].todo_title).toEqual('Final');
+    expect(result.items[1].actor).toEqual({ id: ada.id, name: 'ada', email: 'ada@example.com' });
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should page through older entries', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Step 0', description: null });
+    for (const step of [1, 2, 3, 4]) {
+      await updateTodo(workspaceId, { id: todo.id, version: step, title: `Step ${step}` });
+    }
+
+    const first = await getTodoActivity(workspaceId, { todo_id: todo.id, limit: 2 });
+    const second = await getTodoActivity(workspaceId, { todo_id: todo.id, limit: 2, cursor: first.nextCursor });
+    const third = await getTodoActivity(workspaceId, { todo_id: todo.id, limit: 2, cursor: second.nextCursor });
+
+    const titles = [...first.items, ...second.items, ...third.items].map(entry => entry.todo_title);
+    expect(titles).toEqual(['Step 4', 'Step 3', 'Step 2', 'Step 1', 'Step 0']);
+    expect(first.items[0].actor).toBeNull();
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('should not show activity of other workspaces', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Mine', description: null });
+    const other = await createTestWorkspace('Other workspace');
+
+    expect((await getTodoActivity(other.id, { todo_id: todo.id })).items).toEqual([]);
+  });
+
+  it('should detach the log from a purged todo', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Short-lived', description: null });
+    await deleteTodo(workspaceId, { id: todo.id });
+    await purgeTodo(workspaceId, { id: todo.id });
+
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+    // The entries live on in the workspace activity, without a todo to point at
+    expect((await getTodoActivity(workspaceId, { todo_id: todo.id })).items).toEqual([]);
+  });
+});
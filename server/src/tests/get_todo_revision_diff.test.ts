@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { listTodoRevisions } from '../handlers/list_todo_revisions';
+import { getTodoRevisionDiff } from '../handlers/get_todo_revision_diff';
+
+describe('getTodoRevisionDiff', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should diff the title and description word by word', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Buy milk', description: 'From the shop' });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Buy oat milk', description: null });
+    const [newer, older] = await listTodoRevisions(workspaceId, { todo_id: todo.id });
+
+    const result = await getTodoRevisionDiff(workspaceId, { from_id: older.id, to_id: newer.id });
+
+    expect(result!.from.id).toEqual(older.id);
+    expect(result!.to.id).toEqual(newer.id);
+    expect(result!.title).toEqual([
+      { type: 'equal', text: 'Buy ' },
+      { type: 'added', text: 'oat ' },
+      { type: 'equal', text: 'milk' }
+    ]);
+    expect(result!.description).toEqual([{ type: 'removed', text: 'From the shop' }]);
+  });
+
+  it('should reject revisions outside the workspace', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Draft', description: null });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Final' });
+    const [newer, older] = await listTodoRevisions(workspaceId, { todo_id: todo.id });
+    const other = await createTestWorkspace('Other workspace');
+
+    await expect(getTodoRevisionDiff(other.id, { from_id: older.id, to_id: newer.id })).rejects.toThrow(/not found/i);
+    await expect(getTodoRevisionDiff(workspaceId, { from_id: older.id, to_id: 99999 })).rejects.toThrow(/revision 99999 not found/i);
+  });
+
+  it('should reject revisions of different todos', async () => {
+    const { todo: first } = await createTodo(workspaceId, { title: 'First', description: null });
+    const { todo: second } = await createTodo(workspaceId, { title: 'Second', description: null });
+    await updateTodo(workspaceId, { id: first.id, version: 1, title: 'First, renamed' });
+    await updateTodo(workspaceId, { id: second.id, version: 1, title: 'Second, renamed' });
+    const [fromFirst] = await listTodoRevisions(workspaceId, { todo_id: first.id });
+    const [fromSecond] = await listTodoRevisions(workspaceId, { todo_id: second.id });
+
+    await expect(getTodoRevisionDiff(workspaceId, { from_id: fromFirst.id, to_id: fromSecond.id }))
+      .rejects.toThrow(/different todos/i);
+  });
+});
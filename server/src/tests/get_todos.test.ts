@@ -1,15 +1,20 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { projectsTable, tagsTable, todoAssigneesTable, todosTable, todoTagsTable } from '../db/schema';
 import { getTodos } from '../handlers/get_todos';
 
 describe('getTodos', () => {
-  beforeEach(createDB);
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
   afterEach(resetDB);
 
   it('should return empty array when no todos exist', async () => {
-    const result = await getTodos();
+    const result = (await getTodos(workspaceId)).items;
 
     expect(result).toEqual([]);
   });
@@ -19,16 +24,19 @@ describe('getTodos', () => {
     await db.insert(todosTable)
       .values([
         {
+          workspace_id: workspaceId,
           title: 'First Todo',
           description: 'First description',
           completed: false
         },
         {
+          workspace_id: workspaceId,
           title: 'Second Todo',
           description: 'Second description',
           completed: true
         },
         {
+          workspace_id: workspaceId,
           title: 'Third Todo',
           description: null, // Test nullable description
           completed: false
@@ -36,7 +44,7 @@ describe('getTodos', () => {
       ])
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(workspaceId)).items;
 
     expect(result).toHaveLength(3);
     
@@ -62,6 +70,7 @@ describe('getTodos', () => {
     // Create todos with slight time delays to ensure different timestamps
     const firstTodo = await db.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: 'Oldest Todo',
         description: 'Created first',
         completed: false
@@ -74,6 +83,7 @@ describe('getTodos', () => {
 
     const secondTodo = await db.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: 'Middle Todo',
         description: 'Created second',
         completed: false
@@ -85,6 +95,7 @@ describe('getTodos', () => {
 
     const thirdTodo = await db.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: 'Newest Todo',
         description: 'Created last',
         completed: false
@@ -92,7 +103,7 @@ describe('getTodos', () => {
       .returning()
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(workspaceId)).items;
 
     expect(result).toHaveLength(3);
     
@@ -111,16 +122,19 @@ describe('getTodos', () => {
     await db.insert(todosTable)
       .values([
         {
+          workspace_id: workspaceId,
           title: 'Completed Todo',
           description: 'This is done',
           completed: true
         },
         {
+          workspace_id: workspaceId,
           title: 'Incomplete Todo',
           description: 'Still working on this',
           completed: false
         },
         {
+          workspace_id: workspaceId,
           title: 'Another Completed Todo',
           description: null,
           completed: true
@@ -128,7 +142,7 @@ describe('getTodos', () => {
       ])
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(workspaceId)).items;
 
     expect(result).toHaveLength(3);
 
@@ -148,11 +162,13 @@ describe('getTodos', () => {
     await db.insert(todosTable)
       .values([
         {
+          workspace_id: workspaceId,
           title: 'Todo with description',
           description: 'This has a description',
           completed: false
         },
         {
+          workspace_id: workspaceId,
           title: 'Todo without description',
           description: null,
           completed: false
@@ -160,7 +176,7 @@ describe('getTodos', () => {
       ])
       .execute();
 
-    const result = await getTodos();
+    const result = (await getTodos(workspaceId)).items;
 
     expect(result).toHaveLength(2);
 
@@ -170,4 +186,398 @@ describe('getTodos', () => {
     expect(todoWithDescription?.description).toBe('This has a description');
     expect(todoWithoutDescription?.description).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should return only overdue open todos when overdue is set', async () => {
+    const past = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Overdue', description: null, due_at: past, completed: false },
+        { workspace_id: workspaceId, title: 'Overdue but done', description: null, due_at: past, completed: true },
+        { workspace_id: workspaceId, title: 'Due later', description: null, due_at: future, completed: false },
+        { workspace_id: workspaceId, title: 'No deadline', description: null, completed: false }
+      ])
+      .execute();
+
+    const result = (await getTodos(workspaceId, { overdue: true })).items;
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toEqual('Overdue');
+  });
+
+  it('should filter by due date range', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'January', description: null, due_at: new Date('2030-01-10T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'February', description: null, due_at: new Date('2030-02-10T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'March', description: null, due_at: new Date('2030-03-10T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'No deadline', description: null }
+      ])
+      .execute();
+
+    const result = (await getTodos(workspaceId, {
+      dueAfter: new Date('2030-02-01T00:00:00Z'),
+      dueBefore: new Date('2030-02-28T00:00:00Z')
+    })).items;
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toEqual('February');
+
+    const beforeMarch = (await getTodos(workspaceId, { dueBefore: new Date('2030-03-01T00:00:00Z') })).items;
+    expect(beforeMarch.map(todo => todo.title).sort()).toEqual(['February', 'January']);
+  });
+
+  it('should sort by priority then due date when requested', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Low', description: null, priority: 'low' },
+        { workspace_id: workspaceId, title: 'Urgent later', description: null, priority: 'urgent', due_at: new Date('2030-05-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Urgent sooner', description: null, priority: 'urgent', due_at: new Date('2030-04-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Urgent no deadline', description: null, priority: 'urgent' },
+        { workspace_id: workspaceId, title: 'None', description: null }
+      ])
+      .execute();
+
+    const result = (await getTodos(workspaceId, { sortBy: 'priority' })).items;
+
+    expect(result.map(todo => todo.title)).toEqual([
+      'Urgent sooner',
+      'Urgent later',
+      'Urgent no deadline',
+      'Low',
+      'None'
+    ]);
+  });
+
+  it('should return each todo with its tags', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Tagged', description: null },
+        { workspace_id: workspaceId, title: 'Untagged', description: null }
+      ])
+      .returning()
+      .execute();
+
+    const tags = await db.insert(tagsTable)
+      .values([{ workspace_id: workspaceId, name: 'work' }, { workspace_id: workspaceId, name: 'home' }])
+      .returning()
+      .execute();
+
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: tags[0].id },
+        { todo_id: todos[0].id, tag_id: tags[1].id }
+      ])
+      .execute();
+
+    const result = (await getTodos(workspaceId)).items;
+
+    const tagged = result.find(todo => todo.title === 'Tagged');
+    const untagged = result.find(todo => todo.title === 'Untagged');
+
+    expect(tagged?.tags.map(tag => tag.name)).toEqual(['home', 'work']);
+    expect(untagged?.tags).toEqual([]);
+  });
+
+  it('should filter by tags with any and all matching', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Work only', description: null },
+        { workspace_id: workspaceId, title: 'Work and urgent', description: null },
+        { workspace_id: workspaceId, title: 'Home only', description: null },
+        { workspace_id: workspaceId, title: 'No tags', description: null }
+      ])
+      .returning()
+      .execute();
+
+    const tags = await db.insert(tagsTable)
+      .values([{ workspace_id: workspaceId, name: 'work' }, { workspace_id: workspaceId, name: 'urgent' }, { workspace_id: workspaceId, name: 'home' }])
+      .returning()
+      .execute();
+
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: tags[0].id },
+        { todo_id: todos[1].id, tag_id: tags[0].id },
+        { todo_id: todos[1].id, tag_id: tags[1].id },
+        { todo_id: todos[2].id, tag_id: tags[2].id }
+      ])
+      .execute();
+
+    const anyResult = (await getTodos(workspaceId, { tags: ['work', 'home'] })).items;
+    expect(anyResult.map(todo => todo.title).sort()).toEqual(['Home only', 'Work and urgent', 'Work only']);
+
+    const allResult = (await getTodos(workspaceId, { tags: ['work', 'urgent'], tagMatch: 'all' })).items;
+    expect(allResult.map(todo => todo.title)).toEqual(['Work and urgent']);
+
+    // Filtered todos still come back with all of their tags
+    expect(allResult[0].tags.map(tag => tag.name)).toEqual(['urgent', 'work']);
+  });
+
+  it('should filter by project and inbox', async () => {
+    const project = (await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work' })
+      .returning()
+      .execute())[0];
+
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Project todo', description: null, project_id: project.id },
+        { workspace_id: workspaceId, title: 'Inbox todo', description: null }
+      ])
+      .execute();
+
+    const projectTodos = (await getTodos(workspaceId, { projectId: project.id })).items;
+    expect(projectTodos.map(todo => todo.title)).toEqual(['Project todo']);
+
+    const inboxTodos = (await getTodos(workspaceId, { projectId: null })).items;
+    expect(inboxTodos.map(todo => todo.title)).toEqual(['Inbox todo']);
+
+    const allTodos = (await getTodos(workspaceId, {})).items;
+    expect(allTodos).toHaveLength(2);
+  });
+
+  it('should return only top-level todos with subtask progress', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Open child', description: null, parent_id: parent.id },
+        { workspace_id: workspaceId, title: 'Done child', description: null, parent_id: parent.id, completed: true },
+        { workspace_id: workspaceId, title: 'Standalone', description: null }
+      ])
+      .execute();
+
+    const topLevel = (await getTodos(workspaceId, { topLevelOnly: true })).items;
+    expect(topLevel.map(todo => todo.title).sort()).toEqual(['Parent', 'Standalone']);
+
+    const parentItem = topLevel.find(todo => todo.title === 'Parent');
+    expect(parentItem?.child_count).toEqual(2);
+    expect(parentItem?.completed_child_count).toEqual(1);
+
+    const standalone = topLevel.find(todo => todo.title === 'Standalone');
+    expect(standalone?.child_count).toEqual(0);
+    expect(standalone?.completed_child_count).toEqual(0);
+
+    // Without the flag subtasks are listed too
+    const everything = (await getTodos(workspaceId, {})).items;
+    expect(everything).toHaveLength(4);
+  });
+
+  it('should filter by status', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Open', description: null, completed: false },
+        { workspace_id: workspaceId, title: 'Done', description: null, completed: true }
+      ])
+      .execute();
+
+    const active = await getTodos(workspaceId, { status: 'active' });
+    expect(active.items.map(todo => todo.title)).toEqual(['Open']);
+    expect(active.total).toEqual(1);
+
+    const completed = await getTodos(workspaceId, { status: 'completed' });
+    expect(completed.items.map(todo => todo.title)).toEqual(['Done']);
+
+    const all = await getTodos(workspaceId, { status: 'all' });
+    expect(all.total).toEqual(2);
+  });
+
+  it('should search title and description case-insensitively', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Buy MILK', description: null },
+        { workspace_id: workspaceId, title: 'Groceries', description: 'milk and eggs' },
+        { workspace_id: workspaceId, title: 'Call mom', description: null },
+        { workspace_id: workspaceId, title: '100% done', description: null }
+      ])
+      .execute();
+
+    const result = await getTodos(workspaceId, { q: 'milk' });
+    expect(result.items.map(todo => todo.title).sort()).toEqual(['Buy MILK', 'Groceries']);
+
+    // LIKE wildcards are matched literally
+    const percent = await getTodos(workspaceId, { q: '%' });
+    expect(percent.items.map(todo => todo.title)).toEqual(['100% done']);
+  });
+
+  it('should sort by title and due date in either direction', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Banana', description: null, due_at: new Date('2030-02-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Apple', description: null },
+        { workspace_id: workspaceId, title: 'Cherry', description: null, due_at: new Date('2030-01-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const byTitle = await getTodos(workspaceId, { sortBy: 'title' });
+    expect(byTitle.items.map(todo => todo.title)).toEqual(['Apple', 'Banana', 'Cherry']);
+
+    const byTitleDesc = await getTodos(workspaceId, { sortBy: 'title', sortDir: 'desc' });
+    expect(byTitleDesc.items.map(todo => todo.title)).toEqual(['Cherry', 'Banana', 'Apple']);
+
+    // Todos without a deadline come last
+    const byDue = await getTodos(workspaceId, { sortBy: 'due' });
+    expect(byDue.items.map(todo => todo.title)).toEqual(['Cherry', 'Banana', 'Apple']);
+  });
+
+  it('should paginate with a cursor until every todo was returned once', async () => {
+    // Identical timestamps force the id tie-breaker to keep pages stable
+    const createdAt = new Date('2030-01-01T00:00:00Z');
+    await db.insert(todosTable)
+      .values(Array.from({ length: 7 }, (_, index) => ({
+        workspace_id: workspaceId,
+        title: `Todo ${index}`,
+        description: null,
+        created_at: index < 4 ? createdAt : new Date(createdAt.getTime() + index)
+      })))
+      .execute();
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await getTodos(workspaceId, { limit: 3, cursor });
+      expect(page.total).toEqual(7);
+      expect(page.items.length).toBeLessThanOrEqual(3);
+      seen.push(...page.items.map(todo => todo.title));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toEqual(3);
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toEqual(7);
+    expect(seen.slice(0, 3)).toEqual(['Todo 6', 'Todo 5', 'Todo 4']);
+  });
+
+  it('should paginate priority ordering', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Urgent', description: null, priority: 'urgent' },
+        { workspace_id: workspaceId, title: 'High soon', description: null, priority: 'high', due_at: new Date('2030-01-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'High later', description: null, priority: 'high', due_at: new Date('2030-06-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'High no deadline', description: null, priority: 'high' },
+        { workspace_id: workspaceId, title: 'None', description: null }
+      ])
+      .execute();
+
+    const first = await getTodos(workspaceId, { sortBy: 'priority', limit: 2 });
+    const second = await getTodos(workspaceId, { sortBy: 'priority', limit: 2, cursor: first.nextCursor });
+    const third = await getTodos(workspaceId, { sortBy: 'priority', limit: 2, cursor: second.nextCursor });
+
+    expect([...first.items, ...second.items, ...third.items].map(todo => todo.title))
+      .toEqual(['Urgent', 'High soon', 'High later', 'High no deadline', 'None']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('should sort and paginate by manual position, newest first among equal positions', async () => {
+    // 'a' sorts after 'Z' byte by byte, but not in most locales
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Last', description: null, position: 'a' },
+        { workspace_id: workspaceId, title: 'First', description: null, position: '1' },
+        { workspace_id: workspaceId, title: 'Middle', description: null, position: 'Z' },
+        { workspace_id: workspaceId, title: 'Tied older', description: null, position: 'V', created_at: new Date('2030-01-01T00:00:00Z') },
+        { workspace_id: workspaceId, title: 'Tied newer', description: null, position: 'V', created_at: new Date('2030-01-02T00:00:00Z') }
+      ])
+      .execute();
+
+    const first = await getTodos(workspaceId, { sortBy: 'position', limit: 3 });
+    const second = await getTodos(workspaceId, { sortBy: 'position', limit: 3, cursor: first.nextCursor });
+
+    expect([...first.items, ...second.items].map(todo => todo.title))
+      .toEqual(['First', 'Tied newer', 'Tied older', 'Middle', 'Last']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(getTodos(workspaceId, { cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+  });
+
+  it('should leave out trashed todos', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Visible', description: null },
+        { workspace_id: workspaceId, title: 'Trashed', description: null, deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getTodos(workspaceId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Visible']);
+    expect(result.total).toEqual(1);
+  });
+
+  it('should only return todos in the workspace', async () => {
+    const otherWorkspace = await createTestWorkspace('Other workspace');
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Mine', description: null },
+        { workspace_id: otherWorkspace.id, title: 'Theirs', description: null }
+      ])
+      .execute();
+
+    const result = await getTodos(workspaceId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Mine']);
+    expect(result.total).toEqual(1);
+  });
+
+  describe('assignees', () => {
+    let adaId: number;
+    let bobId: number;
+
+    beforeEach(async () => {
+      adaId = (await createTestMember(workspaceId, 'ada@example.com')).id;
+      bobId = (await createTestMember(workspaceId, 'bob@example.com')).id;
+
+      const [adaTodo, sharedTodo] = await db.insert(todosTable)
+        .values([
+          { workspace_id: workspaceId, title: 'Ada only', description: null },
+          { workspace_id: workspaceId, title: 'Shared', description: null },
+          { workspace_id: workspaceId, title: 'Nobody', description: null }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(todoAssigneesTable)
+        .values([
+          { todo_id: adaTodo.id, user_id: adaId },
+          { todo_id: sharedTodo.id, user_id: bobId },
+          { todo_id: sharedTodo.id, user_id: adaId }
+        ])
+        .execute();
+    });
+
+    const titles = (result: { items: { title: string }[] }) => result.items.map(todo => todo.title).sort();
+
+    it('should return each todo with its assignees, sorted by name', async () => {
+      const result = await getTodos(workspaceId, { q: 'Shared' });
+
+      expect(result.items[0].assignees).toEqual([
+        { id: adaId, name: 'ada', email: 'ada@example.com' },
+        { id: bobId, name: 'bob', email: 'bob@example.com' }
+      ]);
+    });
+
+    it('should filter by assignee id', async () => {
+      expect(titles(await getTodos(workspaceId, { assignee: bobId }))).toEqual(['Shared']);
+    });
+
+    it('should resolve "me" to the signed-in user', async () => {
+      const result = await getTodos(workspaceId, { assignee: 'me' }, adaId);
+
+      expect(titles(result)).toEqual(['Ada only', 'Shared']);
+      expect(result.total).toEqual(2);
+    });
+
+    it('should find unassigned todos', async () => {
+      expect(titles(await getTodos(workspaceId, { assignee: 'unassigned' }))).toEqual(['Nobody']);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { createTodo } from '../handlers/create_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { purgeTodo } from '../handlers/purge_todo';
+import { getWorkspaceActivity } from '../handlers/get_workspace_activity';
+
+describe('getWorkspaceActivity', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list activity across the workspace\'s todos newest first', async () => {
+    await createTodo(workspaceId, { title: 'First', description: null });
+    await createTodo(workspaceId, { title: 'Second', description: null });
+    const other = await createTestWorkspace('Other workspace');
+    await createTodo(other.id, { title: 'Elsewhere', description: null });
+
+    const result = await getWorkspaceActivity(workspaceId);
+
+    expect(result.items.map(entry => entry.todo_title)).toEqual(['Second', 'First']);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should page with a cursor', async () => {
+    for (const title of ['One', 'Two', 'Three']) {
+      await createTodo(workspaceId, { title, description: null });
+    }
+
+    const first = await getWorkspaceActivity(workspaceId, { limit: 2 });
+    expect(first.items.map(entry => entry.todo_title)).toEqual(['Three', 'Two']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getWorkspaceActivity(workspaceId, { limit: 2, cursor: first.nextCursor });
+    expect(second.items.map(entry => entry.todo_title)).toEqual(['One']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should keep entries of purged todos', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Short-lived', description: null });
+    await deleteTodo(workspaceId, { id: todo.id });
+    await purgeTodo(workspaceId, { id: todo.id });
+
+    const result = await getWorkspaceActivity(workspaceId);
+
+    expect(result.items.map(entry => [entry.action, entry.todo_id])).toEqual([['deleted', null], ['created', null]]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'bun:test';
+import { inviteLink, signInviteToken, verifyInviteToken, type InviteClaims } from '../helpers/invites';
+
+const claims: InviteClaims = {
+  inviteId: 1,
+  workspaceId: 2,
+  role: 'editor',
+  email: 'ada@example.com',
+  expiresAt: new Date('2030-01-01T00:00:00Z')
+};
+
+describe('invite tokens', () => {
+  it('should round-trip the signed claims', () => {
+    expect(verifyInviteToken(signInviteToken(claims))).toEqual(claims);
+  });
+
+  it('should reject tokens whose claims were changed', () => {
+    const [, signature] = signInviteToken(claims).split('.');
+    const forged = Buffer.from(JSON.stringify({ i: 1, w: 2, r: 'owner', e: null, x: claims.expiresAt.getTime() })).toString('base64url');
+
+    expect(verifyInviteToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyInviteToken('')).toBeNull();
+    expect(verifyInviteToken('not-a-token')).toBeNull();
+    expect(verifyInviteToken(`${signInviteToken(claims)}.extra`)).toBeNull();
+  });
+
+  it('should put the token in the invite query parameter', () => {
+    const token = signInviteToken(claims);
+
+    expect(new URL(inviteLink(token)).searchParams.get('invite')).toEqual(token);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { createApiToken } from '../handlers/create_api_token';
+import { listApiTokens } from '../handlers/list_api_tokens';
+import { findApiTokenUser } from '../helpers/auth';
+
+describe('listApiTokens', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list the user\'s tokens without their secrets', async () => {
+    await createApiToken(userId, { name: 'First', scopes: ['read'] });
+    await createApiToken(userId, { name: 'Second', scopes: ['write'] });
+
+    const tokens = await listApiTokens(userId);
+
+    expect(tokens.map(token => token.name)).toEqual(['Second', 'First']);
+    expect(tokens[0]).not.toHaveProperty('token_hash');
+  });
+
+  it('should not list other users\' tokens', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await createApiToken(otherUser.id, { name: 'Theirs', scopes: ['read'] });
+
+    expect(await listApiTokens(userId)).toEqual([]);
+  });
+
+  it('should show when a token was last used', async () => {
+    const { secret } = await createApiToken(userId, { name: 'Used', scopes: ['read'] });
+    await findApiTokenUser(db, secret);
+
+    const tokens = await listApiTokens(userId);
+
+    expect(tokens[0].last_used_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable, type Todo } from '../db/schema';
+import { addComment } from '../handlers/add_comment';
+import { listComments } from '../handlers/list_comments';
+
+describe('listComments', () => {
+  let workspaceId: number;
+  let todo: Todo;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+  });
+  afterEach(resetDB);
+
+  it('should return the discussion oldest first', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const bob = await createTestMember(workspaceId, 'bob@example.com');
+    await addComment(workspaceId, ada.id, { todo_id: todo.id, body: 'Lisbon?' });
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: 'Porto!' });
+    await addComment(workspaceId, ada.id, { todo_id: todo.id, body: 'Fine by me' });
+
+    const comments = await listComments(workspaceId, { todo_id: todo.id });
+
+    expect(comments.map(comment => comment.body)).toEqual(['Lisbon?', 'Porto!', 'Fine by me']);
+    expect(comments.map(comment => comment.author.name)).toEqual(['ada', 'bob', 'ada']);
+  });
+
+  it('should only return comments on the given todo', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const otherTodo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Other', description: null })
+      .returning()
+      .execute())[0];
+    await addComment(workspaceId, ada.id, { todo_id: otherTodo.id, body: 'Elsewhere' });
+
+    expect(await listComments(workspaceId, { todo_id: todo.id })).toEqual([]);
+  });
+
+  it('should not list comments of other workspaces', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    await addComment(workspaceId, ada.id, { todo_id: todo.id, body: 'Lisbon?' });
+    const other = await createTestWorkspace('Other workspace');
+
+    expect(await listComments(other.id, { todo_id: todo.id })).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceInvitesTable } from '../db/schema';
+import { listInvites } from '../handlers/list_invites';
+
+describe('listInvites', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list pending invites of the workspace, newest first', async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const other = await createTestWorkspace('Other workspace');
+    await db.insert(workspaceInvitesTable)
+      .values([
+        { workspace_id: workspaceId, role: 'viewer', expires_at: expiresAt, created_at: new Date('2024-01-01T00:00:00Z') },
+        { workspace_id: workspaceId, role: 'editor', expires_at: expiresAt, created_at: new Date('2024-01-02T00:00:00Z') },
+        { workspace_id: workspaceId, role: 'owner', expires_at: expiresAt, accepted_at: new Date() },
+        { workspace_id: other.id, role: 'viewer', expires_at: expiresAt }
+      ])
+      .execute();
+
+    const result = await listInvites(workspaceId);
+
+    expect(result.map((invite) => invite.role)).toEqual(['editor', 'viewer']);
+  });
+});
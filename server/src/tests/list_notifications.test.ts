@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, todosTable, type Todo, type User } from '../db/schema';
+import { listNotifications } from '../handlers/list_notifications';
+import { addComment } from '../handlers/add_comment';
+import { eq } from 'drizzle-orm';
+
+describe('listNotifications', () => {
+  let workspaceId: number;
+  let ada: User;
+  let bob: User;
+  let todo: Todo;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ada = await createTestMember(workspaceId, 'ada@example.com');
+    bob = await createTestMember(workspaceId, 'bob@example.com');
+    todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+  });
+  afterEach(resetDB);
+
+  it('should list mentions newest first with who and where', async () => {
+    const first = await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada Lisbon?' });
+    const second = await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada or Porto?' });
+
+    const result = await listNotifications(workspaceId, ada.id);
+
+    expect(result.unread_count).toEqual(2);
+    expect(result.items.map(item => item.comment_id)).toEqual([second!.id, first!.id]);
+    expect(result.items[0]).toMatchObject({
+      type: 'mention',
+      actor: { id: bob.id, name: 'bob', email: 'bob@example.com' },
+      todo_id: todo.id,
+      todo_title: 'Plan the offsite',
+      read_at: null
+    });
+  });
+
+  it('should only list the user\'s own notifications in the workspace', async () => {
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada Lisbon?' });
+    const other = await createTestWorkspace('Other workspace');
+
+    expect((await listNotifications(workspaceId, bob.id)).items).toEqual([]);
+    expect(await listNotifications(other.id, ada.id)).toEqual({ items: [], unread_count: 0 });
+  });
+
+  it('should filter unread notifications and honour the limit', async () => {
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada one' });
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada two' });
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada three' });
+    const oldest = (await listNotifications(workspaceId, ada.id)).items[2];
+    await db.update(notificationsTable).set({ read_at: new Date() }).execute();
+    await db.update(notificationsTable).set({ read_at: null }).where(eq(notificationsTable.id, oldest.id)).execute();
+
+    const unread = await listNotifications(workspaceId, ada.id, { unreadOnly: true });
+    expect(unread.items.map(item => item.id)).toEqual([oldest.id]);
+    expect(unread.unread_count).toEqual(1);
+
+    const limited = await listNotifications(workspaceId, ada.id, { limit: 2 });
+    expect(limited.items).toHaveLength(2);
+    expect(limited.unread_count).toEqual(1);
+  });
+
+  it('should keep notifications whose actor is gone', async () => {
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada Lisbon?' });
+    await db.update(notificationsTable).set({ actor_id: null }).execute();
+
+    const result = await listNotifications(workspaceId, ada.id);
+
+    expect(result.items[0].actor).toBeNull();
+  });
+});
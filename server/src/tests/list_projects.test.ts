@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { projectsTable, todosTable } from '../db/schema';
+import { listProjects } from '../handlers/list_projects';
+
+describe('listProjects', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return no projects and an empty inbox initially', async () => {
+    const result = await listProjects(workspaceId, {});
+
+    expect(result.projects).toEqual([]);
+    expect(result.inbox).toEqual({ todo_count: 0, open_count: 0 });
+  });
+
+  it('should return projects in position order with todo counts', async () => {
+    const projects = await db.insert(projectsTable)
+      .values([
+        { workspace_id: workspaceId, name: 'Second', position: 1 },
+        { workspace_id: workspaceId, name: 'First', position: 0 }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Open', description: null, project_id: projects[0].id },
+        { workspace_id: workspaceId, title: 'Done', description: null, project_id: projects[0].id, completed: true },
+        { workspace_id: workspaceId, title: 'Inbox open', description: null },
+        { workspace_id: workspaceId, title: 'Inbox done', description: null, completed: true },
+        { workspace_id: workspaceId, title: 'Inbox open 2', description: null }
+      ])
+      .execute();
+
+    const result = await listProjects(workspaceId, {});
+
+    expect(result.projects.map(project => project.name)).toEqual(['First', 'Second']);
+
+    const second = result.projects.find(project => project.name === 'Second');
+    expect(second?.todo_count).toEqual(2);
+    expect(second?.open_count).toEqual(1);
+    expect(typeof second?.todo_count).toBe('number');
+
+    const first = result.projects.find(project => project.name === 'First');
+    expect(first?.todo_count).toEqual(0);
+    expect(first?.open_count).toEqual(0);
+
+    expect(result.inbox).toEqual({ todo_count: 3, open_count: 2 });
+  });
+
+  it('should hide archived projects unless requested', async () => {
+    await db.insert(projectsTable)
+      .values([
+        { workspace_id: workspaceId, name: 'Active' },
+        { workspace_id: workspaceId, name: 'Old', archived: true }
+      ])
+      .execute();
+
+    const active = await listProjects(workspaceId, {});
+    expect(active.projects.map(project => project.name)).toEqual(['Active']);
+
+    const all = await listProjects(workspaceId, { includeArchived: true });
+    expect(all.projects).toHaveLength(2);
+  });
+});
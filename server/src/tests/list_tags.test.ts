@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { listTags } from '../handlers/list_tags';
+
+describe('listTags', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return empty array when no tags exist', async () => {
+    const result = await listTags(workspaceId);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return tags in alphabetical order', async () => {
+    await db.insert(tagsTable)
+      .values([{ workspace_id: workspaceId, name: 'work' }, { workspace_id: workspaceId, name: 'errands' }, { workspace_id: workspaceId, name: 'home' }])
+      .execute();
+
+    const result = await listTags(workspaceId);
+
+    expect(result.map(tag => tag.name)).toEqual(['errands', 'home', 'work']);
+    result.forEach(tag => {
+      expect(tag.id).toBeDefined();
+      expect(tag.created_at).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { type User } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { listTodoRevisions } from '../handlers/list_todo_revisions';
+
+describe('listTodoRevisions', () => {
+  let workspaceId: number;
+  let ada: User;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ada = await createTestMember(workspaceId, 'ada@example.com');
+  });
+  afterEach(resetDB);
+
+  it('should return the revisions of a todo newest first', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Draft', description: null });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Final', description: 'Details' }, ada.id);
+
+    const result = await listTodoRevisions(workspaceId, { todo_id: todo.id });
+
+    expect(result.map(revision => [revision.title, revision.description])).toEqual([
+      ['Final', 'Details'],
+      ['Draft', null]
+    ]);
+    expect(result[0].author).toEqual({ id: ada.id, name: 'ada', email: 'ada@example.com' });
+    expect(result[1].author).toBeNull();
+  });
+
+  it('should be empty for todos that were never edited', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Untouched', description: null });
+
+    expect(await listTodoRevisions(workspaceId, { todo_id: todo.id })).toEqual([]);
+  });
+
+  it('should not show revisions of other workspaces', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Draft', description: null });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Final' });
+    const other = await createTestWorkspace('Other workspace');
+
+    expect(await listTodoRevisions(other.id, { todo_id: todo.id })).toEqual([]);
+  });
+});
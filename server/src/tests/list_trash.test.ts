@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { listTrash } from '../handlers/list_trash';
+import { deleteTodo } from '../handlers/delete_todo';
+
+describe('listTrash', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return an empty list when nothing was deleted', async () => {
+    await db.insert(todosTable).values({ workspace_id: workspaceId, title: 'Keep me', description: null }).execute();
+
+    expect(await listTrash(workspaceId)).toEqual([]);
+  });
+
+  it('should list deleted todos, most recent first', async () => {
+    const [first, second] = await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'First', description: null },
+        { workspace_id: workspaceId, title: 'Second', description: null }
+      ])
+      .returning()
+      .execute();
+
+    await deleteTodo(workspaceId, { id: first.id });
+    await deleteTodo(workspaceId, { id: second.id });
+
+    const trash = await listTrash(workspaceId);
+
+    expect(trash.map(todo => todo.title)).toEqual(['Second', 'First']);
+    expect(trash[0].deleted_at).toBeInstanceOf(Date);
+    expect(trash[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('should fold subtasks into the todo they were deleted with', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Grandchild', description: null, parent_id: child.id })
+      .execute();
+
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    const trash = await listTrash(workspaceId);
+
+    expect(trash).toHaveLength(1);
+    expect(trash[0].id).toEqual(parent.id);
+    expect(trash[0].subtask_count).toEqual(2);
+  });
+
+  it('should list a subtask deleted on its own separately', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+
+    await deleteTodo(workspaceId, { id: child.id });
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    const trash = await listTrash(workspaceId);
+
+    expect(trash.map(todo => todo.title)).toEqual(['Parent', 'Child']);
+    expect(trash.every(todo => todo.subtask_count === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { listWorkspaceMembers } from '../handlers/list_workspace_members';
+
+describe('listWorkspaceMembers', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list members with their names, emails and roles', async () => {
+    const owner = await createTestUser('owner@example.com');
+    const viewer = await createTestUser('viewer@example.com');
+    await db.insert(workspaceMembersTable)
+      .values([
+        { workspace_id: workspaceId, user_id: owner.id, role: 'owner' },
+        { workspace_id: workspaceId, user_id: viewer.id, role: 'viewer' }
+      ])
+      .execute();
+
+    const result = await listWorkspaceMembers(workspaceId);
+
+    expect(result).toHaveLength(2);
+    expect(result.map((member) => [member.email, member.role])).toEqual([
+      ['owner@example.com', 'owner'],
+      ['viewer@example.com', 'viewer']
+    ]);
+    expect(result[0].name).toEqual('owner');
+    expect(result[0]).not.toHaveProperty('password_hash');
+  });
+
+  it('should not list members of other workspaces', async () => {
+    const other = await createTestWorkspace('Other workspace');
+    const user = await createTestUser();
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: other.id, user_id: user.id, role: 'owner' })
+      .execute();
+
+    expect(await listWorkspaceMembers(workspaceId)).toEqual([]);
+  });
+});
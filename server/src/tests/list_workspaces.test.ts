@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { createWorkspace } from '../handlers/create_workspace';
+import { listWorkspaces } from '../handlers/list_workspaces';
+
+describe('listWorkspaces', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list the user\'s workspaces with their role in each', async () => {
+    const own = await createWorkspace(userId, { name: 'Mine' });
+    const shared = await createTestWorkspace('Shared');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: shared.id, user_id: userId, role: 'viewer' })
+      .execute();
+
+    const result = await listWorkspaces(userId);
+
+    expect(result.map((workspace) => [workspace.id, workspace.role])).toEqual([
+      [own.id, 'owner'],
+      [shared.id, 'viewer']
+    ]);
+  });
+
+  it('should leave out workspaces the user is not a member of', async () => {
+    await createTestWorkspace('Elsewhere');
+
+    expect(await listWorkspaces(userId)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { login } from '../handlers/login';
+import { register } from '../handlers/register';
+import { findSessionUser } from '../helpers/auth';
+
+describe('login', () => {
+  beforeEach(async () => {
+    await createDB();
+    await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+  });
+  afterEach(resetDB);
+
+  it('should sign in with the right password', async () => {
+    const result = await login({ email: 'ada@example.com', password: 'correct horse' });
+
+    expect(result.user.email).toEqual('ada@example.com');
+    expect(result.user).not.toHaveProperty('password_hash');
+
+    const sessionUser = await findSessionUser(db, result.session.token);
+    expect(sessionUser!.id).toEqual(result.user.id);
+  });
+
+  it('should give every sign-in its own session', async () => {
+    const first = await login({ email: 'ada@example.com', password: 'correct horse' });
+    const second = await login({ email: 'ada@example.com', password: 'correct horse' });
+
+    expect(first.session.token).not.toEqual(second.session.token);
+  });
+
+  it('should reject a wrong password', async () => {
+    await expect(login({ email: 'ada@example.com', password: 'wrong horse' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject an unknown email with the same message', async () => {
+    await expect(login({ email: 'nobody@example.com', password: 'correct horse' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+});
@@ -0,0 +1,24 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { logout } from '../handlers/logout';
+import { register } from '../handlers/register';
+import { findSessionUser } from '../helpers/auth';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should end the session', async () => {
+    const { session } = await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    const result = await logout(session.token);
+
+    expect(result).toBe(true);
+    expect(await findSessionUser(db, session.token)).toBeNull();
+  });
+
+  it('should return false for an unknown session', async () => {
+    expect(await logout('not-a-session')).toBe(false);
+  });
+});
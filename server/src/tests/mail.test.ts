@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { consoleTransport, fileTransport, getMailTransport, setMailTransport, type MailTransport } from '../helpers/mail';
+
+describe('mail transports', () => {
+  afterEach(() => setMailTransport(null));
+
+  it('should append messages to the outbox file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'mail-'));
+    try {
+      const transport = fileTransport(directory);
+      await transport.send({ to: 'ada@example.com', subject: 'First', text: 'Hello' });
+      await transport.send({ to: 'bob@example.com', subject: 'Second', text: 'Hi' });
+
+      const outbox = await readFile(join(directory, 'outbox.txt'), 'utf8');
+      expect(outbox).toContain('To: ada@example.com\nSubject: First');
+      expect(outbox).toContain('To: bob@example.com\nSubject: Second');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should default to the console and allow plugging in another transport', () => {
+    expect(getMailTransport()).toBe(consoleTransport);
+
+    const custom: MailTransport = { send: async () => {} };
+    setMailTransport(custom);
+    expect(getMailTransport()).toBe(custom);
+  });
+});
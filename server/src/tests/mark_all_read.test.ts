@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, todosTable, type Todo, type User } from '../db/schema';
+import { addComment } from '../handlers/add_comment';
+import { markAllRead } from '../handlers/mark_all_read';
+import { isNull } from 'drizzle-orm';
+
+describe('markAllRead', () => {
+  let workspaceId: number;
+  let ada: User;
+  let bob: User;
+  let todo: Todo;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ada = await createTestMember(workspaceId, 'ada@example.com');
+    bob = await createTestMember(workspaceId, 'bob@example.com');
+    todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+  });
+  afterEach(resetDB);
+
+  it('should mark every unread notification of the user as read', async () => {
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada one' });
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada two' });
+    await addComment(workspaceId, ada.id, { todo_id: todo.id, body: '@bob three' });
+
+    expect(await markAllRead(workspaceId, ada.id)).toEqual(2);
+
+    const unread = await db.select().from(notificationsTable).where(isNull(notificationsTable.read_at)).execute();
+    expect(unread.map(notification => notification.user_id)).toEqual([bob.id]);
+
+    expect(await markAllRead(workspaceId, ada.id)).toEqual(0);
+  });
+
+  it('should leave other workspaces alone', async () => {
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada one' });
+    const other = await createTestWorkspace('Other workspace');
+
+    expect(await markAllRead(other.id, ada.id)).toEqual(0);
+  });
+});
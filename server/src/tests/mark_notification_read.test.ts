@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { notificationsTable, todosTable, type User } from '../db/schema';
+import { addComment } from '../handlers/add_comment';
+import { markNotificationRead } from '../handlers/mark_notification_read';
+
+describe('markNotificationRead', () => {
+  let workspaceId: number;
+  let ada: User;
+  let bob: User;
+  let notificationId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ada = await createTestMember(workspaceId, 'ada@example.com');
+    bob = await createTestMember(workspaceId, 'bob@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan the offsite', description: null })
+      .returning()
+      .execute())[0];
+    await addComment(workspaceId, bob.id, { todo_id: todo.id, body: '@ada Lisbon?' });
+    notificationId = (await db.select().from(notificationsTable).execute())[0].id;
+  });
+  afterEach(resetDB);
+
+  it('should mark the notification as read, keeping the first read time', async () => {
+    await markNotificationRead(workspaceId, ada.id, { id: notificationId });
+
+    const saved = await db.select().from(notificationsTable).execute();
+    expect(saved[0].read_at).toBeInstanceOf(Date);
+
+    await markNotificationRead(workspaceId, ada.id, { id: notificationId });
+    const again = await db.select().from(notificationsTable).execute();
+    expect(again[0].read_at!.getTime()).toEqual(saved[0].read_at!.getTime());
+  });
+
+  it('should not touch other people\'s notifications', async () => {
+    await expect(markNotificationRead(workspaceId, bob.id, { id: notificationId })).rejects.toThrow(/not found/i);
+
+    const saved = await db.select().from(notificationsTable).execute();
+    expect(saved[0].read_at).toBeNull();
+  });
+});
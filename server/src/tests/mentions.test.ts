@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { mentionsTable, notificationsTable, todosTable, type Todo, type User } from '../db/schema';
+import { mentionHandles, parseMentions, syncMentions } from '../helpers/mentions';
+
+describe('mentions', () => {
+  describe('parseMentions', () => {
+    it('should find each handle once, lowercased', () => {
+      expect(parseMentions('@Ada can you check with @bob.smith and @ada?')).toEqual(['ada', 'bob.smith']);
+    });
+
+    it('should ignore email addresses and trailing punctuation', () => {
+      expect(parseMentions('Mail ada@example.com, or ask (@grace).')).toEqual(['grace']);
+    });
+
+    it('should return nothing for text without mentions', () => {
+      expect(parseMentions('Nothing to see @ all')).toEqual([]);
+    });
+  });
+
+  describe('mentionHandles', () => {
+    it('should offer the email name and the compacted display name', () => {
+      expect(mentionHandles({ name: 'Ada Lovelace', email: 'Countess@example.com' })).toEqual(['countess', 'adalovelace']);
+    });
+  });
+
+  describe('syncMentions', () => {
+    let workspaceId: number;
+    let actor: User;
+    let ada: User;
+    let todo: Todo;
+
+    beforeEach(async () => {
+      await createDB();
+      workspaceId = (await createTestWorkspace()).id;
+      actor = await createTestMember(workspaceId, 'actor@example.com');
+      ada = await createTestMember(workspaceId, 'ada@example.com');
+      todo = (await db.insert(todosTable)
+        .values({ workspace_id: workspaceId, title: 'Mentioned', description: null })
+        .returning()
+        .execute())[0];
+    });
+    afterEach(resetDB);
+
+    const sync = (text: string | null) =>
+      syncMentions(db, { workspaceId, todoId: todo.id, commentId: null, text, actorId: actor.id });
+
+    it('should record mentions of members and notify them', async () => {
+      await sync('Over to you @ada');
+
+      expect(await db.select({ user_id: mentionsTable.user_id }).from(mentionsTable).execute()).toEqual([{ user_id: ada.id }]);
+
+      const notifications = await db.select().from(notificationsTable).execute();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].user_id).toEqual(ada.id);
+      expect(notifications[0].actor_id).toEqual(actor.id);
+      expect(notifications[0].type).toEqual('mention');
+      expect(notifications[0].read_at).toBeNull();
+    });
+
+    it('should not notify anyone twice for the same text', async () => {
+      await sync('Over to you @ada');
+      await sync('Over to you @ada, thanks');
+
+      expect(await db.select().from(notificationsTable).execute()).toHaveLength(1);
+    });
+
+    it('should forget mentions that were removed from the text', async () => {
+      await sync('Over to you @ada');
+      await sync(null);
+
+      expect(await db.select().from(mentionsTable).execute()).toEqual([]);
+
+      // Mentioning them again is news
+      await sync('Actually, @ada');
+      expect(await db.select().from(notificationsTable).execute()).toHaveLength(2);
+    });
+
+    it('should ignore non-members and self-mentions', async () => {
+      await createTestUser('outsider@example.com');
+
+      await sync('@outsider and @actor');
+
+      expect(await db.select({ user_id: mentionsTable.user_id }).from(mentionsTable).execute()).toEqual([{ user_id: actor.id }]);
+      expect(await db.select().from(notificationsTable).execute()).toEqual([]);
+    });
+  });
+});
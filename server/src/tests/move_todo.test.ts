@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { moveTodo } from '../handlers/move_todo';
+import { getTodos } from '../handlers/get_todos';
+import { rebalanceCrowdedPositions } from '../helpers/positions';
+import { DomainError } from '../helpers/errors';
+import { eq } from 'drizzle-orm';
+
+let workspaceId: number;
+
+const createTestTodo = async (title: string, position: string, values: Partial<typeof todosTable.$inferInsert> = {}) => {
+  const result = await db.insert(todosTable)
+    .values({ workspace_id: workspaceId, title, description: null, position, ...values })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const manualOrder = async (): Promise<string[]> =>
+  (await getTodos(workspaceId, { sortBy: 'position' })).items.map((todo) => todo.title);
+
+describe('moveTodo', () => {
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move a todo between two others, changing only its own row', async () => {
+    const a = await createTestTodo('A', 'A');
+    const b = await createTestTodo('B', 'B');
+    const c = await createTestTodo('C', 'C');
+
+    const moved = await moveTodo(workspaceId, { id: c.id, beforeId: a.id, afterId: b.id });
+
+    expect(moved.position > 'A' && moved.position < 'B').toBe(true);
+    expect(moved.version).toEqual(c.version);
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+
+    const rows = await db.select().from(todosTable).execute();
+    expect(rows.find((row) => row.id === a.id)!.position).toEqual('A');
+    expect(rows.find((row) => row.id === b.id)!.position).toEqual('B');
+  });
+
+  it('should move a todo to the top or the bottom', async () => {
+    const a = await createTestTodo('A', 'A');
+    const b = await createTestTodo('B', 'B');
+    const c = await createTestTodo('C', 'C');
+
+    await moveTodo(workspaceId, { id: c.id, afterId: a.id });
+    expect(await manualOrder()).toEqual(['C', 'A', 'B']);
+
+    await moveTodo(workspaceId, { id: a.id, beforeId: c.id });
+    expect(await manualOrder()).toEqual(['C', 'A', 'B']);
+
+    await moveTodo(workspaceId, { id: c.id, beforeId: b.id });
+    expect(await manualOrder()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should place a todo right next to a single neighbour, not at the far end', async () => {
+    const a = await createTestTodo('A', 'A');
+    const b = await createTestTodo('B', 'B');
+    const c = await createTestTodo('C', 'C');
+    const d = await createTestTodo('D', 'D');
+
+    // Only the neighbour below is given, as when dropping into a filtered list
+    await moveTodo(workspaceId, { id: d.id, afterId: c.id });
+    expect(await manualOrder()).toEqual(['A', 'B', 'D', 'C']);
+
+    await moveTodo(workspaceId, { id: a.id, beforeId: b.id });
+    expect(await manualOrder()).toEqual(['B', 'A', 'D', 'C']);
+  });
+
+  it('should rebalance first when the neighbours share a position', async () => {
+    const older = await createTestTodo('Older', 'V', { created_at: new Date('2030-01-01T00:00:00Z') });
+    const newer = await createTestTodo('Newer', 'V', { created_at: new Date('2030-01-02T00:00:00Z') });
+    const moved = await createTestTodo('Moved', 'a');
+
+    // Ties show newest first, so Newer is above Older
+    await moveTodo(workspaceId, { id: moved.id, beforeId: newer.id, afterId: older.id });
+
+    expect(await manualOrder()).toEqual(['Newer', 'Moved', 'Older']);
+    const positions = (await db.select().from(todosTable).execute()).map((row) => row.position);
+    expect(new Set(positions).size).toEqual(3);
+  });
+
+  it('should reject neighbours given the wrong way round', async () => {
+    const a = await createTestTodo('A', 'A');
+    const b = await createTestTodo('B', 'B');
+    const c = await createTestTodo('C', 'C');
+
+    const error = await moveTodo(workspaceId, { id: c.id, beforeId: b.id, afterId: a.id }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('INVALID_INPUT');
+  });
+
+  it('should reject moving a todo next to itself', async () => {
+    const a = await createTestTodo('A', 'A');
+
+    const error = await moveTodo(workspaceId, { id: a.id, beforeId: a.id }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('INVALID_INPUT');
+  });
+
+  it('should reject todos that are missing, trashed or in another workspace', async () => {
+    const a = await createTestTodo('A', 'A');
+    const trashed = await createTestTodo('Trashed', 'B', { deleted_at: new Date() });
+    const otherWorkspace = await createTestWorkspace('Other');
+    const foreign = (await db.insert(todosTable)
+      .values({ workspace_id: otherWorkspace.id, title: 'Elsewhere', description: null })
+      .returning()
+      .execute())[0];
+
+    for (const input of [
+      { id: 99999, afterId: a.id },
+      { id: trashed.id, afterId: a.id },
+      { id: a.id, afterId: trashed.id },
+      { id: a.id, beforeId: foreign.id }
+    ]) {
+      const error = await moveTodo(workspaceId, input).catch((e) => e);
+      expect(error).toBeInstanceOf(DomainError);
+      expect(error.reason).toEqual('TODO_NOT_FOUND');
+    }
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, a.id)).execute();
+    expect(rows[0].position).toEqual('A');
+  });
+
+  it('should keep the order when crowded workspaces are rebalanced', async () => {
+    await createTestTodo('First', '1');
+    await createTestTodo('Long', 'V'.repeat(30));
+    await createTestTodo('Tied older', 'Z', { created_at: new Date('2030-01-01T00:00:00Z') });
+    await createTestTodo('Tied newer', 'Z', { created_at: new Date('2030-01-02T00:00:00Z') });
+    const before = await manualOrder();
+
+    expect(await rebalanceCrowdedPositions()).toEqual(1);
+
+    expect(await manualOrder()).toEqual(before);
+    const positions = (await db.select().from(todosTable).execute()).map((row) => row.position);
+    expect(positions.every((position) => position.length === 1)).toBe(true);
+    expect(new Set(positions).size).toEqual(4);
+
+    // Nothing left to do
+    expect(await rebalanceCrowdedPositions()).toEqual(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import { keyBetween, spreadKeys } from '../helpers/positions';
+
+describe('positions', () => {
+  describe('keyBetween', () => {
+    it('should start in the middle of an empty order', () => {
+      expect(keyBetween(null, null)).toEqual('V');
+    });
+
+    it('should find a key strictly between two others', () => {
+      for (const [before, after] of [['A', 'B'], ['V', 'W'], ['A', 'A1'], ['Az', 'B'], ['1', '12'], ['V', 'z']]) {
+        const key = keyBetween(before, after);
+        expect(key > before).toBe(true);
+        expect(key < after).toBe(true);
+      }
+    });
+
+    it('should go above the first and below the last key', () => {
+      expect(keyBetween(null, '1') < '1').toBe(true);
+      expect(keyBetween(null, '01') < '01').toBe(true);
+      expect(keyBetween('z', null) > 'z').toBe(true);
+      expect(keyBetween('zz', null) > 'zz').toBe(true);
+    });
+
+    it('should keep finding room when moving into the same gap over and over', () => {
+      let before = 'V';
+      let after = 'W';
+      for (let move = 0; move < 200; move++) {
+        const key = keyBetween(before, after);
+        expect(key > before && key < after).toBe(true);
+        expect(key.endsWith('0')).toBe(false);
+        if (move % 2 === 0) {
+          before = key;
+        } else {
+          after = key;
+        }
+      }
+    });
+
+    it('should only grow keys slowly when always moving to the top', () => {
+      let first = 'V';
+      for (let move = 0; move < 100; move++) {
+        first = keyBetween(null, first);
+      }
+      expect(first.length).toBeLessThan(20);
+    });
+
+    it('should reject neighbours in the wrong order', () => {
+      expect(() => keyBetween('B', 'A')).toThrow();
+      expect(() => keyBetween('V', 'V')).toThrow();
+    });
+  });
+
+  describe('spreadKeys', () => {
+    it('should return sorted, distinct keys of the same length at most', () => {
+      for (const count of [1, 2, 61, 62, 500, 5000]) {
+        const keys = spreadKeys(count);
+        expect(keys).toHaveLength(count);
+        expect(new Set(keys).size).toEqual(count);
+        expect([...keys].sort()).toEqual(keys);
+        expect(keys.every((key) => key.length > 0 && !key.endsWith('0'))).toBe(true);
+        expect(Math.max(...keys.map((key) => key.length))).toBeLessThanOrEqual(count < 62 ? 1 : 3);
+      }
+    });
+
+    it('should leave room around every key', () => {
+      const keys = spreadKeys(10);
+      expect(keyBetween(null, keys[0]) < keys[0]).toBe(true);
+      expect(keyBetween(keys[9], null) > keys[9]).toBe(true);
+      expect(keyBetween(keys[3], keys[4]).length).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB, createTestMember, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { type ApiTokenScope, type User } from '../schema';
+import { appRouter, createContext } from '../index';
+import { createApiToken } from '../handlers/create_api_token';
+import { createTodo } from '../handlers/create_todo';
+import { removeWorkspaceMember } from '../handlers/remove_workspace_member';
+import { logout } from '../handlers/logout';
+import { createSession } from '../helpers/auth';
+import { reasonOf } from '../helpers/errors';
+
+// A caller for a request with these headers, authenticated the same way as over HTTP
+const callerFor = async (headers: Record<string, string>) =>
+  appRouter.createCaller(await createContext({ req: { headers }, res: {}, info: { connectionParams: null } } as unknown as CreateHTTPContextOptions));
+
+// What the client would see as the error's code and data.reason
+const failure = async (call: Promise<unknown>) => {
+  const error = (await call.catch((e) => e)) as TRPCError;
+  expect(error).toBeInstanceOf(TRPCError);
+  return { code: error.code, reason: reasonOf(error) };
+};
+
+describe('procedures', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  const signedIn = async (user: User, token?: string) => {
+    const session = token ?? (await createSession(db, user.id)).token;
+    return callerFor({ cookie: `session=${session}`, 'x-workspace-id': String(workspaceId) });
+  };
+
+  const withToken = async (user: User, scopes: ApiTokenScope[]) => {
+    const { secret } = await createApiToken(user.id, { name: 'Script', scopes });
+    return callerFor({ authorization: `Bearer ${secret}`, 'x-workspace-id': String(workspaceId) });
+  };
+
+  it('should require signing in', async () => {
+    const caller = await callerFor({ 'x-workspace-id': String(workspaceId) });
+
+    expect(await failure(caller.getTodos())).toEqual({ code: 'UNAUTHORIZED', reason: 'SIGN_IN_REQUIRED' });
+  });
+
+  it('should keep users out of workspaces they are not a member of', async () => {
+    const caller = await signedIn(await createTestUser('outsider@example.com'));
+
+    expect(await failure(caller.getTodos())).toEqual({ code: 'FORBIDDEN', reason: 'NOT_A_MEMBER' });
+  });
+
+  it('should let viewers read but not write', async () => {
+    const caller = await signedIn(await createTestMember(workspaceId, 'viewer@example.com', 'viewer'));
+
+    expect((await caller.getTodos()).items).toEqual([]);
+    expect(await failure(caller.createTodo({ title: 'Not allowed', description: null })))
+      .toEqual({ code: 'FORBIDDEN', reason: 'ROLE_REQUIRED' });
+  });
+
+  it('should keep member management to owners', async () => {
+    const caller = await signedIn(await createTestMember(workspaceId, 'editor@example.com', 'editor'));
+
+    expect((await caller.createTodo({ title: 'Allowed', description: null })).todo.title).toEqual('Allowed');
+    expect(await failure(caller.listInvites())).toEqual({ code: 'FORBIDDEN', reason: 'ROLE_REQUIRED' });
+  });
+
+  it('should only let read-scope tokens run queries', async () => {
+    const caller = await withToken(await createTestMember(workspaceId, 'script@example.com', 'owner'), ['read']);
+
+    expect((await caller.getTodos()).items).toEqual([]);
+    expect(await failure(caller.createTodo({ title: 'Not allowed', description: null })))
+      .toEqual({ code: 'FORBIDDEN', reason: 'MISSING_SCOPE' });
+  });
+
+  it('should keep token management to admin-scope tokens', async () => {
+    const caller = await withToken(await createTestMember(workspaceId, 'script@example.com', 'owner'), ['write']);
+
+    expect(await failure(caller.listApiTokens())).toEqual({ code: 'FORBIDDEN', reason: 'MISSING_SCOPE' });
+  });
+
+  it('should reject unknown tokens', async () => {
+    const caller = await callerFor({ authorization: 'Bearer tdo_unknown', 'x-workspace-id': String(workspaceId) });
+
+    expect(await failure(caller.getTodos())).toEqual({ code: 'UNAUTHORIZED', reason: 'SIGN_IN_REQUIRED' });
+  });
+
+  describe('onTodoChanged', () => {
+    it('should stop sending events to a member once they are removed', async () => {
+      const member = await createTestMember(workspaceId, 'viewer@example.com', 'viewer');
+      const events = (await (await signedIn(member)).onTodoChanged())[Symbol.asyncIterator]();
+
+      const before = events.next();
+      await createTodo(workspaceId, { title: 'Shared', description: null });
+      expect((await before).value).toMatchObject({ type: 'created', todo: { title: 'Shared' } });
+
+      await removeWorkspaceMember(workspaceId, { user_id: member.id });
+      const after = failure(events.next());
+      await createTodo(workspaceId, { title: 'secret after removal', description: 'confidential' });
+
+      expect(await after).toEqual({ code: 'FORBIDDEN', reason: 'NOT_A_MEMBER' });
+    });
+
+    it('should stop sending events once the session ends', async () => {
+      const member = await createTestMember(workspaceId, 'viewer@example.com', 'viewer');
+      const session = await createSession(db, member.id);
+      const events = (await (await signedIn(member, session.token)).onTodoChanged())[Symbol.asyncIterator]();
+
+      await logout(session.token);
+      const after = failure(events.next());
+      await createTodo(workspaceId, { title: 'After logout', description: null });
+
+      expect(await after).toEqual({ code: 'UNAUTHORIZED', reason: 'SIGN_IN_REQUIRED' });
+    });
+  });
+});
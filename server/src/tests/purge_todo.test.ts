@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { purgeTodo } from '../handlers/purge_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+
+describe('purgeTodo', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should permanently delete a trashed todo and its subtasks', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .execute();
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    await purgeTodo(workspaceId, { id: parent.id });
+
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+  });
+
+  it('should refuse to purge todos that are not in the trash', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Not trashed', description: null })
+      .returning()
+      .execute())[0];
+
+    await expect(purgeTodo(workspaceId, { id: todo.id })).rejects.toThrow(/not found/i);
+    await expect(purgeTodo(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+    expect(await db.select().from(todosTable).execute()).toHaveLength(1);
+  });
+});
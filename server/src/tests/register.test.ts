@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { registerInputSchema } from '../schema';
+import { register } from '../handlers/register';
+import { listWorkspaces } from '../handlers/list_workspaces';
+import { findSessionUser } from '../helpers/auth';
+
+describe('register', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user and sign them in', async () => {
+    const result = await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    expect(result.user.email).toEqual('ada@example.com');
+    expect(result.user.name).toEqual('Ada');
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(result.session.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const sessionUser = await findSessionUser(db, result.session.token);
+    expect(sessionUser!.id).toEqual(result.user.id);
+  });
+
+  it('should give the new user a personal workspace they own', async () => {
+    const result = await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    const workspaces = await listWorkspaces(result.user.id);
+    expect(workspaces).toHaveLength(1);
+    expect(workspaces[0].name).toEqual('Personal');
+    expect(workspaces[0].role).toEqual('owner');
+  });
+
+  it('should store a password hash, never the password', async () => {
+    await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].password_hash).not.toContain('correct horse');
+    expect(users[0].password_hash).toStartWith('scrypt$');
+  });
+
+  it('should store only a hash of the session token', async () => {
+    const result = await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).not.toEqual(result.session.token);
+  });
+
+  it('should reject an email that is already registered', async () => {
+    await register({ email: 'ada@example.com', name: 'Ada', password: 'correct horse' });
+
+    await expect(register({ email: 'ada@example.com', name: 'Other Ada', password: 'battery staple' }))
+      .rejects.toThrow(/already registered/i);
+  });
+
+  it('should normalize emails and require a long enough password', () => {
+    const parsed = registerInputSchema.parse({ email: '  Ada@Example.COM ', name: 'Ada', password: 'correct horse' });
+    expect(parsed.email).toEqual('ada@example.com');
+
+    expect(registerInputSchema.safeParse({ email: 'ada@example.com', name: 'Ada', password: 'short' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todoAssigneesTable, todosTable, workspaceMembersTable } from '../db/schema';
+import { removeWorkspaceMember } from '../handlers/remove_workspace_member';
+
+describe('removeWorkspaceMember', () => {
+  let workspaceId: number;
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ownerId = (await createTestUser('owner@example.com')).id;
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: ownerId, role: 'owner' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should remove a member and keep the workspace\'s todos', async () => {
+    const editor = await createTestUser('editor@example.com');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: editor.id, role: 'editor' })
+      .execute();
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Shared todo', description: null })
+      .execute();
+
+    await removeWorkspaceMember(workspaceId, { user_id: editor.id });
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members.map((member) => member.user_id)).toEqual([ownerId]);
+    expect(await db.select().from(todosTable).execute()).toHaveLength(1);
+  });
+
+  it('should unassign the removed member from the workspace\'s todos', async () => {
+    const editor = await createTestUser('editor@example.com');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: editor.id, role: 'editor' })
+      .execute();
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Assigned', description: null })
+      .returning()
+      .execute())[0];
+    await db.insert(todoAssigneesTable)
+      .values([{ todo_id: todo.id, user_id: editor.id }, { todo_id: todo.id, user_id: ownerId }])
+      .execute();
+
+    await removeWorkspaceMember(workspaceId, { user_id: editor.id });
+
+    const assignees = await db.select().from(todoAssigneesTable).execute();
+    expect(assignees).toEqual([{ todo_id: todo.id, user_id: ownerId }]);
+  });
+
+  it('should refuse to remove the last owner', async () => {
+    await expect(removeWorkspaceMember(workspaceId, { user_id: ownerId }))
+      .rejects.toThrow(/at least one owner/i);
+
+    expect(await db.select().from(workspaceMembersTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject users who are not members', async () => {
+    const outsider = await createTestUser('outsider@example.com');
+
+    await expect(removeWorkspaceMember(workspaceId, { user_id: outsider.id })).rejects.toThrow(/not a member/i);
+  });
+});
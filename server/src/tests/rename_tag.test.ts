@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { renameTag } from '../handlers/rename_tag';
+import { eq } from 'drizzle-orm';
+
+describe('renameTag', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should rename an existing tag', async () => {
+    const inserted = await db.insert(tagsTable)
+      .values({ workspace_id: workspaceId, name: 'wrk' })
+      .returning()
+      .execute();
+
+    const result = await renameTag(workspaceId, { id: inserted[0].id, name: 'work' });
+
+    expect(result.id).toEqual(inserted[0].id);
+    expect(result.name).toEqual('work');
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, inserted[0].id))
+      .execute();
+
+    expect(tags[0].name).toEqual('work');
+  });
+
+  it('should reject a tag that does not exist', async () => {
+    await expect(renameTag(workspaceId, { id: 99999, name: 'anything' })).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject renaming to a name that is already taken', async () => {
+    const inserted = await db.insert(tagsTable)
+      .values([{ workspace_id: workspaceId, name: 'work' }, { workspace_id: workspaceId, name: 'home' }])
+      .returning()
+      .execute();
+
+    await expect(renameTag(workspaceId, { id: inserted[1].id, name: 'work' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { restoreTodo } from '../handlers/restore_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { getTodo } from '../handlers/get_todo';
+import { eq } from 'drizzle-orm';
+
+describe('restoreTodo', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should bring a deleted todo back', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Oops', description: 'Deleted by mistake' })
+      .returning()
+      .execute())[0];
+    await deleteTodo(workspaceId, { id: todo.id });
+
+    await expect(getTodo(workspaceId, { id: todo.id })).rejects.toThrow(/not found/i);
+
+    const result = await restoreTodo(workspaceId, { id: todo.id });
+
+    expect(result.title).toEqual('Oops');
+    expect(result.deleted_at).toBeNull();
+    expect(result).not.toHaveProperty('search_vector');
+    expect(await getTodo(workspaceId, { id: todo.id })).not.toBeNull();
+  });
+
+  it('should reject todos that are not in the trash', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Still here', description: null })
+      .returning()
+      .execute())[0];
+
+    await expect(restoreTodo(workspaceId, { id: todo.id })).rejects.toThrow(/not found/i);
+    await expect(restoreTodo(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should restore subtasks deleted together with the todo', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    await restoreTodo(workspaceId, { id: parent.id });
+
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(saved[0].deleted_at).toBeNull();
+    expect(saved[0].parent_id).toEqual(parent.id);
+  });
+
+  it('should leave subtasks deleted earlier in the trash', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await deleteTodo(workspaceId, { id: child.id });
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    await restoreTodo(workspaceId, { id: parent.id });
+
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(saved[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should restore a subtask as top-level when its parent is still trashed', async () => {
+    const parent = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Parent', description: null })
+      .returning()
+      .execute())[0];
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await deleteTodo(workspaceId, { id: child.id });
+    await deleteTodo(workspaceId, { id: parent.id });
+
+    const result = await restoreTodo(workspaceId, { id: child.id });
+
+    expect(result.parent_id).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestMember, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { activityTable, todosTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { listTodoRevisions } from '../handlers/list_todo_revisions';
+import { restoreTodoRevision } from '../handlers/restore_todo_revision';
+import { eq } from 'drizzle-orm';
+
+describe('restoreTodoRevision', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should put the title and description back', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const { todo } = await createTodo(workspaceId, { title: 'Plan trip', description: 'Long, careful notes' });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'oops', description: '' });
+    const original = (await listTodoRevisions(workspaceId, { todo_id: todo.id }))[1];
+
+    const result = await restoreTodoRevision(workspaceId, { id: original.id }, editor.id);
+
+    expect(result).toMatchObject({ id: todo.id, title: 'Plan trip', description: 'Long, careful notes' });
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+    expect(saved[0].title).toEqual('Plan trip');
+  });
+
+  it('should record the restore as a new revision and in the activity log', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const { todo } = await createTodo(workspaceId, { title: 'Plan trip', description: null });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'oops' });
+    const original = (await listTodoRevisions(workspaceId, { todo_id: todo.id }))[1];
+
+    await restoreTodoRevision(workspaceId, { id: original.id }, editor.id);
+
+    const revisions = await listTodoRevisions(workspaceId, { todo_id: todo.id });
+    expect(revisions.map(revision => revision.title)).toEqual(['Plan trip', 'oops', 'Plan trip']);
+    expect(revisions[0].author?.id).toEqual(editor.id);
+
+    const entries = await db.select().from(activityTable).where(eq(activityTable.action, 'updated')).execute();
+    expect(entries.map(entry => entry.changes)).toContainEqual({ title: { from: 'oops', to: 'Plan trip' } });
+  });
+
+  it('should reject missing revisions and trashed todos', async () => {
+    const { todo } = await createTodo(workspaceId, { title: 'Plan trip', description: null });
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'oops' });
+    const original = (await listTodoRevisions(workspaceId, { todo_id: todo.id }))[1];
+    const other = await createTestWorkspace('Other workspace');
+
+    await expect(restoreTodoRevision(workspaceId, { id: 99999 })).rejects.toThrow(/revision 99999 not found/i);
+    await expect(restoreTodoRevision(other.id, { id: original.id })).rejects.toThrow(/not found/i);
+
+    await deleteTodo(workspaceId, { id: todo.id });
+    await expect(restoreTodoRevision(workspaceId, { id: original.id })).rejects.toThrow(/todo .* not found/i);
+  });
+});
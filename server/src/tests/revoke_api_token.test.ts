@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { createApiToken } from '../handlers/create_api_token';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+import { findApiTokenUser } from '../helpers/auth';
+
+describe('revokeApiToken', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should stop the token from authenticating', async () => {
+    const { token, secret } = await createApiToken(userId, { name: 'Leaked', scopes: ['write'] });
+
+    await revokeApiToken(userId, { id: token.id });
+
+    expect(await findApiTokenUser(db, secret)).toBeNull();
+  });
+
+  it('should not revoke other users\' tokens', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const { token, secret } = await createApiToken(otherUser.id, { name: 'Theirs', scopes: ['read'] });
+
+    await expect(revokeApiToken(userId, { id: token.id })).rejects.toThrow(/not found/i);
+    expect(await findApiTokenUser(db, secret)).not.toBeNull();
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(revokeApiToken(userId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { createInvite } from '../handlers/create_invite';
+import { revokeInvite } from '../handlers/revoke_invite';
+import { acceptInvite } from '../handlers/accept_invite';
+import { type User } from '../db/schema';
+
+describe('revokeInvite', () => {
+  let workspaceId: number;
+  let owner: User;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    owner = await createTestUser('owner@example.com');
+  });
+  afterEach(resetDB);
+
+  it('should stop the link from working', async () => {
+    const { invite, link } = await createInvite(workspaceId, owner, { role: 'editor' });
+    const invitee = await createTestUser('ada@example.com');
+
+    await revokeInvite(workspaceId, { id: invite.id });
+
+    const token = new URL(link).searchParams.get('invite')!;
+    await expect(acceptInvite(invitee, { token })).rejects.toThrow(/already been used or was revoked/i);
+  });
+
+  it('should not revoke invites of other workspaces', async () => {
+    const other = await createTestWorkspace('Other workspace');
+    const { invite } = await createInvite(other.id, owner, { role: 'editor' });
+
+    await expect(revokeInvite(workspaceId, { id: invite.id })).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject accepted invites', async () => {
+    const { invite, link } = await createInvite(workspaceId, owner, { role: 'editor' });
+    await acceptInvite(await createTestUser('ada@example.com'), { token: new URL(link).searchParams.get('invite')! });
+
+    await expect(revokeInvite(workspaceId, { id: invite.id })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'bun:test';
+import { expandRRule, formatRRule, isValidRRule, isValidTimeZone, nextOccurrence, parseRRule } from '../helpers/rrule';
+
+// Formats occurrences as UTC dates for readable assertions
+const days = (dates: Date[]) => dates.map((date) => date.toISOString().slice(0, 10));
+
+describe('rrule', () => {
+  describe('parseRRule', () => {
+    it('should parse every supported part', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1MO,-1FR;UNTIL=20301231');
+
+      expect(rule.freq).toEqual('MONTHLY');
+      expect(rule.interval).toEqual(2);
+      expect(rule.count).toBeNull();
+      expect(rule.until).toEqual(new Date('2030-12-31T23:59:59.999Z'));
+      expect(rule.byDay).toEqual([{ day: 1, ordinal: 1 }, { day: 5, ordinal: -1 }]);
+    });
+
+    it('should default the interval to 1', () => {
+      const rule = parseRRule('FREQ=DAILY;COUNT=5');
+
+      expect(rule.interval).toEqual(1);
+      expect(rule.count).toEqual(5);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(isValidRRule('FREQ=HOURLY')).toBe(false);
+      expect(isValidRRule('INTERVAL=2')).toBe(false);
+      expect(isValidRRule('FREQ=DAILY;INTERVAL=0')).toBe(false);
+      expect(isValidRRule('FREQ=DAILY;COUNT=2;UNTIL=20300101')).toBe(false);
+      expect(isValidRRule('FREQ=WEEKLY;BYDAY=1MO')).toBe(false);
+      expect(isValidRRule('FREQ=WEEKLY;BYMONTH=1')).toBe(false);
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow(/Invalid RRULE/);
+    });
+
+    it('should round-trip through formatRRule', () => {
+      const value = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10';
+
+      expect(formatRRule(parseRRule(value))).toEqual(value);
+      expect(formatRRule(parseRRule('FREQ=YEARLY;UNTIL=20301231T120000Z'))).toEqual('FREQ=YEARLY;UNTIL=20301231T120000Z');
+    });
+  });
+
+  describe('expandRRule', () => {
+    it('should expand a daily rule with an interval', () => {
+      const start = new Date('2025-01-30T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=DAILY;INTERVAL=2'), start, 4);
+
+      expect(days(occurrences)).toEqual(['2025-01-30', '2025-02-01', '2025-02-03', '2025-02-05']);
+      expect(occurrences.every((date) => date.getUTCHours() === 9)).toBe(true);
+    });
+
+    it('should expand weekdays within each week', () => {
+      // 2025-01-01 is a Wednesday
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR'), start, 5);
+
+      expect(days(occurrences)).toEqual(['2025-01-01', '2025-01-03', '2025-01-06', '2025-01-08', '2025-01-10']);
+    });
+
+    it('should skip weeks according to the interval', () => {
+      const start = new Date('2025-01-06T09:00:00Z'); // Monday
+
+      const occurrences = expandRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'), start, 4);
+
+      expect(days(occurrences)).toEqual(['2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23']);
+    });
+
+    it('should skip months that lack the day of month', () => {
+      const start = new Date('2025-01-31T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=MONTHLY'), start, 4);
+
+      expect(days(occurrences)).toEqual(['2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31']);
+    });
+
+    it('should expand ordinal weekdays in a month', () => {
+      const start = new Date('2025-01-31T17:00:00Z'); // Last Friday of January
+
+      const occurrences = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'), start, 3);
+
+      expect(days(occurrences)).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+    });
+
+    it('should expand the first weekday of a month', () => {
+      const start = new Date('2025-01-06T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=1MO'), start, 3);
+
+      expect(days(occurrences)).toEqual(['2025-01-06', '2025-02-03', '2025-03-03']);
+    });
+
+    it('should only repeat February 29th in leap years', () => {
+      const start = new Date('2024-02-29T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=YEARLY'), start, 2);
+
+      expect(days(occurrences)).toEqual(['2024-02-29', '2028-02-29']);
+    });
+
+    it('should count the start as the first occurrence', () => {
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=DAILY;COUNT=3'), start, 10);
+
+      expect(days(occurrences)).toEqual(['2025-01-01', '2025-01-02', '2025-01-03']);
+    });
+
+    it('should stop at UNTIL', () => {
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      const occurrences = expandRRule(parseRRule('FREQ=WEEKLY;UNTIL=20250115'), start, 10);
+
+      expect(days(occurrences)).toEqual(['2025-01-01', '2025-01-08', '2025-01-15']);
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should return the occurrence after the start with a reduced count', () => {
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      const next = nextOccurrence(parseRRule('FREQ=WEEKLY;COUNT=3'), start);
+
+      expect(next!.date).toEqual(new Date('2025-01-08T09:00:00Z'));
+      expect(formatRRule(next!.rule)).toEqual('FREQ=WEEKLY;COUNT=2');
+    });
+
+    it('should skip occurrences up to the given time', () => {
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      const next = nextOccurrence(parseRRule('FREQ=DAILY;COUNT=10'), start, new Date('2025-01-04T12:00:00Z'));
+
+      expect(next!.date).toEqual(new Date('2025-01-05T09:00:00Z'));
+      expect(next!.rule.count).toEqual(6);
+    });
+
+    it('should return null once the series is exhausted', () => {
+      const start = new Date('2025-01-01T09:00:00Z');
+
+      expect(nextOccurrence(parseRRule('FREQ=DAILY;COUNT=1'), start)).toBeNull();
+      expect(nextOccurrence(parseRRule('FREQ=DAILY;UNTIL=20250103'), start, new Date('2025-01-03T10:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('in a time zone', () => {
+    // 23:59 in New York is already the next day in UTC (04:59, or 03:59 in summer)
+    const newYork = 'America/New_York';
+
+    it('should pick weekdays by the local day', () => {
+      const start = new Date('2025-01-16T04:59:00Z'); // Wednesday 23:59 in New York
+
+      const next = nextOccurrence(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE'), start, start, newYork);
+
+      expect(next!.date).toEqual(new Date('2025-01-21T04:59:00Z')); // Monday 23:59 in New York
+    });
+
+    it('should keep the local day of month', () => {
+      const start = new Date('2025-02-01T04:59:00Z'); // January 31st 23:59 in New York
+
+      const occurrences = expandRRule(parseRRule('FREQ=MONTHLY'), start, 3, newYork);
+
+      expect(occurrences).toEqual([
+        start,
+        new Date('2025-04-01T03:59:00Z'), // March 31st 23:59, daylight saving time
+        new Date('2025-06-01T03:59:00Z') // May 31st 23:59
+      ]);
+    });
+
+    it('should keep the local time of day across daylight saving changes', () => {
+      const start = new Date('2025-03-08T14:00:00Z'); // 9:00 in New York, the day before clocks go forward
+
+      const occurrences = expandRRule(parseRRule('FREQ=DAILY'), start, 3, newYork);
+
+      expect(occurrences.map((date) => date.toISOString())).toEqual([
+        '2025-03-08T14:00:00.000Z',
+        '2025-03-09T13:00:00.000Z',
+        '2025-03-10T13:00:00.000Z'
+      ]);
+    });
+
+    it('should count days east of UTC too', () => {
+      const start = new Date('2025-01-05T23:30:00Z'); // Monday 8:30 in Tokyo, still Sunday in UTC
+
+      const occurrences = expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,FR'), start, 3, 'Asia/Tokyo');
+
+      expect(days(occurrences)).toEqual(['2025-01-05', '2025-01-09', '2025-01-12']); // Mon, Fri, Mon in Tokyo
+    });
+
+    it('should only accept known time zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { searchTodos } from '../handlers/search_todos';
+import { parseSearchTerms } from '../helpers/search';
+
+describe('parseSearchTerms', () => {
+  it('should split words and quoted phrases', () => {
+    expect(parseSearchTerms('buy "weekly   report" milk')).toEqual({
+      words: ['buy', 'milk'],
+      phrases: ['weekly report']
+    });
+  });
+
+  it('should drop tsquery operators and punctuation', () => {
+    expect(parseSearchTerms("a & !b | c:* (d)")).toEqual({ words: ['a', 'b', 'c', 'd'], phrases: [] });
+    expect(parseSearchTerms('!!!')).toEqual({ words: [], phrases: [] });
+  });
+
+  it('should treat an unterminated quote as a phrase', () => {
+    expect(parseSearchTerms('"quarterly planning')).toEqual({ words: [], phrases: ['quarterly planning'] });
+  });
+});
+
+describe('searchTodos', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  const seedTodos = async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Prepare weekly report', description: 'Collect numbers from the sales team' },
+        { workspace_id: workspaceId, title: 'Buy groceries', description: 'Milk, eggs and a report on cheese prices' },
+        { workspace_id: workspaceId, title: 'Team meeting', description: 'Discuss the report weekly cadence' },
+        { workspace_id: workspaceId, title: 'Water plants', description: null }
+      ])
+      .execute();
+  };
+
+  it('should match multiple words with every word required', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: 'report weekly' });
+
+    expect(results.map(todo => todo.title).sort()).toEqual(['Prepare weekly report', 'Team meeting']);
+  });
+
+  it('should match word prefixes', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: 'meet' });
+
+    expect(results.map(todo => todo.title)).toEqual(['Team meeting']);
+  });
+
+  it('should match quoted phrases in order', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: '"weekly report"' });
+
+    expect(results.map(todo => todo.title)).toEqual(['Prepare weekly report']);
+  });
+
+  it('should rank title matches above description matches', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: 'report' });
+
+    expect(results).toHaveLength(3);
+    expect(results[0].title).toEqual('Prepare weekly report');
+    expect(results[0].rank).toBeGreaterThan(results[2].rank);
+  });
+
+  it('should return highlighted snippets', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: 'groceries milk' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].title_highlight).toEqual('Buy <mark>groceries</mark>');
+    expect(results[0].description_highlight).toContain('<mark>Milk</mark>');
+  });
+
+  it('should return tags and subtask counts like getTodos', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Plan vacation', description: null })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Book flights', description: null, parent_id: todo.id, completed: true })
+      .execute();
+    const tag = (await db.insert(tagsTable).values({ workspace_id: workspaceId, name: 'travel' }).returning().execute())[0];
+    await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+
+    const results = await searchTodos(workspaceId, { q: 'vacation' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].tags.map(t => t.name)).toEqual(['travel']);
+    expect(results[0].child_count).toEqual(1);
+    expect(results[0].completed_child_count).toEqual(1);
+    expect(results[0].description_highlight).toBeNull();
+    expect(results[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('should find todos after their text changes', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Old title', description: null })
+      .returning()
+      .execute())[0];
+
+    await db.update(todosTable).set({ title: 'Renamed entirely' }).execute();
+
+    expect(await searchTodos(workspaceId, { q: 'old' })).toHaveLength(0);
+    expect((await searchTodos(workspaceId, { q: 'renamed' }))[0].id).toEqual(todo.id);
+  });
+
+  it('should leave out archived todos unless asked for them', async () => {
+    await db.insert(todosTable)
+      .values([
+        { workspace_id: workspaceId, title: 'Current report', description: null },
+        { workspace_id: workspaceId, title: 'Archived report', description: null, archived_at: new Date() }
+      ])
+      .execute();
+
+    expect((await searchTodos(workspaceId, { q: 'report' })).map((todo) => todo.title)).toEqual(['Current report']);
+    expect(await searchTodos(workspaceId, { q: 'report', includeArchived: true })).toHaveLength(2);
+  });
+
+  it('should return nothing for input without searchable words', async () => {
+    await seedTodos();
+
+    expect(await searchTodos(workspaceId, { q: '&&' })).toEqual([]);
+  });
+
+  it('should respect the limit', async () => {
+    await seedTodos();
+
+    const results = await searchTodos(workspaceId, { q: 'report', limit: 2 });
+
+    expect(results).toHaveLength(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { setTodoTags } from '../handlers/set_todo_tags';
+import { eq } from 'drizzle-orm';
+
+describe('setTodoTags', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  const createFixtures = async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Test Todo', description: null })
+      .returning()
+      .execute())[0];
+
+    const tags = await db.insert(tagsTable)
+      .values([{ workspace_id: workspaceId, name: 'work' }, { workspace_id: workspaceId, name: 'home' }, { workspace_id: workspaceId, name: 'errands' }])
+      .returning()
+      .execute();
+
+    return { todo, tags };
+  };
+
+  it('should attach tags to a todo', async () => {
+    const { todo, tags } = await createFixtures();
+
+    const result = await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tags[0].id, tags[1].id] });
+
+    // Returned in alphabetical order
+    expect(result.map(tag => tag.name)).toEqual(['home', 'work']);
+
+    const links = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, todo.id))
+      .execute();
+    expect(links).toHaveLength(2);
+  });
+
+  it('should replace the previous set of tags', async () => {
+    const { todo, tags } = await createFixtures();
+
+    await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tags[0].id, tags[1].id] });
+    const result = await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tags[2].id] });
+
+    expect(result.map(tag => tag.name)).toEqual(['errands']);
+
+    const links = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, todo.id))
+      .execute();
+    expect(links).toHaveLength(1);
+    expect(links[0].tag_id).toEqual(tags[2].id);
+  });
+
+  it('should remove all tags when given an empty list', async () => {
+    const { todo, tags } = await createFixtures();
+
+    await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tags[0].id] });
+    const result = await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [] });
+
+    expect(result).toEqual([]);
+
+    const links = await db.select().from(todoTagsTable).execute();
+    expect(links).toHaveLength(0);
+  });
+
+  it('should throw for a non-existent todo', async () => {
+    const { tags } = await createFixtures();
+
+    await expect(setTodoTags(workspaceId, { todo_id: 99999, tag_ids: [tags[0].id] })).rejects.toThrow(/not found/i);
+  });
+
+  it('should throw for a non-existent tag and keep existing links', async () => {
+    const { todo, tags } = await createFixtures();
+
+    await setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [tags[0].id] });
+
+    await expect(setTodoTags(workspaceId, { todo_id: todo.id, tag_ids: [99999] })).rejects.toThrow(/not found/i);
+
+    const links = await db.select().from(todoTagsTable).execute();
+    expect(links).toHaveLength(1);
+  });
+});
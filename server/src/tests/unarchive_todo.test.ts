@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { unarchiveTodo } from '../handlers/unarchive_todo';
+import { getTodos } from '../handlers/get_todos';
+
+describe('unarchiveTodo', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  it('should put an archived todo back into the list', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Back again', description: null, completed: true, archived_at: new Date() })
+      .returning()
+      .execute())[0];
+
+    const result = await unarchiveTodo(workspaceId, { id: todo.id });
+
+    expect(result.archived_at).toBeNull();
+    expect(result.completed).toBe(true);
+    expect((await getTodos(workspaceId)).items.map(t => t.id)).toEqual([todo.id]);
+  });
+
+  it('should reject missing or trashed todos', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Trashed', description: null, archived_at: new Date(), deleted_at: new Date() })
+      .returning()
+      .execute())[0];
+
+    await expect(unarchiveTodo(workspaceId, { id: todo.id })).rejects.toThrow(/not found/i);
+    await expect(unarchiveTodo(workspaceId, { id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type UpdateProjectInput } from '../schema';
+import { updateProject } from '../handlers/update_project';
+import { eq } from 'drizzle-orm';
+
+describe('updateProject', () => {
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
+  afterEach(resetDB);
+
+  const createTestProject = async () => {
+    const result = await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work', color: '#22c55e', icon: '💼' })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should update provided fields only', async () => {
+    const project = await createTestProject();
+
+    const updateInput: UpdateProjectInput = {
+      id: project.id,
+      name: 'Office',
+      archived: true
+    };
+
+    const result = await updateProject(workspaceId, updateInput);
+
+    expect(result.name).toEqual('Office');
+    expect(result.archived).toEqual(true);
+    expect(result.color).toEqual('#22c55e'); // Unchanged
+    expect(result.icon).toEqual('💼'); // Unchanged
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(project.updated_at.getTime());
+  });
+
+  it('should clear the icon when set to null', async () => {
+    const project = await createTestProject();
+
+    const result = await updateProject(workspaceId, { id: project.id, icon: null, position: 3 });
+
+    expect(result.icon).toBeNull();
+    expect(result.position).toEqual(3);
+
+    const saved = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, project.id))
+      .execute();
+    expect(saved[0].icon).toBeNull();
+  });
+
+  it('should reject a project that does not exist', async () => {
+    await expect(updateProject(workspaceId, { id: 99999, name: 'Nothing' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -1,13 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestMember, createTestUser, createTestWorkspace } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { activityTable, notificationsTable, projectsTable, tagsTable, todoAssigneesTable, todoRevisionsTable, todosTable, todoTagsTable } from '../db/schema';
 import { type CreateTodoInput, type UpdateTodoInput } from '../schema';
 import { updateTodo } from '../handlers/update_todo';
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
+import { DomainError, TodoConflictError } from '../helpers/errors';
 
 describe('updateTodo', () => {
-  beforeEach(createDB);
+  let workspaceId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+  });
   afterEach(resetDB);
 
   // Helper function to create a test todo
@@ -17,6 +23,7 @@ describe('updateTodo', () => {
   }) => {
     const result = await db.insert(todosTable)
       .values({
+        workspace_id: workspaceId,
         title: todoData.title,
         description: todoData.description,
         completed: false
@@ -36,10 +43,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       title: 'Updated Title'
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     // Verify the result
     expect(result).not.toBeNull();
@@ -56,10 +64,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       description: 'Updated description'
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.title).toEqual(originalTodo.title); // Unchanged
@@ -72,10 +81,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       completed: true
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.title).toEqual(originalTodo.title); // Unchanged
@@ -88,12 +98,13 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       title: 'New Title',
       description: 'New description',
       completed: true
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.title).toEqual('New Title');
@@ -108,10 +119,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       description: null
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.description).toBeNull();
@@ -123,12 +135,14 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: nonExistentId,
+      version: 1,
       title: 'This should not work'
     };
 
-    const result = await updateTodo(updateInput);
+    const error = await updateTodo(workspaceId, updateInput).catch((e) => e);
 
-    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.reason).toEqual('TODO_NOT_FOUND');
   });
 
   it('should save changes to database', async () => {
@@ -136,11 +150,12 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       title: 'Database Updated Title',
       completed: true
     };
 
-    await updateTodo(updateInput);
+    await updateTodo(workspaceId, updateInput);
 
     // Verify the changes were persisted to the database
     const updatedTodoFromDB = await db.select()
@@ -162,12 +177,13 @@ describe('updateTodo', () => {
     // Wait to ensure timestamp difference
     await new Promise(resolve => setTimeout(resolve, 10));
 
-    // Update with only the ID (no field changes)
+    // Update with only the ID and version (no field changes)
     const updateInput: UpdateTodoInput = {
-      id: originalTodo.id
+      id: originalTodo.id,
+      version: originalTodo.version
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.updated_at).not.toEqual(originalUpdatedAt);
@@ -187,13 +203,453 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: originalTodo.id,
+      version: 1,
       title: 'Updated Title'
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(workspaceId, updateInput);
 
     expect(result).not.toBeNull();
     expect(result!.title).toEqual('Updated Title');
     expect(result!.description).toBeNull(); // Should remain null
   });
-});
\ No newline at end of file
+
+  it('should set and clear the due date', async () => {
+    const originalTodo = await createTestTodo();
+    const dueAt = new Date('2030-06-01T12:00:00Z');
+
+    const withDueDate = await updateTodo(workspaceId, {
+      id: originalTodo.id,
+      version: 1,
+      due_at: dueAt
+    });
+
+    expect(withDueDate).not.toBeNull();
+    expect(withDueDate!.due_at!.getTime()).toEqual(dueAt.getTime());
+    expect(withDueDate!.title).toEqual(originalTodo.title); // Unchanged
+
+    const cleared = await updateTodo(workspaceId, {
+      id: originalTodo.id,
+      version: 2,
+      due_at: null
+    });
+
+    expect(cleared).not.toBeNull();
+    expect(cleared!.due_at).toBeNull();
+  });
+
+  it('should keep the due date when it is not provided', async () => {
+    const dueAt = new Date('2030-06-01T12:00:00Z');
+    const inserted = await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Has deadline', description: null, due_at: dueAt })
+      .returning()
+      .execute();
+
+    const result = await updateTodo(workspaceId, {
+      id: inserted[0].id,
+      version: 1,
+      title: 'Renamed'
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.due_at!.getTime()).toEqual(dueAt.getTime());
+  });
+
+  it('should update priority only', async () => {
+    const originalTodo = await createTestTodo();
+
+    const result = await updateTodo(workspaceId, {
+      id: originalTodo.id,
+      version: 1,
+      priority: 'high'
+    });
+
+    expect(result).not.toBeNull();
+    expect(result!.priority).toEqual('high');
+    expect(result!.title).toEqual(originalTodo.title); // Unchanged
+  });
+
+  it('should move a todo between projects and back to the inbox', async () => {
+    const originalTodo = await createTestTodo();
+    const project = (await db.insert(projectsTable)
+      .values({ workspace_id: workspaceId, name: 'Work' })
+      .returning()
+      .execute())[0];
+
+    const moved = await updateTodo(workspaceId, { id: originalTodo.id, version: 1, project_id: project.id });
+    expect(moved!.project_id).toEqual(project.id);
+
+    const backToInbox = await updateTodo(workspaceId, { id: originalTodo.id, version: 2, project_id: null });
+    expect(backToInbox!.project_id).toBeNull();
+  });
+
+  it('should bump the version on every update', async () => {
+    const originalTodo = await createTestTodo();
+
+    const first = await updateTodo(workspaceId, { id: originalTodo.id, version: 1, title: 'First' });
+    const second = await updateTodo(workspaceId, { id: originalTodo.id, version: 2, priority: 'low' });
+
+    expect(originalTodo.version).toEqual(1);
+    expect(first!.version).toEqual(2);
+    expect(second!.version).toEqual(3);
+  });
+
+  it('should reject an update based on an old version with the current copy', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const originalTodo = await createTestTodo();
+    await updateTodo(workspaceId, { id: originalTodo.id, version: 1, title: 'Theirs', assignee_ids: [ada.id] });
+
+    const error = await updateTodo(workspaceId, { id: originalTodo.id, version: 1, title: 'Mine' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TodoConflictError);
+    expect(error.reason).toEqual('VERSION_CONFLICT');
+    expect(error.conflict.current).toMatchObject({ id: originalTodo.id, title: 'Theirs', version: 2, assignee_ids: [ada.id] });
+
+    // Nothing was written
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, originalTodo.id)).execute();
+    expect(saved[0]).toMatchObject({ title: 'Theirs', version: 2 });
+    expect(await db.select().from(activityTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject moving to a non-existent project', async () => {
+    const originalTodo = await createTestTodo();
+
+    await expect(updateTodo(workspaceId, { id: originalTodo.id, version: 1, project_id: 99999 })).rejects.toThrow(/not found/i);
+  });
+
+  it('should complete all subtasks when completeChildren is set', async () => {
+    const parent = await createTestTodo();
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    const grandchild = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Grandchild', description: null, parent_id: child.id })
+      .returning()
+      .execute())[0];
+
+    const result = await updateTodo(workspaceId, { id: parent.id, version: 1, completed: true, completeChildren: true });
+
+    expect(result!.completed).toEqual(true);
+
+    const subtasks = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.parent_id, parent.id))
+      .execute();
+    expect(subtasks[0].completed).toEqual(true);
+
+    const nested = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, grandchild.id))
+      .execute();
+    expect(nested[0].completed).toEqual(true);
+    expect(nested[0].version).toEqual(2);
+  });
+
+  it('should log the completion of each subtask it completes', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const parent = await createTestTodo();
+    const open = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Open child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Done child', description: null, parent_id: parent.id, completed: true })
+      .execute();
+
+    await updateTodo(workspaceId, { id: parent.id, version: 1, completed: true, completeChildren: true }, editor.id);
+
+    const entries = await db.select().from(activityTable).where(eq(activityTable.todo_id, open.id)).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ actor_id: editor.id, action: 'updated', todo_title: 'Open child' });
+    expect(entries[0].changes).toEqual({ completed: { from: false, to: true } });
+    expect(await db.select().from(activityTable).execute()).toHaveLength(2); // The parent and the open child
+  });
+
+  it('should leave subtasks alone without completeChildren', async () => {
+    const parent = await createTestTodo();
+    const child = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute())[0];
+
+    await updateTodo(workspaceId, { id: parent.id, version: 1, completed: true });
+
+    const saved = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, child.id))
+      .execute();
+    expect(saved[0].completed).toEqual(false);
+  });
+
+  it('should create the next occurrence when a recurring todo is completed', async () => {
+    const dueAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const original = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Standup prep', description: null, priority: 'high', due_at: dueAt, recurrence: 'FREQ=WEEKLY;COUNT=3' })
+      .returning()
+      .execute())[0];
+    const tag = (await db.insert(tagsTable).values({ workspace_id: workspaceId, name: 'work' }).returning().execute())[0];
+    await db.insert(todoTagsTable).values({ todo_id: original.id, tag_id: tag.id }).execute();
+
+    const result = await updateTodo(workspaceId, { id: original.id, version: 1, completed: true });
+
+    expect(result!.completed).toEqual(true);
+    expect(result!.recurrence).toEqual('FREQ=WEEKLY;COUNT=3');
+
+    const open = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.completed, false))
+      .execute();
+    expect(open).toHaveLength(1);
+    expect(open[0].title).toEqual('Standup prep');
+    expect(open[0].priority).toEqual('high');
+    expect(open[0].due_at).toEqual(new Date(dueAt.getTime() + 7 * 24 * 60 * 60 * 1000));
+    expect(open[0].recurrence).toEqual('FREQ=WEEKLY;COUNT=2');
+
+    const tags = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, open[0].id))
+      .execute();
+    expect(tags.map((link) => link.tag_id)).toEqual([tag.id]);
+  });
+
+  it('should put the next occurrence at the top and log its creation', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Weekly report', description: null, recurrence: 'FREQ=WEEKLY' })
+      .returning()
+      .execute())[0];
+    await db.insert(todosTable).values({ workspace_id: workspaceId, title: 'Other', description: null, position: 'K' }).execute();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, completed: true }, editor.id);
+
+    const next = (await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.completed, false))
+      .orderBy(asc(todosTable.position))
+      .execute())[0];
+    expect(next.title).toEqual('Weekly report');
+    expect(next.position < 'K').toBe(true);
+
+    const created = await db.select().from(activityTable).where(eq(activityTable.todo_id, next.id)).execute();
+    expect(created).toHaveLength(1);
+    expect(created[0]).toMatchObject({ actor_id: editor.id, action: 'created', todo_title: 'Weekly report' });
+    expect(created[0].changes).toMatchObject({ title: { from: null, to: 'Weekly report' }, recurrence: { from: null, to: 'FREQ=WEEKLY' } });
+  });
+
+  it('should schedule the next occurrence in the todo\'s time zone', async () => {
+    const todo = (await db.insert(todosTable)
+      .values({
+        workspace_id: workspaceId,
+        title: 'Gym',
+        description: null,
+        due_at: new Date('2030-01-17T04:59:00Z'), // Wednesday 23:59 in New York
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE',
+        time_zone: 'America/New_York'
+      })
+      .returning()
+      .execute())[0];
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, completed: true });
+
+    const next = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.completed, false))
+      .execute();
+    expect(next[0].due_at).toEqual(new Date('2030-01-22T04:59:00Z')); // Monday 23:59 in New York
+    expect(next[0].time_zone).toEqual('America/New_York');
+  });
+
+  it('should skip occurrences that passed while the todo was open', async () => {
+    const dueAt = new Date(Date.now() - 3.5 * 24 * 60 * 60 * 1000);
+    const original = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Water plants', description: null, due_at: dueAt, recurrence: 'FREQ=DAILY' })
+      .returning()
+      .execute())[0];
+
+    await updateTodo(workspaceId, { id: original.id, version: 1, completed: true });
+
+    const open = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.completed, false))
+      .execute();
+    expect(open).toHaveLength(1);
+    expect(open[0].due_at!.getTime()).toBeGreaterThan(Date.now());
+    expect(open[0].due_at!.getTime() - dueAt.getTime()).toEqual(4 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should stop recurring after the last occurrence', async () => {
+    const original = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Last one', description: null, due_at: new Date(), recurrence: 'FREQ=DAILY;COUNT=1' })
+      .returning()
+      .execute())[0];
+
+    await updateTodo(workspaceId, { id: original.id, version: 1, completed: true });
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(1);
+  });
+
+  it('should not create another occurrence when completing an already completed todo', async () => {
+    const original = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Done', description: null, completed: true, recurrence: 'FREQ=DAILY' })
+      .returning()
+      .execute())[0];
+
+    await updateTodo(workspaceId, { id: original.id, version: 1, completed: true });
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(1);
+  });
+
+  it('should set and clear the recurrence rule', async () => {
+    const originalTodo = await createTestTodo();
+
+    const repeating = await updateTodo(workspaceId, { id: originalTodo.id, version: 1, recurrence: 'FREQ=MONTHLY;BYDAY=-1FR' });
+    expect(repeating!.recurrence).toEqual('FREQ=MONTHLY;BYDAY=-1FR');
+
+    const cleared = await updateTodo(workspaceId, { id: originalTodo.id, version: 2, recurrence: null });
+    expect(cleared!.recurrence).toBeNull();
+  });
+
+  it('should record when a todo was completed and clear it when reopened', async () => {
+    const originalTodo = await createTestTodo();
+
+    const completed = await updateTodo(workspaceId, { id: originalTodo.id, version: 1, completed: true });
+    expect(completed!.completed_at).toBeInstanceOf(Date);
+
+    // Completing again keeps the original completion time
+    const again = await updateTodo(workspaceId, { id: originalTodo.id, version: 2, completed: true });
+    expect(again!.completed_at!.getTime()).toEqual(completed!.completed_at!.getTime());
+
+    const reopened = await updateTodo(workspaceId, { id: originalTodo.id, version: 3, completed: false });
+    expect(reopened!.completed_at).toBeNull();
+  });
+
+  it('should not update a todo in another workspace', async () => {
+    const otherWorkspace = await createTestWorkspace('Other workspace');
+    const theirs = (await db.insert(todosTable)
+      .values({ workspace_id: otherWorkspace.id, title: 'Theirs', description: null })
+      .returning()
+      .execute())[0];
+
+    await expect(updateTodo(workspaceId, { id: theirs.id, version: 1, title: 'Hijacked' })).rejects.toThrow(/not found/i);
+
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, theirs.id)).execute();
+    expect(saved[0].title).toEqual('Theirs');
+  });
+
+  it('should notify members newly mentioned in the description', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const bob = await createTestMember(workspaceId, 'bob@example.com');
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, description: 'Ask @ada' }, editor.id);
+    await updateTodo(workspaceId, { id: todo.id, version: 2, description: 'Ask @ada and @bob' }, editor.id);
+    await updateTodo(workspaceId, { id: todo.id, version: 3, title: 'Renamed' }, editor.id);
+
+    const notifications = await db.select().from(notificationsTable).execute();
+    expect(notifications.map(notification => notification.user_id).sort()).toEqual([ada.id, bob.id].sort());
+  });
+
+  it('should log a field-level diff of the change', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Renamed', completed: true, assignee_ids: [ada.id] }, editor.id);
+
+    const entries = await db.select().from(activityTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ todo_id: todo.id, actor_id: editor.id, action: 'updated', todo_title: 'Renamed' });
+    expect(entries[0].changes).toEqual({
+      title: { from: 'Test Todo', to: 'Renamed' },
+      completed: { from: false, to: true },
+      assignee_ids: { from: [], to: [ada.id] }
+    });
+  });
+
+  it('should not log updates that change nothing', async () => {
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: todo.title, assignee_ids: [] });
+
+    expect(await db.select().from(activityTable).execute()).toEqual([]);
+  });
+
+  it('should snapshot the previous and new text on the first title or description change', async () => {
+    const editor = await createTestMember(workspaceId, 'editor@example.com');
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, description: 'Rewritten' }, editor.id);
+    await updateTodo(workspaceId, { id: todo.id, version: 2, title: 'Renamed' }, editor.id);
+
+    const revisions = await db.select().from(todoRevisionsTable).orderBy(asc(todoRevisionsTable.id)).execute();
+    expect(revisions.map(revision => [revision.title, revision.description, revision.author_id])).toEqual([
+      ['Test Todo', 'Original description', null],
+      ['Test Todo', 'Rewritten', editor.id],
+      ['Renamed', 'Rewritten', editor.id]
+    ]);
+  });
+
+  it('should not snapshot updates that leave the title and description alone', async () => {
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, title: todo.title, completed: true, priority: 'high' });
+
+    expect(await db.select().from(todoRevisionsTable).execute()).toEqual([]);
+  });
+
+  it('should replace the assignees', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const bob = await createTestMember(workspaceId, 'bob@example.com');
+    const todo = await createTestTodo();
+
+    await updateTodo(workspaceId, { id: todo.id, version: 1, assignee_ids: [ada.id, bob.id] });
+    await updateTodo(workspaceId, { id: todo.id, version: 2, assignee_ids: [bob.id] });
+
+    const assignees = await db.select().from(todoAssigneesTable).execute();
+    expect(assignees).toEqual([{ todo_id: todo.id, user_id: bob.id }]);
+
+    await updateTodo(workspaceId, { id: todo.id, version: 3, assignee_ids: [] });
+    expect(await db.select().from(todoAssigneesTable).execute()).toEqual([]);
+  });
+
+  it('should keep the assignees when they are not provided', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = await createTestTodo();
+    await updateTodo(workspaceId, { id: todo.id, version: 1, assignee_ids: [ada.id] });
+
+    await updateTodo(workspaceId, { id: todo.id, version: 2, title: 'Renamed' });
+
+    expect(await db.select().from(todoAssigneesTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject assignees who are not workspace members', async () => {
+    const outsider = await createTestUser('outsider@example.com');
+    const todo = await createTestTodo();
+
+    await expect(updateTodo(workspaceId, { id: todo.id, version: 1, title: 'Changed', assignee_ids: [outsider.id] }))
+      .rejects.toThrow(/members of the workspace/i);
+
+    const saved = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+    expect(saved[0].title).toEqual('Test Todo');
+    expect(await db.select().from(todoAssigneesTable).execute()).toEqual([]);
+  });
+
+  it('should copy assignees to the next occurrence of a recurring todo', async () => {
+    const ada = await createTestMember(workspaceId, 'ada@example.com');
+    const todo = (await db.insert(todosTable)
+      .values({ workspace_id: workspaceId, title: 'Weekly review', description: null, recurrence: 'FREQ=WEEKLY' })
+      .returning()
+      .execute())[0];
+    await updateTodo(workspaceId, { id: todo.id, version: 1, assignee_ids: [ada.id] });
+
+    await updateTodo(workspaceId, { id: todo.id, version: 2, completed: true });
+
+    const assignees = await db.select().from(todoAssigneesTable).execute();
+    expect(assignees).toHaveLength(2);
+    expect(assignees.every((assignee) => assignee.user_id === ada.id)).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { updateWorkspaceMember } from '../handlers/update_workspace_member';
+
+describe('updateWorkspaceMember', () => {
+  let workspaceId: number;
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    workspaceId = (await createTestWorkspace()).id;
+    ownerId = (await createTestUser('owner@example.com')).id;
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: ownerId, role: 'owner' })
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should change a member\'s role', async () => {
+    const editor = await createTestUser('editor@example.com');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: editor.id, role: 'editor' })
+      .execute();
+
+    const result = await updateWorkspaceMember(workspaceId, { user_id: editor.id, role: 'viewer' });
+
+    expect(result.role).toEqual('viewer');
+    expect(result.email).toEqual('editor@example.com');
+  });
+
+  it('should let an owner step down once someone else owns the workspace', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: workspaceId, user_id: other.id, role: 'owner' })
+      .execute();
+
+    const result = await updateWorkspaceMember(workspaceId, { user_id: ownerId, role: 'editor' });
+
+    expect(result.role).toEqual('editor');
+  });
+
+  it('should refuse to demote the last owner', async () => {
+    await expect(updateWorkspaceMember(workspaceId, { user_id: ownerId, role: 'editor' }))
+      .rejects.toThrow(/at least one owner/i);
+
+    const members = await db.select().from(workspaceMembersTable).execute();
+    expect(members[0].role).toEqual('owner');
+  });
+
+  it('should reject users who are not members', async () => {
+    const outsider = await createTestUser('outsider@example.com');
+
+    await expect(updateWorkspaceMember(workspaceId, { user_id: outsider.id, role: 'owner' })).rejects.toThrow(/not a member/i);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test';
+import { diffWords } from '../helpers/word_diff';
+
+describe('diffWords', () => {
+  it('should mark identical texts as equal', () => {
+    expect(diffWords('Buy milk', 'Buy milk')).toEqual([{ type: 'equal', text: 'Buy milk' }]);
+  });
+
+  it('should mark replaced words as removed and added', () => {
+    expect(diffWords('Buy milk today', 'Buy oat milk tomorrow')).toEqual([
+      { type: 'equal', text: 'Buy ' },
+      { type: 'added', text: 'oat ' },
+      { type: 'equal', text: 'milk ' },
+      { type: 'removed', text: 'today' },
+      { type: 'added', text: 'tomorrow' }
+    ]);
+  });
+
+  it('should merge neighbouring changes of the same kind', () => {
+    expect(diffWords('a b c', 'x y z')).toEqual([
+      { type: 'removed', text: 'a b c' },
+      { type: 'added', text: 'x y z' }
+    ]);
+  });
+
+  it('should keep line breaks and other whitespace', () => {
+    const parts = diffWords('First line\nSecond line', 'First line\n\nSecond line');
+
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toEqual('First line\nSecond line');
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toEqual('First line\n\nSecond line');
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser, createTestWorkspace } from '../helpers';
+import { db } from '../db';
+import { workspaceMembersTable } from '../db/schema';
+import { findMembership, hasRole } from '../helpers/workspaces';
+
+describe('hasRole', () => {
+  it('should treat roles as cumulative', () => {
+    expect(hasRole('owner', 'editor')).toBe(true);
+    expect(hasRole('editor', 'viewer')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole('editor', 'owner')).toBe(false);
+  });
+});
+
+describe('findMembership', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return the user\'s role in the requested workspace', async () => {
+    const first = await createTestWorkspace('First');
+    const second = await createTestWorkspace('Second');
+    await db.insert(workspaceMembersTable)
+      .values([
+        { workspace_id: first.id, user_id: userId, role: 'owner' },
+        { workspace_id: second.id, user_id: userId, role: 'viewer' }
+      ])
+      .execute();
+
+    expect(await findMembership(db, userId, second.id)).toEqual({ id: second.id, role: 'viewer' });
+  });
+
+  it('should fall back to the first workspace the user joined', async () => {
+    const first = await createTestWorkspace('First');
+    const second = await createTestWorkspace('Second');
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: first.id, user_id: userId, role: 'editor', created_at: new Date('2024-01-01T00:00:00Z') })
+      .execute();
+    await db.insert(workspaceMembersTable)
+      .values({ workspace_id: second.id, user_id: userId, role: 'owner' })
+      .execute();
+
+    expect(await findMembership(db, userId, null)).toEqual({ id: first.id, role: 'editor' });
+  });
+
+  it('should return null for workspaces the user is not a member of', async () => {
+    const elsewhere = await createTestWorkspace('Elsewhere');
+
+    expect(await findMembership(db, userId, elsewhere.id)).toBeNull();
+  });
+});